@@ -2,7 +2,7 @@
 
 import { generateImageTo3D } from '@/lib/server/meshy';
 import { verifyToken } from '@/lib/server/auth';
-import { deductCredits, refundCredits } from '@/lib/server/credits';
+import { holdCredits, releaseCredits } from '@/lib/server/billing';
 import { createGeneration, updateGeneration } from '@/lib/server/firestore';
 import { cookies } from 'next/headers';
 
@@ -20,11 +20,7 @@ export async function generate3DAction(projectId: string, imageUrl: string) {
         if (!token) throw new Error('Unauthorized');
         userId = await verifyToken(token);
 
-        // 2. Deduct Credits (Atomic)
-        // This throws InsufficientCreditsError if balance is low
-        await deductCredits(userId, COST_PER_GENERATION);
-
-        // 3. Create Generation Record
+        // 2. Create Generation Record
         // We start with generation number 1 for now, or fetch count. 
         // Ideally we should fetch project to get next number, but for simplicity/speed we might rely on client or separate logic.
         // For robustness, let's just use a timestamp-based approach or random if number isn't critical for uniqueness, 
@@ -50,6 +46,11 @@ export async function generate3DAction(projectId: string, imageUrl: string) {
         );
         generationId = generation.id;
 
+        // 3. Hold Credits (Atomic)
+        // This throws InsufficientCreditsError if the available balance is low.
+        // The hold is captured when the webhook reports success and released on failure.
+        await holdCredits(userId, COST_PER_GENERATION, { generationId, projectId });
+
         // 4. Call Meshy API
         const taskId = await generateImageTo3D(imageUrl);
 
@@ -64,20 +65,12 @@ export async function generate3DAction(projectId: string, imageUrl: string) {
     } catch (error: any) {
         console.error('Generate 3D Action Error:', error);
 
-        // 6. Refund logic on failure
-        if (userId && error.message !== 'Insufficient credits') {
-            // Only refund if we actually deducted (which implies we passed step 2)
-            // And if we failed AFTER deduction.
-            // If error is InsufficientCreditsError, we didn't deduct.
-
-            // We need to know if deduction happened.
-            // If we are here, it might be because createGeneration failed or generateImageTo3D failed.
-            // In those cases, we MUST refund.
+        // 6. Release the hold on failure (a no-op if no hold was placed)
+        if (generationId) {
             try {
-                await refundCredits(userId, COST_PER_GENERATION);
-                console.log(`Refunded ${COST_PER_GENERATION} credits to ${userId}`);
-            } catch (refundError) {
-                console.error('CRITICAL: Failed to refund credits:', refundError);
+                await releaseCredits(generationId, 'failed');
+            } catch (releaseError) {
+                console.error('CRITICAL: Failed to release credit hold:', releaseError);
             }
         }
 
@@ -2,7 +2,7 @@
 
 import { generateTrellis3D } from '@/lib/server/replicate';
 import { verifyToken } from '@/lib/server/auth';
-import { deductCredits, refundCredits } from '@/lib/server/credits';
+import { holdCredits, releaseCredits } from '@/lib/server/billing';
 import { createGeneration, updateGeneration } from '@/lib/server/firestore';
 import { cookies } from 'next/headers';
 
@@ -20,10 +20,7 @@ export async function generateFloorplan3DAction(projectId: string, imageUrl: str
         if (!token) throw new Error('Unauthorized');
         userId = await verifyToken(token);
 
-        // 2. Deduct Credits (Atomic)
-        await deductCredits(userId, COST_PER_GENERATION);
-
-        // 3. Create Generation Record
+        // 2. Create Generation Record
         const generationNumber = Date.now();
 
         const generation = await createGeneration(
@@ -38,6 +35,11 @@ export async function generateFloorplan3DAction(projectId: string, imageUrl: str
         );
         generationId = generation.id;
 
+        // 3. Hold Credits (Atomic)
+        // This throws InsufficientCreditsError if the available balance is low.
+        // The hold is captured when the webhook reports success and released on failure.
+        await holdCredits(userId, COST_PER_GENERATION, { generationId, projectId });
+
         // 4. Call Replicate (Trellis) with Webhook
         // We need the base URL for the webhook
         // In production, this should be the actual domain. In dev, we might need a tunnel or just rely on polling if webhook fails.
@@ -61,13 +63,12 @@ export async function generateFloorplan3DAction(projectId: string, imageUrl: str
     } catch (error: any) {
         console.error('Generate Floorplan 3D Action Error:', error);
 
-        // 6. Refund logic on failure
-        if (userId && error.message !== 'Insufficient credits') {
+        // 6. Release the hold on failure (a no-op if no hold was placed)
+        if (generationId) {
             try {
-                await refundCredits(userId, COST_PER_GENERATION);
-                console.log(`Refunded ${COST_PER_GENERATION} credits to ${userId}`);
-            } catch (refundError) {
-                console.error('CRITICAL: Failed to refund credits:', refundError);
+                await releaseCredits(generationId, 'failed');
+            } catch (releaseError) {
+                console.error('CRITICAL: Failed to release credit hold:', releaseError);
             }
         }
 
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BillingError, secureCompare } from '@/lib/server/billing';
+import { backfillGenerationAssets, mirrorGenerationAssets, AssetError } from '@/lib/server/assets';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * POST /api/admin/backfill-assets
+ * Admin endpoint to copy provider outputs of existing generations into Storage
+ * Body: { admin_key: string, generation_id?: string, limit?: number, start_after?: string }
+ * Without generation_id, processes one page of completed generations; pass the returned
+ * next_cursor as start_after (or run `npm run backfill-assets`, which pages through them all).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { admin_key, generation_id, limit, start_after } = body;
+
+    // Validate inputs
+    if (!admin_key) {
+      return NextResponse.json(
+        { success: false, error: 'Admin key is required' },
+        { status: 400 }
+      );
+    }
+
+    const expectedAdminKey = process.env.ADMIN_API_KEY;
+    if (!expectedAdminKey) {
+      throw new BillingError('Admin API key not configured', 'ADMIN_KEY_NOT_CONFIGURED');
+    }
+
+    if (!secureCompare(admin_key, expectedAdminKey)) {
+      throw new BillingError('Invalid admin key', 'INVALID_ADMIN_KEY');
+    }
+
+    if (generation_id) {
+      const result = await mirrorGenerationAssets(generation_id);
+      return NextResponse.json({ success: true, checked: 1, results: [result] });
+    }
+
+    const { checked, results, nextCursor } = await backfillGenerationAssets({
+      limit: typeof limit === 'number' ? limit : undefined,
+      startAfter: typeof start_after === 'string' ? start_after : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      checked,
+      results,
+      next_cursor: nextCursor,
+    });
+  } catch (error: any) {
+    if (error instanceof BillingError || error instanceof AssetError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+
+    console.error('Admin backfill assets error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BillingError, secureCompare } from '@/lib/server/billing';
+import { upsertCreditPack, PricingError } from '@/lib/server/pricing';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/credit-packs
+ * Admin endpoint to create or replace a credit pack in the pricing catalog
+ * Body: {
+ *   admin_key: string,
+ *   pack_id: string,
+ *   pack: { name, description?, credits, bonus_credits?, prices: { INR: 400000 }, active?,
+ *           active_from?: ISO date, active_until?: ISO date, sort_order? }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { admin_key, pack_id, pack } = body;
+
+    // Validate inputs
+    if (!admin_key) {
+      return NextResponse.json(
+        { success: false, error: 'Admin key is required' },
+        { status: 400 }
+      );
+    }
+
+    const expectedAdminKey = process.env.ADMIN_API_KEY;
+    if (!expectedAdminKey) {
+      throw new BillingError('Admin API key not configured', 'ADMIN_KEY_NOT_CONFIGURED');
+    }
+
+    if (!secureCompare(admin_key, expectedAdminKey)) {
+      throw new BillingError('Invalid admin key', 'INVALID_ADMIN_KEY');
+    }
+
+    if (!pack || typeof pack !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'pack is required' },
+        { status: 400 }
+      );
+    }
+
+    await upsertCreditPack(pack_id, pack);
+
+    return NextResponse.json({
+      success: true,
+      pack_id,
+    });
+  } catch (error: any) {
+    if (error instanceof BillingError || error instanceof PricingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Admin credit packs error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
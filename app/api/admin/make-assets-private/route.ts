@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BillingError, secureCompare } from '@/lib/server/billing';
+import { makeUserFilesPrivate, StorageError } from '@/lib/server/storage';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * POST /api/admin/make-assets-private
+ * Admin endpoint to remove the public ACLs earlier versions put on stored files
+ * Body: { admin_key: string, limit?: number, page_token?: string }
+ * Processes one page of files under users/; pass the returned next_page_token as
+ * page_token (or run `npm run backfill-assets -- --make-private`, which pages through them all).
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { admin_key, limit, page_token } = body;
+
+    // Validate inputs
+    if (!admin_key) {
+      return NextResponse.json(
+        { success: false, error: 'Admin key is required' },
+        { status: 400 }
+      );
+    }
+
+    const expectedAdminKey = process.env.ADMIN_API_KEY;
+    if (!expectedAdminKey) {
+      throw new BillingError('Admin API key not configured', 'ADMIN_KEY_NOT_CONFIGURED');
+    }
+
+    if (!secureCompare(admin_key, expectedAdminKey)) {
+      throw new BillingError('Invalid admin key', 'INVALID_ADMIN_KEY');
+    }
+
+    const { checked, failed, nextPageToken } = await makeUserFilesPrivate({
+      limit: typeof limit === 'number' ? limit : undefined,
+      pageToken: typeof page_token === 'string' ? page_token : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      checked,
+      failed,
+      next_page_token: nextPageToken,
+    });
+  } catch (error: any) {
+    if (error instanceof BillingError || error instanceof StorageError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+
+    console.error('Admin make assets private error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
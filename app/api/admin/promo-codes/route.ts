@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BillingError, secureCompare } from '@/lib/server/billing';
+import { upsertPromoCode, PromoError } from '@/lib/server/promo';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/promo-codes
+ * Admin endpoint to create or replace a promo code
+ * Body: {
+ *   admin_key: string,
+ *   code: string,
+ *   promo: { type: 'percentage' | 'fixed' | 'bonus_credits' | 'free_credits', value, currency?,
+ *            description?, pack_ids?, max_redemptions?, max_redemptions_per_user?, active?,
+ *            starts_at?: ISO date, expires_at?: ISO date }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { admin_key, code, promo } = body;
+
+    // Validate inputs
+    if (!admin_key) {
+      return NextResponse.json(
+        { success: false, error: 'Admin key is required' },
+        { status: 400 }
+      );
+    }
+
+    const expectedAdminKey = process.env.ADMIN_API_KEY;
+    if (!expectedAdminKey) {
+      throw new BillingError('Admin API key not configured', 'ADMIN_KEY_NOT_CONFIGURED');
+    }
+
+    if (!secureCompare(admin_key, expectedAdminKey)) {
+      throw new BillingError('Invalid admin key', 'INVALID_ADMIN_KEY');
+    }
+
+    if (!promo || typeof promo !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'promo is required' },
+        { status: 400 }
+      );
+    }
+
+    const savedCode = await upsertPromoCode(code, promo);
+
+    return NextResponse.json({
+      success: true,
+      code: savedCode,
+    });
+  } catch (error: any) {
+    if (error instanceof BillingError || error instanceof PromoError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Admin promo codes error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
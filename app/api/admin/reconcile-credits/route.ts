@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BillingError, secureCompare } from '@/lib/server/billing';
+import { reconcileUserCredits, reconcileAllUserCredits, LedgerError } from '@/lib/server/ledger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/reconcile-credits
+ * Admin endpoint to recompute credit balances from the ledger and report drift
+ * Body: { admin_key: string, user_id?: string, repair?: boolean, limit?: number, start_after?: string }
+ * Without user_id, reconciles one page of users; pass the returned next_cursor as start_after.
+ * With repair: true, mismatched users.credits / reserved_credits are fixed from the ledger.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { admin_key, user_id, repair = false, limit, start_after } = body;
+
+    // Validate inputs
+    if (!admin_key) {
+      return NextResponse.json(
+        { success: false, error: 'Admin key is required' },
+        { status: 400 }
+      );
+    }
+
+    const expectedAdminKey = process.env.ADMIN_API_KEY;
+    if (!expectedAdminKey) {
+      throw new BillingError('Admin API key not configured', 'ADMIN_KEY_NOT_CONFIGURED');
+    }
+
+    if (!secureCompare(admin_key, expectedAdminKey)) {
+      throw new BillingError('Invalid admin key', 'INVALID_ADMIN_KEY');
+    }
+
+    if (user_id) {
+      const result = await reconcileUserCredits(user_id, { repair: repair === true });
+      return NextResponse.json({
+        success: true,
+        checked: 1,
+        mismatched: result.drift !== 0 || result.reserved_drift !== 0 ? [result] : [],
+      });
+    }
+
+    const { checked, mismatched, nextCursor } = await reconcileAllUserCredits({
+      repair: repair === true,
+      limit: typeof limit === 'number' ? limit : undefined,
+      startAfter: typeof start_after === 'string' ? start_after : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      checked,
+      mismatched,
+      next_cursor: nextCursor,
+    });
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof LedgerError) {
+      console.error('Admin reconcile credits ledger error:', error);
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: 500 }
+      );
+    }
+
+    console.error('Admin reconcile credits error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BillingError, secureCompare } from '@/lib/server/billing';
+import { upsertRenderStyle, RenderStyleError } from '@/lib/server/renderStyles';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/admin/render-styles
+ * Admin endpoint to create or replace an isometric render style for floorplans
+ * Body: {
+ *   admin_key: string,
+ *   style_id: string,
+ *   style: { name, description?, prompt, active?, sort_order? }
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { admin_key, style_id, style } = body;
+
+    // Validate inputs
+    if (!admin_key) {
+      return NextResponse.json(
+        { success: false, error: 'Admin key is required' },
+        { status: 400 }
+      );
+    }
+
+    const expectedAdminKey = process.env.ADMIN_API_KEY;
+    if (!expectedAdminKey) {
+      throw new BillingError('Admin API key not configured', 'ADMIN_KEY_NOT_CONFIGURED');
+    }
+
+    if (!secureCompare(admin_key, expectedAdminKey)) {
+      throw new BillingError('Invalid admin key', 'INVALID_ADMIN_KEY');
+    }
+
+    if (!style || typeof style !== 'object') {
+      return NextResponse.json(
+        { success: false, error: 'style is required' },
+        { status: 400 }
+      );
+    }
+
+    await upsertRenderStyle(style_id, style);
+
+    return NextResponse.json({
+      success: true,
+      style_id,
+    });
+  } catch (error: any) {
+    if (error instanceof BillingError || error instanceof RenderStyleError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Admin render styles error:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveCreditPackOffers, DEFAULT_CURRENCY } from '@/lib/server/pricing';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/credit-packs?currency=INR
+ * List the credit packs currently for sale, priced in the requested currency
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currency = (request.nextUrl.searchParams.get('currency') || DEFAULT_CURRENCY).toUpperCase();
+    const packs = await getActiveCreditPackOffers(currency);
+
+    const response = NextResponse.json({
+      success: true,
+      currency,
+      packs,
+    });
+    response.headers.set('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
+
+    return response;
+  } catch (error: any) {
+    console.error('Error fetching credit packs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch credit packs', detail: error.message },
+      { status: 500 }
+    );
+  }
+}
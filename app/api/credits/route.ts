@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
-import { getUserCredits } from '@/lib/server/billing';
+import { getCreditBalance } from '@/lib/server/billing';
 
 export const dynamic = 'force-dynamic';
 import { withCache, getCacheKey } from '@/lib/server/cache';
 
 /**
  * GET /api/credits
- * Get user's current credit balance
- * Cached for 30 seconds to reduce database load
+ * Get user's credit balance: available credits and credits reserved by in-flight generations
+ * `credits` is the available balance. Cached for 30 seconds to reduce database load
+ * (holds, captures and releases invalidate the cache).
  */
 export async function GET(request: NextRequest) {
   try {
@@ -16,16 +17,19 @@ export async function GET(request: NextRequest) {
 
     // Cache credits for 30 seconds
     const cacheKey = getCacheKey('credits', userId);
-    const credits = await withCache(
+    const { balance, reserved, available } = await withCache(
       cacheKey,
-      () => getUserCredits(userId),
+      () => getCreditBalance(userId),
       30000 // 30 seconds TTL
     );
 
     const response = NextResponse.json({
       success: true,
       user_id: userId,
-      credits,
+      credits: available,
+      available,
+      reserved,
+      balance,
     });
 
     // Add cache headers for client-side caching
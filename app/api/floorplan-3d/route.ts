@@ -1,19 +1,35 @@
 /* eslint-disable */
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
 import { FloorplanTo3DWorkflow } from '@/lib/workflows/floorplan3D';
 import { ValidationError } from '@/lib/server/validation';
+import { InsufficientCreditsError } from '@/lib/server/billing';
+import { dispatchJobs } from '@/lib/workflows/worker';
 
 export const dynamic = 'force-dynamic';
 
+const generateSchema = z.object({
+  prompt: z.string().max(1000, "Prompt is too long").optional(),
+  // Allow Data URIs or URLs
+  image_url: z.string().min(1, "image_url is required"),
+  // Mesh post-processing options, validated by the workflow
+  post_processing: z.record(z.string(), z.unknown()).optional(),
+  // Known length drawn on the plan, validated by the workflow
+  floorplan_scale: z.record(z.string(), z.unknown()).optional(),
+  // 'reconstruct' (default) or 'extrude', and the vector plan to extrude, validated by the workflow
+  floorplan_mode: z.string().optional(),
+  floorplan_layout: z.record(z.string(), z.unknown()).optional(),
+  // Render style ID from GET /api/render-styles, resolved by the workflow
+  render_style: z.string().optional(),
+});
+
 /**
  * POST /api/floorplan-3d
- * 
+ *
  * Generate a 3D model from floorplan image or prompt
  */
 export async function POST(request: NextRequest) {
-  return NextResponse.json({ status: 'ok' });
-  /*
   try {
     // Authenticate user
     const userId = await requireAuth(request);
@@ -28,9 +44,65 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
-    // ... (rest of the code)
+
+    // Validate body
+    const result = generateSchema.safeParse(body);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: result.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { prompt, image_url, post_processing, floorplan_scale, floorplan_mode, floorplan_layout, render_style } = result.data;
+
+    // Enqueue workflow; a job worker runs it and the client polls the generation
+    const workflow = new FloorplanTo3DWorkflow();
+    const { generationId, projectId } = await workflow.enqueue(userId, {
+      prompt,
+      imagePath: image_url,
+      postProcessing: post_processing,
+      floorplanScale: floorplan_scale,
+      floorplanMode: floorplan_mode,
+      floorplanLayout: floorplan_layout,
+      renderStyle: render_style,
+    });
+    dispatchJobs();
+
+    console.log('[Floorplan-3D API] Workflow queued:', { generationId, projectId });
+
+    return NextResponse.json({
+      status: 'pending',
+      generationId,
+      projectId,
+      generation_id: generationId,
+      project_id: projectId,
+    });
+
   } catch (error: any) {
-    // ...
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 402 }
+      );
+    }
+
+    // Handle auth errors
+    if (error.message === 'Unauthorized' || error.code === 'auth/id-token-expired') {
+      return createAuthErrorResponse(error);
+    }
+
+    console.error('Floorplan-3D API Error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
   }
-  */
 }
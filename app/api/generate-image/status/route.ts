@@ -1,13 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
-import Replicate from 'replicate';
+import { createReplicateClient } from '@/lib/server/vendors';
 
 export const dynamic = 'force-dynamic';
 
 // Initialize Replicate client
-const replicate = new Replicate({
-    auth: process.env.REPLICATE_API_TOKEN,
-});
+const replicate = createReplicateClient(process.env.REPLICATE_API_TOKEN);
 
 export async function GET(req: NextRequest) {
     try {
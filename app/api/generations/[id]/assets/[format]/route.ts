@@ -0,0 +1,92 @@
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
+import { getGeneration } from '@/lib/server/firestore';
+import { getSignedUrl } from '@/lib/server/storage';
+import { resolveGenerationAsset, AssetError } from '@/lib/server/assets';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/generations/[id]/assets/[format]
+ * Get a short-lived URL for one of a generation's files
+ * format: 'glb' | 'fbx' | 'obj' | 'usdz' | 'thumbnail' | 'image' | 'isometric' | 'floorplan' | 'preview_video' | ...
+ * Query: download=1 to make the URL save the file (optionally named with filename=<name>)
+ * Response: { url, expires_at, source } where source is 'storage' (signed URL) or 'vendor'
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; format: string }> }
+) {
+  try {
+    const userId = await requireAuth(request);
+    const { id: generationId, format } = await params;
+
+    if (!generationId || !format) {
+      return NextResponse.json(
+        { error: 'Generation ID and format are required' },
+        { status: 400 }
+      );
+    }
+
+    const generation = await getGeneration(generationId);
+    if (!generation) {
+      return NextResponse.json(
+        { error: 'Generation not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify ownership
+    if (generation.user_id !== userId) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const asset = resolveGenerationAsset(generation, format);
+    if (!asset) {
+      return NextResponse.json(
+        { error: `No ${format} file for this generation`, code: 'ASSET_NOT_FOUND' },
+        { status: 404 }
+      );
+    }
+
+    if (asset.source === 'vendor') {
+      return NextResponse.json({ url: asset.url, expires_at: null, source: 'vendor' });
+    }
+
+    const { searchParams } = new URL(request.url);
+    let downloadFilename: string | undefined;
+    if (searchParams.get('download') === '1') {
+      const extension = path.extname(asset.storagePath);
+      const baseName = searchParams.get('filename') || `generation_${generation.generation_number || generationId}`;
+      downloadFilename = baseName.endsWith(extension) ? baseName : `${baseName}${extension}`;
+    }
+
+    const { url, expiresAt } = await getSignedUrl(asset.storagePath, { downloadFilename });
+
+    return NextResponse.json(
+      { url, expires_at: expiresAt.toISOString(), source: 'storage' },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error: any) {
+    if (error.message?.includes('Authorization') || error.message?.includes('token')) {
+      return createAuthErrorResponse(error.message, 401);
+    }
+
+    if (error instanceof AssetError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'FOREIGN_ASSET' ? 403 : 400 }
+      );
+    }
+
+    console.error('Error signing generation asset URL:', error);
+    return NextResponse.json(
+      { error: 'Failed to get asset URL', detail: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
+import { cancelGeneration, CancelGenerationError } from '@/lib/workflows/cancel';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/generations/[id]/cancel
+ * Cancel a pending or in-progress generation
+ * Cancels the upstream provider task, releases the credit hold and refunds any credits already charged
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await requireAuth(request);
+    const generationId = (await params).id;
+
+    if (!generationId) {
+      return NextResponse.json(
+        { error: 'Generation ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const { generation, released, refunded, upstreamCancelled } = await cancelGeneration(generationId, userId);
+
+    return NextResponse.json({
+      id: generation.id,
+      status: generation.status,
+      released,
+      refunded,
+      upstream_cancelled: upstreamCancelled,
+    });
+  } catch (error: any) {
+    if (error.message?.includes('Authorization') || error.message?.includes('token')) {
+      return createAuthErrorResponse(error.message, 401);
+    }
+
+    if (error instanceof CancelGenerationError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error cancelling generation:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel generation', detail: error.message },
+      { status: 500 }
+    );
+  }
+}
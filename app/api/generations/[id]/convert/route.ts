@@ -0,0 +1,114 @@
+import path from 'path';
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
+import { getGeneration } from '@/lib/server/firestore';
+import { getSignedUrl } from '@/lib/server/storage';
+import { AssetError } from '@/lib/server/assets';
+import { GltfError } from '@/lib/server/gltf';
+import { convertGenerationModel, isConversionFormat, ConversionError, CONVERSION_FORMATS } from '@/lib/server/conversion';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 120;
+
+const ERROR_STATUS: Record<string, number> = {
+  UNSUPPORTED_FORMAT: 400,
+  NOT_READY: 409,
+  NO_STORAGE_PATH: 409,
+  ASSET_NOT_FOUND: 404,
+  EMPTY_MODEL: 422,
+  INVALID_GLB: 422,
+};
+
+/**
+ * POST /api/generations/[id]/convert
+ * Get the generation's model in another format, converting its GLB on first request
+ * Body: { format: 'obj' | 'stl' | 'ply' | 'usdz', filename?: string }
+ * Response: { format, url, expires_at, source, converted } - url downloads the file
+ * OBJ is delivered as a ZIP with its MTL and textures unless the provider supplied one.
+ * FBX is never converted; download the provider's file from the assets API instead.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await requireAuth(request);
+    const generationId = (await params).id;
+    const body = await request.json().catch(() => ({}));
+    const { format, filename } = body;
+
+    if (!generationId) {
+      return NextResponse.json(
+        { error: 'Generation ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (format === 'fbx') {
+      return NextResponse.json(
+        { error: 'FBX is not converted from GLB; it is only available when the provider supplied one' },
+        { status: 400 }
+      );
+    }
+
+    if (!isConversionFormat(format)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${CONVERSION_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const generation = await getGeneration(generationId);
+    if (!generation) {
+      return NextResponse.json(
+        { error: 'Generation not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify ownership
+    if (generation.user_id !== userId) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const { asset, converted } = await convertGenerationModel(generation, format);
+
+    if (asset.source === 'vendor') {
+      return NextResponse.json({ format, url: asset.url, expires_at: null, source: 'vendor', converted });
+    }
+
+    const extension = path.extname(asset.storagePath);
+    const baseName = typeof filename === 'string' && filename
+      ? filename
+      : `generation_${generation.generation_number || generationId}`;
+    const { url, expiresAt } = await getSignedUrl(asset.storagePath, {
+      downloadFilename: baseName.endsWith(extension) ? baseName : `${baseName}${extension}`,
+    });
+
+    return NextResponse.json(
+      { format, url, expires_at: expiresAt.toISOString(), source: 'storage', converted },
+      { headers: { 'Cache-Control': 'private, no-store' } }
+    );
+  } catch (error: any) {
+    // Checked first: parser messages can contain "token"
+    if (error instanceof ConversionError || error instanceof AssetError || error instanceof GltfError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: ERROR_STATUS[error.code || ''] || 500 }
+      );
+    }
+
+    if (error.message?.includes('Authorization') || error.message?.includes('token')) {
+      return createAuthErrorResponse(error.message, 401);
+    }
+
+    console.error('Error converting generation model:', error);
+    return NextResponse.json(
+      { error: 'Failed to convert model', detail: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
+import { getGeneration } from '@/lib/server/firestore';
+import { toFloorplanCsv } from '@/lib/server/floorplanExtraction';
+
+export const dynamic = 'force-dynamic';
+
+const LAYOUT_FORMATS = ['json', 'csv'] as const;
+
+/**
+ * GET /api/generations/[id]/layout?format=json|csv
+ * Download the rooms, doors and windows read from a floorplan generation's plan
+ * JSON is the full extraction (outlines are fractions of the plan image); CSV has one row per room and a total.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await requireAuth(request);
+    const generationId = (await params).id;
+    const format = request.nextUrl.searchParams.get('format') || 'json';
+
+    if (!generationId) {
+      return NextResponse.json(
+        { error: 'Generation ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!LAYOUT_FORMATS.includes(format as typeof LAYOUT_FORMATS[number])) {
+      return NextResponse.json(
+        { error: `format must be one of: ${LAYOUT_FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const generation = await getGeneration(generationId);
+    if (!generation) {
+      return NextResponse.json(
+        { error: 'Generation not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify ownership
+    if (generation.user_id !== userId) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const extraction = generation.output_data?.floorplan_extraction;
+    if (!extraction) {
+      return NextResponse.json(
+        { error: generation.output_data?.floorplan_extraction_error || 'No layout has been extracted for this generation' },
+        { status: 404 }
+      );
+    }
+
+    const filename = `floorplan_${generation.generation_number || generationId}_rooms.${format}`;
+    const headers = {
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'private, no-store',
+    };
+
+    if (format === 'csv') {
+      return new NextResponse(toFloorplanCsv(extraction), {
+        headers: { ...headers, 'Content-Type': 'text/csv; charset=utf-8' },
+      });
+    }
+
+    const extractedAt = (extraction.extracted_at as any)?.toDate?.();
+    return NextResponse.json(
+      {
+        generation_id: generationId,
+        ...extraction,
+        extracted_at: extractedAt ? extractedAt.toISOString() : null,
+      },
+      { headers }
+    );
+  } catch (error: any) {
+    if (error.message?.includes('Authorization') || error.message?.includes('token')) {
+      return createAuthErrorResponse(error.message, 401);
+    }
+
+    console.error('Error exporting floorplan layout:', error);
+    return NextResponse.json(
+      { error: 'Failed to export floorplan layout', detail: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
+import { getGeneration } from '@/lib/server/firestore';
+import { InsufficientCreditsError } from '@/lib/server/billing';
+import { ValidationError } from '@/lib/server/validation';
+import { TextTo3DWorkflow } from '@/lib/workflows/textTo3D';
+import { dispatchJobs } from '@/lib/workflows/worker';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/generations/[id]/refine
+ * Texture a completed untextured generation as a new child generation in the same project
+ * Body: { texture_prompt?: string, enable_pbr?: boolean } - enable_pbr defaults to true
+ * Response: { generationId, projectId, parentGenerationId, cost, status: 'pending' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await requireAuth(request);
+    const generationId = (await params).id;
+    const body = await request.json().catch(() => ({}));
+
+    if (!generationId) {
+      return NextResponse.json(
+        { error: 'Generation ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const generation = await getGeneration(generationId);
+    if (!generation) {
+      return NextResponse.json(
+        { error: 'Generation not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify ownership
+    if (generation.user_id !== userId) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    const workflow = new TextTo3DWorkflow();
+    const { generationId: childId, projectId, cost } = await workflow.enqueueRefine(userId, generation, {
+      texturePrompt: typeof body.texture_prompt === 'string' ? body.texture_prompt : undefined,
+      enablePbr: body.enable_pbr,
+    });
+    dispatchJobs();
+
+    return NextResponse.json({
+      generationId: childId,
+      projectId,
+      parentGenerationId: generationId,
+      cost,
+      status: 'pending',
+    });
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 402 }
+      );
+    }
+
+    if (error.message?.includes('Authorization') || error.message?.includes('token')) {
+      return createAuthErrorResponse(error.message, 401);
+    }
+
+    console.error('Error refining generation:', error);
+    return NextResponse.json(
+      { error: 'Failed to refine generation', detail: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -2,13 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
 import { getGeneration, updateGeneration } from '@/lib/server/firestore';
 import { syncGenerationWithMeshy } from '@/lib/server/meshy';
+import { inspectGenerationModelSafely } from '@/lib/server/inspection';
 
 export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
 
 /**
  * GET /api/generations/[id]
  * Get a specific generation by ID
- * Syncs with Meshy if necessary
+ * Syncs with Meshy if necessary, and computes output_data.model_stats for
+ * completed generations that don't have them yet
  */
 export async function GET(
   request: NextRequest,
@@ -60,6 +63,21 @@ export async function GET(
       }
     }
 
+    // Generations completed before inspection existed get their stats on first read
+    const output = generation?.output_data;
+    if (
+      generation?.status === 'completed' &&
+      output &&
+      (output.model_urls?.glb || output.model_url || output.assets?.glb) &&
+      !output.model_stats &&
+      !output.model_stats_error
+    ) {
+      const modelStats = await inspectGenerationModelSafely(generation);
+      if (modelStats) {
+        generation = { ...generation, output_data: { ...output, model_stats: modelStats } };
+      }
+    }
+
     return NextResponse.json(generation);
   } catch (error: any) {
     if (error.message?.includes('Authorization') || error.message?.includes('token')) {
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { secureCompare } from '@/lib/server/billing';
+import { drainJobs } from '@/lib/workflows/worker';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// Leave headroom under maxDuration; jobs still running at the deadline keep their lease
+// until it expires and are then resumed by the next run.
+const DRAIN_DEADLINE_MS = 240000;
+
+/**
+ * GET /api/jobs/run
+ * Cron endpoint that recovers expired leases and drains the job queue
+ * Header: Authorization: Bearer <CRON_SECRET>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json(
+        { success: false, error: 'Cron secret not configured' },
+        { status: 500 }
+      );
+    }
+
+    const authHeader = request.headers.get('authorization') || '';
+    const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : '';
+    if (!secureCompare(token, cronSecret)) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const result = await drainJobs({ deadlineMs: DRAIN_DEADLINE_MS });
+    console.log('[Jobs] Cron run finished:', result);
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('[Jobs] Cron run failed:', error);
+    return NextResponse.json(
+      { success: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
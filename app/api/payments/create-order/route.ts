@@ -1,15 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
-import Razorpay from 'razorpay';
 import { createPaymentOrder } from '@/lib/server/firestore';
+import { createRazorpayClient } from '@/lib/server/vendors';
+import { getCreditPackOffer, PricingError, DEFAULT_CURRENCY } from '@/lib/server/pricing';
+import { applyPromoCode, PromoError, type PromoQuote } from '@/lib/server/promo';
 import type { PaymentOrderDocument } from '@/types/firestore';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * POST /api/payments/create-order
- * Create a Razorpay order for credit purchase
- * Returns: order_id, amount, currency, key_id
+ * Create a Razorpay order for a credit pack from the pricing catalog
+ * Body: { pack_id: string, currency?: string, promo_code?: string }
+ * Returns: order_id, amount, currency, credits, key_id, plus the applied promo
  */
 export async function POST(request: NextRequest) {
   try {
@@ -25,16 +28,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Initialize Razorpay client
-    const razorpay = new Razorpay({
-      key_id: razorpayKeyId,
-      key_secret: razorpayKeySecret,
-    });
+    const body = await request.json().catch(() => ({}));
+    const { pack_id, currency: requestedCurrency, promo_code } = body;
+
+    if (!pack_id || typeof pack_id !== 'string') {
+      return NextResponse.json(
+        { error: 'pack_id is required' },
+        { status: 400 }
+      );
+    }
+
+    // Price the order from the catalog, never from the client
+    const offer = await getCreditPackOffer(
+      pack_id,
+      typeof requestedCurrency === 'string' ? requestedCurrency.toUpperCase() : DEFAULT_CURRENCY
+    );
+    const { currency } = offer;
+
+    // Apply the promo code, if any, to the catalog price
+    let promo: PromoQuote | null = null;
+    if (promo_code) {
+      promo = await applyPromoCode(promo_code, userId, offer);
+    }
+    const amount = promo ? promo.amount : offer.amount;
+    const credits = promo ? promo.credits : offer.total_credits;
 
-    // Create order: ₹4000 = 1,250 credits
-    const amount = 4000 * 100; // Amount in paise
-    const currency = 'INR';
-    const credits = 1250;
+    // Initialize Razorpay client
+    const razorpay = createRazorpayClient(razorpayKeyId, razorpayKeySecret);
 
     const orderData = {
       amount,
@@ -42,8 +62,10 @@ export async function POST(request: NextRequest) {
       receipt: `order_${userId}_${Date.now()}`,
       notes: {
         user_id: userId,
+        pack_id: offer.id,
         credits: credits.toString(),
-        description: 'Vi3W Credits Purchase',
+        ...(promo ? { promo_code: promo.code } : {}),
+        description: `Vi3W Credits Purchase: ${offer.name}`,
       },
     };
 
@@ -57,6 +79,16 @@ export async function POST(request: NextRequest) {
       amount,
       currency,
       credits,
+      pack_id: offer.id,
+      bonus_credits: offer.bonus_credits,
+      ...(promo
+        ? {
+          promo_code: promo.code,
+          original_amount: promo.original_amount,
+          discount_amount: promo.discount_amount,
+          promo_bonus_credits: promo.bonus_credits,
+        }
+        : {}),
       status: 'created',
     } as PaymentOrderDocument);
 
@@ -66,6 +98,16 @@ export async function POST(request: NextRequest) {
       order_id: order.id,
       amount,
       currency,
+      pack_id: offer.id,
+      credits,
+      promo: promo
+        ? {
+          code: promo.code,
+          original_amount: promo.original_amount,
+          discount_amount: promo.discount_amount,
+          bonus_credits: promo.bonus_credits,
+        }
+        : null,
       key_id: razorpayKeyId, // Frontend needs this for Razorpay checkout
     });
   } catch (error: any) {
@@ -73,6 +115,20 @@ export async function POST(request: NextRequest) {
       return createAuthErrorResponse(error.message, 401);
     }
 
+    if (error instanceof PricingError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'CATALOG_ERROR' ? 500 : 400 }
+      );
+    }
+
+    if (error instanceof PromoError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'APPLY_PROMO_ERROR' ? 500 : 400 }
+      );
+    }
+
     console.error('Payment order creation error:', error);
     return NextResponse.json(
       { error: 'Failed to create payment order', detail: error.message },
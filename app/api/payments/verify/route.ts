@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
 import crypto from 'crypto';
-import { getPaymentOrder, updatePaymentOrder } from '@/lib/server/firestore';
-import { grantCredits } from '@/lib/server/billing';
+import { getPaymentOrder } from '@/lib/server/firestore';
+import { fulfillPaymentOrder } from '@/lib/server/billing';
 
 export const dynamic = 'force-dynamic';
 
@@ -77,20 +77,16 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    const creditsToAdd = order.credits;
+    // Grant credits, record the purchase and complete the order atomically
+    // (the webhook may already have done it)
+    const { credits: creditsToAdd, alreadyProcessed } = await fulfillPaymentOrder(order_id, payment_id);
 
-    // Add credits to user account
-    await grantCredits(userId, creditsToAdd, {
-      orderId: order_id,
-      paymentId: payment_id,
-      type: 'purchase',
-    });
-
-    // Update order status
-    await updatePaymentOrder(order_id, {
-      status: 'completed',
-      payment_id: payment_id,
-    });
+    if (alreadyProcessed) {
+      return NextResponse.json({
+        success: true,
+        message: 'Payment already processed',
+      });
+    }
 
     console.log(`Payment verified and credits added: ${creditsToAdd} credits for user ${userId}`);
 
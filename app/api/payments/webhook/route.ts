@@ -1,15 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import crypto from 'crypto';
-import { getPaymentOrder, updatePaymentOrder, getFirestore } from '@/lib/server/firestore';
-import { grantCredits, BillingError } from '@/lib/server/billing';
-import admin from '@/lib/server/firebase-admin';
+import { getPaymentOrder, updatePaymentOrder } from '@/lib/server/firestore';
+import { fulfillPaymentOrder, clawbackPaymentOrder, reinstateDisputedOrder, BillingError } from '@/lib/server/billing';
 
 export const dynamic = 'force-dynamic';
 
 /**
  * Webhook event types from Razorpay
  */
-type RazorpayEvent = 'payment.captured' | 'payment.failed' | 'payment.authorized' | 'order.paid';
+type RazorpayEvent =
+  | 'payment.captured'
+  | 'payment.failed'
+  | 'payment.authorized'
+  | 'order.paid'
+  | 'refund.processed'
+  | 'payment.dispute.created'
+  | 'payment.dispute.under_review'
+  | 'payment.dispute.action_required'
+  | 'payment.dispute.won'
+  | 'payment.dispute.lost'
+  | 'payment.dispute.closed';
 
 /**
  * Payment status types
@@ -41,6 +51,24 @@ interface RazorpayWebhookPayload {
         currency: string;
       };
     };
+    refund?: {
+      entity: {
+        id: string;
+        payment_id: string;
+        amount: number;
+        currency: string;
+        status: string;
+      };
+    };
+    dispute?: {
+      entity: {
+        id: string;
+        amount: number;
+        currency: string;
+        status: string;                 // 'open' | 'under_review' | 'won' | 'lost' | 'closed'
+        reason_code?: string;
+      };
+    };
   };
   created_at: number;
 }
@@ -139,6 +167,8 @@ function logWebhookEvent(
  * - payment.captured: Payment successful, add credits
  * - payment.failed: Payment failed, update order status
  * - payment.authorized: Payment authorized (optional handling)
+ * - refund.processed: Payment refunded, claw back credits
+ * - payment.dispute.*: Payment disputed, claw back credits (given back if the dispute is won)
  * 
  * Features:
  * - Signature verification with timing-safe comparison
@@ -347,6 +377,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Process payment capture
+      // Credits come from the catalog pack snapshotted on the order (credits + bonus)
       try {
         const creditsToAdd = order.credits;
 
@@ -361,96 +392,27 @@ export async function POST(request: NextRequest) {
           );
         }
 
-        // Use Firestore transaction for atomicity
-        // First, get the order document ID (we need it for the transaction)
-        const db = getFirestore();
-        const orderQuery = await db
-          .collection('payment_orders')
-          .where('order_id', '==', orderId)
-          .limit(1)
-          .get();
-
-        if (orderQuery.empty) {
-          throw new Error('Order not found for transaction');
-        }
+        // Grant credits, record the purchase and complete the order atomically
+        const { alreadyProcessed } = await fulfillPaymentOrder(orderId, paymentId);
 
-        const orderDocRef = orderQuery.docs[0].ref;
-
-        await db.runTransaction(async (transaction) => {
-          // Re-read order in transaction to prevent race conditions
-          const orderDoc = await transaction.get(orderDocRef);
-
-          if (!orderDoc.exists) {
-            throw new Error('Order not found in transaction');
-          }
-
-          const orderData = orderDoc.data();
-
-          if (!orderData) {
-            throw new Error('Order data is empty');
-          }
-
-          // Double-check status hasn't changed
-          if (orderData.status === 'completed') {
-            logWebhookEvent('info', 'Order already completed in transaction (race condition handled)', {
-              orderId,
-            });
-            return; // Idempotent - already processed
-          }
-
-          // Add credits to user account
-          const userRef = db.collection('users').doc(order.user_id);
-          const userDoc = await transaction.get(userRef);
-
-          let currentCredits = 0;
-          if (userDoc.exists) {
-            currentCredits = userDoc.data()?.credits || 0;
-          }
-
-          const newCredits = currentCredits + creditsToAdd;
-
-          // Update user credits
-          if (userDoc.exists) {
-            transaction.update(userRef, {
-              credits: newCredits,
-              updated_at: admin.firestore.Timestamp.now(),
-            });
-          } else {
-            transaction.set(userRef, {
-              credits: creditsToAdd,
-              email: '',
-              created_at: admin.firestore.Timestamp.now(),
-              updated_at: admin.firestore.Timestamp.now(),
-            });
-          }
-
-          // Update order status
-          transaction.update(orderDocRef, {
-            status: 'completed',
-            payment_id: paymentId,
-            completed_at: admin.firestore.Timestamp.now(),
-            updated_at: admin.firestore.Timestamp.now(),
+        if (alreadyProcessed) {
+          logWebhookEvent('info', 'Order already completed in transaction (race condition handled)', {
+            orderId,
           });
-
-          // Create transaction record
-          const transactionRef = db.collection('transactions').doc();
-          transaction.set(transactionRef, {
-            user_id: order.user_id,
-            type: 'purchase',
-            amount: creditsToAdd,
-            status: 'completed',
-            razorpay_order_id: orderId,
-            razorpay_payment_id: paymentId,
-            created_at: admin.firestore.Timestamp.now(),
+          return NextResponse.json({
+            success: true,
+            message: 'Order already processed',
           });
-        });
+        }
 
         const processingTime = Date.now() - startTime;
         logWebhookEvent('info', 'Payment captured and credits added successfully', {
           orderId,
           paymentId,
           userId: order.user_id,
+          packId: order.pack_id,
           creditsAdded: creditsToAdd,
+          bonusCredits: order.bonus_credits || 0,
           processingTimeMs: processingTime,
         });
 
@@ -504,7 +466,7 @@ export async function POST(request: NextRequest) {
         });
       }
 
-      if (order.status === 'completed') {
+      if (order.status === 'completed' || order.status === 'refunded' || order.status === 'disputed') {
         logWebhookEvent('warn', 'Attempting to fail a completed order', {
           orderId,
           paymentId,
@@ -534,6 +496,87 @@ export async function POST(request: NextRequest) {
         orderId,
         paymentId,
       });
+    } else if (event === 'refund.processed' || event.startsWith('payment.dispute.')) {
+      // Refund or dispute - claw back the credits the order granted (idempotent)
+      const refund = payload.payload.refund?.entity;
+      const dispute = payload.payload.dispute?.entity;
+      const source = event === 'refund.processed' ? refund : dispute;
+
+      if (!source?.id || !Number.isInteger(source.amount)) {
+        logWebhookEvent('error', 'Missing refund/dispute entity in webhook payload', {
+          event,
+          orderId,
+          paymentId,
+        });
+        return NextResponse.json(
+          { error: 'Missing refund or dispute in webhook payload' },
+          { status: 400 }
+        );
+      }
+
+      try {
+        // Disputes are clawed back when first seen; later events only update their status
+        const result = event === 'payment.dispute.won'
+          ? await reinstateDisputedOrder(orderId, source.id)
+          : await clawbackPaymentOrder(orderId, {
+            reason: event === 'refund.processed' ? 'refund' : 'dispute',
+            sourceId: source.id,
+            amount: source.amount,
+            disputeStatus: dispute?.status,
+          });
+
+        logWebhookEvent(result.balance < 0 ? 'warn' : 'info', result.alreadyProcessed
+          ? 'Refund/dispute already processed (idempotent)'
+          : 'Refund/dispute processed and credits adjusted', {
+          event,
+          orderId,
+          paymentId,
+          sourceId: source.id,
+          userId: result.userId,
+          credits: result.credits,
+          balance: result.balance,
+          processingTimeMs: Date.now() - startTime,
+        });
+
+        return NextResponse.json({
+          success: true,
+          message: result.alreadyProcessed
+            ? 'Event already processed'
+            : `${event === 'payment.dispute.won' ? 'Reinstated' : 'Clawed back'} ${result.credits} credits`,
+          orderId,
+          paymentId,
+        });
+      } catch (error: any) {
+        if (error instanceof BillingError && error.code === 'ORDER_NOT_COMPLETED') {
+          // Nothing was granted for this order, so there's nothing to claw back
+          logWebhookEvent('warn', 'Refund/dispute for an order that was never completed', {
+            event,
+            orderId,
+            paymentId,
+            orderStatus: order.status,
+          });
+          return NextResponse.json({
+            success: true,
+            message: 'Order was not completed, nothing to claw back',
+          });
+        }
+
+        if (error instanceof BillingError) {
+          logWebhookEvent('error', 'Billing error during credit clawback', {
+            event,
+            orderId,
+            paymentId,
+            error: error.message,
+            code: error.code,
+          });
+          return NextResponse.json(
+            { error: 'Failed to claw back credits', detail: error.message },
+            { status: 500 }
+          );
+        }
+
+        throw error; // Re-throw for general error handling
+      }
     } else if (event === 'payment.authorized') {
       // Payment authorized but not yet captured
       // We can log this but don't need to do anything yet
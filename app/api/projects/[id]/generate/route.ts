@@ -1,11 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
 import { getProject } from '@/lib/server/firestore';
 import { TextTo3DWorkflow } from '@/lib/workflows/textTo3D';
 import { FloorplanTo3DWorkflow } from '@/lib/workflows/floorplan3D';
+import { dispatchJobs } from '@/lib/workflows/worker';
+import { InsufficientCreditsError } from '@/lib/server/billing';
+import { ValidationError } from '@/lib/server/validation';
 
 export const dynamic = 'force-dynamic';
 
+const generateSchema = z.object({
+  prompt: z.string().max(1000, 'Prompt is too long').optional(),
+  imagePath: z.string().optional(),
+  imagePaths: z.array(z.string()).optional(),
+  // Option objects are validated by the workflow
+  post_processing: z.record(z.string(), z.unknown()).optional(),
+  generation_options: z.record(z.string(), z.unknown()).optional(),
+  floorplan_scale: z.record(z.string(), z.unknown()).optional(),
+  floorplan_mode: z.string().optional(),
+  floorplan_layout: z.record(z.string(), z.unknown()).optional(),
+  render_style: z.string().optional(),
+});
+
 /**
  * POST /api/projects/[id]/generate
  * 
@@ -15,6 +32,10 @@ export const dynamic = 'force-dynamic';
  * {
  *   prompt?: string;        // Optional: override prompt
  *   imagePath?: string;     // Optional: override image
+ *   imagePaths?: string[];  // Optional: ordered reference views (text-to-3d only), overrides imagePath
+ *   post_processing?: PostProcessingOptions; // Optional: mesh post-processing
+ *   generation_options?: { quality?: 'draft' | 'standard' | 'high', ... }; // Optional: text-to-3d only
+ *   floorplan_scale?: FloorplanScale; // Optional: floorplan-3d only, sizes the model in meters
  * }
  * 
  * Response:
@@ -52,11 +73,20 @@ export async function POST(
 
     // Parse request body (optional overrides)
     const body = await request.json().catch(() => ({}));
-    const { prompt, imagePath } = body;
+    const parsed = generateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.format() },
+        { status: 400 }
+      );
+    }
+    const { prompt, imagePath, imagePaths, post_processing, generation_options, floorplan_scale, floorplan_mode, floorplan_layout, render_style } = parsed.data;
 
     // Use project's input data if not overridden
+    // A direct generation is built from the prompt alone, so it doesn't inherit the project's image
+    const direct = generation_options?.pipeline === 'direct';
     const finalPrompt = prompt || project.input_data?.prompt;
-    const finalImagePath = imagePath || project.input_data?.image_path;
+    const finalImagePath = imagePaths?.[0] || imagePath || (direct ? undefined : project.input_data?.image_path);
 
     // Validate input
     if (!finalPrompt && !finalImagePath) {
@@ -79,52 +109,27 @@ export async function POST(
       );
     }
 
-    // Create generation event
-    const generationId = await workflow.createGenerationEvent(
-      userId,
-      project.workflow_type,
-      {
-        prompt: finalPrompt,
-        has_image: !!finalImagePath,
-      },
-      projectId
-    );
-
-    // Assign generation number
-    try {
-      await workflow.assignGenerationNumber(projectId, generationId);
-    } catch (error: any) {
-      console.error('Error assigning generation number:', error);
-      // Continue even if this fails
-    }
-
-    // Run workflow asynchronously (don't await)
-    workflow
-      .run(userId, {
-        prompt: finalPrompt,
-        imagePath: finalImagePath,
-        projectId,
-        generationId,
-      })
-      .then(async (result) => {
-        // Link generation to project
-        try {
-          await workflow.linkGenerationToProject(result.generationId, projectId);
-        } catch (error: any) {
-          console.error('Error linking generation to project:', error);
-        }
-      })
-      .catch((error) => {
-        console.error('Workflow execution error:', error);
-        // Error is already handled in workflow.updateGenerationStatus
-      });
+    // Create the generation and enqueue it for a worker
+    const { generationId } = await workflow.enqueue(userId, {
+      prompt: finalPrompt,
+      imagePath: finalImagePath,
+      imagePaths,
+      projectId,
+      postProcessing: post_processing,
+      generationOptions: generation_options,
+      floorplanScale: floorplan_scale,
+      floorplanMode: floorplan_mode,
+      floorplanLayout: floorplan_layout,
+      renderStyle: render_style,
+    });
+    dispatchJobs();
 
     // Return immediately with generation ID
     return NextResponse.json({
       generationId,
       projectId,
       status: 'pending',
-      message: 'Generation started. Poll /api/generations/[id] for status.',
+      message: 'Generation queued. Poll /api/generations/[id] for status.',
     });
   } catch (error: any) {
     // Handle authentication errors
@@ -132,6 +137,17 @@ export async function POST(
       return createAuthErrorResponse(error.message, 401);
     }
 
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 402 }
+      );
+    }
+
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     // Handle other errors
     console.error('Error in project generate API:', error);
     return NextResponse.json(
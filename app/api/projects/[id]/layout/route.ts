@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
+import { getProject, updateProject } from '@/lib/server/firestore';
+import { validateFloorplanLayout, ValidationError } from '@/lib/server/validation';
+import admin from '@/lib/server/firebase-admin';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * PUT /api/projects/[id]/layout
+ * Save the vector plan traced in the floorplan editor on a floorplan project
+ * Body: { floorplan_layout: FloorplanLayout | null } - null removes the saved plan
+ * Response: { floorplan_layout }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await requireAuth(request);
+    const projectId = (await params).id;
+    const body = await request.json().catch(() => ({}));
+
+    if (!projectId) {
+      return NextResponse.json(
+        { error: 'Project ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!('floorplan_layout' in body)) {
+      return NextResponse.json(
+        { error: 'floorplan_layout is required' },
+        { status: 400 }
+      );
+    }
+
+    const project = await getProject(projectId);
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify user owns the project
+    if (project.user_id !== userId) {
+      return NextResponse.json(
+        { error: 'Access denied' },
+        { status: 403 }
+      );
+    }
+
+    if (project.workflow_type !== 'floorplan-3d') {
+      return NextResponse.json(
+        { error: 'Only floorplan projects have a floorplan layout' },
+        { status: 400 }
+      );
+    }
+
+    const layout = validateFloorplanLayout(body.floorplan_layout);
+    await updateProject(projectId, {
+      floorplan_layout: layout ?? (admin.firestore.FieldValue.delete() as any),
+    });
+
+    return NextResponse.json({ floorplan_layout: layout ?? null });
+  } catch (error: any) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error.message?.includes('Authorization') || error.message?.includes('token')) {
+      return createAuthErrorResponse(error.message, 401);
+    }
+
+    console.error('Error saving floorplan layout:', error);
+    return NextResponse.json(
+      { error: 'Failed to save floorplan layout', detail: error.message },
+      { status: 500 }
+    );
+  }
+}
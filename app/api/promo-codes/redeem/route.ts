@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
+import { redeemPromoCode, PromoError } from '@/lib/server/promo';
+import { BillingError } from '@/lib/server/billing';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/promo-codes/redeem
+ * Redeem a free credits promo code
+ * Body: { code: string }
+ * Returns: code, credits granted, new balance
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await requireAuth(request);
+
+    const body = await request.json().catch(() => ({}));
+    const { code } = body;
+
+    if (!code || typeof code !== 'string') {
+      return NextResponse.json(
+        { error: 'code is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await redeemPromoCode(userId, code);
+
+    return NextResponse.json(result);
+  } catch (error: any) {
+    if (error.message?.includes('Authorization') || error.message?.includes('token')) {
+      return createAuthErrorResponse(error.message, 401);
+    }
+
+    if (error instanceof PromoError || error instanceof BillingError) {
+      const isServerError = error.code === 'REDEEM_PROMO_ERROR';
+      if (isServerError) {
+        console.error('Promo code redemption error:', error);
+      }
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: isServerError ? 500 : 400 }
+      );
+    }
+
+    console.error('Promo code redemption error:', error);
+    return NextResponse.json(
+      { error: 'Failed to redeem promo code', detail: error.message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,43 +1,58 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
+import { proxyAsset, ProxyError } from '@/lib/server/proxy';
 
 export const dynamic = 'force-dynamic';
 
-export async function GET(request: NextRequest) {
-    const { searchParams } = new URL(request.url);
-    const url = searchParams.get('url');
+const ERROR_STATUS: Record<string, number> = {
+    INVALID_URL: 400,
+    PROTOCOL_NOT_ALLOWED: 403,
+    HOST_NOT_ALLOWED: 403,
+    PRIVATE_ADDRESS: 403,
+    TOO_LARGE: 413,
+    RANGE_NOT_SATISFIABLE: 416,
+    UPSTREAM_TIMEOUT: 504,
+};
+
+async function handleProxy(request: NextRequest, method: 'GET' | 'HEAD') {
+    try {
+        await requireAuth(request);
+    } catch (error: any) {
+        return createAuthErrorResponse(error.message || 'Authentication required', 401);
+    }
 
+    const url = new URL(request.url).searchParams.get('url');
     if (!url) {
         return new NextResponse('URL is required', { status: 400 });
     }
 
     try {
-        console.log('Proxying request to:', url);
-
-        const response = await fetch(url, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                'Accept': '*/*'
-            }
+        const upstream = await proxyAsset(url, {
+            method,
+            range: request.headers.get('range'),
+            signal: request.signal,
         });
 
-        if (!response.ok) {
-            console.error(`Proxy upstream error: ${response.status} ${response.statusText}`);
-            console.error(`Upstream URL was: ${url}`);
-            return new NextResponse(`Failed to fetch from source: ${response.statusText}`, { status: response.status });
-        }
-
-        const contentType = response.headers.get('content-type');
-        const blob = await response.blob();
+        const headers = new Headers(upstream.headers);
+        headers.set('Cache-Control', 'private, max-age=3600');
+        headers.set('X-Content-Type-Options', 'nosniff');
+        headers.set('Content-Security-Policy', "sandbox; default-src 'none'");
 
-        return new NextResponse(blob, {
-            headers: {
-                'Content-Type': contentType || 'application/octet-stream',
-                'Access-Control-Allow-Origin': '*',
-                'Cache-Control': 'public, max-age=3600',
-            },
-        });
+        return new NextResponse(upstream.body, { status: upstream.status, headers });
     } catch (error: any) {
-        console.error('Proxy error:', error);
+        if (error instanceof ProxyError) {
+            console.warn(`[Proxy] Refused ${url}: ${error.code} ${error.message}`);
+            return new NextResponse(error.message, { status: ERROR_STATUS[error.code || ''] || 502 });
+        }
+        console.error('[Proxy] Error:', error);
         return new NextResponse(`Proxy error: ${error.message}`, { status: 500 });
     }
 }
+
+export async function GET(request: NextRequest) {
+    return handleProxy(request, 'GET');
+}
+
+export async function HEAD(request: NextRequest) {
+    return handleProxy(request, 'HEAD');
+}
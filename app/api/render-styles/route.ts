@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getRenderStyleOptions, DEFAULT_RENDER_STYLE } from '@/lib/server/renderStyles';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/render-styles
+ * List the isometric render styles offered for floorplans
+ */
+export async function GET() {
+  try {
+    const styles = await getRenderStyleOptions();
+
+    const response = NextResponse.json({
+      success: true,
+      default_style: DEFAULT_RENDER_STYLE,
+      styles,
+    });
+    response.headers.set('Cache-Control', 'public, max-age=60, stale-while-revalidate=300');
+
+    return response;
+  } catch (error: any) {
+    console.error('Error fetching render styles:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch render styles', detail: error.message },
+      { status: 500 }
+    );
+  }
+}
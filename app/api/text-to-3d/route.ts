@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAuth, createAuthErrorResponse } from '@/lib/server/middleware/auth';
 import { TextTo3DWorkflow } from '@/lib/workflows/textTo3D';
 import { ValidationError } from '@/lib/server/validation';
+import { InsufficientCreditsError } from '@/lib/server/billing';
+import { dispatchJobs } from '@/lib/workflows/worker';
 
 export const dynamic = 'force-dynamic';
 
@@ -17,6 +19,12 @@ const generateSchema = z.object({
   prompt: z.string().min(1, "Prompt is required").max(1000, "Prompt is too long").optional(),
   // Allow Data URIs or URLs
   image_url: z.string().optional(),
+  // Ordered reference views (front, side, back...), validated by the workflow; image_url defaults to the first
+  image_urls: z.array(z.string()).optional(),
+  // Mesh post-processing options, validated by the workflow
+  post_processing: z.record(z.string(), z.unknown()).optional(),
+  // Quality tier and model provider settings, validated by the workflow
+  generation_options: z.record(z.string(), z.unknown()).optional(),
 });
 
 export async function POST(request: NextRequest) {
@@ -44,9 +52,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { prompt, image_url } = result.data;
+    const { prompt, image_url, image_urls, post_processing, generation_options } = result.data;
 
-    if (!prompt && !image_url) {
+    if (!prompt && !image_url && !image_urls?.length) {
       return NextResponse.json(
         { error: 'Either prompt or image_url is required' },
         { status: 400 }
@@ -56,21 +64,25 @@ export async function POST(request: NextRequest) {
     console.log('[Text-to-3D API] Starting workflow with:', {
       hasPrompt: !!prompt,
       hasImageUrl: !!image_url,
+      imageCount: image_urls?.length || (image_url ? 1 : 0),
       promptLength: prompt?.length || 0
     });
 
-    // Execute workflow
+    // Enqueue workflow; a job worker runs it and the client polls the generation
     const workflow = new TextTo3DWorkflow();
-    const { generationId, projectId } = await workflow.execute(userId, {
+    const { generationId, projectId } = await workflow.enqueue(userId, {
       prompt,
       imagePath: image_url,
-      has_image: !!image_url
+      imagePaths: image_urls,
+      postProcessing: post_processing,
+      generationOptions: generation_options,
     });
+    dispatchJobs();
 
-    console.log('[Text-to-3D API] Workflow completed:', { generationId, projectId });
+    console.log('[Text-to-3D API] Workflow queued:', { generationId, projectId });
 
     return NextResponse.json({
-      status: 'success',
+      status: 'pending',
       generationId,
       projectId
     });
@@ -83,6 +95,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (error instanceof InsufficientCreditsError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 402 }
+      );
+    }
+
     // Handle auth errors
     if (error.message === 'Unauthorized' || error.code === 'auth/id-token-expired') {
       return createAuthErrorResponse(error);
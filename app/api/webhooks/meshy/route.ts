@@ -1,6 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextRequest, NextResponse, after } from 'next/server';
 import { updateGeneration, getGeneration } from '@/lib/server/firestore';
 import admin from '@/lib/server/firebase-admin';
+import { settleGenerationCredits } from '@/lib/server/billing';
+import { mirrorGenerationAssetsSafely } from '@/lib/server/assets';
 
 export const dynamic = 'force-dynamic';
 
@@ -42,6 +44,12 @@ export async function POST(req: NextRequest) {
         const generationId = generationDoc.id;
         const generationData = generationDoc.data();
 
+        // A cancelled generation stays cancelled, whatever Meshy reports afterwards
+        if (generationData.status === 'cancelled') {
+            console.log(`[MeshyWebhook] Generation ${generationId} was cancelled, ignoring ${type}`);
+            return NextResponse.json({ success: true, ignored: true });
+        }
+
         const updates: any = {
             updated_at: admin.firestore.Timestamp.now(),
         };
@@ -52,19 +60,31 @@ export async function POST(req: NextRequest) {
             updates.output_data = {
                 ...generationData.output_data,
                 model_url: payload.model_urls?.glb,
+                model_urls: payload.model_urls,
                 thumbnail_url: payload.thumbnail_url,
+                texture_urls: payload.texture_urls,
             };
-        } else if (type === 'model.failed' || type === 'model.canceled') {
+        } else if (type === 'model.failed') {
             updates.status = 'failed';
             updates.error_message = payload.message || 'Generation failed';
+        } else if (type === 'model.canceled') {
+            updates.status = 'cancelled';
+            updates.error_message = payload.message || 'Generation was cancelled';
+            updates.cancelled_at = admin.firestore.Timestamp.now();
         } else if (type === 'model.progress') {
             // payload.progress is 0-100
             updates.progress_percentage = payload.progress;
         }
 
         await updateGeneration(generationId, updates);
+        await settleGenerationCredits(generationId, updates.status);
         console.log(`[MeshyWebhook] Updated generation ${generationId} status to ${updates.status}`);
 
+        // Meshy's URLs expire, so copy them into Storage once the response is sent
+        if (updates.status === 'completed') {
+            after(() => mirrorGenerationAssetsSafely(generationId));
+        }
+
         return NextResponse.json({ success: true });
     } catch (error: any) {
         console.error('[MeshyWebhook] Error processing webhook:', error);
@@ -1,6 +1,8 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { updateGeneration } from '@/lib/server/firestore';
+import { NextRequest, NextResponse, after } from 'next/server';
+import { updateGeneration, getGeneration } from '@/lib/server/firestore';
 import admin from '@/lib/server/firebase-admin';
+import { settleGenerationCredits } from '@/lib/server/billing';
+import { mirrorGenerationAssetsSafely } from '@/lib/server/assets';
 
 export const dynamic = 'force-dynamic';
 
@@ -17,6 +19,13 @@ export async function POST(req: NextRequest) {
             return NextResponse.json({ error: 'Missing generationId' }, { status: 400 });
         }
 
+        // A cancelled generation stays cancelled, whatever Replicate reports afterwards
+        const generation = await getGeneration(generationId);
+        if (generation?.status === 'cancelled') {
+            console.log(`[ReplicateWebhook] Generation ${generationId} was cancelled, ignoring ${status}`);
+            return NextResponse.json({ success: true, ignored: true });
+        }
+
         const updates: any = {
             updated_at: admin.firestore.Timestamp.now(),
         };
@@ -43,17 +52,27 @@ export async function POST(req: NextRequest) {
                 model_url: modelUrl,
                 replicate_output: output
             };
-        } else if (status === 'failed' || status === 'canceled') {
+        } else if (status === 'failed') {
             updates.status = 'failed';
             updates.error_message = error || 'Generation failed';
+        } else if (status === 'canceled') {
+            updates.status = 'cancelled';
+            updates.error_message = error || 'Generation was cancelled';
+            updates.cancelled_at = admin.firestore.Timestamp.now();
         } else {
             // processing or starting
             updates.status = 'generating';
         }
 
         await updateGeneration(generationId, updates);
+        await settleGenerationCredits(generationId, updates.status);
         console.log(`[ReplicateWebhook] Updated generation ${generationId} status to ${updates.status}`);
 
+        // Replicate's output URLs expire, so copy them into Storage once the response is sent
+        if (updates.status === 'completed') {
+            after(() => mirrorGenerationAssetsSafely(generationId));
+        }
+
         return NextResponse.json({ success: true });
     } catch (error: any) {
         console.error('[ReplicateWebhook] Error processing webhook:', error);
@@ -3,7 +3,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "@/contexts/AuthContext";
 import { getAuth } from "@/lib/firebase";
-import { fetchTransactions, createPaymentOrder, verifyPayment, Transaction } from "@/lib/client-api";
+import { fetchTransactions, fetchCreditPacks, createPaymentOrder, verifyPayment, redeemPromoCode, Transaction, CreditPack } from "@/lib/client-api";
 import { loadRazorpayScript, openRazorpayCheckout } from "@/lib/razorpay";
 import TransactionHistory from "@/components/TransactionHistory";
 import { CreditCard, Zap, Sparkles, Loader2, CheckCircle, XCircle } from "lucide-react";
@@ -12,12 +12,43 @@ import toast from "react-hot-toast";
 export default function CreditsPage() {
   const { user, loading: authLoading } = useAuth();
   const [credits, setCredits] = useState<number | null>(null);
+  const [reservedCredits, setReservedCredits] = useState(0);
   const [creditsLoading, setCreditsLoading] = useState(true);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [transactionsLoading, setTransactionsLoading] = useState(true);
   const [paymentLoading, setPaymentLoading] = useState(false);
   const [paymentError, setPaymentError] = useState<string | null>(null);
   const [paymentSuccess, setPaymentSuccess] = useState(false);
+  const [packs, setPacks] = useState<CreditPack[]>([]);
+  const [packsLoading, setPacksLoading] = useState(true);
+  const [selectedPackId, setSelectedPackId] = useState<string | null>(null);
+  const [purchasedCredits, setPurchasedCredits] = useState<number | null>(null);
+  const [promoCode, setPromoCode] = useState("");
+  const [redeemLoading, setRedeemLoading] = useState(false);
+
+  const selectedPack = packs.find((pack) => pack.id === selectedPackId) || null;
+
+  const formatPrice = (pack: CreditPack) =>
+    new Intl.NumberFormat(undefined, { style: "currency", currency: pack.currency }).format(pack.amount / 100);
+
+  // Fetch credit packs from the pricing catalog
+  useEffect(() => {
+    const loadPacks = async () => {
+      try {
+        setPacksLoading(true);
+        const fetchedPacks = await fetchCreditPacks();
+        setPacks(fetchedPacks);
+        setSelectedPackId((current) => current ?? fetchedPacks[0]?.id ?? null);
+      } catch (error) {
+        console.error("Error fetching credit packs:", error);
+        setPacks([]);
+      } finally {
+        setPacksLoading(false);
+      }
+    };
+
+    loadPacks();
+  }, []);
 
   // Fetch credit balance from API
   useEffect(() => {
@@ -45,6 +76,7 @@ export default function CreditsPage() {
         if (res.ok) {
           const data = await res.json();
           setCredits(data.credits || 0);
+          setReservedCredits(data.reserved || 0);
         } else {
           setCredits(0);
         }
@@ -100,6 +132,7 @@ export default function CreditsPage() {
       if (res.ok) {
         const data = await res.json();
         setCredits(data.credits || 0);
+        setReservedCredits(data.reserved || 0);
       }
 
       // Also refresh transactions
@@ -116,6 +149,11 @@ export default function CreditsPage() {
       return;
     }
 
+    if (!selectedPack) {
+      setPaymentError("Please select a credit pack");
+      return;
+    }
+
     try {
       setPaymentLoading(true);
       setPaymentError(null);
@@ -124,8 +162,8 @@ export default function CreditsPage() {
       // Load Razorpay script
       await loadRazorpayScript();
 
-      // Create payment order on backend (5000 cents = $50, 1250 credits)
-      const orderData = await createPaymentOrder(5000, 1250);
+      // Create payment order on backend (priced from the catalog)
+      const orderData = await createPaymentOrder(selectedPack.id, selectedPack.currency, promoCode.trim());
       const razorpayKeyId = process.env.NEXT_PUBLIC_RAZORPAY_KEY_ID;
 
       if (!razorpayKeyId) {
@@ -136,9 +174,9 @@ export default function CreditsPage() {
       openRazorpayCheckout({
         key: razorpayKeyId,
         amount: orderData.amount, // Already in smallest currency unit (cents/paise) from backend
-        currency: orderData.currency || "USD", // Default to USD for $50 payment
+        currency: orderData.currency,
         name: "Vi3W",
-        description: "Purchase 1,250 credits for 3D generation",
+        description: `Purchase ${orderData.credits.toLocaleString()} credits for 3D generation`,
         order_id: orderData.order_id,
         prefill: {
           email: user.email || undefined,
@@ -156,6 +194,7 @@ export default function CreditsPage() {
               response.razorpay_signature
             );
 
+            setPurchasedCredits(orderData.credits);
             setPaymentSuccess(true);
             setPaymentLoading(false);
 
@@ -187,6 +226,25 @@ export default function CreditsPage() {
     }
   };
 
+  const handleRedeemPromo = async () => {
+    const code = promoCode.trim();
+    if (!user || !code) return;
+
+    try {
+      setRedeemLoading(true);
+      setPaymentError(null);
+      const result = await redeemPromoCode(code);
+      toast.success(`Redeemed ${result.code}: ${result.credits.toLocaleString()} credits added`);
+      setPromoCode("");
+      await refreshCredits();
+    } catch (error: any) {
+      console.error("Error redeeming promo code:", error);
+      toast.error(error.message || "Failed to redeem promo code");
+    } finally {
+      setRedeemLoading(false);
+    }
+  };
+
   if (!user) {
     return (
       <div className="flex flex-col items-center justify-center min-h-[60vh] text-center">
@@ -209,7 +267,7 @@ export default function CreditsPage() {
         <div className="bg-gradient-to-br from-purple-600/20 to-blue-600/20 border border-purple-500/30 rounded-xl p-6">
           <div className="flex items-center justify-between">
             <div>
-              <div className="text-white/60 text-sm mb-2">Current Balance</div>
+              <div className="text-white/60 text-sm mb-2">Available Balance</div>
               {creditsLoading ? (
                 <div className="flex items-center gap-2">
                   <Loader2 className="w-5 h-5 animate-spin text-white/60" />
@@ -224,6 +282,11 @@ export default function CreditsPage() {
                   <span className="text-xl text-white/60">credits</span>
                 </div>
               )}
+              {!creditsLoading && reservedCredits > 0 && (
+                <div className="text-sm text-yellow-400/80 mt-2">
+                  {reservedCredits.toLocaleString()} credits reserved for generations in progress
+                </div>
+              )}
             </div>
             <div className="text-right">
               <div className="text-white/60 text-sm mb-2">Cost per Generation</div>
@@ -239,35 +302,91 @@ export default function CreditsPage() {
             <p className="text-white/60">Buy credits to continue generating 3D models</p>
           </div>
 
-          {/* Payment Details */}
-          <div className="bg-white/5 rounded-lg p-4 space-y-3">
-            <div className="flex items-center justify-between">
-              <div className="flex items-center gap-2">
-                <CreditCard className="w-5 h-5 text-green-400" />
-                <span className="text-white">Credit Pack</span>
-              </div>
-              <span className="text-xl font-bold text-white">$50</span>
+          {/* Credit Packs */}
+          {packsLoading ? (
+            <div className="flex items-center gap-2 text-white/60">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              <span>Loading credit packs...</span>
             </div>
-            <div className="border-t border-white/10 pt-3 space-y-2">
-              <div className="flex items-center justify-between text-sm">
-                <span className="text-white/60">Credits:</span>
-                <span className="text-white font-medium">1,250 credits</span>
-              </div>
-              <div className="flex items-center justify-between text-sm">
-                <span className="text-white/60">Per Generation:</span>
-                <span className="text-white font-medium">125 credits</span>
-              </div>
-              <div className="flex items-center justify-between text-sm pt-2 border-t border-white/10">
-                <span className="text-white/80 font-medium">You Get:</span>
-                <span className="text-green-400 font-bold">10 free 3D generations</span>
-              </div>
+          ) : packs.length === 0 ? (
+            <div className="text-white/60">No credit packs are available right now.</div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {packs.map((pack) => (
+                <button
+                  key={pack.id}
+                  onClick={() => setSelectedPackId(pack.id)}
+                  disabled={paymentLoading}
+                  className={`text-left bg-white/5 rounded-lg p-4 space-y-3 border transition-colors ${selectedPackId === pack.id
+                      ? "border-purple-500"
+                      : "border-white/10 hover:border-white/30"
+                    }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <CreditCard className="w-5 h-5 text-green-400" />
+                      <span className="text-white">{pack.name}</span>
+                    </div>
+                    <span className="text-xl font-bold text-white">{formatPrice(pack)}</span>
+                  </div>
+                  {pack.description && (
+                    <p className="text-sm text-white/60">{pack.description}</p>
+                  )}
+                  <div className="border-t border-white/10 pt-3 space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-white/60">Credits:</span>
+                      <span className="text-white font-medium">{pack.credits.toLocaleString()} credits</span>
+                    </div>
+                    {pack.bonus_credits > 0 && (
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="text-white/60">Bonus:</span>
+                        <span className="text-green-400 font-medium">+{pack.bonus_credits.toLocaleString()} credits</span>
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between text-sm pt-2 border-t border-white/10">
+                      <span className="text-white/80 font-medium">You Get:</span>
+                      <span className="text-green-400 font-bold">
+                        {Math.floor(pack.total_credits / 125)} 3D generations
+                      </span>
+                    </div>
+                    {pack.active_until && (
+                      <div className="text-xs text-yellow-400/80">
+                        Offer ends {new Date(pack.active_until).toLocaleDateString()}
+                      </div>
+                    )}
+                  </div>
+                </button>
+              ))}
             </div>
+          )}
+
+          {/* Promo Code */}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+              placeholder="Promo code"
+              disabled={paymentLoading || redeemLoading}
+              className="flex-1 bg-white/5 border border-white/10 rounded-lg px-4 py-2 text-white placeholder-white/40 focus:outline-none focus:border-purple-500"
+            />
+            <button
+              onClick={handleRedeemPromo}
+              disabled={!promoCode.trim() || paymentLoading || redeemLoading}
+              className="px-4 py-2 bg-white/10 hover:bg-white/20 text-white rounded-lg transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {redeemLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+              Redeem
+            </button>
           </div>
+          <p className="text-xs text-white/40 -mt-4">
+            Discount and bonus codes are applied when you pay. Use Redeem for free credit codes.
+          </p>
 
           {/* Payment Button */}
           <button
             onClick={handlePayment}
-            disabled={paymentLoading}
+            disabled={paymentLoading || !selectedPack}
             className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-500 hover:to-blue-500 text-white font-semibold py-4 px-6 rounded-lg transition-all duration-200 flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {paymentLoading ? (
@@ -278,7 +397,7 @@ export default function CreditsPage() {
             ) : (
               <>
                 <CreditCard className="w-5 h-5" />
-                <span>Pay $50</span>
+                <span>{selectedPack ? `Pay ${formatPrice(selectedPack)}` : "Select a pack"}</span>
               </>
             )}
           </button>
@@ -300,7 +419,7 @@ export default function CreditsPage() {
               <div>
                 <div className="font-medium text-green-400">Payment Successful!</div>
                 <div className="text-sm text-green-300/80">
-                  Your account has been credited with 1,250 credits.
+                  Your account has been credited with {purchasedCredits?.toLocaleString() || "your"} credits.
                 </div>
               </div>
             </div>
@@ -5,11 +5,19 @@ export const dynamic = 'force-dynamic';
 import React, { Suspense } from "react";
 import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Script from "next/script";
-import { ArrowLeft, RefreshCw, Loader2 } from "lucide-react";
+import { ArrowLeft, RefreshCw, Loader2, Paintbrush } from "lucide-react";
+import toast from "react-hot-toast";
 import Link from "next/link";
 import { SkeletonText } from "@/components/SkeletonLoader";
 import { ErrorDisplay } from "@/components/ErrorDisplay";
-import { useGenerationQuery, useProjectQuery, useProjectGenerationsQuery } from "@/lib/queries";
+import { useQueryClient } from "@tanstack/react-query";
+import GenerationProgress from "@/components/workflows/GenerationProgress";
+import ModelStatsPanel from "@/components/workflows/ModelStatsPanel";
+import FloorplanRoomsPanel from "@/components/workflows/FloorplanRoomsPanel";
+import { useAssetUrlQuery, useGenerationQuery, useProjectQuery, useProjectGenerationsQuery } from "@/lib/queries";
+import { getModelUrls, getPreviewImageFormat } from "@/lib/assetUrls";
+import { getRefineCost } from "@/lib/generationOptions";
+import { refineGeneration } from "@/lib/client-api";
 import nextDynamic from "next/dynamic";
 
 const ModelViewer = nextDynamic(() => import("@/components/workflows/ModelViewer"), {
@@ -28,6 +36,7 @@ function ProjectDetailContent() {
   const searchParams = useSearchParams();
   const projectId = params.projectId as string;
   const selectedGenerationId = searchParams.get("generationId");
+  const queryClient = useQueryClient();
 
   // Fetch project data
   const {
@@ -67,6 +76,10 @@ function ProjectDetailContent() {
     return completed || generations[0] || null;
   }, [selectedGenerationId, generations, fetchedGeneration]);
 
+  // Stored images are private: the viewer's poster is a short-lived URL of the generation's preview image
+  const posterFormat = getPreviewImageFormat(currentGeneration?.output_data);
+  const { data: posterUrl } = useAssetUrlQuery(currentGeneration?.id, posterFormat);
+
   // Update document title
   React.useEffect(() => {
     if (project) {
@@ -74,6 +87,32 @@ function ProjectDetailContent() {
     }
   }, [project]);
 
+  const handleGenerationCancelled = () => {
+    queryClient.invalidateQueries({ queryKey: ["generation"] });
+    queryClient.invalidateQueries({ queryKey: ["projectGenerations", projectId] });
+  };
+
+  const [isRefining, setIsRefining] = React.useState(false);
+
+  const handleRefine = async () => {
+    if (!currentGeneration) return;
+    if (!window.confirm(`Add PBR textures to this model? This costs ${getRefineCost()} credits.`)) {
+      return;
+    }
+
+    setIsRefining(true);
+    try {
+      const result = await refineGeneration(currentGeneration.id);
+      toast.success("Refine started. The textured model will appear as a new generation.");
+      queryClient.invalidateQueries({ queryKey: ["projectGenerations", projectId] });
+      router.push(`/dashboard/projects/${projectId}?generationId=${result.generationId}`);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to refine generation");
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
   const handleGenerateNewVersion = () => {
     if (!project) return;
 
@@ -135,20 +174,35 @@ function ProjectDetailContent() {
     );
   }
 
-  const modelUrl = currentGeneration?.output_data?.model_url ||
-    currentGeneration?.output_data?.model_urls?.glb ||
-    project?.output_data?.model_url ||
-    project?.output_data?.model_urls?.glb;
+  // Prefer the Storage copies; vendor URLs expire
+  const modelUrls = getModelUrls(currentGeneration?.output_data) ||
+    getModelUrls(project?.output_data);
+
+  const modelUrl = modelUrls?.glb;
 
-  const modelUrls = currentGeneration?.output_data?.model_urls ||
-    project?.output_data?.model_urls ||
-    (modelUrl ? { glb: modelUrl } : undefined);
 
-  const thumbnail = currentGeneration?.output_data?.thumbnail_url ||
-    currentGeneration?.output_data?.image_url ||
-    project?.output_data?.thumbnail_url ||
-    project?.output_data?.image_url ||
-    "/file.svg";
+  const generationOptions = currentGeneration?.input_data?.generation_options;
+  // Only a calibrated floorplan's model is in real-world meters: extruded ones are built in meters,
+  // reconstructed ones only once post-processing has scaled them
+  const outputData = currentGeneration?.output_data;
+  const realWorldDimensions = currentGeneration?.input_data?.floorplan_scale
+    ? currentGeneration.input_data.floorplan_mode === "extrude"
+      ? outputData?.model_stats?.bounding_box.size
+      : outputData?.post_processing?.error ? undefined : outputData?.post_processing?.dimensions_m
+    : undefined;
+  const scaleWarning = currentGeneration?.input_data?.floorplan_scale &&
+    currentGeneration.input_data.floorplan_mode !== "extrude" &&
+    currentGeneration.status === "completed" &&
+    !realWorldDimensions
+    ? outputData?.floorplan_scale_error || "The model could not be scaled, so its size is not in real-world meters"
+    : undefined;
+  const canRefine = currentGeneration?.status === "completed" &&
+    currentGeneration.workflow_type === "text-to-3d" &&
+    !currentGeneration.input_data?.refine &&
+    !(generationOptions?.should_texture && generationOptions.enable_pbr);
+  const parentGeneration = currentGeneration?.parent_generation_id
+    ? generations.find(g => g.id === currentGeneration.parent_generation_id)
+    : undefined;
 
   const modelName = project?.title?.replace(/[^a-z0-9]/gi, '_').toLowerCase() ||
     `${project?.workflow_type.replace(/-/g, '_')}_${project?.id.slice(0, 8)}`;
@@ -211,22 +265,21 @@ function ProjectDetailContent() {
                 <h2 className="text-xl font-semibold mb-4">3D Model</h2>
 
                 {currentGeneration?.status === "generating" || currentGeneration?.status === "pending" ? (
-                  <div className="flex flex-col items-center justify-center h-96 gap-4">
-                    <div className="animate-spin text-purple-400">⏳</div>
-                    <div className="text-white/60">Generation in progress...</div>
-                    <div className="w-full bg-white/10 rounded-full h-2">
-                      <div
-                        className="bg-purple-600 h-2 rounded-full transition-all"
-                        style={{ width: `${currentGeneration.progress_percentage}%` }}
-                      />
-                    </div>
+                  <div className="flex flex-col items-center justify-center h-96">
+                    <GenerationProgress
+                      generation={currentGeneration}
+                      showDetails={false}
+                      onCancelled={handleGenerationCancelled}
+                    />
                   </div>
                 ) : modelUrl ? (
                   <ModelViewer
                     src={modelUrl}
-                    poster={thumbnail}
+                    poster={posterUrl}
                     modelUrls={modelUrls}
                     modelName={modelName}
+                    generationId={currentGeneration?.id}
+                    dimensions={realWorldDimensions}
                     alt={project?.title || "3D Model"}
                     className="w-full h-96"
                   />
@@ -245,13 +298,53 @@ function ProjectDetailContent() {
                     <div className="text-sm">
                       <strong>Prompt:</strong> {currentGeneration.input_data?.prompt || project?.input_data?.prompt || "N/A"}
                     </div>
-                    {currentGeneration.status === "failed" && currentGeneration.error_message && (
+                    {generationOptions && (
+                      <div className="mt-1 text-sm text-white/60">
+                        Pipeline: {generationOptions.pipeline === "direct" ? "Direct from prompt" : "Via image"}
+                      </div>
+                    )}
+                    {currentGeneration.parent_generation_id && (
+                      <div className="mt-2 text-sm text-white/60">
+                        Refined from{" "}
+                        <Link
+                          href={`/dashboard/projects/${projectId}?generationId=${currentGeneration.parent_generation_id}`}
+                          className="text-purple-400 hover:text-purple-300"
+                        >
+                          Generation #{parentGeneration?.generation_number || "?"}
+                        </Link>
+                      </div>
+                    )}
+                    {canRefine && (
+                      <button
+                        onClick={handleRefine}
+                        disabled={isRefining}
+                        className="mt-3 bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm px-4 py-2 rounded-lg flex items-center gap-2 transition"
+                      >
+                        {isRefining ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <Paintbrush className="w-4 h-4" />
+                        )}
+                        Add Textures ({getRefineCost()} credits)
+                      </button>
+                    )}
+                    {scaleWarning && (
+                      <div className="mt-2 text-sm text-yellow-400">
+                        {scaleWarning}
+                      </div>
+                    )}
+                    {(currentGeneration.status === "failed" || currentGeneration.status === "cancelled") && currentGeneration.error_message && (
                       <div className="mt-2 text-sm text-red-400">
                         Error: {currentGeneration.error_message}
                       </div>
                     )}
                   </div>
                 )}
+
+                {currentGeneration && <ModelStatsPanel generation={currentGeneration} />}
+                {currentGeneration?.workflow_type === "floorplan-3d" && (
+                  <FloorplanRoomsPanel generation={currentGeneration} fileName={`${modelName}_rooms`} />
+                )}
               </div>
             </div>
 
@@ -150,7 +150,7 @@ function TextTo3DNewContent() {
                 </div>
                 <div>
                   <h3 className="font-semibold text-white mb-1">Convert to 3D</h3>
-                  <p className="text-white/70 text-sm">Click <span className="font-mono bg-violet-600/30 px-1.5 py-0.5 rounded">Convert to 3D</span> to start the conversion process. This costs 125 credits and takes 5-10 minutes</p>
+                  <p className="text-white/70 text-sm">Click <span className="font-mono bg-violet-600/30 px-1.5 py-0.5 rounded">Convert to 3D</span> to start the conversion process. This costs 125 to 450 credits depending on the quality tier and takes 5-10 minutes</p>
                 </div>
               </div>
               <div className="flex gap-4 group">
@@ -176,7 +176,7 @@ function TextTo3DNewContent() {
                 <svg className="w-4 h-4 text-violet-400" fill="currentColor" viewBox="0 0 20 20">
                   <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
                 </svg>
-                <span>3D conversion costs <strong className="text-violet-400">125 credits</strong></span>
+                <span>3D conversion costs <strong className="text-violet-400">125 credits</strong> at draft quality</span>
               </div>
               <div className="flex items-center gap-2 text-white/70">
                 <svg className="w-4 h-4 text-blue-400" fill="currentColor" viewBox="0 0 20 20">
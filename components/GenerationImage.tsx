@@ -0,0 +1,35 @@
+"use client";
+
+import React, { useEffect } from "react";
+import { useAssetUrlQuery } from "@/lib/queries";
+
+interface GenerationImageProps {
+  generationId: string;
+  format: string; // Asset format, e.g. from getPreviewImageFormat()
+  alt: string;
+  className?: string;
+  onLoad?: () => void;
+  onError: () => void; // Also called when the image's URL can't be fetched
+}
+
+/**
+ * One of a generation's images, shown through a short-lived URL since stored files are private
+ */
+export default function GenerationImage({ generationId, format, alt, className, onLoad, onError }: GenerationImageProps) {
+  const { data: url, isError } = useAssetUrlQuery(generationId, format);
+
+  useEffect(() => {
+    if (isError) {
+      onError();
+    }
+  }, [isError, onError]);
+
+  if (!url) {
+    return null;
+  }
+
+  return (
+    /* eslint-disable-next-line @next/next/no-img-element */
+    <img src={url} alt={alt} className={className} onLoad={onLoad} onError={onError} />
+  );
+}
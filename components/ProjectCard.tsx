@@ -7,6 +7,8 @@ import toast from "react-hot-toast";
 import { Project } from "@/lib/client-api";
 import { getRandomEmoji } from "@/lib/emojiUtils";
 import { downloadModel } from "@/lib/client/downloadUtils";
+import { getModelUrls, getPreviewImageFormat } from "@/lib/assetUrls";
+import GenerationImage from "./GenerationImage";
 
 interface ProjectCardProps {
     project: Project;
@@ -50,14 +52,6 @@ export function ProjectCard({ project, onClick, index = 0 }: ProjectCardProps) {
         return workflowType === "text-to-3d" ? "Text to 3D" : "Floorplan 3D";
     };
 
-    const getProjectImage = (project: Project): string => {
-        if (project.workflow_type === "text-to-3d") {
-            return project.output_data?.image_url || "/file.svg";
-        } else {
-            return project.output_data?.isometric_path || project.output_data?.floorplan_path || "/file.svg";
-        }
-    };
-
     const getProjectTitle = (project: Project): string => {
         if (project.input_data?.prompt) {
             return project.input_data.prompt.length > 30
@@ -70,7 +64,8 @@ export function ProjectCard({ project, onClick, index = 0 }: ProjectCardProps) {
     const handleDownload = async (e: React.MouseEvent) => {
         e.stopPropagation(); // Prevent card click navigation
 
-        if (!project.output_data?.model_url && !project.output_data?.model_urls?.glb) {
+        const modelUrls = getModelUrls(project.output_data);
+        if (!modelUrls?.glb) {
             toast.error("Model not available for download");
             return;
         }
@@ -78,21 +73,13 @@ export function ProjectCard({ project, onClick, index = 0 }: ProjectCardProps) {
         setIsDownloading(true);
 
         try {
-            // Build model URLs object
-            const modelUrls = {
-                glb: project.output_data?.model_urls?.glb || project.output_data?.model_url,
-                fbx: project.output_data?.model_urls?.fbx,
-                obj: project.output_data?.model_urls?.obj,
-                usdz: project.output_data?.model_urls?.usdz,
-            };
-
             // Generate filename from project title or ID
             const baseName = project.input_data?.prompt
                 ? project.input_data.prompt.substring(0, 30).replace(/[^a-zA-Z0-9]/g, '_')
                 : `project_${project.id}`;
 
             // Download GLB format (most compatible)
-            await downloadModel(modelUrls as any, 'glb', baseName);
+            await downloadModel(modelUrls, 'glb', baseName, project.latest_generation_id);
             toast.success("Model downloaded successfully!");
         } catch (error: any) {
             console.error("Download failed:", error);
@@ -114,11 +101,13 @@ export function ProjectCard({ project, onClick, index = 0 }: ProjectCardProps) {
         }
     };
 
-    const thumbnail = getProjectImage(project);
-    const showEmoji = imageError || thumbnail === "/file.svg";
+    // The project's images are its latest generation's, fetched through short-lived URLs
+    const imageFormat = getPreviewImageFormat(project.output_data);
+    const imageGenerationId = project.latest_generation_id;
+    const showEmoji = imageError || !imageFormat || !imageGenerationId;
 
     // Check if model is available for download
-    const hasModel = project.output_data?.model_url || project.output_data?.model_urls?.glb;
+    const hasModel = !!getModelUrls(project.output_data)?.glb;
 
     return (
         <motion.div
@@ -133,12 +122,12 @@ export function ProjectCard({ project, onClick, index = 0 }: ProjectCardProps) {
                     <div className="absolute inset-0 bg-white/5 animate-pulse" />
                 )}
 
-                {showEmoji ? (
+                {showEmoji || !imageFormat || !imageGenerationId ? (
                     <div className="text-6xl">{getRandomEmoji(project.workflow_type, project.id)}</div>
                 ) : (
-                    /* eslint-disable-next-line @next/next/no-img-element */
-                    <img
-                        src={thumbnail}
+                    <GenerationImage
+                        generationId={imageGenerationId}
+                        format={imageFormat}
                         alt={getProjectTitle(project)}
                         className={`w-full h-full object-cover transition-opacity duration-500 ${imageLoaded ? 'opacity-80 group-hover:opacity-100' : 'opacity-0'}`}
                         onLoad={() => setImageLoaded(true)}
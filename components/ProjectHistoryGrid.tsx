@@ -7,6 +7,8 @@ import { useRouter } from "next/navigation";
 import { SkeletonProjectCard } from "./SkeletonLoader";
 import { ErrorDisplay } from "./ErrorDisplay";
 import { getRandomEmoji } from "@/lib/emojiUtils";
+import { getModelUrls, getPreviewImageFormat } from "@/lib/assetUrls";
+import GenerationImage from "./GenerationImage";
 
 interface Props {
   projects: Project[];
@@ -91,10 +93,8 @@ export default function ProjectHistoryGrid({ projects, loading, workflowType, er
             ? generation.input_data?.prompt || "Generating..."
             : (generation.input_data?.prompt || "Generating...");
 
-          const thumbnail = generation.output_data?.image_url ||
-            generation.output_data?.isometric_path ||
-            generation.output_data?.floorplan_path ||
-            "/file.svg";
+          const modelLink = getModelUrls(generation.output_data)?.glb;
+          const imageFormat = getPreviewImageFormat(generation.output_data);
 
           return (
             <div
@@ -103,18 +103,16 @@ export default function ProjectHistoryGrid({ projects, loading, workflowType, er
               className="bg-white/5 border border-white/10 rounded-lg overflow-hidden hover:bg-white/10 transition group cursor-pointer"
             >
               <div className="relative h-48 w-full bg-black/20 flex items-center justify-center">
-                {failedImages.has(generation.id) || thumbnail === "/file.svg" ? (
+                {failedImages.has(generation.id) || !imageFormat ? (
                   <div className="text-6xl">{getRandomEmoji(generation.workflow_type, generation.id)}</div>
                 ) : (
-                  <>
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={thumbnail}
-                      alt={title}
-                      className="object-cover w-full h-full"
-                      onError={() => handleImageError(generation.id)}
-                    />
-                  </>
+                  <GenerationImage
+                    generationId={generation.id}
+                    format={imageFormat}
+                    alt={title}
+                    className="object-cover w-full h-full"
+                    onError={() => handleImageError(generation.id)}
+                  />
                 )}
                 {/* Status overlay */}
                 <div className="absolute top-2 right-2">
@@ -133,6 +131,11 @@ export default function ProjectHistoryGrid({ projects, loading, workflowType, er
                       Failed
                     </span>
                   )}
+                  {generation.status === "cancelled" && (
+                    <span className="bg-gray-600 text-white text-xs px-2 py-1 rounded">
+                      Cancelled
+                    </span>
+                  )}
                 </div>
               </div>
               <div className="p-4">
@@ -164,9 +167,9 @@ export default function ProjectHistoryGrid({ projects, loading, workflowType, er
                 )}
 
                 <div className="mt-4 flex gap-2">
-                  {generation.status === "completed" && generation.output_data?.model_url && (
+                  {generation.status === "completed" && modelLink && (
                     <a
-                      href={generation.output_data.model_url}
+                      href={modelLink}
                       target="_blank"
                       rel="noreferrer"
                       onClick={(e) => e.stopPropagation()}
@@ -192,14 +195,13 @@ export default function ProjectHistoryGrid({ projects, loading, workflowType, er
           ? (project.input_data?.prompt || "Untitled Project")
           : (project.input_data?.prompt || project.title || "Floorplan Project");
 
-        let thumbnail = "/file.svg";
+        // The project's images are its latest generation's
+        const imageFormat = project.latest_generation_id ? getPreviewImageFormat(project.output_data) : undefined;
         let modelLink = "";
 
         if (project.workflow_type === "text-to-3d") {
-          thumbnail = project.output_data?.image_url || "/file.svg";
           modelLink = project.output_data?.model_url || "";
         } else {
-          thumbnail = project.output_data?.isometric_path || project.output_data?.floorplan_path || "/file.svg";
           modelLink = project.output_data?.model_path || "";
         }
 
@@ -210,18 +212,16 @@ export default function ProjectHistoryGrid({ projects, loading, workflowType, er
             className="bg-white/5 border border-white/10 rounded-lg overflow-hidden hover:bg-white/10 transition group cursor-pointer"
           >
             <div className="relative h-48 w-full bg-black/20 flex items-center justify-center">
-              {failedImages.has(project.id) || thumbnail === "/file.svg" ? (
+              {failedImages.has(project.id) || !project.latest_generation_id || !imageFormat ? (
                 <div className="text-6xl">{getRandomEmoji(project.workflow_type, project.id)}</div>
               ) : (
-                <>
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img
-                    src={thumbnail}
-                    alt={title}
-                    className="object-cover w-full h-full"
-                    onError={() => handleImageError(project.id)}
-                  />
-                </>
+                <GenerationImage
+                  generationId={project.latest_generation_id}
+                  format={imageFormat}
+                  alt={title}
+                  className="object-cover w-full h-full"
+                  onError={() => handleImageError(project.id)}
+                />
               )}
               {/* Generation count badge */}
               {project.generation_count && project.generation_count > 1 && (
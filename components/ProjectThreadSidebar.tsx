@@ -41,6 +41,8 @@ export function ProjectThreadSidebar({
         return <CheckCircle2 className="w-4 h-4 text-green-400" />;
       case "failed":
         return <XCircle className="w-4 h-4 text-red-400" />;
+      case "cancelled":
+        return <XCircle className="w-4 h-4 text-white/40" />;
       case "generating":
         return <Loader2 className="w-4 h-4 text-blue-400 animate-spin" />;
       case "pending":
@@ -82,7 +84,9 @@ export function ProjectThreadSidebar({
                           ? "bg-green-500 border-green-400"
                           : gen.status === "failed"
                             ? "bg-red-500 border-red-400"
-                            : "bg-yellow-500 border-yellow-400"
+                            : gen.status === "cancelled"
+                              ? "bg-gray-500 border-gray-400"
+                              : "bg-yellow-500 border-yellow-400"
                       }`}
                   />
 
@@ -2,7 +2,7 @@
 
 import { useState, useMemo } from "react";
 import { Transaction } from "@/lib/client-api";
-import { Calendar, CreditCard, Zap, CheckCircle, XCircle, Clock } from "lucide-react";
+import { Calendar, CreditCard, Zap, CheckCircle, XCircle, Clock, RotateCcw } from "lucide-react";
 import { SkeletonText } from "./SkeletonLoader";
 
 interface Props {
@@ -58,19 +58,49 @@ export default function TransactionHistory({ transactions, loading }: Props) {
         return <XCircle className="w-4 h-4 text-red-500" />;
       case "pending":
         return <Clock className="w-4 h-4 text-yellow-500" />;
+      case "released":
+        return <RotateCcw className="w-4 h-4 text-white/40" />;
       default:
         return null;
     }
   };
 
   const getTypeIcon = (type: Transaction["type"]) => {
-    return type === "purchase" ? (
-      <CreditCard className="w-4 h-4" />
-    ) : (
-      <Zap className="w-4 h-4" />
-    );
+    switch (type) {
+      case "purchase":
+      case "grant":
+      case "promo":
+        return <CreditCard className="w-4 h-4" />;
+      case "refund":
+      case "clawback":
+        return <RotateCcw className="w-4 h-4" />;
+      default:
+        return <Zap className="w-4 h-4" />;
+    }
+  };
+
+  const getTypeLabel = (type: Transaction["type"]) => {
+    switch (type) {
+      case "purchase":
+        return "Credit Purchase";
+      case "refund":
+        return "Refund";
+      case "grant":
+        return "Credits Granted";
+      case "promo":
+        return "Promo Code";
+      case "clawback":
+        return "Payment Reversal";
+      default:
+        return "3D Generation";
+    }
   };
 
+  // Purchases, grants, promos and refunds add credits; usage is stored as a negative amount.
+  // Clawbacks go either way (a reversal is negative, a won dispute gives credits back).
+  const isCredit = (transaction: Transaction) =>
+    transaction.type === "clawback" ? transaction.amount > 0 : transaction.type !== "usage";
+
   if (loading) {
     return (
       <div className="space-y-4">
@@ -152,7 +182,7 @@ export default function TransactionHistory({ transactions, loading }: Props) {
               <div className="flex items-center gap-3 flex-1">
                 {/* Type Icon */}
                 <div
-                  className={`p-2 rounded-lg ${transaction.type === "purchase"
+                  className={`p-2 rounded-lg ${isCredit(transaction)
                       ? "bg-green-500/20 text-green-400"
                       : "bg-blue-500/20 text-blue-400"
                     }`}
@@ -164,7 +194,7 @@ export default function TransactionHistory({ transactions, loading }: Props) {
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2 mb-1">
                     <span className="font-medium text-white">
-                      {transaction.type === "purchase" ? "Credit Purchase" : "3D Generation"}
+                      {getTypeLabel(transaction.type)}
                     </span>
                     {getStatusIcon(transaction.status)}
                   </div>
@@ -177,13 +207,13 @@ export default function TransactionHistory({ transactions, loading }: Props) {
                 {/* Amount */}
                 <div className="text-right">
                   <div
-                    className={`text-lg font-semibold ${transaction.type === "purchase"
+                    className={`text-lg font-semibold ${isCredit(transaction)
                         ? "text-green-400"
                         : "text-white"
                       }`}
                   >
-                    {transaction.type === "purchase" ? "+" : "-"}
-                    {transaction.amount.toLocaleString()}
+                    {isCredit(transaction) ? "+" : "-"}
+                    {Math.abs(transaction.amount).toLocaleString()}
                   </div>
                   <div className="text-xs text-white/60">credits</div>
                 </div>
@@ -198,7 +228,12 @@ export default function TransactionHistory({ transactions, loading }: Props) {
             )}
             {transaction.status === "pending" && (
               <div className="mt-2 text-xs text-yellow-400">
-                Processing...
+                {transaction.type === "usage" ? "Reserved for a generation in progress" : "Processing..."}
+              </div>
+            )}
+            {transaction.status === "released" && (
+              <div className="mt-2 text-xs text-white/40">
+                Released - no credits were charged
               </div>
             )}
           </div>
@@ -4,6 +4,15 @@ import React, { useState, useCallback } from "react";
 import dynamic from "next/dynamic";
 import { getAuth } from "@/lib/firebase";
 import toast from "react-hot-toast";
+import PostProcessingOptions, { toPostProcessingRequest, type PostProcessingValues } from "./PostProcessingOptions";
+import FloorplanScaleInput from "./FloorplanScaleInput";
+import FloorplanModeSelect from "./FloorplanModeSelect";
+import FloorplanLayoutEditor from "./FloorplanLayoutEditor";
+import RenderStyleSelect from "./RenderStyleSelect";
+import { saveProjectFloorplanLayout } from "@/lib/client-api";
+import { renderLayoutImage } from "@/lib/client/layoutImage";
+import { useProjectQuery } from "@/lib/queries";
+import type { FloorplanLayout, FloorplanMode, FloorplanScale } from "@/types/firestore";
 
 // Lazy load ModelViewer
 const ModelViewer = dynamic(() => import("@/components/workflows/ModelViewer"), {
@@ -31,6 +40,7 @@ export default function Floorplan3DFormNotebook({
   const [floorplanPreview, setFloorplanPreview] = useState<string | null>(null);
   const [isometricImage, setIsometricImage] = useState<string | null>(null);
   const [modelUrl, setModelUrl] = useState<string | null>(null);
+  const [generationId, setGenerationId] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [floorplanStatus, setFloorplanStatus] = useState("Upload a 2D floor plan to begin");
@@ -40,6 +50,15 @@ export default function Floorplan3DFormNotebook({
   const [generatingIsometric, setGeneratingIsometric] = useState(false);
   const [generatingModel, setGeneratingModel] = useState(false);
   const [showViewingTools, setShowViewingTools] = useState(false);
+  const [postProcessing, setPostProcessing] = useState<PostProcessingValues>({});
+  const [floorplanScale, setFloorplanScale] = useState<FloorplanScale | null>(null);
+  const [floorplanMode, setFloorplanMode] = useState<FloorplanMode>("reconstruct");
+  const [renderStyle, setRenderStyle] = useState<string | null>(null);
+  const [floorplanLayout, setFloorplanLayout] = useState<FloorplanLayout | null>(null);
+  const [initialLayout, setInitialLayout] = useState<FloorplanLayout | null>(null);
+  const [editorKey, setEditorKey] = useState(0);
+  const [savingLayout, setSavingLayout] = useState(false);
+  const { data: project, refetch: refetchProject } = useProjectQuery(projectId || null);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -85,6 +104,9 @@ export default function Floorplan3DFormNotebook({
     reader.onloadend = () => {
       if (reader.result) {
         setFloorplanPreview(reader.result as string);
+        setFloorplanScale(null);
+        setFloorplanLayout(null);
+        setInitialLayout(null);
         setFloorplanStatus("✅ Floor plan uploaded! Click 'Generate 3D Isometric View' to continue.");
       }
     };
@@ -172,9 +194,38 @@ export default function Floorplan3DFormNotebook({
     }
   };
 
+  // Extrusion builds the model from the plan itself, so it needs no isometric view
+  const modelSourceImage = floorplanMode === "extrude" ? floorplanPreview : isometricImage;
+
+  const handleLoadSavedLayout = () => {
+    if (!project?.floorplan_layout) {
+      return;
+    }
+    // Remount the editor so it starts from the saved plan
+    setInitialLayout(project.floorplan_layout);
+    setFloorplanLayout(project.floorplan_layout);
+    setEditorKey((key) => key + 1);
+  };
+
+  const handleSaveLayout = async () => {
+    if (!projectId) {
+      return;
+    }
+    setSavingLayout(true);
+    try {
+      await saveProjectFloorplanLayout(projectId, floorplanLayout);
+      await refetchProject();
+      toast.success(floorplanLayout ? "Plan saved to the project" : "Saved plan removed from the project");
+    } catch (error: any) {
+      toast.error(error.message || "Failed to save plan");
+    } finally {
+      setSavingLayout(false);
+    }
+  };
+
   const handleGenerate3DModel = async () => {
-    if (!isometricImage) {
-      toast.error("Please generate isometric view first");
+    if (!modelSourceImage) {
+      toast.error(floorplanMode === "extrude" ? "Please upload a floor plan first" : "Please generate isometric view first");
       return;
     }
 
@@ -197,7 +248,16 @@ export default function Floorplan3DFormNotebook({
         },
         body: JSON.stringify({
           prompt: "A modern apartment with 2 bedrooms, living room, and kitchen",
-          image_url: isometricImage,
+          // A traced plan replaces the isometric view with a clean drawing of itself
+          image_url: floorplanMode === "reconstruct" && floorplanLayout ? renderLayoutImage(floorplanLayout) : modelSourceImage,
+          // A scale sizes the model to the plan, replacing any target size
+          post_processing: toPostProcessingRequest(
+            floorplanScale ? { ...postProcessing, target_size_m: undefined } : postProcessing
+          ),
+          ...(floorplanScale ? { floorplan_scale: floorplanScale } : {}),
+          ...(floorplanMode === "extrude" ? { floorplan_mode: floorplanMode } : {}),
+          ...(floorplanLayout ? { floorplan_layout: floorplanLayout } : {}),
+          ...(floorplanMode === "reconstruct" && renderStyle ? { render_style: renderStyle } : {}),
         }),
       });
 
@@ -207,12 +267,16 @@ export default function Floorplan3DFormNotebook({
       }
 
       const data = await response.json();
-      setModelStatus("✅ 3D Model generated successfully! Use viewing tools to enhance the display.");
+      setModelStatus("✅ 3D model generation started! It will appear here once it completes.");
       
       if (data.generation_id && data.project_id && onModelGenerated) {
         onModelGenerated(data.generation_id, data.project_id);
       }
       
+      if (data.generation_id) {
+        setGenerationId(data.generation_id);
+      }
+
       // Store model URL if provided
       if (data.model_url) {
         setModelUrl(data.model_url);
@@ -254,6 +318,9 @@ export default function Floorplan3DFormNotebook({
                   setFloorplanFile(null);
                   setFloorplanPreview(null);
                   setIsometricImage(null);
+                  setFloorplanScale(null);
+                  setFloorplanLayout(null);
+                  setInitialLayout(null);
                   setFloorplanStatus("Upload a 2D floor plan to begin");
                   setIsometricStatus("Waiting for floor plan upload");
                   setModelStatus("Waiting for isometric view");
@@ -301,6 +368,62 @@ export default function Floorplan3DFormNotebook({
             </div>
           )}
 
+          {floorplanPreview && (
+            <div className="mb-4">
+              <FloorplanScaleInput
+                key={floorplanPreview}
+                imageSrc={floorplanPreview}
+                value={floorplanScale}
+                onChange={setFloorplanScale}
+                disabled={generatingModel}
+              />
+            </div>
+          )}
+
+          {floorplanPreview && (
+            <div className="mb-4 space-y-2">
+              <FloorplanLayoutEditor
+                key={`${floorplanPreview}-${editorKey}`}
+                imageSrc={floorplanPreview}
+                value={initialLayout}
+                onChange={setFloorplanLayout}
+                disabled={generatingModel}
+              />
+              {projectId && (
+                <div className="flex gap-2">
+                  {project?.floorplan_layout && (
+                    <button
+                      type="button"
+                      onClick={handleLoadSavedLayout}
+                      disabled={generatingModel}
+                      className="flex-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white text-xs rounded-lg transition disabled:opacity-50"
+                    >
+                      Load saved plan
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={handleSaveLayout}
+                    disabled={savingLayout || (!floorplanLayout && !project?.floorplan_layout)}
+                    className="flex-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 text-white text-xs rounded-lg transition disabled:opacity-50"
+                  >
+                    {savingLayout ? "Saving..." : "Save plan to project"}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="mb-4">
+            <FloorplanModeSelect value={floorplanMode} onChange={setFloorplanMode} disabled={generatingModel} />
+          </div>
+
+          {floorplanMode === "reconstruct" && (
+            <div className="mb-4">
+              <RenderStyleSelect value={renderStyle} onChange={setRenderStyle} disabled={generatingModel} />
+            </div>
+          )}
+
           <div className="flex gap-2 mb-4">
             <button
               type="button"
@@ -348,6 +471,10 @@ export default function Floorplan3DFormNotebook({
             </div>
           )}
 
+          <div className="mb-4">
+            <PostProcessingOptions value={postProcessing} onChange={setPostProcessing} disabled={generatingModel} />
+          </div>
+
           <div className="flex gap-2 mb-4">
             <button
               type="button"
@@ -360,7 +487,7 @@ export default function Floorplan3DFormNotebook({
             <button
               type="button"
               onClick={handleGenerate3DModel}
-              disabled={generatingModel || !isometricImage}
+              disabled={generatingModel || !modelSourceImage}
               className="flex-1 px-3 py-2 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white text-sm rounded-lg transition disabled:opacity-50"
             >
               🏗️ Generate 3D Model
@@ -386,11 +513,7 @@ export default function Floorplan3DFormNotebook({
               <ModelViewer
                 src={modelUrl}
                 alt="3D Floorplan Model"
-                onDownload={() => {
-                  if (modelUrl) {
-                    window.open(modelUrl, "_blank");
-                  }
-                }}
+                generationId={generationId || undefined}
                 className="w-full h-full"
               />
             </div>
@@ -422,7 +545,7 @@ export default function Floorplan3DFormNotebook({
             <button
               type="button"
               onClick={handleRegenerateModel}
-              disabled={generatingModel || !isometricImage}
+              disabled={generatingModel || !modelSourceImage}
               className="flex-1 px-3 py-2 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white text-sm rounded-lg transition disabled:opacity-50"
             >
               🔄 Regenerate
@@ -0,0 +1,427 @@
+"use client";
+
+import React, { useState } from "react";
+import toast from "react-hot-toast";
+import type { FloorplanLayout, FloorplanPoint, FloorplanRoomType } from "@/types/firestore";
+import {
+  FLOORPLAN_ROOM_TYPES,
+  getLayoutWalls,
+  MAX_LAYOUT_OPENINGS,
+  MAX_LAYOUT_ROOMS,
+  MAX_LAYOUT_WALLS,
+  MAX_ROOM_POINTS,
+  snapToWall,
+} from "@/lib/floorplanLayout";
+
+type Tool = "wall" | "door" | "window" | "room" | "erase";
+type Size = [number, number];
+
+const TOOLS: { label: string; value: Tool; hint: string }[] = [
+  { label: "Wall", value: "wall", hint: "Click corner to corner; double-click or Esc ends the wall run." },
+  { label: "Door", value: "door", hint: "Click on a wall to place a door." },
+  { label: "Window", value: "window", hint: "Click on a wall to place a window." },
+  { label: "Room", value: "room", hint: "Click around the room and back on the first corner, then name it." },
+  { label: "Erase", value: "erase", hint: "Click a wall, opening or room to remove it." },
+];
+
+const EMPTY_LAYOUT: FloorplanLayout = { walls: [], rooms: [], doors: [], windows: [] };
+
+// Snapping distances as fractions of the image's longer side
+const CORNER_SNAP = 0.015;
+const WALL_SNAP = 0.03;
+const ORTHO_SNAP_DEGREES = 6;
+
+interface FloorplanLayoutEditorProps {
+  imageSrc: string;
+  value: FloorplanLayout | null; // Initial plan, e.g. one saved on the project
+  onChange: (value: FloorplanLayout | null) => void;
+  disabled?: boolean;
+}
+
+const distance = (a: FloorplanPoint, b: FloorplanPoint, [width, height]: Size) =>
+  Math.hypot((a.x - b.x) * width, (a.y - b.y) * height);
+
+const isInside = (point: FloorplanPoint, polygon: FloorplanPoint[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [a, b] = [polygon[i], polygon[j]];
+    if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Trace or correct the walls, doors, windows and rooms of the floor plan
+ * Emits the plan, sized to the image, once it has at least one wall or room, null otherwise.
+ */
+export default function FloorplanLayoutEditor({ imageSrc, value, onChange, disabled }: FloorplanLayoutEditorProps) {
+  const [layout, setLayout] = useState<FloorplanLayout>(value || EMPTY_LAYOUT);
+  const [history, setHistory] = useState<FloorplanLayout[]>([]);
+  const [tool, setTool] = useState<Tool>("wall");
+  const [draft, setDraft] = useState<FloorplanPoint[]>([]);
+  const [pendingRoom, setPendingRoom] = useState<FloorplanPoint[] | null>(null);
+  const [roomName, setRoomName] = useState("");
+  const [roomType, setRoomType] = useState<FloorplanRoomType>("bedroom");
+  const [imageSize, setImageSize] = useState<Size | null>(null);
+
+  const emit = (next: FloorplanLayout, size: Size | null = imageSize) => {
+    if (!size || getLayoutWalls(next).length === 0) {
+      onChange(null);
+      return;
+    }
+    onChange({ ...next, image_width: size[0], image_height: size[1] });
+  };
+
+  const commit = (next: FloorplanLayout) => {
+    setHistory((previous) => [...previous, layout]);
+    setLayout(next);
+    emit(next);
+  };
+
+  const undo = () => {
+    const previous = history[history.length - 1];
+    if (!previous) {
+      return;
+    }
+    setHistory(history.slice(0, -1));
+    setLayout(previous);
+    setDraft([]);
+    emit(previous);
+  };
+
+  const clear = () => {
+    commit(EMPTY_LAYOUT);
+    setDraft([]);
+    setPendingRoom(null);
+  };
+
+  const selectTool = (next: Tool) => {
+    setTool(next);
+    setDraft([]);
+    setPendingRoom(null);
+  };
+
+  // Snap to an existing corner, or else square the wall up with the last corner
+  const snapCorner = (point: FloorplanPoint, size: Size): FloorplanPoint => {
+    const reach = CORNER_SNAP * Math.max(...size);
+    const corners = [
+      ...layout.walls.flatMap((wall) => [wall.start, wall.end]),
+      ...layout.rooms.flatMap((room) => room.polygon),
+      ...draft,
+    ];
+    const corner = corners.find((candidate) => distance(candidate, point, size) <= reach);
+    if (corner) {
+      return corner;
+    }
+
+    const last = draft[draft.length - 1];
+    if (last) {
+      const angle = Math.abs((Math.atan2((point.y - last.y) * size[1], (point.x - last.x) * size[0]) * 180) / Math.PI);
+      if (angle < ORTHO_SNAP_DEGREES || angle > 180 - ORTHO_SNAP_DEGREES) {
+        return { x: point.x, y: last.y };
+      }
+      if (Math.abs(angle - 90) < ORTHO_SNAP_DEGREES) {
+        return { x: last.x, y: point.y };
+      }
+    }
+    return point;
+  };
+
+  const closeRoom = (polygon: FloorplanPoint[]) => {
+    setDraft([]);
+    setPendingRoom(polygon);
+    setRoomName("");
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled || !imageSize || pendingRoom) {
+      return;
+    }
+    // Map the click from displayed pixels to fractions of the image
+    const rect = e.currentTarget.getBoundingClientRect();
+    const clicked: FloorplanPoint = {
+      x: Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    };
+    const wallReach = WALL_SNAP * Math.max(...imageSize);
+
+    if (tool === "wall" || tool === "room") {
+      const point = snapCorner(clicked, imageSize);
+      const last = draft[draft.length - 1];
+      if (last && distance(last, point, imageSize) < 1) {
+        return; // Second click of a double-click
+      }
+
+      if (tool === "room") {
+        if (draft.length >= 3 && distance(draft[0], point, imageSize) <= CORNER_SNAP * Math.max(...imageSize)) {
+          closeRoom(draft);
+        } else if (draft.length < MAX_ROOM_POINTS) {
+          setDraft([...draft, point]);
+        }
+        return;
+      }
+
+      if (last) {
+        if (layout.walls.length >= MAX_LAYOUT_WALLS) {
+          toast.error(`A plan can have at most ${MAX_LAYOUT_WALLS} walls`);
+          return;
+        }
+        commit({ ...layout, walls: [...layout.walls, { start: last, end: point }] });
+      }
+      setDraft([point]);
+      return;
+    }
+
+    if (tool === "door" || tool === "window") {
+      const snapped = snapToWall(getLayoutWalls(layout), clicked, imageSize[0], imageSize[1]);
+      if (!snapped || snapped.distance > wallReach) {
+        toast.error(`Place ${tool}s on a wall`);
+        return;
+      }
+      const key = tool === "door" ? "doors" : "windows";
+      if (layout[key].length >= MAX_LAYOUT_OPENINGS) {
+        toast.error(`A plan can have at most ${MAX_LAYOUT_OPENINGS} ${key}`);
+        return;
+      }
+      commit({ ...layout, [key]: [...layout[key], snapped.point] });
+      return;
+    }
+
+    // Erase the nearest opening, then the nearest wall, then the room clicked in
+    for (const key of ["doors", "windows"] as const) {
+      const index = layout[key].findIndex((opening) => distance(opening, clicked, imageSize) <= wallReach);
+      if (index !== -1) {
+        commit({ ...layout, [key]: layout[key].filter((_, i) => i !== index) });
+        return;
+      }
+    }
+    const nearestWall = snapToWall(layout.walls, clicked, imageSize[0], imageSize[1]);
+    if (nearestWall && nearestWall.distance <= wallReach) {
+      commit({ ...layout, walls: layout.walls.filter((wall) => wall !== nearestWall.wall) });
+      return;
+    }
+    const room = layout.rooms.find((candidate) => isInside(clicked, candidate.polygon));
+    if (room) {
+      commit({ ...layout, rooms: layout.rooms.filter((candidate) => candidate !== room) });
+    }
+  };
+
+  const handleDoubleClick = () => {
+    if (tool === "room" && draft.length >= 3) {
+      closeRoom(draft);
+    } else if (tool === "wall") {
+      setDraft([]);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === "Escape") {
+      setDraft([]);
+    }
+  };
+
+  const addRoom = () => {
+    if (!pendingRoom) {
+      return;
+    }
+    if (layout.rooms.length >= MAX_LAYOUT_ROOMS) {
+      toast.error(`A plan can have at most ${MAX_LAYOUT_ROOMS} rooms`);
+      return;
+    }
+    const name = roomName.trim() || `Room ${layout.rooms.length + 1}`;
+    commit({ ...layout, rooms: [...layout.rooms, { name: name.slice(0, 80), type: roomType, polygon: pendingRoom }] });
+    setPendingRoom(null);
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50";
+  const toPoints = (polygon: FloorplanPoint[]) =>
+    imageSize ? polygon.map((point) => `${point.x * imageSize[0]},${point.y * imageSize[1]}`).join(" ") : "";
+  const marker = imageSize ? Math.max(...imageSize) / 150 : 0;
+  const tracedWalls = getLayoutWalls(layout);
+
+  return (
+    <details className="bg-white/5 border border-white/10 rounded-lg">
+      <summary className="px-4 py-3 text-sm font-medium text-white cursor-pointer select-none">
+        Plan editor {tracedWalls.length > 0 ? "(traced)" : "(optional)"}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <div className="flex flex-wrap gap-1">
+          {TOOLS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => selectTool(option.value)}
+              disabled={disabled}
+              className={`px-2.5 py-1 text-xs rounded-lg transition disabled:opacity-50 ${
+                tool === option.value ? "bg-violet-600 text-white" : "bg-white/10 hover:bg-white/20 text-white/80"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-white/60">{TOOLS.find((option) => option.value === tool)?.hint}</p>
+        <div
+          className={`relative outline-none ${disabled ? "cursor-not-allowed" : "cursor-crosshair"}`}
+          tabIndex={0}
+          onClick={handleClick}
+          onDoubleClick={handleDoubleClick}
+          onKeyDown={handleKeyDown}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            setDraft([]);
+          }}
+        >
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={imageSrc}
+            alt="Floor plan to trace"
+            className="block w-full h-auto rounded select-none"
+            draggable={false}
+            onLoad={(e) => {
+              const size: Size = [e.currentTarget.naturalWidth, e.currentTarget.naturalHeight];
+              setImageSize(size);
+              emit(layout, size);
+            }}
+          />
+          {imageSize && (
+            <svg
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              viewBox={`0 0 ${imageSize[0]} ${imageSize[1]}`}
+              preserveAspectRatio="none"
+            >
+              {layout.rooms.map((room, index) => (
+                <polygon key={`room-${index}`} points={toPoints(room.polygon)} fill="#a78bfa" fillOpacity={0.15} />
+              ))}
+              {pendingRoom && <polygon points={toPoints(pendingRoom)} fill="#a78bfa" fillOpacity={0.3} />}
+              {tracedWalls.map((wall, index) => (
+                <line
+                  key={`wall-${index}`}
+                  x1={wall.start.x * imageSize[0]}
+                  y1={wall.start.y * imageSize[1]}
+                  x2={wall.end.x * imageSize[0]}
+                  y2={wall.end.y * imageSize[1]}
+                  stroke="#a78bfa"
+                  strokeWidth={3}
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+              {draft.length > 0 && (
+                <polyline
+                  points={toPoints(draft)}
+                  fill="none"
+                  stroke="#facc15"
+                  strokeWidth={2}
+                  strokeDasharray="4 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+              {draft.map((point, index) => (
+                <circle key={`draft-${index}`} cx={point.x * imageSize[0]} cy={point.y * imageSize[1]} r={marker} fill="#facc15" />
+              ))}
+              {layout.doors.map((door, index) => (
+                <circle key={`door-${index}`} cx={door.x * imageSize[0]} cy={door.y * imageSize[1]} r={marker * 1.5} fill="#f97316" />
+              ))}
+              {layout.windows.map((window, index) => (
+                <circle key={`window-${index}`} cx={window.x * imageSize[0]} cy={window.y * imageSize[1]} r={marker * 1.5} fill="#38bdf8" />
+              ))}
+              {layout.rooms.map((room, index) => (
+                <text
+                  key={`label-${index}`}
+                  x={(room.polygon.reduce((sum, point) => sum + point.x, 0) / room.polygon.length) * imageSize[0]}
+                  y={(room.polygon.reduce((sum, point) => sum + point.y, 0) / room.polygon.length) * imageSize[1]}
+                  fill="#ffffff"
+                  stroke="#1f1147"
+                  strokeWidth={marker / 2}
+                  paintOrder="stroke"
+                  fontSize={marker * 4}
+                  textAnchor="middle"
+                  dominantBaseline="middle"
+                >
+                  {room.name}
+                </text>
+              ))}
+            </svg>
+          )}
+        </div>
+        {pendingRoom && (
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs text-white/60 mb-1">Room name</span>
+              <input
+                type="text"
+                value={roomName}
+                onChange={(e) => setRoomName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addRoom()}
+                placeholder={`Room ${layout.rooms.length + 1}`}
+                maxLength={80}
+                disabled={disabled}
+                className={inputClass}
+                autoFocus
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs text-white/60 mb-1">Type</span>
+              <select
+                value={roomType}
+                onChange={(e) => setRoomType(e.target.value as FloorplanRoomType)}
+                disabled={disabled}
+                className={`${inputClass} capitalize`}
+              >
+                {FLOORPLAN_ROOM_TYPES.map((type) => (
+                  <option key={type} value={type} className="bg-gray-900">
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="col-span-2 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setPendingRoom(null)}
+                className="px-3 py-1.5 text-xs text-white/60 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={addRoom}
+                disabled={disabled}
+                className="px-3 py-1.5 text-xs bg-violet-600 hover:bg-violet-500 text-white rounded-lg disabled:opacity-50"
+              >
+                Add room
+              </button>
+            </div>
+          </div>
+        )}
+        <div className="flex items-center justify-between text-xs text-white/60">
+          <span>
+            {tracedWalls.length} walls · {layout.doors.length} doors · {layout.windows.length} windows ·{" "}
+            {layout.rooms.length} rooms
+          </span>
+          <span className="flex gap-3">
+            <button
+              type="button"
+              onClick={undo}
+              disabled={disabled || history.length === 0}
+              className="text-violet-300 hover:text-violet-200 disabled:opacity-50"
+            >
+              Undo
+            </button>
+            <button
+              type="button"
+              onClick={clear}
+              disabled={disabled || tracedWalls.length + layout.doors.length + layout.windows.length === 0}
+              className="text-violet-300 hover:text-violet-200 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          </span>
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import type { FloorplanMode } from "@/types/firestore";
+import { getFloorplanModeCost } from "@/lib/floorplanLayout";
+
+const MODES: Array<{ value: FloorplanMode; label: string; description: string }> = [
+  { value: "reconstruct", label: "Reconstruct", description: "Furnished model from an AI render of the plan" },
+  { value: "extrude", label: "Extrude", description: "Clean walls, floors and openings built from the plan's layout" },
+];
+
+interface FloorplanModeSelectProps {
+  value: FloorplanMode;
+  onChange: (mode: FloorplanMode) => void;
+  disabled?: boolean;
+}
+
+export default function FloorplanModeSelect({ value, onChange, disabled }: FloorplanModeSelectProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-white mb-2">
+        Model
+      </label>
+      <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Model">
+        {MODES.map((mode) => {
+          const selected = mode.value === value;
+          return (
+            <button
+              key={mode.value}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              onClick={() => onChange(mode.value)}
+              disabled={disabled}
+              className={`px-3 py-2 text-left rounded-lg border transition disabled:opacity-50 disabled:cursor-not-allowed ${selected
+                ? "border-violet-500 bg-violet-600/20"
+                : "border-white/10 bg-white/5 hover:bg-white/10"
+                }`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-white">{mode.label}</span>
+                <span className="text-xs text-white/60">{getFloorplanModeCost(mode.value)} credits</span>
+              </div>
+              <div className="text-xs text-white/50 mt-1">{mode.description}</div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import React, { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import toast from "react-hot-toast";
+import { Generation } from "@/lib/client-api";
+import { downloadFloorplanLayout } from "@/lib/client/downloadUtils";
+import type { FloorplanAreaSource } from "@/types/firestore";
+
+interface FloorplanRoomsPanelProps {
+  generation: Generation;
+  fileName: string; // Base name of the exported files
+}
+
+const AREA_SOURCE_LABELS: Record<FloorplanAreaSource, string> = {
+  scale: "Measured with the plan's scale",
+  labels: "From the areas written on the plan",
+  none: "Set a scale or label the rooms on the plan to get areas",
+};
+
+const formatArea = (value?: number) => (value === undefined ? "—" : `${value.toFixed(1)} m²`);
+
+export default function FloorplanRoomsPanel({ generation, fileName }: FloorplanRoomsPanelProps) {
+  const [exporting, setExporting] = useState<"json" | "csv" | null>(null);
+  const extraction = generation.output_data?.floorplan_extraction;
+  const extractionError = generation.output_data?.floorplan_extraction_error;
+
+  if (generation.status !== "completed" || (!extraction && !extractionError)) {
+    return null;
+  }
+
+  const handleExport = async (format: "json" | "csv") => {
+    setExporting(format);
+    try {
+      await downloadFloorplanLayout(generation.id, format, fileName);
+    } catch (error: any) {
+      toast.error(error.message || "Failed to export rooms");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-white/5 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm text-white/60">Rooms</div>
+        {extraction && (
+          <div className="flex gap-2">
+            {(["json", "csv"] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={!!exporting}
+                className="bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs px-3 py-1.5 rounded-lg flex items-center gap-1.5 transition"
+              >
+                {exporting === format ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />}
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {extraction ? (
+        <>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-white/60">
+                <th className="font-normal pb-2">Room</th>
+                <th className="font-normal pb-2 text-right">Doors</th>
+                <th className="font-normal pb-2 text-right">Windows</th>
+                <th className="font-normal pb-2 text-right">Area</th>
+              </tr>
+            </thead>
+            <tbody>
+              {extraction.rooms.map((room) => (
+                <tr key={room.id} className="border-t border-white/10">
+                  <td className="py-1.5">
+                    {room.name}
+                    <span className="text-white/40 capitalize"> · {room.type}</span>
+                  </td>
+                  <td className="py-1.5 text-right">{room.doors}</td>
+                  <td className="py-1.5 text-right">{room.windows}</td>
+                  <td className="py-1.5 text-right">{formatArea(room.area_m2)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="border-t border-white/20 font-semibold">
+                <td className="pt-2">Total ({extraction.rooms.length} rooms)</td>
+                <td className="pt-2 text-right">{extraction.doors.length}</td>
+                <td className="pt-2 text-right">{extraction.windows.length}</td>
+                <td className="pt-2 text-right">{formatArea(extraction.total_area_m2)}</td>
+              </tr>
+            </tfoot>
+          </table>
+          <div className="mt-3 text-xs text-white/40">{AREA_SOURCE_LABELS[extraction.area_source]}</div>
+        </>
+      ) : (
+        <div className="text-sm text-white/60">Rooms couldn&apos;t be read from this floor plan.</div>
+      )}
+    </div>
+  );
+}
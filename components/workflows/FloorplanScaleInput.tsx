@@ -0,0 +1,187 @@
+"use client";
+
+import React, { useState } from "react";
+import type { FloorplanScale, FloorplanScaleReference } from "@/types/firestore";
+import {
+  getFloorplanExtent,
+  getReferencePixels,
+  MAX_REFERENCE_LENGTH_M,
+  MIN_REFERENCE_LENGTH_M,
+  MIN_REFERENCE_PIXELS,
+} from "@/lib/floorplanScale";
+
+type Point = [number, number];
+
+const REFERENCE_OPTIONS: { label: string; value: FloorplanScaleReference }[] = [
+  { label: "Wall", value: "wall" },
+  { label: "Scale bar", value: "scale_bar" },
+];
+
+interface FloorplanScaleInputProps {
+  imageSrc: string;
+  value: FloorplanScale | null;
+  onChange: (value: FloorplanScale | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Draw a segment of known length on the floor plan (a wall or the plan's scale bar)
+ * Emits a scale once both ends are placed and the length is valid, null otherwise.
+ */
+export default function FloorplanScaleInput({ imageSrc, value, onChange, disabled }: FloorplanScaleInputProps) {
+  const [points, setPoints] = useState<Point[]>(value ? [value.start, value.end] : []);
+  const [length, setLength] = useState(value ? String(value.length_m) : "");
+  const [reference, setReference] = useState<FloorplanScaleReference>(value?.reference || "wall");
+  const [imageSize, setImageSize] = useState<Point | null>(null);
+
+  const emit = (nextPoints: Point[], nextLength: string, nextReference: FloorplanScaleReference) => {
+    const lengthM = Number(nextLength);
+    if (
+      !imageSize ||
+      nextPoints.length !== 2 ||
+      !(lengthM >= MIN_REFERENCE_LENGTH_M && lengthM <= MAX_REFERENCE_LENGTH_M) ||
+      getReferencePixels({ start: nextPoints[0], end: nextPoints[1] }) < MIN_REFERENCE_PIXELS
+    ) {
+      onChange(null);
+      return;
+    }
+    onChange({
+      reference: nextReference,
+      start: nextPoints[0],
+      end: nextPoints[1],
+      length_m: lengthM,
+      image_width: imageSize[0],
+      image_height: imageSize[1],
+    });
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled || !imageSize) {
+      return;
+    }
+    // Map the click from displayed pixels to the image's own pixels
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point: Point = [
+      Math.round(((e.clientX - rect.left) / rect.width) * imageSize[0]),
+      Math.round(((e.clientY - rect.top) / rect.height) * imageSize[1]),
+    ];
+    const nextPoints = points.length === 1 ? [points[0], point] : [point];
+    setPoints(nextPoints);
+    emit(nextPoints, length, reference);
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50";
+  const extent = value ? getFloorplanExtent(value) : null;
+
+  return (
+    <details className="bg-white/5 border border-white/10 rounded-lg">
+      <summary className="px-4 py-3 text-sm font-medium text-white cursor-pointer select-none">
+        Scale {value ? "(set)" : "(optional)"}
+      </summary>
+      <div className="px-4 pb-4 space-y-3">
+        <p className="text-xs text-white/60">
+          Click both ends of a wall or scale bar whose length you know, then enter that length.
+        </p>
+        <div className={`relative ${disabled ? "cursor-not-allowed" : "cursor-crosshair"}`} onClick={handleClick}>
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          <img
+            src={imageSrc}
+            alt="Floor plan to measure"
+            className="block w-full h-auto rounded select-none"
+            draggable={false}
+            onLoad={(e) => setImageSize([e.currentTarget.naturalWidth, e.currentTarget.naturalHeight])}
+          />
+          {imageSize && points.length > 0 && (
+            <svg
+              className="absolute inset-0 w-full h-full pointer-events-none"
+              viewBox={`0 0 ${imageSize[0]} ${imageSize[1]}`}
+              preserveAspectRatio="none"
+            >
+              {points.length === 2 && (
+                <line
+                  x1={points[0][0]}
+                  y1={points[0][1]}
+                  x2={points[1][0]}
+                  y2={points[1][1]}
+                  stroke="#a78bfa"
+                  strokeWidth={3}
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+              {points.map(([x, y], index) => (
+                <circle
+                  key={index}
+                  cx={x}
+                  cy={y}
+                  r={Math.max(imageSize[0], imageSize[1]) / 150}
+                  fill="#a78bfa"
+                />
+              ))}
+            </svg>
+          )}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block">
+            <span className="block text-xs text-white/60 mb-1">Reference</span>
+            <select
+              value={reference}
+              onChange={(e) => {
+                const nextReference = e.target.value as FloorplanScaleReference;
+                setReference(nextReference);
+                emit(points, length, nextReference);
+              }}
+              disabled={disabled}
+              className={inputClass}
+            >
+              {REFERENCE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value} className="bg-gray-900">
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-xs text-white/60 mb-1">Length (m)</span>
+            <input
+              type="number"
+              min={MIN_REFERENCE_LENGTH_M}
+              max={MAX_REFERENCE_LENGTH_M}
+              step="0.01"
+              value={length}
+              onChange={(e) => {
+                setLength(e.target.value);
+                emit(points, e.target.value, reference);
+              }}
+              placeholder="e.g. 4.2"
+              disabled={disabled}
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <div className="flex items-center justify-between text-xs text-white/60">
+          <span>
+            {extent
+              ? `Image covers about ${extent.width_m.toFixed(1)} m × ${extent.depth_m.toFixed(1)} m`
+              : points.length < 2
+                ? `Click the ${points.length === 0 ? "first" : "second"} end`
+                : "Enter the length in meters"}
+          </span>
+          {points.length > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                setPoints([]);
+                emit([], length, reference);
+              }}
+              disabled={disabled}
+              className="text-violet-300 hover:text-violet-200 disabled:opacity-50"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -1,17 +1,45 @@
 "use client";
 
-import React from "react";
-import { Generation } from "@/lib/client-api";
+import React, { useState } from "react";
+import toast from "react-hot-toast";
+import { Generation, cancelGeneration } from "@/lib/client-api";
 
 interface GenerationProgressProps {
   generation: Generation;
   showDetails?: boolean;
+  onCancelled?: () => void;
 }
 
 export default function GenerationProgress({
   generation,
   showDetails = true,
+  onCancelled,
 }: GenerationProgressProps) {
+  const [isCancelling, setIsCancelling] = useState(false);
+  const isInProgress = generation.status === "generating" || generation.status === "pending";
+
+  const handleCancel = async () => {
+    if (!window.confirm("Cancel this generation? Credits reserved for it will be returned.")) {
+      return;
+    }
+
+    setIsCancelling(true);
+    try {
+      const result = await cancelGeneration(generation.id);
+      const returned = (result.released || 0) + (result.refunded || 0);
+      toast.success(
+        returned > 0
+          ? `Generation cancelled. ${returned} credits returned.`
+          : "Generation cancelled."
+      );
+      onCancelled?.();
+    } catch (error: any) {
+      toast.error(error.message || "Failed to cancel generation");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   const getStatusColor = () => {
     switch (generation.status) {
       case "completed":
@@ -22,6 +50,8 @@ export default function GenerationProgress({
         return "bg-blue-600";
       case "pending":
         return "bg-yellow-600";
+      case "cancelled":
+        return "bg-gray-600";
       default:
         return "bg-gray-600";
     }
@@ -37,6 +67,8 @@ export default function GenerationProgress({
         return "⏳";
       case "pending":
         return "⏸️";
+      case "cancelled":
+        return "🚫";
       default:
         return "⏳";
     }
@@ -52,13 +84,15 @@ export default function GenerationProgress({
         return "Generation in progress...";
       case "pending":
         return "Generation pending...";
+      case "cancelled":
+        return "Generation cancelled";
       default:
         return "Unknown status";
     }
   };
 
   const getEstimatedTime = (): string | null => {
-    if (generation.status === "completed" || generation.status === "failed") {
+    if (!isInProgress) {
       return null;
     }
 
@@ -100,18 +134,27 @@ export default function GenerationProgress({
             )}
           </div>
         </div>
-        {generation.status === "generating" || generation.status === "pending" ? (
-          <div className="text-right">
-            <p className="text-xs text-white/60">Progress</p>
-            <p className="text-lg font-semibold text-white">
-              {generation.progress_percentage || 0}%
-            </p>
+        {isInProgress ? (
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-xs text-white/60">Progress</p>
+              <p className="text-lg font-semibold text-white">
+                {generation.progress_percentage || 0}%
+              </p>
+            </div>
+            <button
+              onClick={handleCancel}
+              disabled={isCancelling}
+              className="px-3 py-1.5 text-xs font-medium text-red-300 border border-red-500/30 rounded-lg hover:bg-red-900/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCancelling ? "Cancelling..." : "Cancel"}
+            </button>
           </div>
         ) : null}
       </div>
 
       {/* Progress Bar */}
-      {(generation.status === "generating" || generation.status === "pending") && (
+      {isInProgress && (
         <div className="space-y-2">
           <div className="w-full bg-white/10 rounded-full h-3 overflow-hidden">
             <div
@@ -0,0 +1,79 @@
+"use client";
+
+import React from "react";
+import { Loader2 } from "lucide-react";
+import { Generation } from "@/lib/client-api";
+import { useGenerationQuery } from "@/lib/queries";
+
+interface ModelStatsPanelProps {
+  generation: Generation;
+}
+
+const formatCount = (value: number) => value.toLocaleString();
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const formatMeters = (value: number) => `${Number(value.toFixed(3))} m`;
+
+export default function ModelStatsPanel({ generation }: ModelStatsPanelProps) {
+  const isCompleted = generation.status === "completed";
+  const hasStats = !!generation.output_data?.model_stats;
+
+  // Generations from the project list may predate inspection; the single-generation endpoint computes them
+  const { data: fetched, isLoading } = useGenerationQuery(isCompleted && !hasStats ? generation.id : null);
+  const output = hasStats ? generation.output_data : fetched?.output_data;
+  const stats = output?.model_stats;
+
+  if (!isCompleted) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 p-4 bg-white/5 rounded-lg">
+      <div className="text-sm text-white/60 mb-3">Model Details</div>
+
+      {stats ? (
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+          <dt className="text-white/60">Triangles</dt>
+          <dd>{formatCount(stats.triangles)}</dd>
+          <dt className="text-white/60">Vertices</dt>
+          <dd>{formatCount(stats.vertices)}</dd>
+          <dt className="text-white/60">Meshes</dt>
+          <dd>{formatCount(stats.meshes)}</dd>
+          <dt className="text-white/60">Materials</dt>
+          <dd>{formatCount(stats.materials)}</dd>
+          <dt className="text-white/60">Textures</dt>
+          <dd>
+            {stats.textures.length}
+            {stats.max_texture_resolution && (
+              <span className="text-white/60"> (max {stats.max_texture_resolution[0]}×{stats.max_texture_resolution[1]})</span>
+            )}
+          </dd>
+          <dt className="text-white/60">File size</dt>
+          <dd>{formatBytes(stats.file_size_bytes)}</dd>
+          <dt className="text-white/60">Dimensions</dt>
+          <dd>{stats.bounding_box.size.map(formatMeters).join(" × ")}</dd>
+          {stats.extensions.length > 0 && (
+            <>
+              <dt className="text-white/60">Extensions</dt>
+              <dd className="break-words">{stats.extensions.join(", ")}</dd>
+            </>
+          )}
+        </dl>
+      ) : isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-white/60">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          <span>Inspecting model...</span>
+        </div>
+      ) : (
+        <div className="text-sm text-white/60">
+          {output?.model_stats_error ? "Model details are unavailable for this file." : "No model details yet."}
+        </div>
+      )}
+    </div>
+  );
+}
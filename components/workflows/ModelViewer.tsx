@@ -4,26 +4,30 @@ import React, { Suspense, useState, useRef, useEffect } from "react";
 import { Canvas } from "@react-three/fiber";
 import { Stage, OrbitControls, useGLTF, Html, Center } from "@react-three/drei";
 import { downloadModel } from "@/lib/client/downloadUtils";
+import { getAuthHeaders, fetchGenerationAssetUrl } from "@/lib/client-api";
 import { Loader2 } from "lucide-react";
+import { CONVERTIBLE_FORMATS, type ModelFormat, type ModelUrls } from "@/lib/assetUrls";
 
 interface ModelViewerProps {
   src: string;
   alt?: string;
   poster?: string;
   className?: string;
-  modelUrls?: {
-    glb?: string;
-    fbx?: string;
-    obj?: string;
-    usdz?: string;
-  };
+  modelUrls?: ModelUrls;
   modelName?: string;
+  // When set, stored files are loaded and downloaded through signed URLs for this generation
+  generationId?: string;
+  // Real-world size in meters (x, y, z; y is up), shown as an overlay when the model's scale is known
+  dimensions?: [number, number, number];
   onDownload?: (format: string) => void;
 }
 
-function Model({ url, onLoad, onError }: { url: string; onLoad: () => void; onError: (err: any) => void }) {
+const formatMeters = (value: number) => `${value.toFixed(2)} m`;
+
+function Model({ url, headers, onLoad, onError }: { url: string; headers: Record<string, string>; onLoad: () => void; onError: (err: any) => void }) {
   const { scene } = useGLTF(url, true, true, (loader) => {
-    // Optional: caching or manager here
+    // The proxy requires the user's ID token
+    loader.setRequestHeader(headers);
   });
   
   // Trigger onLoad when scene is ready
@@ -46,6 +50,8 @@ export default function ModelViewer({
   className = "",
   modelUrls,
   modelName = "model",
+  generationId,
+  dimensions,
   onDownload,
 }: ModelViewerProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -55,9 +61,11 @@ export default function ModelViewer({
   const [downloading, setDownloading] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const [authHeaders, setAuthHeaders] = useState<Record<string, string> | null>(null);
+  const [modelSrc, setModelSrc] = useState<string | null>(generationId ? null : src);
 
   // Use proxy to avoid CORS issues with external model URLs (like Meshy)
-  const proxyUrl = src ? `/api/proxy?url=${encodeURIComponent(src)}` : "";
+  const proxyUrl = modelSrc ? `/api/proxy?url=${encodeURIComponent(modelSrc)}` : "";
 
   // Reset state when src changes
   useEffect(() => {
@@ -65,6 +73,46 @@ export default function ModelViewer({
     setIsLoaded(false);
   }, [src]);
 
+  // Stored models are private: swap in a signed URL for the generation's GLB
+  useEffect(() => {
+    if (!generationId) {
+      setModelSrc(src);
+      return;
+    }
+
+    let cancelled = false;
+    setModelSrc(null);
+    fetchGenerationAssetUrl(generationId, "glb")
+      .then((asset) => {
+        if (!cancelled) {
+          setModelSrc(asset.url);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to get model URL:", err);
+        if (!cancelled) {
+          setModelSrc(src);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [src, generationId]);
+
+  // Load the ID token the proxy needs before fetching the model
+  useEffect(() => {
+    let cancelled = false;
+    getAuthHeaders().then((headers) => {
+      const { Authorization } = headers as Record<string, string>;
+      if (!cancelled) {
+        setAuthHeaders(Authorization ? { Authorization } : {});
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
   // Close download menu when clicking outside
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -76,7 +124,7 @@ export default function ModelViewer({
     return () => document.removeEventListener("mousedown", handleClickOutside);
   }, []);
 
-  const handleDownload = async (format: 'glb' | 'fbx' | 'obj' | 'usdz') => {
+  const handleDownload = async (format: ModelFormat) => {
     setDownloading(true);
     setShowDownloadMenu(false);
     try {
@@ -86,7 +134,7 @@ export default function ModelViewer({
       // Let's stick to the urls passed in modelUrls (usually direct) for now, 
       // as downloadUtils likely creates an anchor tag which doesn't need CORS.
       const urls = modelUrls || { glb: src };
-      await downloadModel(urls, format, modelName);
+      await downloadModel(urls, format, modelName, generationId);
       if (onDownload) {
         onDownload(format);
       }
@@ -97,7 +145,12 @@ export default function ModelViewer({
     }
   };
 
-  const availableFormats = modelUrls ? Object.keys(modelUrls).filter(k => modelUrls[k as keyof typeof modelUrls]) : ['glb'];
+  const storedFormats = modelUrls ? (Object.keys(modelUrls) as ModelFormat[]).filter(k => modelUrls[k]) : ['glb' as ModelFormat];
+  // With a generation, the server converts the GLB into any missing format on demand.
+  // FBX can't be converted, so it's only listed when the provider supplied one.
+  const availableFormats = generationId
+    ? Array.from(new Set<ModelFormat>(["glb", ...storedFormats, ...CONVERTIBLE_FORMATS]))
+    : storedFormats;
 
   const handleFullscreen = () => {
     if (!containerRef.current) return;
@@ -182,11 +235,14 @@ export default function ModelViewer({
                 <ErrorBoundary onError={() => setError("Unable to render 3D model.")}>
                    <Center>
                      <Stage environment="city" intensity={0.6} adjustCamera={1.2}>
+                       {authHeaders && proxyUrl && (
                        <Model 
                           url={proxyUrl} 
+                          headers={authHeaders}
                           onLoad={() => setIsLoaded(true)} 
                           onError={() => setError("Unable to load 3D model.")} 
                        />
+                       )}
                      </Stage>
                    </Center>
                 </ErrorBoundary>
@@ -204,6 +260,16 @@ export default function ModelViewer({
               </div>
             )}
 
+            {/* Dimensions Overlay */}
+            {dimensions && isLoaded && (
+              <div className="absolute bottom-4 left-4 px-3 py-2 bg-black/60 text-white text-xs rounded backdrop-blur-sm pointer-events-none">
+                <div className="text-white/60 mb-1">Dimensions</div>
+                <div>
+                  {formatMeters(dimensions[0])} W × {formatMeters(dimensions[2])} D × {formatMeters(dimensions[1])} H
+                </div>
+              </div>
+            )}
+
             {/* Controls Overlay */}
             <div className="absolute top-4 right-4 flex gap-2 z-10">
               <button
@@ -257,7 +323,7 @@ export default function ModelViewer({
                     {availableFormats.map((format) => (
                       <button
                         key={format}
-                        onClick={() => handleDownload(format as any)}
+                        onClick={() => handleDownload(format)}
                         className="w-full px-4 py-2 text-left text-white hover:bg-white/10 transition text-sm uppercase"
                       >
                         {format}
@@ -0,0 +1,47 @@
+"use client";
+
+import React from "react";
+import type { TextTo3DPipeline } from "@/types/firestore";
+
+const PIPELINES: Array<{ value: TextTo3DPipeline; label: string; description: string }> = [
+  { value: "image", label: "Via image", description: "Generate or upload an image, then convert it" },
+  { value: "direct", label: "Direct", description: "Build the model straight from the prompt" },
+];
+
+interface PipelineSelectProps {
+  value: TextTo3DPipeline;
+  onChange: (pipeline: TextTo3DPipeline) => void;
+  disabled?: boolean;
+}
+
+export default function PipelineSelect({ value, onChange, disabled }: PipelineSelectProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-white mb-2">
+        Pipeline
+      </label>
+      <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-label="Pipeline">
+        {PIPELINES.map((pipeline) => {
+          const selected = pipeline.value === value;
+          return (
+            <button
+              key={pipeline.value}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              onClick={() => onChange(pipeline.value)}
+              disabled={disabled}
+              className={`px-3 py-2 text-left rounded-lg border transition disabled:opacity-50 disabled:cursor-not-allowed ${selected
+                ? "border-violet-500 bg-violet-600/20"
+                : "border-white/10 bg-white/5 hover:bg-white/10"
+                }`}
+            >
+              <div className="text-sm font-semibold text-white">{pipeline.label}</div>
+              <div className="text-xs text-white/50 mt-1">{pipeline.description}</div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+"use client";
+
+import React from "react";
+
+export type MeshCompression = "none" | "draco" | "meshopt";
+
+export interface PostProcessingValues {
+  target_triangles?: number;
+  recenter?: boolean;
+  target_size_m?: number;
+  compression?: MeshCompression;
+}
+
+interface PostProcessingOptionsProps {
+  value: PostProcessingValues;
+  onChange: (value: PostProcessingValues) => void;
+  disabled?: boolean;
+}
+
+const POLYCOUNT_OPTIONS = [
+  { label: "Keep original", value: 0 },
+  { label: "100k triangles", value: 100000 },
+  { label: "50k triangles", value: 50000 },
+  { label: "20k triangles", value: 20000 },
+  { label: "10k triangles", value: 10000 },
+];
+
+const COMPRESSION_OPTIONS: { label: string; value: MeshCompression }[] = [
+  { label: "None", value: "none" },
+  { label: "Draco", value: "draco" },
+  { label: "Meshopt", value: "meshopt" },
+];
+
+/**
+ * Drop unset options so an untouched panel sends nothing
+ */
+export function toPostProcessingRequest(value: PostProcessingValues): PostProcessingValues | undefined {
+  const request: PostProcessingValues = {};
+  if (value.target_triangles) request.target_triangles = value.target_triangles;
+  if (value.recenter) request.recenter = true;
+  if (value.target_size_m && value.target_size_m > 0) request.target_size_m = value.target_size_m;
+  if (value.compression && value.compression !== "none") request.compression = value.compression;
+  return Object.keys(request).length > 0 ? request : undefined;
+}
+
+export default function PostProcessingOptions({ value, onChange, disabled }: PostProcessingOptionsProps) {
+  const inputClass =
+    "w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50";
+
+  return (
+    <details className="bg-white/5 border border-white/10 rounded-lg">
+      <summary className="px-4 py-3 text-sm font-medium text-white cursor-pointer select-none">
+        Post-processing
+      </summary>
+      <div className="grid grid-cols-2 gap-3 px-4 pb-4">
+        <label className="block">
+          <span className="block text-xs text-white/60 mb-1">Polycount</span>
+          <select
+            value={value.target_triangles || 0}
+            onChange={(e) => onChange({ ...value, target_triangles: Number(e.target.value) || undefined })}
+            disabled={disabled}
+            className={inputClass}
+          >
+            {POLYCOUNT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value} className="bg-gray-900">
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-white/60 mb-1">Compression</span>
+          <select
+            value={value.compression || "none"}
+            onChange={(e) => onChange({ ...value, compression: e.target.value as MeshCompression })}
+            disabled={disabled}
+            className={inputClass}
+          >
+            {COMPRESSION_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value} className="bg-gray-900">
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-white/60 mb-1">Longest side (m)</span>
+          <input
+            type="number"
+            min={0}
+            max={1000}
+            step="any"
+            placeholder="Keep original"
+            value={value.target_size_m ?? ""}
+            onChange={(e) => onChange({ ...value, target_size_m: e.target.value ? Number(e.target.value) : undefined })}
+            disabled={disabled}
+            className={`${inputClass} placeholder-white/40`}
+          />
+        </label>
+        <label className="flex items-center gap-2 self-end pb-2 text-sm text-white/80">
+          <input
+            type="checkbox"
+            checked={!!value.recenter}
+            onChange={(e) => onChange({ ...value, recenter: e.target.checked })}
+            disabled={disabled}
+            className="w-4 h-4 accent-blue-500"
+          />
+          Center on floor
+        </label>
+      </div>
+    </details>
+  );
+}
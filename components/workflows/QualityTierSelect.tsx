@@ -0,0 +1,47 @@
+"use client";
+
+import React from "react";
+import type { QualityTier } from "@/types/firestore";
+import { QUALITY_TIERS, QUALITY_TIER_PRESETS, getQualityTierCost } from "@/lib/generationOptions";
+
+interface QualityTierSelectProps {
+  value: QualityTier;
+  onChange: (tier: QualityTier) => void;
+  disabled?: boolean;
+}
+
+export default function QualityTierSelect({ value, onChange, disabled }: QualityTierSelectProps) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-white mb-2">
+        Quality
+      </label>
+      <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-label="Quality tier">
+        {QUALITY_TIERS.map((tier) => {
+          const preset = QUALITY_TIER_PRESETS[tier];
+          const selected = tier === value;
+          return (
+            <button
+              key={tier}
+              type="button"
+              role="radio"
+              aria-checked={selected}
+              onClick={() => onChange(tier)}
+              disabled={disabled}
+              className={`px-3 py-2 text-left rounded-lg border transition disabled:opacity-50 disabled:cursor-not-allowed ${selected
+                ? "border-violet-500 bg-violet-600/20"
+                : "border-white/10 bg-white/5 hover:bg-white/10"
+                }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-semibold text-white">{preset.label}</span>
+                <span className="text-xs text-violet-300">{getQualityTierCost(tier)} credits</span>
+              </div>
+              <div className="text-xs text-white/50 mt-1">{preset.description}</div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
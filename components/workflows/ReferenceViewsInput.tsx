@@ -0,0 +1,79 @@
+"use client";
+
+import React from "react";
+import toast from "react-hot-toast";
+
+// The main image is the front view; these label the additional views in order
+const VIEW_LABELS = ["Side", "Back", "Other side"];
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB
+
+interface ReferenceViewsInputProps {
+  views: string[]; // Data URIs of the additional views, in order
+  onChange: (views: string[]) => void;
+  disabled?: boolean;
+}
+
+export default function ReferenceViewsInput({ views, onChange, disabled }: ReferenceViewsInputProps) {
+  const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please select an image file (PNG, JPG, WEBP)");
+      return;
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast.error(`Image size must be less than ${Math.round(MAX_IMAGE_SIZE / 1024 / 1024)}MB`);
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      if (typeof reader.result === "string") {
+        onChange([...views, reader.result]);
+      }
+    };
+    reader.onerror = () => toast.error("Failed to read image file");
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-white mb-2">
+        Additional Views <span className="text-white/40 font-normal">(optional, same object from other angles)</span>
+      </label>
+      <div className="grid grid-cols-3 gap-2">
+        {views.map((view, index) => (
+          <div key={index} className="relative h-24 bg-white/5 border border-white/10 rounded-lg overflow-hidden">
+            <img src={view} alt={`${VIEW_LABELS[index]} view`} className="w-full h-full object-contain" />
+            <span className="absolute bottom-1 left-1 px-1.5 py-0.5 bg-black/60 text-white text-xs rounded">
+              {VIEW_LABELS[index]}
+            </span>
+            <button
+              type="button"
+              onClick={() => onChange(views.filter((_, i) => i !== index))}
+              disabled={disabled}
+              aria-label={`Remove ${VIEW_LABELS[index].toLowerCase()} view`}
+              className="absolute top-1 right-1 p-1 bg-red-600 hover:bg-red-500 text-white rounded-full transition disabled:opacity-50"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        ))}
+        {views.length < VIEW_LABELS.length && (
+          <label
+            className={`h-24 border-2 border-dashed border-white/20 rounded-lg flex flex-col items-center justify-center text-white/60 text-xs transition ${disabled ? "opacity-50 cursor-not-allowed" : "cursor-pointer hover:border-white/40 hover:bg-white/10"}`}
+          >
+            <input type="file" accept="image/*" onChange={handleFileInput} className="hidden" disabled={disabled} />
+            <span className="text-lg leading-none mb-1">+</span>
+            <span>Add {VIEW_LABELS[views.length].toLowerCase()} view</span>
+          </label>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { fetchRenderStyles, RenderStyle } from "@/lib/client-api";
+
+interface RenderStyleSelectProps {
+  value: string | null; // null for the server's default style
+  onChange: (styleId: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Pick the look of the isometric render from the server's render style catalog
+ * Renders nothing if the catalog can't be loaded; the server then uses its default style.
+ */
+export default function RenderStyleSelect({ value, onChange, disabled }: RenderStyleSelectProps) {
+  const [styles, setStyles] = useState<RenderStyle[]>([]);
+  const [defaultStyle, setDefaultStyle] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadStyles = async () => {
+      try {
+        const { styles: fetchedStyles, defaultStyle: fetchedDefault } = await fetchRenderStyles();
+        setStyles(fetchedStyles);
+        setDefaultStyle(fetchedDefault);
+      } catch (error) {
+        console.error("Error fetching render styles:", error);
+        setStyles([]);
+      }
+    };
+
+    loadStyles();
+  }, []);
+
+  if (styles.length === 0) {
+    return null;
+  }
+
+  const selectedId = value ?? defaultStyle ?? styles[0].id;
+  const selected = styles.find((style) => style.id === selectedId);
+
+  return (
+    <div>
+      <label htmlFor="render-style" className="block text-sm font-medium text-white mb-2">
+        Render style
+      </label>
+      <select
+        id="render-style"
+        value={selectedId}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+      >
+        {styles.map((style) => (
+          <option key={style.id} value={style.id} className="bg-gray-900">
+            {style.name}
+          </option>
+        ))}
+      </select>
+      {selected?.description && <div className="text-xs text-white/50 mt-1">{selected.description}</div>}
+    </div>
+  );
+}
@@ -4,6 +4,12 @@ import React, { useState, useCallback } from "react";
 import { getAuth } from "@/lib/firebase";
 import toast from "react-hot-toast";
 import WorkflowForm from "./WorkflowForm";
+import PostProcessingOptions, { toPostProcessingRequest, type PostProcessingValues } from "./PostProcessingOptions";
+import QualityTierSelect from "./QualityTierSelect";
+import ReferenceViewsInput from "./ReferenceViewsInput";
+import PipelineSelect from "./PipelineSelect";
+import { DEFAULT_PIPELINE, DEFAULT_QUALITY_TIER, MAX_DIRECT_PROMPT_LENGTH } from "@/lib/generationOptions";
+import type { QualityTier, TextTo3DPipeline } from "@/types/firestore";
 
 interface TextTo3DFormNotebookProps {
   onGenerationStart: (genId: string, projId: string) => void;
@@ -17,12 +23,16 @@ export default function TextTo3DFormNotebook({
   const [prompt, setPrompt] = useState("");
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [extraViews, setExtraViews] = useState<string[]>([]);
   const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [uploadingImage, setUploadingImage] = useState(false);
   const [generatingImage, setGeneratingImage] = useState(false);
   const [status, setStatus] = useState("Ready to convert");
   const [loading, setLoading] = useState(false);
+  const [postProcessing, setPostProcessing] = useState<PostProcessingValues>({});
+  const [quality, setQuality] = useState<QualityTier>(DEFAULT_QUALITY_TIER);
+  const [pipeline, setPipeline] = useState<TextTo3DPipeline>(DEFAULT_PIPELINE);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -199,13 +209,18 @@ export default function TextTo3DFormNotebook({
   };
 
   const handleConvertTo3D = async () => {
-    if (!imageFile && !imagePreview) {
+    const direct = pipeline === "direct";
+    if (direct && !prompt.trim()) {
+      toast.error("Please enter a prompt first");
+      return;
+    }
+    if (!direct && !imageFile && !imagePreview) {
       toast.error("Please upload or generate an image first");
       return;
     }
 
     setLoading(true);
-    setStatus("🔄 Submitting image for 3D conversion...");
+    setStatus(direct ? "🔄 Submitting prompt for 3D generation..." : "🔄 Submitting image for 3D conversion...");
 
     try {
       const user = getAuth().currentUser;
@@ -214,9 +229,11 @@ export default function TextTo3DFormNotebook({
       }
 
       const token = await user.getIdToken();
-      let imageUrl: string;
+      let imageUrl: string | undefined;
 
-      if (imageFile) {
+      if (direct) {
+        // The direct pipeline builds the model from the prompt alone
+      } else if (imageFile) {
         const reader = new FileReader();
         imageUrl = await new Promise((resolve, reject) => {
           reader.onloadend = () => {
@@ -265,8 +282,12 @@ export default function TextTo3DFormNotebook({
           Authorization: `Bearer ${token}`,
         },
         body: JSON.stringify({
-          prompt: prompt || "Generate 3D model from image",
-          image_url: imageUrl,
+          prompt: direct ? prompt.trim() : prompt || "Generate 3D model from image",
+          ...(imageUrl ? { image_url: imageUrl } : {}),
+          // The main image is the front view; extra views follow it in order
+          ...(imageUrl && extraViews.length > 0 ? { image_urls: [imageUrl, ...extraViews] } : {}),
+          post_processing: toPostProcessingRequest(postProcessing),
+          generation_options: { quality, pipeline },
         }),
       });
 
@@ -332,101 +353,112 @@ export default function TextTo3DFormNotebook({
 
   return (
     <div className="space-y-4">
-      {/* Image Input */}
-      <div>
-        <label className="block text-sm font-medium text-white mb-2">
-          Upload Image
-        </label>
-        {imagePreview ? (
-          <div className="relative w-full h-[400px] bg-white/5 border border-white/10 rounded-lg overflow-hidden">
-            <img
-              src={imagePreview}
-              alt="Preview"
-              className="w-full h-full object-contain"
-              onLoad={() => {
-                // Only log in development
-                if (process.env.NODE_ENV === 'development') {
-                  console.log("[TextTo3DForm] Image loaded successfully:", imagePreview);
-                }
-              }}
-              onError={(e) => {
-                // Only log in development
-                if (process.env.NODE_ENV === 'development') {
-                  console.error("[TextTo3DForm] Image failed to load:", imagePreview, e);
-                }
-                toast.error("Failed to load image. The URL may be invalid or expired.");
-              }}
-            />
-            <button
-              type="button"
-              onClick={() => {
-                setImageFile(null);
-                setImagePreview(null);
-                setGeneratedImageUrl(null);
-                setStatus("Ready to convert");
-              }}
-              className="absolute top-2 right-2 p-2 bg-red-600 hover:bg-red-500 text-white rounded-full transition transform hover:scale-110 active:scale-95"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
-            {generatedImageUrl && (
-              <div className="absolute bottom-2 left-2 px-2 py-1 bg-green-600/80 text-white text-xs rounded flex items-center gap-1">
-                <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                </svg>
-                Generated
+      <PipelineSelect value={pipeline} onChange={setPipeline} disabled={loading || generatingImage} />
+
+      {pipeline === "image" && (
+        <>
+          {/* Image Input */}
+          <div>
+            <label className="block text-sm font-medium text-white mb-2">
+              Upload Image
+            </label>
+            {imagePreview ? (
+              <div className="relative w-full h-[400px] bg-white/5 border border-white/10 rounded-lg overflow-hidden">
+                <img
+                  src={imagePreview}
+                  alt="Preview"
+                  className="w-full h-full object-contain"
+                  onLoad={() => {
+                    // Only log in development
+                    if (process.env.NODE_ENV === 'development') {
+                      console.log("[TextTo3DForm] Image loaded successfully:", imagePreview);
+                    }
+                  }}
+                  onError={(e) => {
+                    // Only log in development
+                    if (process.env.NODE_ENV === 'development') {
+                      console.error("[TextTo3DForm] Image failed to load:", imagePreview, e);
+                    }
+                    toast.error("Failed to load image. The URL may be invalid or expired.");
+                  }}
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    setImageFile(null);
+                    setImagePreview(null);
+                    setGeneratedImageUrl(null);
+                    setExtraViews([]);
+                    setStatus("Ready to convert");
+                  }}
+                  className="absolute top-2 right-2 p-2 bg-red-600 hover:bg-red-500 text-white rounded-full transition transform hover:scale-110 active:scale-95"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+                {generatedImageUrl && (
+                  <div className="absolute bottom-2 left-2 px-2 py-1 bg-green-600/80 text-white text-xs rounded flex items-center gap-1">
+                    <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                    </svg>
+                    Generated
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        ) : (
-          <div
-            onDragOver={handleDragOver}
-            onDragLeave={handleDragLeave}
-            onDrop={handleDrop}
-            className={`w-full h-[400px] border-2 border-dashed rounded-lg flex flex-col items-center justify-center cursor-pointer transition-all duration-300 ${isDragging
-              ? "border-blue-500 bg-blue-900/20 scale-105"
-              : "border-white/20 hover:border-white/40 bg-white/5 hover:bg-white/10"
-              } ${generatingImage ? "opacity-50 cursor-wait" : ""}`}
-            onClick={() => !generatingImage && document.getElementById("image-input")?.click()}
-          >
-            <input
-              id="image-input"
-              type="file"
-              accept="image/*"
-              onChange={handleFileInput}
-              className="hidden"
-              disabled={generatingImage}
-            />
-            {generatingImage ? (
-              <>
-                <div className="w-16 h-16 border-4 border-white/30 border-t-white rounded-full animate-spin mb-4" />
-                <p className="text-sm text-white/80 font-medium animate-pulse">Generating your image...</p>
-                <p className="text-xs text-white/50 mt-1">This usually takes 10-30 seconds</p>
-              </>
             ) : (
-              <>
-                <svg
-                  className={`w-12 h-12 text-white/40 mb-2 transition-transform ${isDragging ? "scale-110" : ""}`}
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
-                  />
-                </svg>
-                <p className="text-sm text-white/60">Click to upload or drag and drop</p>
-                <p className="text-xs text-white/40 mt-1">PNG, JPG, WEBP up to 10MB</p>
-              </>
+              <div
+                onDragOver={handleDragOver}
+                onDragLeave={handleDragLeave}
+                onDrop={handleDrop}
+                className={`w-full h-[400px] border-2 border-dashed rounded-lg flex flex-col items-center justify-center cursor-pointer transition-all duration-300 ${isDragging
+                  ? "border-blue-500 bg-blue-900/20 scale-105"
+                  : "border-white/20 hover:border-white/40 bg-white/5 hover:bg-white/10"
+                  } ${generatingImage ? "opacity-50 cursor-wait" : ""}`}
+                onClick={() => !generatingImage && document.getElementById("image-input")?.click()}
+              >
+                <input
+                  id="image-input"
+                  type="file"
+                  accept="image/*"
+                  onChange={handleFileInput}
+                  className="hidden"
+                  disabled={generatingImage}
+                />
+                {generatingImage ? (
+                  <>
+                    <div className="w-16 h-16 border-4 border-white/30 border-t-white rounded-full animate-spin mb-4" />
+                    <p className="text-sm text-white/80 font-medium animate-pulse">Generating your image...</p>
+                    <p className="text-xs text-white/50 mt-1">This usually takes 10-30 seconds</p>
+                  </>
+                ) : (
+                  <>
+                    <svg
+                      className={`w-12 h-12 text-white/40 mb-2 transition-transform ${isDragging ? "scale-110" : ""}`}
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"
+                      />
+                    </svg>
+                    <p className="text-sm text-white/60">Click to upload or drag and drop</p>
+                    <p className="text-xs text-white/40 mt-1">PNG, JPG, WEBP up to 10MB</p>
+                  </>
+                )}
+              </div>
             )}
           </div>
-        )}
-      </div>
+
+          {imagePreview && (
+            <ReferenceViewsInput views={extraViews} onChange={setExtraViews} disabled={loading || generatingImage} />
+          )}
+        </>
+      )}
 
       {/* Prompt Input */}
       <div>
@@ -437,37 +469,46 @@ export default function TextTo3DFormNotebook({
           id="prompt"
           value={prompt}
           onChange={(e) => setPrompt(e.target.value)}
-          placeholder="Enter a prompt to generate an image (e.g., 'A 2d floor plan of a 2BHK Flat')"
+          placeholder={pipeline === "direct"
+            ? "Describe the object to model (e.g., 'A wooden armchair with a red cushion')"
+            : "Enter a prompt to generate an image (e.g., 'A 2d floor plan of a 2BHK Flat')"}
+          maxLength={pipeline === "direct" ? MAX_DIRECT_PROMPT_LENGTH : undefined}
           rows={2}
           className="w-full px-4 py-3 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/40 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
           disabled={loading}
         />
       </div>
 
+      <QualityTierSelect value={quality} onChange={setQuality} disabled={loading} />
+
+      <PostProcessingOptions value={postProcessing} onChange={setPostProcessing} disabled={loading} />
+
       {/* Buttons Row */}
       <div className="flex gap-2">
-        <button
-          type="button"
-          onClick={handleBoom}
-          disabled={loading || generatingImage || !prompt.trim()}
-          className="flex-1 px-4 py-3 bg-white/10 hover:bg-white/20 text-white font-semibold rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transform hover:scale-105 active:scale-95 disabled:transform-none"
-        >
-          {generatingImage ? (
-            <>
-              <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-              <span>Generating...</span>
-            </>
-          ) : (
-            <>
-              <span>🍑</span>
-              <span>boom</span>
-            </>
-          )}
-        </button>
+        {pipeline === "image" && (
+          <button
+            type="button"
+            onClick={handleBoom}
+            disabled={loading || generatingImage || !prompt.trim()}
+            className="flex-1 px-4 py-3 bg-white/10 hover:bg-white/20 text-white font-semibold rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transform hover:scale-105 active:scale-95 disabled:transform-none"
+          >
+            {generatingImage ? (
+              <>
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                <span>Generating...</span>
+              </>
+            ) : (
+              <>
+                <span>🍑</span>
+                <span>boom</span>
+              </>
+            )}
+          </button>
+        )}
         <button
           type="button"
           onClick={handleConvertTo3D}
-          disabled={loading || generatingImage || (!imageFile && !imagePreview)}
+          disabled={loading || generatingImage || (pipeline === "direct" ? !prompt.trim() : !imageFile && !imagePreview)}
           className="flex-1 px-4 py-3 bg-gradient-to-r from-violet-600 to-purple-600 hover:from-violet-500 hover:to-purple-500 text-white font-semibold rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 transform hover:scale-105 active:scale-95 disabled:transform-none"
         >
           {loading ? (
@@ -480,7 +521,7 @@ export default function TextTo3DFormNotebook({
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
               </svg>
-              <span>Convert to 3D</span>
+              <span>{pipeline === "direct" ? "Generate 3D" : "Convert to 3D"}</span>
             </>
           )}
         </button>
@@ -0,0 +1,13 @@
+/**
+ * Next.js instrumentation hook
+ * Starts the in-process job worker on server boot so queued or interrupted
+ * generations resume without waiting for a new request.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getJobWorkerMode, startInProcessWorker } = await import('@/lib/workflows/worker');
+    if (getJobWorkerMode() === 'in-process') {
+      startInProcessWorker();
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import type { GenerationOutputData } from "@/types/firestore";
+
+export type ModelFormat = "glb" | "fbx" | "obj" | "usdz" | "stl" | "ply";
+export type ModelUrls = Partial<Record<ModelFormat, string>>;
+
+type OutputUrls = Pick<GenerationOutputData, "model_url" | "model_urls" | "thumbnail_url" | "image_url" | "assets">;
+type PreviewUrls = OutputUrls & Pick<GenerationOutputData, "isometric_path" | "floorplan_path">;
+
+const MODEL_FORMATS: ModelFormat[] = ["glb", "fbx", "obj", "usdz", "stl", "ply"];
+
+// Formats the server can produce from any GLB (POST /api/generations/[id]/convert)
+// FBX isn't one of them: it's only available when the provider supplied it
+export const CONVERTIBLE_FORMATS = ["obj", "stl", "ply", "usdz"] as const;
+export type ConvertibleFormat = (typeof CONVERTIBLE_FORMATS)[number];
+
+export const isConvertibleFormat = (format: string): format is ConvertibleFormat =>
+  (CONVERTIBLE_FORMATS as readonly string[]).includes(format);
+
+// Model URLs for viewing and downloading, preferring our Storage copies over expiring vendor URLs
+export const getModelUrls = (output?: OutputUrls): ModelUrls | undefined => {
+  if (!output) {
+    return undefined;
+  }
+
+  const urls: ModelUrls = {};
+  for (const format of MODEL_FORMATS) {
+    const providerUrl = format === "stl" || format === "ply" ? undefined : output.model_urls?.[format];
+    const url = output.assets?.[format]?.url || providerUrl || (format === "glb" ? output.model_url : undefined);
+    if (url) {
+      urls[format] = url;
+    }
+  }
+  return Object.keys(urls).length > 0 ? urls : undefined;
+};
+
+// Asset formats of GET /api/generations/[id]/assets/[format] that hold a preview image, in order of preference
+const PREVIEW_IMAGE_FORMATS = ["thumbnail", "image", "isometric", "floorplan"] as const;
+export type PreviewImageFormat = (typeof PREVIEW_IMAGE_FORMATS)[number];
+
+// The best preview image a generation has. Stored files are private, so it is fetched by format, not by URL
+export const getPreviewImageFormat = (output?: PreviewUrls): PreviewImageFormat | undefined => {
+  if (!output) {
+    return undefined;
+  }
+  const urls: Record<PreviewImageFormat, string | undefined> = {
+    thumbnail: output.thumbnail_url,
+    image: output.image_url,
+    isometric: output.isometric_path,
+    floorplan: output.floorplan_path,
+  };
+  return PREVIEW_IMAGE_FORMATS.find((format) => output.assets?.[format]?.url || urls[format]);
+};
@@ -1,15 +1,17 @@
-import { ProjectWithId, GenerationWithId, TransactionWithId, WorkflowType } from "@/types/firestore";
+import { ProjectWithId, GenerationWithId, TransactionWithId, WorkflowType, CreditPackOffer, FloorplanLayout, RenderStyleOption } from "@/types/firestore";
 import { getAuth } from "@/lib/firebase";
 
 // Re-export types for compatibility
 export type Project = ProjectWithId;
 export type Generation = GenerationWithId;
 export type Transaction = TransactionWithId;
+export type CreditPack = CreditPackOffer;
+export type RenderStyle = RenderStyleOption;
 
 /**
  * Helper to get auth headers
  */
-async function getAuthHeaders(): Promise<HeadersInit> {
+export async function getAuthHeaders(): Promise<HeadersInit> {
     const auth = getAuth();
     const user = auth.currentUser;
 
@@ -84,6 +86,136 @@ export async function fetchGeneration(generationId: string): Promise<Generation>
     return data;
 }
 
+/**
+ * Cancel a pending or in-progress generation
+ */
+export async function cancelGeneration(generationId: string): Promise<{ id: string; status: string; released: number; refunded: number }> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/generations/${generationId}/cancel`, {
+        method: "POST",
+        headers,
+    });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to cancel generation");
+    }
+
+    return response.json();
+}
+
+/**
+ * Get a short-lived URL for one of a generation's files (e.g. "glb", "thumbnail")
+ * With download, the URL saves the file under `filename` instead of opening it.
+ */
+export async function fetchGenerationAssetUrl(
+    generationId: string,
+    format: string,
+    options?: { download?: boolean; filename?: string }
+): Promise<{ url: string; expires_at: string | null; source: "storage" | "vendor" }> {
+    const params = new URLSearchParams();
+    if (options?.download) {
+        params.set("download", "1");
+    }
+    if (options?.filename) {
+        params.set("filename", options.filename);
+    }
+    const query = params.toString();
+
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/generations/${generationId}/assets/${format}${query ? `?${query}` : ""}`, { headers });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to get ${format.toUpperCase()} file`);
+    }
+
+    return response.json();
+}
+
+/**
+ * Get a generation's model in another format, converting it on the server if needed
+ * The returned URL downloads the file; OBJ conversions are a ZIP with the MTL and textures.
+ */
+export async function convertGenerationModel(
+    generationId: string,
+    format: "obj" | "stl" | "ply" | "usdz",
+    filename?: string
+): Promise<{ format: string; url: string; expires_at: string | null; source: "storage" | "vendor"; converted: boolean }> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/generations/${generationId}/convert`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ format, filename }),
+    });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || `Failed to convert model to ${format.toUpperCase()}`);
+    }
+
+    return response.json();
+}
+
+/**
+ * Texture a completed generation as a new child generation in the same project
+ */
+export async function refineGeneration(
+    generationId: string,
+    options?: { texturePrompt?: string; enablePbr?: boolean }
+): Promise<{ generationId: string; projectId: string; parentGenerationId: string; cost: number; status: string }> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/generations/${generationId}/refine`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ texture_prompt: options?.texturePrompt, enable_pbr: options?.enablePbr }),
+    });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to refine generation");
+    }
+
+    return response.json();
+}
+
+/**
+ * Download the rooms, doors and windows read from a floorplan generation's plan
+ */
+export async function fetchFloorplanLayout(generationId: string, format: "json" | "csv"): Promise<Blob> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/generations/${generationId}/layout?format=${format}`, { headers });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to export floorplan layout");
+    }
+
+    return response.blob();
+}
+
+/**
+ * Save the plan traced in the floorplan editor on a floorplan project (null removes it)
+ */
+export async function saveProjectFloorplanLayout(
+    projectId: string,
+    layout: FloorplanLayout | null
+): Promise<{ floorplan_layout: FloorplanLayout | null }> {
+    const headers = await getAuthHeaders();
+    const response = await fetch(`/api/projects/${projectId}/layout`, {
+        method: "PUT",
+        headers,
+        body: JSON.stringify({ floorplan_layout: layout }),
+    });
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.error || "Failed to save floorplan layout");
+    }
+
+    return response.json();
+}
+
 /**
  * Fetch generations for a specific project
  */
@@ -114,9 +246,39 @@ export async function fetchTransactions(): Promise<Transaction[]> {
 }
 
 /**
- * Create a payment order
+ * Fetch the credit packs currently for sale
+ */
+export async function fetchCreditPacks(currency?: string): Promise<CreditPack[]> {
+    const query = currency ? `?currency=${encodeURIComponent(currency)}` : "";
+    const response = await fetch(`/api/credit-packs${query}`);
+
+    if (!response.ok) {
+        throw new Error("Failed to fetch credit packs");
+    }
+    const data = await response.json();
+    return Array.isArray(data.packs) ? data.packs : [];
+}
+
+/**
+ * Fetch the isometric render styles offered for floorplans, with the default style's ID
  */
-export async function createPaymentOrder(amount: number, credits: number) {
+export async function fetchRenderStyles(): Promise<{ styles: RenderStyle[]; defaultStyle: string }> {
+    const response = await fetch("/api/render-styles");
+
+    if (!response.ok) {
+        throw new Error("Failed to fetch render styles");
+    }
+    const data = await response.json();
+    return {
+        styles: Array.isArray(data.styles) ? data.styles : [],
+        defaultStyle: data.default_style,
+    };
+}
+
+/**
+ * Create a payment order for a credit pack
+ */
+export async function createPaymentOrder(packId: string, currency?: string, promoCode?: string) {
     const headers = await getAuthHeaders();
     const response = await fetch("/api/payments/create-order", {
         method: "POST",
@@ -124,7 +286,7 @@ export async function createPaymentOrder(amount: number, credits: number) {
             ...headers,
             "Content-Type": "application/json",
         },
-        body: JSON.stringify({ amount, credits }),
+        body: JSON.stringify({ pack_id: packId, currency, promo_code: promoCode || undefined }),
     });
 
     if (!response.ok) {
@@ -135,6 +297,28 @@ export async function createPaymentOrder(amount: number, credits: number) {
     return response.json();
 }
 
+/**
+ * Redeem a free credits promo code
+ */
+export async function redeemPromoCode(code: string): Promise<{ code: string; credits: number; balance: number }> {
+    const headers = await getAuthHeaders();
+    const response = await fetch("/api/promo-codes/redeem", {
+        method: "POST",
+        headers: {
+            ...headers,
+            "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ code }),
+    });
+
+    if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to redeem promo code");
+    }
+
+    return response.json();
+}
+
 /**
  * Verify a payment
  */
@@ -1,7 +1,29 @@
+import { getAuthHeaders, fetchGenerationAssetUrl, convertGenerationModel, fetchFloorplanLayout } from "@/lib/client-api";
+import { isConvertibleFormat, type ModelFormat, type ModelUrls } from "@/lib/assetUrls";
+
 /**
  * Download utility functions for 3D models and files
  */
 
+/**
+ * Save a blob to the user's downloads under filename
+ */
+function saveBlob(blob: Blob, filename: string): void {
+    // Create a temporary URL for the blob
+    const blobUrl = window.URL.createObjectURL(blob);
+
+    // Create a temporary anchor element and trigger download
+    const link = document.createElement('a');
+    link.href = blobUrl;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+
+    // Cleanup
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(blobUrl);
+}
+
 /**
  * Download a file from a URL with proper filename
  * Handles CORS and shows progress
@@ -20,28 +42,13 @@ export async function downloadFile(url: string, filename?: string): Promise<void
 
         // Fetch the file through our proxy to avoid CORS issues
         const proxyUrl = `/api/proxy?url=${encodeURIComponent(url)}`;
-        const response = await fetch(proxyUrl);
+        const response = await fetch(proxyUrl, { headers: await getAuthHeaders() });
 
         if (!response.ok) {
             throw new Error(`Failed to download file: ${response.statusText}`);
         }
 
-        // Get the blob
-        const blob = await response.blob();
-
-        // Create a temporary URL for the blob
-        const blobUrl = window.URL.createObjectURL(blob);
-
-        // Create a temporary anchor element and trigger download
-        const link = document.createElement('a');
-        link.href = blobUrl;
-        link.download = filename;
-        document.body.appendChild(link);
-        link.click();
-
-        // Cleanup
-        document.body.removeChild(link);
-        window.URL.revokeObjectURL(blobUrl);
+        saveBlob(await response.blob(), filename);
     } catch (error) {
         console.error('Download failed:', error);
         throw error;
@@ -50,27 +57,56 @@ export async function downloadFile(url: string, filename?: string): Promise<void
 
 /**
  * Download model in specified format
+ * With a generation ID, stored files are fetched through a signed URL from the assets API,
+ * and OBJ/STL/PLY/USDZ are converted from the GLB on the server when the provider didn't supply them.
+ * FBX is never converted, so it must come from the provider.
  */
 export async function downloadModel(
-    modelUrls: {
-        glb?: string;
-        fbx?: string;
-        obj?: string;
-        usdz?: string;
-    },
-    format: 'glb' | 'fbx' | 'obj' | 'usdz',
-    baseName: string = 'model'
+    modelUrls: ModelUrls,
+    format: ModelFormat,
+    baseName: string = 'model',
+    generationId?: string
 ): Promise<void> {
     const url = modelUrls[format];
+    const filename = `${baseName}.${format}`;
+
+    if (generationId) {
+        const asset = isConvertibleFormat(format)
+            ? await convertGenerationModel(generationId, format, baseName)
+            : await fetchGenerationAssetUrl(generationId, format, { download: true, filename: baseName });
+        if (asset.source === 'storage') {
+            // The signed URL carries Content-Disposition: attachment, so no CORS fetch is needed
+            const link = document.createElement('a');
+            link.href = asset.url;
+            link.download = filename;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            return;
+        }
+        await downloadFile(asset.url, filename);
+        return;
+    }
 
     if (!url) {
         throw new Error(`${format.toUpperCase()} format not available for this model`);
     }
 
-    const filename = `${baseName}.${format}`;
     await downloadFile(url, filename);
 }
 
+/**
+ * Download a floorplan generation's room list as JSON or CSV
+ */
+export async function downloadFloorplanLayout(generationId: string, format: "json" | "csv", filename: string): Promise<void> {
+    try {
+        saveBlob(await fetchFloorplanLayout(generationId, format), `${filename}.${format}`);
+    } catch (error) {
+        console.error('Layout export failed:', error);
+        throw error;
+    }
+}
+
 /**
  * Get file size from URL
  */
@@ -0,0 +1,96 @@
+import { getLayoutWalls, snapToWall } from "@/lib/floorplanLayout";
+import type { FloorplanLayout, FloorplanPoint } from "@/types/firestore";
+
+/**
+ * Clean plan images drawn from a traced floorplan layout
+ */
+
+const DEFAULT_SIZE = 1024;
+
+/**
+ * Draw a traced layout as a black-on-white plan the size of the original image
+ * Doors are gaps in the walls and windows are thin double lines, so a misread scan
+ * can be replaced by an unambiguous plan; the same size keeps floorplan_scale valid.
+ */
+export function renderLayoutImage(layout: FloorplanLayout): string {
+    const width = layout.image_width || DEFAULT_SIZE;
+    const height = layout.image_height || DEFAULT_SIZE;
+    const unit = Math.max(width, height);
+    const walls = getLayoutWalls(layout);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+        throw new Error("Canvas is not supported in this browser");
+    }
+
+    const toPixels = (point: FloorplanPoint): [number, number] => [point.x * width, point.y * height];
+
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+
+    // Walls
+    ctx.strokeStyle = "#111111";
+    ctx.lineWidth = unit / 120;
+    ctx.lineCap = "square";
+    for (const wall of walls) {
+        ctx.beginPath();
+        ctx.moveTo(...toPixels(wall.start));
+        ctx.lineTo(...toPixels(wall.end));
+        ctx.stroke();
+    }
+
+    // Openings are cut along the wall they sit on
+    const drawOpening = (position: FloorplanPoint, kind: "door" | "window") => {
+        const snapped = snapToWall(walls, position, width, height);
+        if (!snapped) {
+            return;
+        }
+        const [x, y] = toPixels(snapped.point);
+        const [sx, sy] = toPixels(snapped.wall.start);
+        const [ex, ey] = toPixels(snapped.wall.end);
+        const length = Math.hypot(ex - sx, ey - sy) || 1;
+        const [ux, uy] = [(ex - sx) / length, (ey - sy) / length];
+        const half = (kind === "door" ? unit / 45 : unit / 35);
+
+        ctx.strokeStyle = "#ffffff";
+        ctx.lineWidth = unit / 120 + 2;
+        ctx.lineCap = "butt";
+        ctx.beginPath();
+        ctx.moveTo(x - ux * half, y - uy * half);
+        ctx.lineTo(x + ux * half, y + uy * half);
+        ctx.stroke();
+
+        if (kind === "window") {
+            const offset = unit / 400;
+            ctx.strokeStyle = "#111111";
+            ctx.lineWidth = Math.max(unit / 800, 1);
+            for (const side of [-1, 1]) {
+                ctx.beginPath();
+                ctx.moveTo(x - ux * half - uy * offset * side, y - uy * half + ux * offset * side);
+                ctx.lineTo(x + ux * half - uy * offset * side, y + uy * half + ux * offset * side);
+                ctx.stroke();
+            }
+        }
+    };
+    layout.doors.forEach((door) => drawOpening(door, "door"));
+    layout.windows.forEach((window) => drawOpening(window, "window"));
+
+    // Room names at the middle of their outlines
+    ctx.fillStyle = "#333333";
+    ctx.font = `${Math.round(unit / 50)}px sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    for (const room of layout.rooms) {
+        if (room.polygon.length === 0) {
+            continue;
+        }
+        const x = room.polygon.reduce((sum, point) => sum + point.x, 0) / room.polygon.length;
+        const y = room.polygon.reduce((sum, point) => sum + point.y, 0) / room.polygon.length;
+        ctx.fillText(room.name, x * width, y * height);
+    }
+
+    return canvas.toDataURL("image/png");
+}
@@ -1,9 +1,9 @@
 "use client";
 
 import { initializeApp, getApps, getApp as getFirebaseApp } from "firebase/app";
-import { getAuth as getFirebaseAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
-import { getStorage as getFirebaseStorage } from "firebase/storage";
+import { getAuth as getFirebaseAuth, connectAuthEmulator } from "firebase/auth";
+import { getFirestore, connectFirestoreEmulator } from "firebase/firestore";
+import { getStorage as getFirebaseStorage, connectStorageEmulator } from "firebase/storage";
 
 // Only initialize Firebase on the client side
 let app: ReturnType<typeof initializeApp> | null = null;
@@ -45,6 +45,15 @@ function initFirebase() {
       auth = getFirebaseAuth(app);
       db = getFirestore(app);
       storage = getFirebaseStorage(app);
+
+      // Local Firebase emulators (default ports) for end-to-end tests
+      const emulatorHost = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST;
+      if (emulatorHost) {
+        connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+        connectFirestoreEmulator(db, emulatorHost, 8080);
+        connectStorageEmulator(storage, emulatorHost, 9199);
+        console.log('[Firebase] Using emulators on', emulatorHost);
+      }
     } catch (error) {
       console.error("Failed to initialize Firebase:", error);
       // Don't throw - allow app to continue without Firebase
@@ -0,0 +1,106 @@
+import type {
+  FloorplanExtraction,
+  FloorplanLayout,
+  FloorplanMode,
+  FloorplanPoint,
+  FloorplanRoomType,
+  FloorplanWall,
+} from "@/types/firestore";
+
+export const FLOORPLAN_MODES: FloorplanMode[] = ["reconstruct", "extrude"];
+export const DEFAULT_FLOORPLAN_MODE: FloorplanMode = "reconstruct";
+
+export const FLOORPLAN_ROOM_TYPES: FloorplanRoomType[] = [
+  "bedroom",
+  "bathroom",
+  "kitchen",
+  "living",
+  "dining",
+  "hallway",
+  "closet",
+  "laundry",
+  "office",
+  "garage",
+  "balcony",
+  "other",
+];
+
+export const RECONSTRUCT_COST = 125; // TRELLIS reconstruction of the isometric render
+export const EXTRUDE_COST = 25; // Built on our servers without a model provider
+
+export const MAX_LAYOUT_WALLS = 500;
+export const MAX_LAYOUT_ROOMS = 100;
+export const MAX_LAYOUT_OPENINGS = 200; // Doors and windows each
+export const MAX_ROOM_POINTS = 100;
+
+export const isFloorplanMode = (mode: unknown): mode is FloorplanMode =>
+  typeof mode === "string" && (FLOORPLAN_MODES as string[]).includes(mode);
+
+export const getFloorplanModeCost = (mode: FloorplanMode = DEFAULT_FLOORPLAN_MODE): number =>
+  mode === "extrude" ? EXTRUDE_COST : RECONSTRUCT_COST;
+
+// Rounded so the same corner of two rooms matches despite float noise
+const pointKey = (point: FloorplanPoint) => `${point.x.toFixed(3)},${point.y.toFixed(3)}`;
+
+// The layout's walls, or each room outline edge once when none are drawn
+export const getLayoutWalls = (layout: FloorplanLayout): FloorplanWall[] => {
+  if (layout.walls.length > 0) {
+    return layout.walls;
+  }
+
+  const seen = new Set<string>();
+  const walls: FloorplanWall[] = [];
+  for (const room of layout.rooms) {
+    if (room.polygon.length < 3) {
+      continue;
+    }
+    room.polygon.forEach((start, index) => {
+      const end = room.polygon[(index + 1) % room.polygon.length];
+      const [a, b] = [pointKey(start), pointKey(end)].sort();
+      if (a === b || seen.has(`${a}|${b}`)) {
+        return;
+      }
+      seen.add(`${a}|${b}`);
+      walls.push({ start, end });
+    });
+  }
+  return walls;
+};
+
+// Rooms, doors and windows read off the plan, as a layout whose walls follow the room outlines
+export const layoutFromExtraction = (extraction: FloorplanExtraction): FloorplanLayout => ({
+  walls: [],
+  rooms: extraction.rooms.map(({ name, type, polygon }) => ({ name, type, polygon })),
+  doors: extraction.doors.map((door) => door.position),
+  windows: extraction.windows.map((window) => window.position),
+});
+
+// Every point of a layout's rooms and walls, which together outline the building
+export const getLayoutOutlinePoints = (layout: FloorplanLayout): FloorplanPoint[] => [
+  ...layout.rooms.flatMap((room) => room.polygon),
+  ...layout.walls.flatMap((wall) => [wall.start, wall.end]),
+];
+
+// Closest point on any of the walls, with its distance in pixels of the width × height plan image
+export const snapToWall = (
+  walls: FloorplanWall[],
+  point: FloorplanPoint,
+  width: number,
+  height: number
+): { wall: FloorplanWall; point: FloorplanPoint; distance: number } | null => {
+  let best: { wall: FloorplanWall; point: FloorplanPoint; distance: number } | null = null;
+  for (const wall of walls) {
+    const dx = (wall.end.x - wall.start.x) * width;
+    const dy = (wall.end.y - wall.start.y) * height;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0
+      ? Math.min(Math.max((((point.x - wall.start.x) * width) * dx + ((point.y - wall.start.y) * height) * dy) / lengthSquared, 0), 1)
+      : 0;
+    const snapped = { x: wall.start.x + (wall.end.x - wall.start.x) * t, y: wall.start.y + (wall.end.y - wall.start.y) * t };
+    const distance = Math.hypot((point.x - snapped.x) * width, (point.y - snapped.y) * height);
+    if (!best || distance < best.distance) {
+      best = { wall, point: snapped, distance };
+    }
+  }
+  return best;
+};
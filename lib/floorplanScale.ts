@@ -0,0 +1,41 @@
+import type { FloorplanPoint, FloorplanScale, FloorplanScaleReference } from "@/types/firestore";
+
+export const FLOORPLAN_SCALE_REFERENCES: FloorplanScaleReference[] = ["wall", "scale_bar"];
+
+export const MIN_REFERENCE_LENGTH_M = 0.1;
+export const MAX_REFERENCE_LENGTH_M = 1000;
+export const MIN_REFERENCE_PIXELS = 10; // Shorter segments are too imprecise to scale a whole plan by
+
+export const getReferencePixels = (scale: Pick<FloorplanScale, "start" | "end">): number =>
+  Math.hypot(scale.end[0] - scale.start[0], scale.end[1] - scale.start[1]);
+
+// Real-world size of the whole plan image, margins included; points on the plan are placed within it
+export const getFloorplanExtent = (scale: FloorplanScale): { width_m: number; depth_m: number } => {
+  const metersPerPixel = scale.length_m / getReferencePixels(scale);
+  return { width_m: scale.image_width * metersPerPixel, depth_m: scale.image_height * metersPerPixel };
+};
+
+// Real-world size of the building: the bounds of its outline points (fractions of the plan image).
+// Margins, legends and title blocks make the image larger than the building. Null without an outline.
+export const getOutlineExtent = (
+  scale: FloorplanScale,
+  points: FloorplanPoint[]
+): { width_m: number; depth_m: number } | null => {
+  if (points.length === 0) {
+    return null;
+  }
+  const { width_m, depth_m } = getFloorplanExtent(scale);
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const outline = {
+    width_m: (Math.max(...xs) - Math.min(...xs)) * width_m,
+    depth_m: (Math.max(...ys) - Math.min(...ys)) * depth_m,
+  };
+  return outline.width_m > 0 && outline.depth_m > 0 ? outline : null;
+};
+
+// Longest horizontal side of the building, which a reconstructed model is scaled to
+export const getFloorplanFootprint = (scale: FloorplanScale, points: FloorplanPoint[]): number | null => {
+  const extent = getOutlineExtent(scale, points);
+  return extent ? Math.max(extent.width_m, extent.depth_m) : null;
+};
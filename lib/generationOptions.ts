@@ -0,0 +1,62 @@
+import type { GenerationOptions, MeshTopology, MeshyAiModel, QualityTier, TextTo3DPipeline } from "@/types/firestore";
+
+export const QUALITY_TIERS: QualityTier[] = ["draft", "standard", "high"];
+export const MESHY_AI_MODELS: MeshyAiModel[] = ["meshy-4", "meshy-5", "latest"];
+export const MESH_TOPOLOGIES: MeshTopology[] = ["triangle", "quad"];
+export const TEXT_TO_3D_PIPELINES: TextTo3DPipeline[] = ["image", "direct"];
+
+export const DEFAULT_QUALITY_TIER: QualityTier = "draft";
+export const MIN_TARGET_POLYCOUNT = 100;
+export const MAX_TARGET_POLYCOUNT = 300000;
+export const DEFAULT_PIPELINE: TextTo3DPipeline = "image";
+export const MAX_DIRECT_PROMPT_LENGTH = 600; // Meshy's text-to-3d prompt limit
+
+// Draft keeps the original cost-optimized Meshy settings
+export const QUALITY_TIER_PRESETS: Record<QualityTier, { label: string; description: string; options: Omit<GenerationOptions, "quality" | "pipeline"> }> = {
+  draft: {
+    label: "Draft",
+    description: "Untextured, 10k triangles",
+    options: { ai_model: "meshy-4", should_texture: false, enable_pbr: false, target_polycount: 10000, topology: "triangle" },
+  },
+  standard: {
+    label: "Standard",
+    description: "Textured, 30k triangles",
+    options: { ai_model: "meshy-5", should_texture: true, enable_pbr: false, target_polycount: 30000, topology: "triangle" },
+  },
+  high: {
+    label: "High",
+    description: "PBR textures on the latest model, 100k triangles",
+    options: { ai_model: "latest", should_texture: true, enable_pbr: true, target_polycount: 100000, topology: "triangle" },
+  },
+};
+
+// Credits per 3D generation: a base price plus surcharges for what costs more at the provider
+const BASE_COST = 125;
+const TEXTURE_COST = 125;
+const PBR_COST = 50;
+const AI_MODEL_COST: Record<MeshyAiModel, number> = { "meshy-4": 0, "meshy-5": 50, latest: 100 };
+const HIGH_POLY_THRESHOLD = 30000;
+const HIGH_POLY_COST = 50;
+
+export const isQualityTier = (tier: unknown): tier is QualityTier =>
+  typeof tier === "string" && (QUALITY_TIERS as string[]).includes(tier);
+
+// A tier's preset with the given overrides applied
+export const resolveGenerationOptions = (overrides: Partial<GenerationOptions> = {}): GenerationOptions => {
+  const quality = overrides.quality || DEFAULT_QUALITY_TIER;
+  return { quality, pipeline: DEFAULT_PIPELINE, ...QUALITY_TIER_PRESETS[quality].options, ...overrides };
+};
+
+export const getGenerationCost = (options: GenerationOptions): number =>
+  BASE_COST +
+  (options.should_texture ? TEXTURE_COST : 0) +
+  (options.should_texture && options.enable_pbr ? PBR_COST : 0) +
+  AI_MODEL_COST[options.ai_model] +
+  (options.target_polycount > HIGH_POLY_THRESHOLD ? HIGH_POLY_COST : 0);
+
+export const getQualityTierCost = (tier: QualityTier): number =>
+  getGenerationCost(resolveGenerationOptions({ quality: tier }));
+
+// Refining textures an existing shape, so it costs only the texturing surcharges
+export const getRefineCost = (enablePbr: boolean = true): number =>
+  TEXTURE_COST + (enablePbr ? PBR_COST : 0);
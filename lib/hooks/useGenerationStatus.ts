@@ -60,14 +60,14 @@ export function useGenerationStatus({
       if (prevStatusRef.current !== gen.status) {
         if (gen.status === "completed" && onComplete) {
           onComplete(gen);
-        } else if (gen.status === "failed" && onError) {
-          onError(new Error(gen.error_message || "Generation failed"));
+        } else if ((gen.status === "failed" || gen.status === "cancelled") && onError) {
+          onError(new Error(gen.error_message || (gen.status === "cancelled" ? "Generation cancelled" : "Generation failed")));
         }
         prevStatusRef.current = gen.status;
       }
 
-      // Stop polling if completed or failed
-      if (gen.status === "completed" || gen.status === "failed") {
+      // Stop polling once the generation has finished
+      if (gen.status === "completed" || gen.status === "failed" || gen.status === "cancelled") {
         if (intervalRef.current) {
           clearInterval(intervalRef.current);
           intervalRef.current = null;
@@ -123,14 +123,14 @@ export function useGenerationStatus({
         if (prevStatusRef.current !== gen.status) {
           if (gen.status === "completed" && onComplete) {
             onComplete(gen);
-          } else if (gen.status === "failed" && onError) {
-            onError(new Error(gen.error_message || "Generation failed"));
+          } else if ((gen.status === "failed" || gen.status === "cancelled") && onError) {
+            onError(new Error(gen.error_message || (gen.status === "cancelled" ? "Generation cancelled" : "Generation failed")));
           }
           prevStatusRef.current = gen.status;
         }
 
-        // Stop polling if completed or failed
-        if (gen.status === "completed" || gen.status === "failed") {
+        // Stop polling once the generation has finished
+        if (gen.status === "completed" || gen.status === "failed" || gen.status === "cancelled") {
           setLoading(false);
         }
       })
@@ -159,7 +159,7 @@ export function useGenerationStatus({
         fetchStatus();
       }, pollInterval);
     } else if (
-      (generation.status === "completed" || generation.status === "failed") &&
+      (generation.status === "completed" || generation.status === "failed" || generation.status === "cancelled") &&
       intervalRef.current
     ) {
       // Stop polling
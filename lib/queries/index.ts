@@ -1,3 +1,4 @@
 export { useGenerationQuery } from './useGenerationQuery';
 export { useProjectQuery } from './useProjectQuery';
 export { useProjectGenerationsQuery } from './useProjectGenerationsQuery';
+export { useAssetUrlQuery } from './useAssetUrlQuery';
@@ -0,0 +1,23 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchGenerationAssetUrl } from '@/lib/client-api';
+
+/**
+ * Query hook for a short-lived URL of one of a generation's files
+ * Refetched before the signed URL (valid for 15 minutes) runs out
+ */
+export function useAssetUrlQuery(generationId: string | null | undefined, format: string | null | undefined) {
+    return useQuery({
+        queryKey: ['asset-url', generationId, format],
+        queryFn: async () => {
+            if (!generationId || !format) {
+                throw new Error('Generation ID and format are required');
+            }
+            const asset = await fetchGenerationAssetUrl(generationId, format);
+            return asset.url;
+        },
+        enabled: !!generationId && !!format,
+        retry: 1,
+        staleTime: 1000 * 60 * 10, // 10 minutes
+        gcTime: 1000 * 60 * 10, // 10 minutes
+    });
+}
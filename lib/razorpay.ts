@@ -42,7 +42,8 @@ export function loadRazorpayScript(): Promise<void> {
     }
 
     const script = document.createElement("script");
-    script.src = "https://checkout.razorpay.com/v1/checkout.js";
+    // NEXT_PUBLIC_RAZORPAY_CHECKOUT_URL points at the local stand-in for end-to-end tests
+    script.src = process.env.NEXT_PUBLIC_RAZORPAY_CHECKOUT_URL || "https://checkout.razorpay.com/v1/checkout.js";
     script.async = true;
     script.onload = () => resolve();
     script.onerror = () => reject(new Error("Failed to load Razorpay script"));
@@ -0,0 +1,433 @@
+import crypto from 'crypto';
+import path from 'path';
+import axios from 'axios';
+import admin from './firebase-admin';
+import { getFirestore, getGeneration } from './firestore';
+import {
+  uploadBuffer,
+  downloadFromStorage,
+  getFileMetadata,
+  getGenerationStoragePath,
+  getStoragePathFromUrl,
+  isUserStoragePath,
+} from './storage';
+import { retryWithBackoff } from './retry';
+import type { GenerationAsset, GenerationOutputData, GenerationWithId } from '@/types/firestore';
+
+/**
+ * Generation asset mirroring
+ *
+ * Provider outputs (Meshy model/thumbnail/texture URLs, Replicate files) expire,
+ * so once a generation completes every one of them is copied into the
+ * generation's Storage folder and recorded in `output_data.assets` with its
+ * checksum and size. Vendor URLs are kept alongside for reference. Outputs a
+ * workflow already stored itself (e.g. floorplan models and renders) are only
+ * recorded, with the checksum and size of the stored file.
+ */
+
+const DOWNLOAD_TIMEOUT_MS = 120000; // 2 minutes per file
+const MAX_ASSET_BYTES = 100 * 1024 * 1024; // Storage upload limit
+const BACKFILL_PAGE_SIZE = 25;
+
+// Formats whose output URL may already point at the generation's own Storage folder
+const STORED_OUTPUT_FORMATS = [
+  'glb',
+  'original_glb',
+  'thumbnail',
+  'image',
+  'floorplan',
+  'isometric',
+  'preview_video',
+] as const;
+
+const CONTENT_TYPES: Record<string, string> = {
+  glb: 'model/gltf-binary',
+  gltf: 'model/gltf+json',
+  fbx: 'application/octet-stream',
+  obj: 'model/obj',
+  mtl: 'model/mtl',
+  usdz: 'model/vnd.usdz+zip',
+  stl: 'model/stl',
+  ply: 'application/octet-stream',
+  zip: 'application/zip',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+};
+
+/**
+ * Custom error classes
+ */
+export class AssetError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'AssetError';
+  }
+}
+
+export interface AssetMirrorResult {
+  generationId: string;
+  mirrored: string[];
+  skipped: string[];
+  failed: Array<{ key: string; error: string }>;
+}
+
+interface AssetSource {
+  key: string;
+  url: string;
+  filename: string;
+}
+
+function getExtension(url: string, fallback: string): string {
+  try {
+    const extension = path.extname(new URL(url).pathname).slice(1).toLowerCase();
+    return CONTENT_TYPES[extension] ? extension : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * List the vendor URLs in a generation's output that should have a Storage copy
+ */
+export function collectAssetSources(output: GenerationOutputData | undefined): AssetSource[] {
+  if (!output) {
+    return [];
+  }
+
+  const sources: AssetSource[] = [];
+  const add = (key: string, url: unknown, basename: string, fallbackExtension: string) => {
+    if (typeof url !== 'string' || !/^https?:\/\//.test(url) || getStoragePathFromUrl(url)) {
+      return;
+    }
+    sources.push({ key, url, filename: `${basename}.${getExtension(url, fallbackExtension)}` });
+  };
+
+  const modelUrls = output.model_urls || {};
+  add('glb', modelUrls.glb || output.model_url, 'model', 'glb');
+  add('fbx', modelUrls.fbx, 'model', 'fbx');
+  add('obj', modelUrls.obj, 'model', 'obj');
+  add('usdz', modelUrls.usdz, 'model', 'usdz');
+  add('pre_remeshed_glb', modelUrls.pre_remeshed_glb, 'model_pre_remeshed', 'glb');
+  add('original_glb', output.post_processing?.original_model_url, 'model_original', 'glb');
+  add('thumbnail', output.thumbnail_url, 'thumbnail', 'png');
+  add('image', output.image_url, 'image', 'png');
+
+  // Meshy returns one set of PBR maps per material: [{ base_color, metallic, normal, roughness }]
+  (output.texture_urls || []).forEach((texture, index) => {
+    if (texture && typeof texture === 'object') {
+      for (const [map, url] of Object.entries(texture)) {
+        const name = `texture_${index}_${map.replace(/[^a-z0-9_]/gi, '_').toLowerCase()}`;
+        add(name, url, name, 'png');
+      }
+    }
+  });
+
+  return sources;
+}
+
+/**
+ * List the outputs of a generation already in its owner's Storage folder
+ * They need no copy, only an asset record.
+ */
+function collectStoredOutputs(generation: GenerationWithId): Array<{ key: string; storagePath: string; url: string }> {
+  const output = generation.output_data || {};
+  const stored: Array<{ key: string; storagePath: string; url: string }> = [];
+  for (const key of STORED_OUTPUT_FORMATS) {
+    const url = getOutputUrl(output, key);
+    const storagePath = url ? getStoragePathFromUrl(url) : null;
+    if (url && storagePath && isUserStoragePath(storagePath, generation.user_id)) {
+      stored.push({ key, storagePath, url });
+    }
+  }
+  return stored;
+}
+
+/**
+ * Download one vendor file, with retries for transient failures
+ */
+async function downloadAsset(url: string): Promise<{ buffer: Buffer; contentType?: string }> {
+  return retryWithBackoff(
+    async () => {
+      const response = await axios.get(url, {
+        responseType: 'arraybuffer',
+        timeout: DOWNLOAD_TIMEOUT_MS,
+        maxRedirects: 5,
+        maxContentLength: MAX_ASSET_BYTES,
+      });
+      const contentType = response.headers['content-type'];
+      return {
+        buffer: Buffer.from(response.data),
+        contentType: typeof contentType === 'string' ? contentType.split(';')[0].trim() : undefined,
+      };
+    },
+    { maxRetries: 3, initialDelay: 2000, maxDelay: 20000 }
+  );
+}
+
+/**
+ * Copy every vendor output of a completed generation into Storage
+ *
+ * Outputs already in the owner's Storage folder are recorded without copying.
+ * Idempotent: assets already copied from the same vendor URL are skipped, so it is
+ * safe to run from both the workflow and provider webhooks, and to re-run after a
+ * partial failure. A failed file doesn't stop the others; the generation is marked
+ * 'partial' and the failures are returned.
+ */
+export async function mirrorGenerationAssets(
+  generationOrId: string | GenerationWithId
+): Promise<AssetMirrorResult> {
+  const generation = typeof generationOrId === 'string'
+    ? await getGeneration(generationOrId)
+    : generationOrId;
+  if (!generation) {
+    throw new AssetError(`Generation not found: ${generationOrId}`, 'GENERATION_NOT_FOUND');
+  }
+  if (!generation.project_id || !generation.generation_number) {
+    throw new AssetError(`Generation ${generation.id} has no project or generation number`, 'NO_STORAGE_PATH');
+  }
+
+  const result: AssetMirrorResult = { generationId: generation.id, mirrored: [], skipped: [], failed: [] };
+  const existing = generation.output_data?.assets || {};
+  const generationRef = getFirestore().collection('generations').doc(generation.id);
+
+  // One file at a time: models can be tens of megabytes
+  for (const source of collectAssetSources(generation.output_data)) {
+    if (existing[source.key]?.source_url === source.url) {
+      result.skipped.push(source.key);
+      continue;
+    }
+
+    try {
+      const { buffer, contentType: headerType } = await downloadAsset(source.url);
+      const extension = path.extname(source.filename).slice(1);
+      // Trust the vendor's Content-Type for images only; model files are often served as octet-stream
+      const contentType = headerType?.startsWith('image/') ? headerType : CONTENT_TYPES[extension] || 'application/octet-stream';
+
+      const storagePath = getGenerationStoragePath(
+        generation.user_id,
+        generation.project_id,
+        generation.generation_number,
+        source.filename
+      );
+      const url = await uploadBuffer(buffer, storagePath, contentType);
+
+      const asset: GenerationAsset = {
+        storage_path: storagePath,
+        url,
+        source_url: source.url,
+        content_type: contentType,
+        size_bytes: buffer.length,
+        sha256: crypto.createHash('sha256').update(buffer).digest('hex'),
+        mirrored_at: admin.firestore.Timestamp.now() as any,
+      };
+      await generationRef.update({ [`output_data.assets.${source.key}`]: asset });
+      existing[source.key] = asset;
+      result.mirrored.push(source.key);
+    } catch (error: any) {
+      console.error(`[Assets] Failed to mirror ${source.key} for generation ${generation.id}:`, error.message);
+      result.failed.push({ key: source.key, error: error.message || 'Unknown error' });
+    }
+  }
+
+  for (const output of collectStoredOutputs(generation)) {
+    if (existing[output.key]?.storage_path === output.storagePath) {
+      result.skipped.push(output.key);
+      continue;
+    }
+
+    try {
+      // Storage metadata has an MD5 but no SHA-256, so the file is hashed here
+      const [metadata, buffer] = await Promise.all([
+        getFileMetadata(output.storagePath),
+        downloadFromStorage(output.storagePath),
+      ]);
+      const extension = path.extname(output.storagePath).slice(1).toLowerCase();
+
+      const asset: GenerationAsset = {
+        storage_path: output.storagePath,
+        url: output.url,
+        source_url: output.url,
+        content_type: metadata.contentType || CONTENT_TYPES[extension] || 'application/octet-stream',
+        size_bytes: Number(metadata.size) || buffer.length,
+        sha256: crypto.createHash('sha256').update(buffer).digest('hex'),
+        mirrored_at: admin.firestore.Timestamp.now() as any,
+      };
+      await generationRef.update({ [`output_data.assets.${output.key}`]: asset });
+      existing[output.key] = asset;
+      result.mirrored.push(output.key);
+    } catch (error: any) {
+      console.error(`[Assets] Failed to record stored ${output.key} for generation ${generation.id}:`, error.message);
+      result.failed.push({ key: output.key, error: error.message || 'Unknown error' });
+    }
+  }
+
+  await generationRef.update({
+    'output_data.assets_status': result.failed.length === 0 ? 'complete' : 'partial',
+    'output_data.assets_mirrored_at': admin.firestore.Timestamp.now(),
+  });
+
+  console.log(
+    `[Assets] Generation ${generation.id}: ${result.mirrored.length} mirrored, ` +
+    `${result.skipped.length} already stored, ${result.failed.length} failed`
+  );
+  return result;
+}
+
+/**
+ * Where a generation's file in a given format lives
+ * 'storage' files are private and need a signed URL; 'vendor' URLs are served as-is until they expire.
+ */
+export type ResolvedAsset =
+  | { source: 'storage'; storagePath: string; contentType?: string }
+  | { source: 'vendor'; url: string };
+
+/**
+ * Output fields holding each format's URL, for generations without an `assets` record
+ */
+function getOutputUrl(output: GenerationOutputData, format: string): string | undefined {
+  switch (format) {
+    case 'glb':
+      return output.model_urls?.glb || output.model_url;
+    case 'fbx':
+    case 'obj':
+    case 'usdz':
+    case 'pre_remeshed_glb':
+      return output.model_urls?.[format];
+    case 'original_glb':
+      return output.post_processing?.original_model_url;
+    case 'thumbnail':
+      return output.thumbnail_url;
+    case 'image':
+      return output.image_url;
+    case 'floorplan':
+      return output.floorplan_path;
+    case 'isometric':
+      return output.isometric_path;
+    case 'preview_video':
+      return output.preview_video_path;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Find a generation's file in a format ('glb', 'thumbnail', 'texture_0_base_color', ...)
+ * Storage copies win over vendor URLs. Returns null if the generation has no such file.
+ * Throws AssetError for a stored file outside the generation owner's folder.
+ */
+export function resolveGenerationAsset(generation: GenerationWithId, format: string): ResolvedAsset | null {
+  if (!/^[a-z0-9_]{1,64}$/.test(format)) {
+    throw new AssetError(`Invalid asset format: ${format}`, 'INVALID_FORMAT');
+  }
+
+  // Some output URLs come from the request (e.g. an uploaded plan's URL), so they
+  // could point at another user's files
+  const assertOwnPath = (storagePath: string) => {
+    if (!isUserStoragePath(storagePath, generation.user_id)) {
+      throw new AssetError(`The ${format} file of generation ${generation.id} is not in its owner's storage`, 'FOREIGN_ASSET');
+    }
+  };
+
+  const output = generation.output_data || {};
+  const asset = output.assets?.[format];
+  if (asset) {
+    assertOwnPath(asset.storage_path);
+    return { source: 'storage', storagePath: asset.storage_path, contentType: asset.content_type };
+  }
+
+  const url = getOutputUrl(output, format);
+  if (!url || !/^https?:\/\//.test(url)) {
+    return null;
+  }
+  const storagePath = getStoragePathFromUrl(url);
+  if (!storagePath) {
+    return { source: 'vendor', url };
+  }
+  assertOwnPath(storagePath);
+  return { source: 'storage', storagePath };
+}
+
+/**
+ * Read a file into memory by URL: our bucket directly, anything else over HTTP
+ */
+export async function readAssetUrl(url: string): Promise<Buffer> {
+  const storagePath = getStoragePathFromUrl(url);
+  if (storagePath) {
+    return downloadFromStorage(storagePath);
+  }
+  return (await downloadAsset(url)).buffer;
+}
+
+/**
+ * Read a generation's file in a format into memory, from Storage or the vendor
+ */
+export async function readGenerationAsset(generation: GenerationWithId, format: string): Promise<Buffer> {
+  const asset = resolveGenerationAsset(generation, format);
+  if (!asset) {
+    throw new AssetError(`Generation ${generation.id} has no ${format} file`, 'ASSET_NOT_FOUND');
+  }
+  if (asset.source === 'storage') {
+    return downloadFromStorage(asset.storagePath);
+  }
+  return (await downloadAsset(asset.url)).buffer;
+}
+
+/**
+ * Mirror assets without letting a failure affect the caller
+ * For use right after a generation completes; the backfill picks up anything missed.
+ */
+export async function mirrorGenerationAssetsSafely(generationId: string): Promise<void> {
+  try {
+    await mirrorGenerationAssets(generationId);
+  } catch (error: any) {
+    console.error(`[Assets] Failed to mirror assets for generation ${generationId}:`, error.message);
+  }
+}
+
+/**
+ * Mirror one page of completed generations that aren't fully stored yet (Admin function)
+ * Pass the returned nextCursor as startAfter to continue.
+ */
+export async function backfillGenerationAssets(
+  options: { limit?: number; startAfter?: string } = {}
+): Promise<{ checked: number; results: AssetMirrorResult[]; nextCursor?: string }> {
+  const limit = Math.min(Math.max(options.limit || BACKFILL_PAGE_SIZE, 1), 100);
+
+  let query = getFirestore()
+    .collection('generations')
+    .where('status', '==', 'completed')
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(limit);
+  if (options.startAfter) {
+    query = query.startAfter(options.startAfter);
+  }
+
+  const snapshot = await query.get();
+  const results: AssetMirrorResult[] = [];
+
+  for (const doc of snapshot.docs) {
+    const generation = { id: doc.id, ...doc.data() } as GenerationWithId;
+    if (generation.output_data?.assets_status === 'complete') {
+      continue;
+    }
+    try {
+      results.push(await mirrorGenerationAssets(generation));
+    } catch (error: any) {
+      results.push({
+        generationId: doc.id,
+        mirrored: [],
+        skipped: [],
+        failed: [{ key: '*', error: error.message || 'Unknown error' }],
+      });
+    }
+  }
+
+  return {
+    checked: snapshot.size,
+    results,
+    nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : undefined,
+  };
+}
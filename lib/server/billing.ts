@@ -1,7 +1,10 @@
 import admin from './firebase-admin';
 import { getFirestore, getUser, createUserWithStarterCredits, createTransaction } from './firestore';
-import type { TransactionDocument, UserDocument } from '@/types/firestore';
+import type { GenerationStatus, TransactionDocument, UserDocument } from '@/types/firestore';
 import crypto from 'crypto';
+import { invalidateCache, getCacheKey } from './cache';
+import { postLedgerJournal } from './ledger';
+import { checkOrderPromoCode } from './promo';
 
 const STARTER_CREDITS = 1250;
 const GENERATION_COST = 125;
@@ -27,7 +30,7 @@ export class InsufficientCreditsError extends BillingError {
 /**
  * Secure constant-time string comparison to prevent timing attacks
  */
-function secureCompare(a: string, b: string): boolean {
+export function secureCompare(a: string, b: string): boolean {
   if (!a || !b || a.length !== b.length) {
     return false;
   }
@@ -73,9 +76,52 @@ function validateCreditAmount(amount: number, allowNegative: boolean = false): v
 }
 
 /**
- * Get user's current credit balance
+ * Credit balance split into held and spendable credits
  */
-export async function getUserCredits(userId: string): Promise<number> {
+export interface CreditBalance {
+  balance: number;    // Total credits on the account
+  reserved: number;   // Credits held by in-flight generations
+  available: number;  // Credits that can be spent or held
+}
+
+function toCreditBalance(data?: Partial<UserDocument>): CreditBalance {
+  // The balance can be negative after a clawback; only what can be spent is floored at 0
+  const balance = Math.floor(typeof data?.credits === 'number' ? data.credits : 0);
+  const reserved = Math.max(0, Math.floor(typeof data?.reserved_credits === 'number' ? data.reserved_credits : 0));
+  return { balance, reserved, available: Math.max(0, balance - reserved) };
+}
+
+/**
+ * Create a user with starter credits within a Firestore transaction
+ * The starter grant's journal ID is per user, so it can never be posted twice.
+ */
+function setStarterUser(
+  transaction: FirebaseFirestore.Transaction,
+  userRef: FirebaseFirestore.DocumentReference,
+  userId: string,
+  fields: Record<string, any> = {}
+): void {
+  const now = admin.firestore.Timestamp.now();
+  transaction.set(userRef, {
+    credits: STARTER_CREDITS,
+    email: '',
+    ledger_opened_at: now,
+    created_at: now,
+    ...fields,
+  });
+  postLedgerJournal(transaction, {
+    userId,
+    amount: STARTER_CREDITS,
+    type: 'grant',
+    journalId: `starter_${userId}`,
+    memo: 'Starter credits',
+  });
+}
+
+/**
+ * Get user's credit balance, including credits reserved by holds
+ */
+export async function getCreditBalance(userId: string): Promise<CreditBalance> {
   try {
     validateUserId(userId);
     
@@ -83,12 +129,10 @@ export async function getUserCredits(userId: string): Promise<number> {
     if (!user) {
       // User doesn't exist, create with starter credits
       const newUser = await createUserWithStarterCredits(userId, '', STARTER_CREDITS);
-      return newUser.credits;
+      return toCreditBalance(newUser);
     }
     
-    // Ensure credits is a valid number
-    const credits = typeof user.credits === 'number' ? user.credits : 0;
-    return Math.max(0, Math.floor(credits)); // Ensure non-negative integer
+    return toCreditBalance(user);
   } catch (error: any) {
     if (error instanceof BillingError) {
       throw error;
@@ -97,6 +141,14 @@ export async function getUserCredits(userId: string): Promise<number> {
   }
 }
 
+/**
+ * Get user's available credit balance (excludes credits reserved by holds)
+ */
+export async function getUserCredits(userId: string): Promise<number> {
+  const { available } = await getCreditBalance(userId);
+  return available;
+}
+
 /**
  * Check if user has enough credits
  */
@@ -136,6 +188,9 @@ export async function deductCredits(
     
     const db = getFirestore();
     const userRef = db.collection('users').doc(userId);
+    const generationRef = metadata?.generationId
+      ? db.collection('generations').doc(metadata.generationId)
+      : null;
     
     // Use transaction to ensure atomic operation with retry logic
     let attempts = 0;
@@ -144,6 +199,15 @@ export async function deductCredits(
     while (attempts < maxAttempts) {
       try {
         const newBalance = await db.runTransaction(async (transaction) => {
+          // Never charge for a cancelled generation. Reading the generation here makes
+          // a concurrent cancel conflict with (and retry) this transaction.
+          if (generationRef) {
+            const generationDoc = await transaction.get(generationRef);
+            if (generationDoc.data()?.status === 'cancelled') {
+              throw new BillingError('Generation was cancelled', 'GENERATION_CANCELLED');
+            }
+          }
+
           const userDoc = await transaction.get(userRef);
           
           let currentCredits: number;
@@ -151,20 +215,16 @@ export async function deductCredits(
           if (!userDoc.exists) {
             // Create user with starter credits if doesn't exist
             currentCredits = STARTER_CREDITS;
-            const userData = {
-              credits: STARTER_CREDITS,
-              email: '',
-              created_at: admin.firestore.Timestamp.now(),
-            };
-            transaction.set(userRef, userData);
+            setStarterUser(transaction, userRef, userId);
           } else {
             const userData = userDoc.data();
             currentCredits = typeof userData?.credits === 'number' ? userData.credits : 0;
           }
           
-          // Check if user has enough credits
-          if (currentCredits < cost) {
-            throw new InsufficientCreditsError(currentCredits, cost);
+          // Check if user has enough credits (credits reserved by holds can't be spent)
+          const { available } = toCreditBalance(userDoc.data() ?? { credits: currentCredits });
+          if (available < cost) {
+            throw new InsufficientCreditsError(available, cost);
           }
           
           // Calculate new balance
@@ -179,6 +239,12 @@ export async function deductCredits(
             credits: newCredits,
             updated_at: admin.firestore.Timestamp.now(),
           });
+          postLedgerJournal(transaction, {
+            userId,
+            amount: -cost,
+            type: 'usage',
+            generationId: metadata?.generationId,
+          });
           
           return newCredits;
         });
@@ -241,7 +307,7 @@ export async function grantCredits(
   metadata?: {
     orderId?: string;
     paymentId?: string;
-    type?: 'purchase';
+    type?: 'purchase' | 'grant';
   }
 ): Promise<number> {
   try {
@@ -258,6 +324,13 @@ export async function grantCredits(
       try {
         const newBalance = await db.runTransaction(async (transaction) => {
           const userDoc = await transaction.get(userRef);
+          const type = metadata?.type || 'purchase';
+          const postGrant = () => postLedgerJournal(transaction, {
+            userId,
+            amount,
+            type,
+            orderId: metadata?.orderId,
+          });
           
           let currentCredits: number;
           
@@ -270,6 +343,7 @@ export async function grantCredits(
               created_at: admin.firestore.Timestamp.now(),
             };
             transaction.set(userRef, userData);
+            postGrant();
             return amount;
           }
           
@@ -286,6 +360,7 @@ export async function grantCredits(
             credits: newCredits,
             updated_at: admin.firestore.Timestamp.now(),
           });
+          postGrant();
           
           return newCredits;
         });
@@ -297,8 +372,8 @@ export async function grantCredits(
             type: metadata?.type || 'purchase',
             amount,
             status: 'completed',
-            razorpay_order_id: metadata?.orderId,
-            razorpay_payment_id: metadata?.paymentId,
+            ...(metadata?.orderId ? { razorpay_order_id: metadata.orderId } : {}),
+            ...(metadata?.paymentId ? { razorpay_payment_id: metadata.paymentId } : {}),
           } as TransactionDocument);
         } catch (transactionError: any) {
           console.error('Failed to create transaction record:', transactionError);
@@ -332,6 +407,752 @@ export async function grantCredits(
   }
 }
 
+/**
+ * Grant credits within a caller's Firestore transaction
+ * Reads the user, so call it after the caller's other reads and before its writes.
+ * `journalId` keys the ledger posting, so the grant can't be posted twice. The
+ * caller invalidates the credits cache once the transaction commits. Returns the
+ * new balance.
+ */
+export async function grantCreditsInTransaction(
+  transaction: FirebaseFirestore.Transaction,
+  userId: string,
+  amount: number,
+  metadata: {
+    journalId: string;
+    type: 'grant' | 'promo';
+    promoCode?: string;
+  }
+): Promise<number> {
+  validateUserId(userId);
+  validateCreditAmount(amount);
+
+  const db = getFirestore();
+  const userRef = db.collection('users').doc(userId);
+  const userDoc = await transaction.get(userRef);
+  const currentCredits = typeof userDoc.data()?.credits === 'number' ? userDoc.data()!.credits : 0;
+  const newCredits = currentCredits + amount;
+
+  if (newCredits > MAX_CREDITS) {
+    throw new BillingError(`Credit balance would exceed maximum of ${MAX_CREDITS}`, 'CREDIT_LIMIT_EXCEEDED');
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  if (userDoc.exists) {
+    transaction.update(userRef, { credits: newCredits, updated_at: now });
+  } else {
+    transaction.set(userRef, { credits: amount, email: '', ledger_opened_at: now, created_at: now, updated_at: now });
+  }
+
+  const transactionRef = db.collection('transactions').doc();
+  transaction.set(transactionRef, {
+    user_id: userId,
+    type: metadata.type,
+    amount,
+    status: 'completed',
+    ...(metadata.promoCode ? { metadata: { promo_code: metadata.promoCode } } : {}),
+    created_at: now,
+  });
+
+  postLedgerJournal(transaction, {
+    userId,
+    amount,
+    type: metadata.type,
+    journalId: metadata.journalId,
+    transactionId: transactionRef.id,
+    memo: metadata.promoCode ? `Promo code ${metadata.promoCode}` : undefined,
+  });
+
+  return newCredits;
+}
+
+/**
+ * Credit holds
+ *
+ * A generation reserves its cost when it starts: a 'usage' transaction with status
+ * 'pending' plus an increment of users.reserved_credits. On completion the hold is
+ * captured (credits deducted, status 'completed'); on failure or cancellation it is
+ * released (status 'released'). Reserved credits can't be held again, so concurrent
+ * generations can't overspend the balance.
+ */
+
+function getHoldId(generationId: string): string {
+  return `hold_${generationId}`;
+}
+
+export function invalidateCreditsCache(userId: string): void {
+  invalidateCache(getCacheKey('credits', userId));
+}
+
+/**
+ * Place a credit hold for a generation (atomic, idempotent)
+ * Returns the hold's transaction ID. Re-holding a released hold reserves the credits again.
+ */
+export async function holdCredits(
+  userId: string,
+  cost: number = GENERATION_COST,
+  metadata: {
+    generationId: string;
+    projectId?: string;
+  }
+): Promise<string> {
+  try {
+    validateUserId(userId);
+    validateCreditAmount(cost);
+    if (!metadata?.generationId) {
+      throw new BillingError('Invalid generation ID', 'INVALID_GENERATION_ID');
+    }
+
+    const db = getFirestore();
+    const userRef = db.collection('users').doc(userId);
+    const generationRef = db.collection('generations').doc(metadata.generationId);
+    const holdRef = db.collection('transactions').doc(getHoldId(metadata.generationId));
+
+    await db.runTransaction(async (transaction) => {
+      const [generationDoc, holdDoc, userDoc] = await Promise.all([
+        transaction.get(generationRef),
+        transaction.get(holdRef),
+        transaction.get(userRef),
+      ]);
+
+      if (generationDoc.data()?.status === 'cancelled') {
+        throw new BillingError('Generation was cancelled', 'GENERATION_CANCELLED');
+      }
+
+      const hold = holdDoc.data();
+      if (hold && hold.status !== 'released') {
+        return; // Already held or captured
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      let reserved = 0;
+      if (!userDoc.exists) {
+        if (STARTER_CREDITS < cost) {
+          throw new InsufficientCreditsError(STARTER_CREDITS, cost);
+        }
+        setStarterUser(transaction, userRef, userId, { reserved_credits: cost });
+      } else {
+        const balance = toCreditBalance(userDoc.data());
+        if (balance.available < cost) {
+          throw new InsufficientCreditsError(balance.available, cost);
+        }
+        reserved = balance.reserved;
+        transaction.update(userRef, {
+          reserved_credits: reserved + cost,
+          updated_at: now,
+        });
+      }
+
+      transaction.set(holdRef, {
+        user_id: userId,
+        type: 'usage',
+        amount: -cost,
+        status: 'pending',
+        generation_id: metadata.generationId,
+        ...(metadata.projectId ? { project_id: metadata.projectId } : {}),
+        created_at: now,
+      });
+      if (generationDoc.exists) {
+        transaction.update(generationRef, { credit_hold_id: holdRef.id, updated_at: now });
+      }
+    });
+
+    invalidateCreditsCache(userId);
+    return holdRef.id;
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      throw error;
+    }
+    throw new BillingError(`Failed to hold credits: ${error.message}`, 'HOLD_CREDITS_ERROR', error);
+  }
+}
+
+/**
+ * Capture a generation's credit hold: deduct the held credits (atomic, idempotent)
+ * Returns the number of credits captured (0 if there was no pending hold).
+ */
+export async function captureCredits(generationId: string): Promise<number> {
+  try {
+    if (!generationId || typeof generationId !== 'string') {
+      throw new BillingError('Invalid generation ID', 'INVALID_GENERATION_ID');
+    }
+
+    const db = getFirestore();
+    const generationRef = db.collection('generations').doc(generationId);
+    const holdRef = db.collection('transactions').doc(getHoldId(generationId));
+    let userId: string | undefined;
+
+    const captured = await db.runTransaction(async (transaction) => {
+      const [generationDoc, holdDoc] = await Promise.all([
+        transaction.get(generationRef),
+        transaction.get(holdRef),
+      ]);
+
+      // Never charge for a cancelled generation
+      if (generationDoc.data()?.status === 'cancelled') {
+        throw new BillingError('Generation was cancelled', 'GENERATION_CANCELLED');
+      }
+
+      const hold = holdDoc.data();
+      if (!hold || hold.status !== 'pending') {
+        return 0;
+      }
+
+      userId = hold.user_id;
+      const userRef = db.collection('users').doc(hold.user_id);
+      const userDoc = await transaction.get(userRef);
+      const balance = toCreditBalance(userDoc.data());
+      const amount = -hold.amount;
+      const now = admin.firestore.Timestamp.now();
+
+      transaction.set(userRef, {
+        credits: balance.balance - amount,
+        reserved_credits: Math.max(0, balance.reserved - amount),
+        updated_at: now,
+      }, { merge: true });
+      transaction.update(holdRef, { status: 'completed', settled_at: now });
+      postLedgerJournal(transaction, {
+        userId: hold.user_id,
+        amount: -amount,
+        type: 'usage',
+        journalId: `usage_${holdRef.id}`,
+        transactionId: holdRef.id,
+        generationId,
+      });
+      return amount;
+    });
+
+    if (userId) {
+      invalidateCreditsCache(userId);
+    }
+    return captured;
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      throw error;
+    }
+    throw new BillingError(`Failed to capture credits: ${error.message}`, 'CAPTURE_CREDITS_ERROR', error);
+  }
+}
+
+/**
+ * Release a generation's credit hold without charging (atomic, idempotent)
+ * Returns the number of credits released (0 if there was no pending hold).
+ */
+export async function releaseCredits(
+  generationId: string,
+  reason: string = 'failed'
+): Promise<number> {
+  try {
+    if (!generationId || typeof generationId !== 'string') {
+      throw new BillingError('Invalid generation ID', 'INVALID_GENERATION_ID');
+    }
+
+    const db = getFirestore();
+    const holdRef = db.collection('transactions').doc(getHoldId(generationId));
+    let userId: string | undefined;
+
+    const released = await db.runTransaction(async (transaction) => {
+      const holdDoc = await transaction.get(holdRef);
+      const hold = holdDoc.data();
+      if (!hold || hold.status !== 'pending') {
+        return 0;
+      }
+
+      userId = hold.user_id;
+      const userRef = db.collection('users').doc(hold.user_id);
+      const userDoc = await transaction.get(userRef);
+      const balance = toCreditBalance(userDoc.data());
+      const amount = -hold.amount;
+      const now = admin.firestore.Timestamp.now();
+
+      transaction.set(userRef, {
+        reserved_credits: Math.max(0, balance.reserved - amount),
+        updated_at: now,
+      }, { merge: true });
+      transaction.update(holdRef, {
+        status: 'released',
+        settled_at: now,
+        metadata: { ...(hold.metadata || {}), release_reason: reason },
+      });
+      return amount;
+    });
+
+    if (userId) {
+      invalidateCreditsCache(userId);
+      console.log(`[Billing] Released ${released} held credits for generation ${generationId} (${reason})`);
+    }
+    return released;
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      throw error;
+    }
+    throw new BillingError(`Failed to release credits: ${error.message}`, 'RELEASE_CREDITS_ERROR', error);
+  }
+}
+
+/**
+ * Settle a generation's credit hold for a final status reported by a webhook or sync:
+ * capture on 'completed', release on 'failed' / 'cancelled'. Errors are logged, not thrown.
+ */
+export async function settleGenerationCredits(
+  generationId: string,
+  status: GenerationStatus
+): Promise<void> {
+  try {
+    if (status === 'completed') {
+      await captureCredits(generationId);
+    } else if (status === 'failed' || status === 'cancelled') {
+      await releaseCredits(generationId, status);
+    }
+  } catch (error: any) {
+    console.error(`[Billing] Failed to settle credits for generation ${generationId} (${status}):`, error.message);
+  }
+}
+
+/**
+ * Refund the credits charged for a generation (atomic, idempotent)
+ * Nets out any earlier refund, so calling it twice never refunds twice.
+ * Returns the number of credits refunded.
+ */
+export async function refundGenerationCredits(
+  generationId: string,
+  reason: string = 'cancelled'
+): Promise<number> {
+  try {
+    if (!generationId || typeof generationId !== 'string') {
+      throw new BillingError('Invalid generation ID', 'INVALID_GENERATION_ID');
+    }
+
+    const db = getFirestore();
+    const generationRef = db.collection('generations').doc(generationId);
+    const transactionsQuery = db.collection('transactions').where('generation_id', '==', generationId);
+
+    return await db.runTransaction(async (transaction) => {
+      const generationDoc = await transaction.get(generationRef);
+      const generation = generationDoc.data();
+      if (!generation) {
+        throw new BillingError(`Generation not found: ${generationId}`, 'GENERATION_NOT_FOUND');
+      }
+
+      const snapshot = await transaction.get(transactionsQuery);
+      let charged = 0;
+      for (const doc of snapshot.docs) {
+        const data = doc.data();
+        if (data.status !== 'completed') continue;
+        if (data.type === 'usage') charged += -data.amount;
+        if (data.type === 'refund') charged -= data.amount;
+      }
+
+      if (charged <= 0) {
+        return 0;
+      }
+
+      const userRef = db.collection('users').doc(generation.user_id);
+      const userDoc = await transaction.get(userRef);
+      const currentCredits = typeof userDoc.data()?.credits === 'number' ? userDoc.data()!.credits : 0;
+      const now = admin.firestore.Timestamp.now();
+
+      const refundRef = db.collection('transactions').doc();
+
+      transaction.set(userRef, { credits: currentCredits + charged, updated_at: now }, { merge: true });
+      postLedgerJournal(transaction, {
+        userId: generation.user_id,
+        amount: charged,
+        type: 'refund',
+        transactionId: refundRef.id,
+        generationId,
+        memo: reason,
+      });
+      transaction.set(refundRef, {
+        user_id: generation.user_id,
+        type: 'refund',
+        amount: charged,
+        status: 'completed',
+        generation_id: generationId,
+        ...(generation.project_id ? { project_id: generation.project_id } : {}),
+        metadata: { reason },
+        created_at: now,
+      });
+
+      console.log(`[Billing] Refunded ${charged} credits for generation ${generationId} (${reason})`);
+      return charged;
+    });
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      throw error;
+    }
+    throw new BillingError(`Failed to refund credits: ${error.message}`, 'REFUND_CREDITS_ERROR', error);
+  }
+}
+
+/**
+ * Look up a payment order document by Razorpay order ID
+ */
+async function getPaymentOrderRef(orderId: string): Promise<FirebaseFirestore.DocumentReference> {
+  if (!orderId || typeof orderId !== 'string') {
+    throw new BillingError('Invalid order ID', 'INVALID_ORDER_ID');
+  }
+
+  const orderQuery = await getFirestore()
+    .collection('payment_orders')
+    .where('order_id', '==', orderId)
+    .limit(1)
+    .get();
+
+  if (orderQuery.empty) {
+    throw new BillingError(`Payment order not found: ${orderId}`, 'ORDER_NOT_FOUND');
+  }
+
+  return orderQuery.docs[0].ref;
+}
+
+/**
+ * Fulfil a paid order: grant its credits, record the purchase and mark the order
+ * completed (atomic, idempotent). Shared by payment verification and the Razorpay
+ * webhook, whichever arrives first; the other sees `alreadyProcessed`.
+ * The credits granted are the pack's credits + bonus as priced from the catalog
+ * when the order was created, so later catalog changes don't affect paid orders.
+ * The order's promo code is checked again: if it can no longer be redeemed (e.g.
+ * its limits were reached by other orders paid first), the discount already paid
+ * stands but no promo bonus is granted, no redemption is counted and the order's
+ * credits are lowered to what was granted and marked with `promo_rejected`.
+ */
+export async function fulfillPaymentOrder(
+  orderId: string,
+  paymentId: string
+): Promise<{ userId: string; credits: number; alreadyProcessed: boolean }> {
+  try {
+    const db = getFirestore();
+    const orderRef = await getPaymentOrderRef(orderId);
+
+    const result = await db.runTransaction(async (transaction) => {
+      // Re-read order in transaction to prevent race conditions
+      const orderDoc = await transaction.get(orderRef);
+      const order = orderDoc.data();
+      if (!order) {
+        throw new BillingError(`Payment order not found: ${orderId}`, 'ORDER_NOT_FOUND');
+      }
+
+      if (order.status === 'completed' || order.status === 'refunded' || order.status === 'disputed') {
+        return { userId: order.user_id, credits: 0, alreadyProcessed: true };
+      }
+      if (order.status === 'failed') {
+        throw new BillingError('Cannot complete a failed order', 'ORDER_FAILED');
+      }
+
+      validateUserId(order.user_id);
+      const promoRejected = order.promo_code
+        ? await checkOrderPromoCode(transaction, order.promo_code, order.user_id)
+        : null;
+      const credits = promoRejected ? order.credits - (order.promo_bonus_credits || 0) : order.credits;
+      validateCreditAmount(credits);
+
+      const userRef = db.collection('users').doc(order.user_id);
+      const userDoc = await transaction.get(userRef);
+      const promoRef = order.promo_code && !promoRejected ? db.collection('promo_codes').doc(order.promo_code) : null;
+      const promoDoc = promoRef ? await transaction.get(promoRef) : null;
+      const currentCredits = typeof userDoc.data()?.credits === 'number' ? userDoc.data()!.credits : 0;
+      const newCredits = currentCredits + credits;
+
+      if (newCredits > MAX_CREDITS) {
+        throw new BillingError(`Credit balance would exceed maximum of ${MAX_CREDITS}`, 'CREDIT_LIMIT_EXCEEDED');
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      if (userDoc.exists) {
+        transaction.update(userRef, { credits: newCredits, updated_at: now });
+      } else {
+        transaction.set(userRef, { credits, email: '', created_at: now, updated_at: now });
+      }
+
+      transaction.update(orderRef, {
+        status: 'completed',
+        payment_id: paymentId,
+        ...(promoRejected ? { credits, promo_rejected: promoRejected } : {}),
+        completed_at: now,
+        updated_at: now,
+      });
+
+      const transactionRef = db.collection('transactions').doc();
+      transaction.set(transactionRef, {
+        user_id: order.user_id,
+        type: 'purchase',
+        amount: credits,
+        status: 'completed',
+        razorpay_order_id: orderId,
+        razorpay_payment_id: paymentId,
+        ...(order.pack_id ? { metadata: { pack_id: order.pack_id, bonus_credits: order.bonus_credits || 0 } } : {}),
+        created_at: now,
+      });
+
+      // One purchase journal per order, so an order can never be credited twice
+      postLedgerJournal(transaction, {
+        userId: order.user_id,
+        amount: credits,
+        type: 'purchase',
+        journalId: `purchase_${orderId}`,
+        transactionId: transactionRef.id,
+        orderId,
+        memo: order.pack_id ? `Credit pack ${order.pack_id}` : undefined,
+      });
+
+      // A promo code counts towards its limits once the order is paid
+      if (promoRef && promoDoc?.exists) {
+        transaction.update(promoRef, {
+          redemption_count: admin.firestore.FieldValue.increment(1),
+          updated_at: now,
+        });
+        transaction.create(db.collection('promo_redemptions').doc(`${order.promo_code}_order_${orderId}`), {
+          code: order.promo_code,
+          user_id: order.user_id,
+          type: promoDoc.data()?.type,
+          order_id: orderId,
+          discount_amount: order.discount_amount || 0,
+          credits: order.promo_bonus_credits || 0,
+          created_at: now,
+        });
+      }
+
+      if (promoRejected) {
+        console.warn(`[Billing] Order ${orderId} was paid with promo code ${order.promo_code} after it became unusable (${promoRejected}); no promo bonus granted`);
+      }
+
+      return { userId: order.user_id as string, credits, alreadyProcessed: false };
+    });
+
+    invalidateCreditsCache(result.userId);
+    return result;
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      throw error;
+    }
+    throw new BillingError(`Failed to fulfil payment order: ${error.message}`, 'FULFILL_ORDER_ERROR', error);
+  }
+}
+
+/**
+ * Payment clawbacks
+ *
+ * When Razorpay refunds a payment or the customer disputes it, the credits the
+ * order granted are taken back in proportion to the amount refunded or disputed.
+ * The balance may go negative (nothing can be spent until it's positive again);
+ * such accounts are flagged for review. Each refund or dispute is clawed back at
+ * most once: its transaction record and ledger journal are keyed by its ID.
+ */
+
+export interface ClawbackResult {
+  userId: string;
+  credits: number;            // Credits clawed back (or reinstated)
+  balance: number;            // User balance afterwards
+  alreadyProcessed: boolean;
+}
+
+/**
+ * Claw back the credits of a refunded or disputed payment order (atomic, idempotent)
+ * `sourceId` is the Razorpay refund or dispute ID; `amount` is the refunded or
+ * disputed amount in the smallest currency unit.
+ */
+export async function clawbackPaymentOrder(
+  orderId: string,
+  clawback: { reason: 'refund' | 'dispute'; sourceId: string; amount: number; disputeStatus?: string }
+): Promise<ClawbackResult> {
+  try {
+    if (!clawback.sourceId || typeof clawback.sourceId !== 'string') {
+      throw new BillingError(`Invalid ${clawback.reason} ID`, 'INVALID_SOURCE_ID');
+    }
+    if (!Number.isInteger(clawback.amount) || clawback.amount <= 0) {
+      throw new BillingError(`Invalid ${clawback.reason} amount: ${clawback.amount}`, 'INVALID_AMOUNT');
+    }
+
+    const db = getFirestore();
+    const orderRef = await getPaymentOrderRef(orderId);
+    const transactionRef = db.collection('transactions').doc(`clawback_${clawback.sourceId}`);
+
+    const result = await db.runTransaction(async (transaction) => {
+      const [orderDoc, existingClawback] = await Promise.all([
+        transaction.get(orderRef),
+        transaction.get(transactionRef),
+      ]);
+      const order = orderDoc.data();
+      if (!order) {
+        throw new BillingError(`Payment order not found: ${orderId}`, 'ORDER_NOT_FOUND');
+      }
+
+      const userRef = db.collection('users').doc(order.user_id);
+      const userDoc = await transaction.get(userRef);
+      const currentCredits = typeof userDoc.data()?.credits === 'number' ? userDoc.data()!.credits : 0;
+
+      if (existingClawback.exists) {
+        if (clawback.reason === 'dispute' && clawback.disputeStatus && order.dispute_status !== clawback.disputeStatus) {
+          transaction.update(orderRef, { dispute_status: clawback.disputeStatus, updated_at: admin.firestore.Timestamp.now() });
+        }
+        return { userId: order.user_id as string, credits: 0, balance: currentCredits, alreadyProcessed: true };
+      }
+      if (order.status !== 'completed' && order.status !== 'refunded' && order.status !== 'disputed') {
+        throw new BillingError(`Cannot claw back an order with status ${order.status}`, 'ORDER_NOT_COMPLETED');
+      }
+
+      // Proportional to the amount, never more than the order granted in total
+      const alreadyClawedBack = order.clawed_back_credits || 0;
+      const proportional = Math.ceil((order.credits * Math.min(clawback.amount, order.amount)) / order.amount);
+      const credits = Math.max(0, Math.min(proportional, order.credits - alreadyClawedBack));
+      const newCredits = currentCredits - credits;
+      const now = admin.firestore.Timestamp.now();
+
+      if (credits > 0) {
+        transaction.update(userRef, {
+          credits: newCredits,
+          updated_at: now,
+          ...(newCredits < 0 && !userDoc.data()?.flagged_at
+            ? { flagged_at: now, flag_reason: `Negative balance after ${clawback.reason} on order ${orderId}` }
+            : {}),
+        });
+      }
+
+      transaction.update(orderRef, {
+        status: clawback.reason === 'refund' ? 'refunded' : 'disputed',
+        clawed_back_credits: alreadyClawedBack + credits,
+        ...(clawback.reason === 'refund'
+          ? { refunded_amount: (order.refunded_amount || 0) + clawback.amount }
+          : { dispute_id: clawback.sourceId, dispute_status: clawback.disputeStatus || 'open' }),
+        updated_at: now,
+      });
+
+      transaction.set(transactionRef, {
+        user_id: order.user_id,
+        type: 'clawback',
+        amount: -credits,
+        status: 'completed',
+        razorpay_order_id: orderId,
+        ...(order.payment_id ? { razorpay_payment_id: order.payment_id } : {}),
+        metadata: {
+          reason: clawback.reason,
+          [clawback.reason === 'refund' ? 'refund_id' : 'dispute_id']: clawback.sourceId,
+          amount: clawback.amount,
+        },
+        created_at: now,
+      });
+
+      if (credits > 0) {
+        postLedgerJournal(transaction, {
+          userId: order.user_id,
+          amount: -credits,
+          type: 'clawback',
+          journalId: `clawback_${clawback.sourceId}`,
+          transactionId: transactionRef.id,
+          orderId,
+          memo: `${clawback.reason === 'refund' ? 'Refund' : 'Dispute'} ${clawback.sourceId}`,
+        });
+      }
+
+      return { userId: order.user_id as string, credits, balance: newCredits, alreadyProcessed: false };
+    });
+
+    if (!result.alreadyProcessed) {
+      invalidateCreditsCache(result.userId);
+      if (result.balance < 0) {
+        console.warn(`[Billing] User ${result.userId} has a negative balance (${result.balance}) after ${clawback.reason} ${clawback.sourceId}`);
+      }
+    }
+    return result;
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      throw error;
+    }
+    throw new BillingError(`Failed to claw back payment order: ${error.message}`, 'CLAWBACK_ERROR', error);
+  }
+}
+
+/**
+ * Give back the credits clawed back for a dispute that was won (atomic, idempotent)
+ */
+export async function reinstateDisputedOrder(orderId: string, disputeId: string): Promise<ClawbackResult> {
+  try {
+    if (!disputeId || typeof disputeId !== 'string') {
+      throw new BillingError('Invalid dispute ID', 'INVALID_SOURCE_ID');
+    }
+
+    const db = getFirestore();
+    const orderRef = await getPaymentOrderRef(orderId);
+    const clawbackRef = db.collection('transactions').doc(`clawback_${disputeId}`);
+    const reinstateRef = db.collection('transactions').doc(`reinstate_${disputeId}`);
+
+    const result = await db.runTransaction(async (transaction) => {
+      const [orderDoc, clawbackDoc, reinstateDoc] = await Promise.all([
+        transaction.get(orderRef),
+        transaction.get(clawbackRef),
+        transaction.get(reinstateRef),
+      ]);
+      const order = orderDoc.data();
+      if (!order) {
+        throw new BillingError(`Payment order not found: ${orderId}`, 'ORDER_NOT_FOUND');
+      }
+
+      const userRef = db.collection('users').doc(order.user_id);
+      const userDoc = await transaction.get(userRef);
+      const currentCredits = typeof userDoc.data()?.credits === 'number' ? userDoc.data()!.credits : 0;
+      const now = admin.firestore.Timestamp.now();
+
+      // Nothing was clawed back for this dispute, or it was already reinstated
+      if (!clawbackDoc.exists || reinstateDoc.exists) {
+        if (order.dispute_id === disputeId && order.dispute_status !== 'won') {
+          transaction.update(orderRef, { dispute_status: 'won', updated_at: now });
+        }
+        return { userId: order.user_id as string, credits: 0, balance: currentCredits, alreadyProcessed: true };
+      }
+
+      const credits = -clawbackDoc.data()!.amount;
+      const newCredits = currentCredits + credits;
+
+      if (credits > 0) {
+        transaction.update(userRef, { credits: newCredits, updated_at: now });
+      }
+
+      transaction.update(orderRef, {
+        status: (order.refunded_amount || 0) > 0 ? 'refunded' : 'completed',
+        clawed_back_credits: Math.max(0, (order.clawed_back_credits || 0) - credits),
+        dispute_status: 'won',
+        updated_at: now,
+      });
+
+      transaction.set(reinstateRef, {
+        user_id: order.user_id,
+        type: 'clawback',
+        amount: credits,
+        status: 'completed',
+        razorpay_order_id: orderId,
+        ...(order.payment_id ? { razorpay_payment_id: order.payment_id } : {}),
+        metadata: { reason: 'dispute_won', dispute_id: disputeId },
+        created_at: now,
+      });
+
+      if (credits > 0) {
+        postLedgerJournal(transaction, {
+          userId: order.user_id,
+          amount: credits,
+          type: 'clawback',
+          journalId: `reinstate_${disputeId}`,
+          transactionId: reinstateRef.id,
+          orderId,
+          memo: `Dispute ${disputeId} won`,
+        });
+      }
+
+      return { userId: order.user_id as string, credits, balance: newCredits, alreadyProcessed: false };
+    });
+
+    if (!result.alreadyProcessed) {
+      invalidateCreditsCache(result.userId);
+    }
+    return result;
+  } catch (error: any) {
+    if (error instanceof BillingError) {
+      throw error;
+    }
+    throw new BillingError(`Failed to reinstate disputed order: ${error.message}`, 'REINSTATE_ERROR', error);
+  }
+}
+
 /**
  * Create user with starter credits (if doesn't exist)
  */
@@ -402,7 +1223,7 @@ export async function grantCreditsByEmail(
       throw new BillingError(`Failed to get user by email: ${error.message}`, 'GET_USER_ERROR', error);
     }
     
-    return await grantCredits(userRecord.uid, credits);
+    return await grantCredits(userRecord.uid, credits, { type: 'grant' });
   } catch (error: any) {
     if (error instanceof BillingError) {
       throw error;
@@ -437,7 +1258,7 @@ export async function grantCreditsByUserId(
       throw new BillingError('Invalid admin key', 'INVALID_ADMIN_KEY');
     }
     
-    return await grantCredits(userId, credits);
+    return await grantCredits(userId, credits, { type: 'grant' });
   } catch (error: any) {
     if (error instanceof BillingError) {
       throw error;
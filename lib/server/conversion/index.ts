@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import admin from '../firebase-admin';
+import { getFirestore } from '../firestore';
+import { readGlb } from '../gltf';
+import { getGenerationStoragePath, getPublicUrl, uploadBuffer } from '../storage';
+import { readGenerationAsset, resolveGenerationAsset, type ResolvedAsset } from '../assets';
+import { extractMeshes } from './mesh';
+import { writeObj } from './obj';
+import { writeStl } from './stl';
+import { writePly } from './ply';
+import { writeUsdz } from './usdz';
+import { createZip } from './zip';
+import { ConversionError, type ConversionFormat, type ConvertedFile, type MeshData } from './types';
+import type { GenerationAsset, GenerationWithId } from '@/types/firestore';
+
+export * from './types';
+
+export const CONVERSION_FORMATS: ConversionFormat[] = ['obj', 'stl', 'ply', 'usdz'];
+
+const WRITERS: Record<ConversionFormat, (meshes: MeshData[], baseName: string) => ConvertedFile[]> = {
+  obj: writeObj,
+  stl: writeStl,
+  ply: writePly,
+  usdz: writeUsdz,
+};
+
+export function isConversionFormat(format: unknown): format is ConversionFormat {
+  return typeof format === 'string' && (CONVERSION_FORMATS as string[]).includes(format);
+}
+
+/**
+ * Convert a GLB into another format
+ * OBJ comes as a ZIP of the .obj, its .mtl and textures; other formats are a single file.
+ */
+export async function convertGlb(glb: Buffer, format: ConversionFormat): Promise<ConvertedFile> {
+  const meshes = extractMeshes(await readGlb(glb));
+  const files = WRITERS[format](meshes, 'model');
+  if (files.length === 1) {
+    return files[0];
+  }
+  return { filename: `model_${format}.zip`, contentType: 'application/zip', data: createZip(files) };
+}
+
+/**
+ * Get a generation's model in a format, converting its GLB when needed
+ *
+ * Files supplied by the provider are returned as they are. Converted files are
+ * cached in the generation's Storage folder and recorded in `output_data.assets`
+ * with the checksum of the GLB they came from, so they're redone only when the
+ * GLB changes.
+ */
+export async function convertGenerationModel(
+  generation: GenerationWithId,
+  format: ConversionFormat
+): Promise<{ asset: ResolvedAsset; converted: boolean }> {
+  if (!isConversionFormat(format)) {
+    throw new ConversionError(`Unsupported conversion format: ${format}`, 'UNSUPPORTED_FORMAT');
+  }
+  if (generation.status !== 'completed') {
+    throw new ConversionError('Generation has not completed yet', 'NOT_READY');
+  }
+  if (!generation.project_id || !generation.generation_number) {
+    throw new ConversionError(`Generation ${generation.id} has no project or generation number`, 'NO_STORAGE_PATH');
+  }
+
+  const assets = generation.output_data?.assets || {};
+  const existing = assets[format];
+  const cached = (asset: GenerationAsset) => ({
+    asset: { source: 'storage' as const, storagePath: asset.storage_path, contentType: asset.content_type },
+    converted: false,
+  });
+
+  if (!existing?.converted_from) {
+    const provided = resolveGenerationAsset(generation, format);
+    if (provided) {
+      return { asset: provided, converted: false };
+    }
+  } else if (existing.converted_from === assets.glb?.sha256) {
+    return cached(existing);
+  }
+
+  const glb = await readGenerationAsset(generation, 'glb');
+  const glbHash = crypto.createHash('sha256').update(glb).digest('hex');
+  if (existing?.converted_from === glbHash) {
+    return cached(existing);
+  }
+
+  const startTime = Date.now();
+  const file = await convertGlb(glb, format);
+  const storagePath = getGenerationStoragePath(
+    generation.user_id,
+    generation.project_id,
+    generation.generation_number,
+    file.filename
+  );
+  const url = await uploadBuffer(file.data, storagePath, file.contentType);
+
+  const source = resolveGenerationAsset(generation, 'glb');
+  const asset: GenerationAsset = {
+    storage_path: storagePath,
+    url,
+    source_url: source?.source === 'storage' ? getPublicUrl(source.storagePath) : source?.url || '',
+    content_type: file.contentType,
+    size_bytes: file.data.length,
+    sha256: crypto.createHash('sha256').update(file.data).digest('hex'),
+    mirrored_at: admin.firestore.Timestamp.now() as any,
+    converted_from: glbHash,
+  };
+  await getFirestore().collection('generations').doc(generation.id).update({
+    [`output_data.assets.${format}`]: asset,
+  });
+
+  console.log(
+    `[Conversion] Generation ${generation.id}: GLB (${glb.length} bytes) -> ${format} (${file.data.length} bytes) in ${Date.now() - startTime}ms`
+  );
+  return {
+    asset: { source: 'storage', storagePath, contentType: file.contentType },
+    converted: true,
+  };
+}
@@ -0,0 +1,206 @@
+import { Primitive, type Document, type Material, type Node, type Texture } from '@gltf-transform/core';
+import { ConversionError, type MaterialData, type MeshData, type TextureData } from './types';
+
+const TEXTURE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/ktx2': 'ktx2',
+};
+
+/**
+ * Make names unique and safe for filenames and USD identifiers
+ */
+function createNamer() {
+  const used = new Set<string>();
+  return (name: string | undefined, fallback: string): string => {
+    let base = (name || '').replace(/[^a-zA-Z0-9_]/g, '_').replace(/^([0-9])/, '_$1').slice(0, 48);
+    if (!base || /^_*$/.test(base)) {
+      base = fallback;
+    }
+    let unique = base;
+    for (let i = 1; used.has(unique); i++) {
+      unique = `${base}_${i}`;
+    }
+    used.add(unique);
+    return unique;
+  };
+}
+
+/**
+ * Triangle indices for a primitive, or null for points and lines
+ */
+function getTriangleIndices(primitive: Primitive, vertexCount: number): Uint32Array | null {
+  const indexAccessor = primitive.getIndices();
+  const source = indexAccessor
+    ? Uint32Array.from(indexAccessor.getArray() as ArrayLike<number>)
+    : Uint32Array.from({ length: vertexCount }, (_, i) => i);
+
+  switch (primitive.getMode()) {
+    case Primitive.Mode.TRIANGLES:
+      return source.length % 3 === 0 ? source : source.subarray(0, source.length - (source.length % 3));
+    case Primitive.Mode.TRIANGLE_STRIP: {
+      const triangles = new Uint32Array(Math.max(source.length - 2, 0) * 3);
+      for (let i = 0; i + 2 < source.length; i++) {
+        // Every other triangle in a strip is wound the other way
+        const [a, b] = i % 2 === 0 ? [source[i], source[i + 1]] : [source[i + 1], source[i]];
+        triangles.set([a, b, source[i + 2]], i * 3);
+      }
+      return triangles;
+    }
+    case Primitive.Mode.TRIANGLE_FAN: {
+      const triangles = new Uint32Array(Math.max(source.length - 2, 0) * 3);
+      for (let i = 1; i + 1 < source.length; i++) {
+        triangles.set([source[0], source[i], source[i + 1]], (i - 1) * 3);
+      }
+      return triangles;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Flatten a glTF scene into world-space triangle meshes, one per primitive
+ * Points, lines, skins and morph targets are ignored; textures keep their encoded bytes.
+ */
+export function extractMeshes(document: Document): MeshData[] {
+  const root = document.getRoot();
+  const scene = root.getDefaultScene() || root.listScenes()[0];
+  if (!scene) {
+    throw new ConversionError('Model has no scene', 'EMPTY_MODEL');
+  }
+
+  const meshNamer = createNamer();
+  const materialNamer = createNamer();
+  const textureNamer = createNamer();
+  const textures = new Map<Texture, TextureData>();
+  const materials = new Map<Material, MaterialData>();
+
+  const getTexture = (texture: Texture | null): TextureData | null => {
+    const image = texture?.getImage();
+    if (!texture || !image) {
+      return null;
+    }
+    if (!textures.has(texture)) {
+      const mimeType = texture.getMimeType();
+      textures.set(texture, {
+        name: textureNamer(texture.getName() || texture.getURI().replace(/\.[^.]*$/, ''), `texture_${textures.size}`),
+        image,
+        mimeType,
+        extension: TEXTURE_EXTENSIONS[mimeType] || 'bin',
+      });
+    }
+    return textures.get(texture)!;
+  };
+
+  const getMaterial = (material: Material | null): MaterialData | null => {
+    if (!material) {
+      return null;
+    }
+    if (!materials.has(material)) {
+      const [r, g, b, a] = material.getBaseColorFactor();
+      const [er, eg, eb] = material.getEmissiveFactor();
+      materials.set(material, {
+        name: materialNamer(material.getName(), `material_${materials.size}`),
+        baseColor: [r, g, b, a],
+        metallic: material.getMetallicFactor(),
+        roughness: material.getRoughnessFactor(),
+        emissive: [er, eg, eb],
+        doubleSided: material.getDoubleSided(),
+        baseColorTexture: getTexture(material.getBaseColorTexture()),
+        metallicRoughnessTexture: getTexture(material.getMetallicRoughnessTexture()),
+        normalTexture: getTexture(material.getNormalTexture()),
+        emissiveTexture: getTexture(material.getEmissiveTexture()),
+      });
+    }
+    return materials.get(material)!;
+  };
+
+  const meshes: MeshData[] = [];
+  scene.traverse((node: Node) => {
+    const mesh = node.getMesh();
+    if (!mesh) {
+      return;
+    }
+
+    // Column-major world matrix; normals use its inverse transpose
+    const m = node.getWorldMatrix();
+    const c0 = [m[0], m[1], m[2]];
+    const c1 = [m[4], m[5], m[6]];
+    const c2 = [m[8], m[9], m[10]];
+    const cross = (a: number[], b: number[]) => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+    const n0 = cross(c1, c2);
+    const n1 = cross(c2, c0);
+    const n2 = cross(c0, c1);
+    const determinant = c0[0] * n0[0] + c0[1] * n0[1] + c0[2] * n0[2];
+    const mirrored = determinant < 0;
+
+    mesh.listPrimitives().forEach((primitive, primitiveIndex) => {
+      const position = primitive.getAttribute('POSITION');
+      if (!position) {
+        return;
+      }
+      const vertexCount = position.getCount();
+      const indices = getTriangleIndices(primitive, vertexCount);
+      if (!indices || indices.length === 0) {
+        return;
+      }
+      if (mirrored) {
+        // A negative scale flips the winding order
+        for (let i = 0; i < indices.length; i += 3) {
+          [indices[i + 1], indices[i + 2]] = [indices[i + 2], indices[i + 1]];
+        }
+      }
+
+      const normal = primitive.getAttribute('NORMAL');
+      const uv = primitive.getAttribute('TEXCOORD_0');
+      const color = primitive.getAttribute('COLOR_0');
+      const positions = new Float32Array(vertexCount * 3);
+      const normals = normal ? new Float32Array(vertexCount * 3) : null;
+      const uvs = uv ? new Float32Array(vertexCount * 2) : null;
+      const colors = color ? new Float32Array(vertexCount * 3) : null;
+      const element: number[] = [];
+
+      for (let i = 0; i < vertexCount; i++) {
+        const [x, y, z] = position.getElement(i, element);
+        positions[i * 3] = m[0] * x + m[4] * y + m[8] * z + m[12];
+        positions[i * 3 + 1] = m[1] * x + m[5] * y + m[9] * z + m[13];
+        positions[i * 3 + 2] = m[2] * x + m[6] * y + m[10] * z + m[14];
+
+        if (normal && normals) {
+          const [nx, ny, nz] = normal.getElement(i, element);
+          const wx = n0[0] * nx + n1[0] * ny + n2[0] * nz;
+          const wy = n0[1] * nx + n1[1] * ny + n2[1] * nz;
+          const wz = n0[2] * nx + n1[2] * ny + n2[2] * nz;
+          const length = Math.hypot(wx, wy, wz) * (mirrored ? -1 : 1) || 1;
+          normals.set([wx / length, wy / length, wz / length], i * 3);
+        }
+        if (uv && uvs) {
+          const [u, v] = uv.getElement(i, element);
+          uvs.set([u, v], i * 2);
+        }
+        if (color && colors) {
+          const [r, g, b] = color.getElement(i, element);
+          colors.set([r, g, b], i * 3);
+        }
+      }
+
+      const baseName = mesh.listPrimitives().length > 1 ? `${node.getName() || mesh.getName()}_${primitiveIndex}` : node.getName() || mesh.getName();
+      meshes.push({
+        name: meshNamer(baseName, `mesh_${meshes.length}`),
+        positions,
+        normals,
+        uvs,
+        colors,
+        indices,
+        material: getMaterial(primitive.getMaterial()),
+      });
+    });
+  });
+
+  if (meshes.length === 0) {
+    throw new ConversionError('Model has no triangle meshes', 'EMPTY_MODEL');
+  }
+  return meshes;
+}
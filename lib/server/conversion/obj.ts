@@ -0,0 +1,98 @@
+import type { ConvertedFile, MaterialData, MeshData, TextureData } from './types';
+
+const format = (value: number) => (Number.isFinite(value) ? Number(value.toFixed(6)).toString() : '0');
+
+/**
+ * Write meshes as Wavefront OBJ with an MTL material library and its textures
+ * Texture paths in the MTL are relative, so the files belong in one folder.
+ */
+export function writeObj(meshes: MeshData[], baseName: string = 'model'): ConvertedFile[] {
+  const lines: string[] = [`# Converted from glTF`, `mtllib ${baseName}.mtl`];
+  const materials = new Map<string, MaterialData>();
+  let vertexOffset = 1; // OBJ indices are 1-based and global
+
+  for (const mesh of meshes) {
+    const vertexCount = mesh.positions.length / 3;
+    lines.push(`o ${mesh.name}`);
+
+    for (let i = 0; i < vertexCount; i++) {
+      const position = `v ${format(mesh.positions[i * 3])} ${format(mesh.positions[i * 3 + 1])} ${format(mesh.positions[i * 3 + 2])}`;
+      // Vertex colors use the common "v x y z r g b" extension
+      lines.push(mesh.colors
+        ? `${position} ${format(mesh.colors[i * 3])} ${format(mesh.colors[i * 3 + 1])} ${format(mesh.colors[i * 3 + 2])}`
+        : position);
+    }
+    if (mesh.uvs) {
+      for (let i = 0; i < vertexCount; i++) {
+        // OBJ puts the texture origin bottom-left
+        lines.push(`vt ${format(mesh.uvs[i * 2])} ${format(1 - mesh.uvs[i * 2 + 1])}`);
+      }
+    }
+    if (mesh.normals) {
+      for (let i = 0; i < vertexCount; i++) {
+        lines.push(`vn ${format(mesh.normals[i * 3])} ${format(mesh.normals[i * 3 + 1])} ${format(mesh.normals[i * 3 + 2])}`);
+      }
+    }
+
+    if (mesh.material) {
+      materials.set(mesh.material.name, mesh.material);
+      lines.push(`usemtl ${mesh.material.name}`);
+    }
+
+    const vertex = (index: number) => {
+      const i = index + vertexOffset;
+      if (mesh.uvs && mesh.normals) return `${i}/${i}/${i}`;
+      if (mesh.uvs) return `${i}/${i}`;
+      if (mesh.normals) return `${i}//${i}`;
+      return `${i}`;
+    };
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+      lines.push(`f ${vertex(mesh.indices[i])} ${vertex(mesh.indices[i + 1])} ${vertex(mesh.indices[i + 2])}`);
+    }
+
+    vertexOffset += vertexCount;
+  }
+
+  const textures = new Map<string, TextureData>();
+  const textureFile = (texture: TextureData) => {
+    textures.set(texture.name, texture);
+    return `${texture.name}.${texture.extension}`;
+  };
+
+  const mtl: string[] = ['# Converted from glTF'];
+  for (const material of materials.values()) {
+    const [r, g, b, a] = material.baseColor;
+    mtl.push(
+      '',
+      `newmtl ${material.name}`,
+      `Kd ${format(r)} ${format(g)} ${format(b)}`,
+      'Ka 0 0 0',
+      'Ks 0 0 0',
+      `Ke ${material.emissive.map(format).join(' ')}`,
+      `d ${format(a)}`,
+      'illum 2',
+      // PBR extension read by Blender and most DCC tools
+      `Pm ${format(material.metallic)}`,
+      `Pr ${format(material.roughness)}`
+    );
+    if (material.baseColorTexture) {
+      mtl.push(`map_Kd ${textureFile(material.baseColorTexture)}`);
+    }
+    if (material.emissiveTexture) {
+      mtl.push(`map_Ke ${textureFile(material.emissiveTexture)}`);
+    }
+    if (material.normalTexture) {
+      mtl.push(`norm ${textureFile(material.normalTexture)}`);
+    }
+  }
+
+  return [
+    { filename: `${baseName}.obj`, contentType: 'model/obj', data: Buffer.from(lines.join('\n') + '\n') },
+    { filename: `${baseName}.mtl`, contentType: 'model/mtl', data: Buffer.from(mtl.join('\n') + '\n') },
+    ...Array.from(textures.values()).map((texture) => ({
+      filename: `${texture.name}.${texture.extension}`,
+      contentType: texture.mimeType,
+      data: Buffer.from(texture.image),
+    })),
+  ];
+}
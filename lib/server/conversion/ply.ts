@@ -0,0 +1,74 @@
+import type { ConvertedFile, MeshData } from './types';
+
+// PLY viewers expect sRGB bytes; glTF colors are linear
+const toSrgbByte = (linear: number) => {
+  const value = linear <= 0.0031308 ? linear * 12.92 : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+  return Math.round(Math.min(Math.max(value, 0), 1) * 255);
+};
+
+/**
+ * Write meshes as a single binary little-endian PLY with per-vertex colors
+ * Colors come from COLOR_0, else the material's base color factor; textures are not baked.
+ */
+export function writePly(meshes: MeshData[], baseName: string = 'model'): ConvertedFile[] {
+  const vertexCount = meshes.reduce((sum, mesh) => sum + mesh.positions.length / 3, 0);
+  const faceCount = meshes.reduce((sum, mesh) => sum + mesh.indices.length / 3, 0);
+  const withNormals = meshes.every((mesh) => mesh.normals);
+
+  const header = Buffer.from([
+    'ply',
+    'format binary_little_endian 1.0',
+    'comment Converted from glTF',
+    `element vertex ${vertexCount}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    ...(withNormals ? ['property float nx', 'property float ny', 'property float nz'] : []),
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    `element face ${faceCount}`,
+    'property list uchar int vertex_indices',
+    'end_header',
+    '',
+  ].join('\n'), 'ascii');
+
+  const vertexSize = (withNormals ? 24 : 12) + 3;
+  const body = Buffer.alloc(vertexCount * vertexSize + faceCount * 13);
+  let offset = 0;
+
+  for (const mesh of meshes) {
+    const [r, g, b] = mesh.material?.baseColor || [1, 1, 1];
+    for (let i = 0; i < mesh.positions.length / 3; i++) {
+      for (let axis = 0; axis < 3; axis++) {
+        body.writeFloatLE(mesh.positions[i * 3 + axis], offset);
+        offset += 4;
+      }
+      if (withNormals) {
+        for (let axis = 0; axis < 3; axis++) {
+          body.writeFloatLE(mesh.normals![i * 3 + axis], offset);
+          offset += 4;
+        }
+      }
+      const color = mesh.colors ? [mesh.colors[i * 3] * r, mesh.colors[i * 3 + 1] * g, mesh.colors[i * 3 + 2] * b] : [r, g, b];
+      for (const channel of color) {
+        body.writeUInt8(toSrgbByte(channel), offset);
+        offset += 1;
+      }
+    }
+  }
+
+  let vertexOffset = 0;
+  for (const mesh of meshes) {
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+      body.writeUInt8(3, offset);
+      body.writeInt32LE(mesh.indices[i] + vertexOffset, offset + 1);
+      body.writeInt32LE(mesh.indices[i + 1] + vertexOffset, offset + 5);
+      body.writeInt32LE(mesh.indices[i + 2] + vertexOffset, offset + 9);
+      offset += 13;
+    }
+    vertexOffset += mesh.positions.length / 3;
+  }
+
+  return [{ filename: `${baseName}.ply`, contentType: 'application/octet-stream', data: Buffer.concat([header, body]) }];
+}
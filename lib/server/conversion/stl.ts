@@ -0,0 +1,43 @@
+import type { ConvertedFile, MeshData } from './types';
+
+/**
+ * Write meshes as a single binary STL
+ * STL has no units or axis convention; slicers assume millimeters and Z-up, so
+ * the Y-up meter model is rotated and scaled to match.
+ */
+export function writeStl(meshes: MeshData[], baseName: string = 'model'): ConvertedFile[] {
+  const triangleCount = meshes.reduce((sum, mesh) => sum + mesh.indices.length / 3, 0);
+  const data = Buffer.alloc(84 + triangleCount * 50);
+  data.write('Converted from glTF', 0, 'ascii');
+  data.writeUInt32LE(triangleCount, 80);
+
+  let offset = 84;
+  const vertex = (mesh: MeshData, index: number): [number, number, number] => [
+    mesh.positions[index * 3] * 1000,
+    -mesh.positions[index * 3 + 2] * 1000,
+    mesh.positions[index * 3 + 1] * 1000,
+  ];
+
+  for (const mesh of meshes) {
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+      const a = vertex(mesh, mesh.indices[i]);
+      const b = vertex(mesh, mesh.indices[i + 1]);
+      const c = vertex(mesh, mesh.indices[i + 2]);
+
+      // Facet normal from the winding order
+      const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+      const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+      const n = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+      const length = Math.hypot(n[0], n[1], n[2]) || 1;
+
+      for (const value of [n[0] / length, n[1] / length, n[2] / length, ...a, ...b, ...c]) {
+        data.writeFloatLE(value, offset);
+        offset += 4;
+      }
+      data.writeUInt16LE(0, offset);
+      offset += 2;
+    }
+  }
+
+  return [{ filename: `${baseName}.stl`, contentType: 'model/stl', data }];
+}
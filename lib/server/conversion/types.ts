@@ -0,0 +1,54 @@
+/**
+ * 3D format conversion
+ *
+ * A stored GLB is flattened into world-space triangle meshes (MeshData), which
+ * each writer turns into the files of one target format.
+ */
+
+export type ConversionFormat = 'obj' | 'stl' | 'ply' | 'usdz';
+
+export interface TextureData {
+  name: string;                         // Unique, filename-safe
+  image: Uint8Array;
+  mimeType: string;
+  extension: string;                    // 'png' | 'jpg' | 'webp' | ...
+}
+
+export interface MaterialData {
+  name: string;                         // Unique, identifier-safe
+  baseColor: [number, number, number, number]; // Linear RGBA factor
+  metallic: number;
+  roughness: number;
+  emissive: [number, number, number];
+  doubleSided: boolean;
+  baseColorTexture: TextureData | null;
+  metallicRoughnessTexture: TextureData | null; // Roughness in G, metalness in B
+  normalTexture: TextureData | null;
+  emissiveTexture: TextureData | null;
+}
+
+export interface MeshData {
+  name: string;                         // Unique, identifier-safe
+  positions: Float32Array;              // xyz per vertex, world space (Y-up, meters)
+  normals: Float32Array | null;         // xyz per vertex, world space
+  uvs: Float32Array | null;             // uv per vertex, glTF convention (origin top-left)
+  colors: Float32Array | null;          // Linear rgb per vertex
+  indices: Uint32Array;                 // Three per triangle, counter-clockwise
+  material: MaterialData | null;
+}
+
+export interface ConvertedFile {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+/**
+ * Custom error classes
+ */
+export class ConversionError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'ConversionError';
+  }
+}
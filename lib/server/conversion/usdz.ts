@@ -0,0 +1,184 @@
+import { createZip } from './zip';
+import type { ConvertedFile, MaterialData, MeshData, TextureData } from './types';
+
+// USDZ may only package PNG and JPEG images
+const USDZ_TEXTURE_TYPES = ['image/png', 'image/jpeg'];
+
+const format = (value: number) => (Number.isFinite(value) ? Number(value.toFixed(6)).toString() : '0');
+const tuple = (values: number[]) => `(${values.map(format).join(', ')})`;
+
+function vectorArray(values: Float32Array, size: number, transform?: (element: number[]) => number[]): string {
+  const items: string[] = [];
+  for (let i = 0; i < values.length; i += size) {
+    const element = Array.from(values.subarray(i, i + size));
+    items.push(tuple(transform ? transform(element) : element));
+  }
+  return `[${items.join(', ')}]`;
+}
+
+function writeMaterial(material: MaterialData, textures: Map<string, TextureData>): string {
+  const path = `/Root/Materials/${material.name}`;
+  const shaders: string[] = [];
+  const inputs: string[] = [];
+
+  const textureShader = (
+    id: string,
+    texture: TextureData | null,
+    options: { scale?: number[]; bias?: number[]; colorSpace: 'sRGB' | 'raw' }
+  ): boolean => {
+    if (!texture || !USDZ_TEXTURE_TYPES.includes(texture.mimeType)) {
+      return false;
+    }
+    textures.set(texture.name, texture);
+    shaders.push(`
+            def Shader "${id}"
+            {
+                uniform token info:id = "UsdUVTexture"
+                asset inputs:file = @textures/${texture.name}.${texture.extension}@
+                token inputs:sourceColorSpace = "${options.colorSpace}"
+                float2 inputs:st.connect = <${path}/UVReader.outputs:result>
+                token inputs:wrapS = "repeat"
+                token inputs:wrapT = "repeat"${options.scale ? `
+                float4 inputs:scale = ${tuple(options.scale)}` : ''}${options.bias ? `
+                float4 inputs:bias = ${tuple(options.bias)}` : ''}
+                float3 outputs:rgb
+                float outputs:r
+                float outputs:g
+                float outputs:b
+                float outputs:a
+            }`);
+    return true;
+  };
+
+  const [r, g, b, a] = material.baseColor;
+  if (textureShader('BaseColorTexture', material.baseColorTexture, { scale: [r, g, b, a], colorSpace: 'sRGB' })) {
+    inputs.push(`color3f inputs:diffuseColor.connect = <${path}/BaseColorTexture.outputs:rgb>`);
+  } else {
+    inputs.push(`color3f inputs:diffuseColor = ${tuple([r, g, b])}`);
+  }
+  inputs.push(`float inputs:opacity = ${format(a)}`);
+
+  if (textureShader('MetallicRoughnessTexture', material.metallicRoughnessTexture, {
+    scale: [1, material.roughness, material.metallic, 1],
+    colorSpace: 'raw',
+  })) {
+    inputs.push(`float inputs:metallic.connect = <${path}/MetallicRoughnessTexture.outputs:b>`);
+    inputs.push(`float inputs:roughness.connect = <${path}/MetallicRoughnessTexture.outputs:g>`);
+  } else {
+    inputs.push(`float inputs:metallic = ${format(material.metallic)}`);
+    inputs.push(`float inputs:roughness = ${format(material.roughness)}`);
+  }
+
+  if (textureShader('NormalTexture', material.normalTexture, { scale: [2, 2, 2, 1], bias: [-1, -1, -1, 0], colorSpace: 'raw' })) {
+    inputs.push(`normal3f inputs:normal.connect = <${path}/NormalTexture.outputs:rgb>`);
+  }
+
+  if (textureShader('EmissiveTexture', material.emissiveTexture, { scale: [...material.emissive, 1], colorSpace: 'sRGB' })) {
+    inputs.push(`color3f inputs:emissiveColor.connect = <${path}/EmissiveTexture.outputs:rgb>`);
+  } else {
+    inputs.push(`color3f inputs:emissiveColor = ${tuple(material.emissive)}`);
+  }
+
+  const uvReader = shaders.length > 0 ? `
+            def Shader "UVReader"
+            {
+                uniform token info:id = "UsdPrimvarReader_float2"
+                string inputs:varname = "st"
+                float2 outputs:result
+            }` : '';
+
+  return `
+        def Material "${material.name}"
+        {
+            token outputs:surface.connect = <${path}/PreviewSurface.outputs:surface>
+
+            def Shader "PreviewSurface"
+            {
+                uniform token info:id = "UsdPreviewSurface"
+                ${inputs.join('\n                ')}
+                int inputs:useSpecularWorkflow = 0
+                token outputs:surface
+            }${uvReader}${shaders.join('')}
+        }`;
+}
+
+function writeMesh(mesh: MeshData): string {
+  const triangleCount = mesh.indices.length / 3;
+  const attributes = [
+    `int[] faceVertexCounts = [${new Array(triangleCount).fill(3).join(', ')}]`,
+    `int[] faceVertexIndices = [${Array.from(mesh.indices).join(', ')}]`,
+    `point3f[] points = ${vectorArray(mesh.positions, 3)}`,
+  ];
+  if (mesh.normals) {
+    attributes.push(`normal3f[] normals = ${vectorArray(mesh.normals, 3)} (\n            interpolation = "vertex"\n        )`);
+  }
+  if (mesh.uvs) {
+    // USD puts the texture origin bottom-left
+    attributes.push(`texCoord2f[] primvars:st = ${vectorArray(mesh.uvs, 2, ([u, v]) => [u, 1 - v])} (\n            interpolation = "vertex"\n        )`);
+  }
+  if (mesh.colors) {
+    attributes.push(`color3f[] primvars:displayColor = ${vectorArray(mesh.colors, 3)} (\n            interpolation = "vertex"\n        )`);
+  }
+  if (mesh.material) {
+    attributes.push(`rel material:binding = </Root/Materials/${mesh.material.name}>`);
+    if (mesh.material.doubleSided) {
+      attributes.push('uniform bool doubleSided = 1');
+    }
+  }
+  attributes.push('uniform token orientation = "rightHanded"', 'uniform token subdivisionScheme = "none"');
+
+  return `
+    def Mesh "${mesh.name}" (
+        prepend apiSchemas = ["MaterialBindingAPI"]
+    )
+    {
+        ${attributes.join('\n        ')}
+    }`;
+}
+
+/**
+ * Write meshes as a USDZ package (USDA scene plus PNG/JPEG textures) for AR Quick Look
+ * Materials map onto UsdPreviewSurface; other texture formats fall back to their factors.
+ */
+export function writeUsdz(meshes: MeshData[], baseName: string = 'model'): ConvertedFile[] {
+  const textures = new Map<string, TextureData>();
+  const materials = new Map<string, MaterialData>();
+  for (const mesh of meshes) {
+    if (mesh.material) {
+      materials.set(mesh.material.name, mesh.material);
+    }
+  }
+
+  const materialDefs = Array.from(materials.values()).map((material) => writeMaterial(material, textures)).join('\n');
+  const usda = `#usda 1.0
+(
+    customLayerData = {
+        string creator = "Converted from glTF"
+    }
+    defaultPrim = "Root"
+    metersPerUnit = 1
+    upAxis = "Y"
+)
+
+def Xform "Root" (
+    kind = "component"
+)
+{
+    def Scope "Materials"
+    {${materialDefs}
+    }
+${meshes.map(writeMesh).join('\n')}
+}
+`;
+
+  // The scene must be the first file in the package
+  const data = createZip([
+    { filename: `${baseName}.usda`, data: Buffer.from(usda) },
+    ...Array.from(textures.values()).map((texture) => ({
+      filename: `textures/${texture.name}.${texture.extension}`,
+      data: Buffer.from(texture.image),
+    })),
+  ], 64);
+
+  return [{ filename: `${baseName}.usdz`, contentType: 'model/vnd.usdz+zip', data }];
+}
@@ -0,0 +1,70 @@
+import zlib from 'zlib';
+
+const DOS_DATE_1980_01_01 = (1 << 5) | 1; // Fixed timestamp keeps archives reproducible
+
+/**
+ * Build an uncompressed (stored) ZIP archive
+ * With alignment, each file's data starts on that byte boundary by padding the
+ * local header's extra field, as USDZ requires (64 bytes).
+ */
+export function createZip(files: Array<{ filename: string; data: Buffer }>, alignment: number = 1): Buffer {
+  const chunks: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.filename, 'utf8');
+    const crc = zlib.crc32(file.data);
+
+    let padding = (alignment - ((offset + 30 + name.length) % alignment)) % alignment;
+    if (padding > 0 && padding < 4) {
+      padding += alignment; // An extra field needs at least its 4-byte header
+    }
+    const extra = Buffer.alloc(padding);
+    if (padding > 0) {
+      extra.writeUInt16LE(0x1986, 0); // Private padding field ID
+      extra.writeUInt16LE(padding - 4, 2);
+    }
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(0, 8); // Stored
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(DOS_DATE_1980_01_01, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(file.data.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(extra.length, 28);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt16LE(0, 12);
+    header.writeUInt16LE(DOS_DATE_1980_01_01, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(file.data.length, 20);
+    header.writeUInt32LE(file.data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    central.push(header, name);
+
+    chunks.push(local, name, extra, file.data);
+    offset += local.length + name.length + extra.length + file.data.length;
+  }
+
+  const centralDirectory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...chunks, centralDirectory, end]);
+}
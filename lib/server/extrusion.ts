@@ -0,0 +1,312 @@
+import { Document, ImageUtils, type Material } from '@gltf-transform/core';
+import { writeGlb } from './gltf';
+import { getLayoutWalls } from '@/lib/floorplanLayout';
+import type { FloorplanLayout, FloorplanPoint } from '@/types/firestore';
+
+/**
+ * Floorplan extrusion
+ *
+ * Builds a floorplan model straight from its vector layout instead of
+ * reconstructing it from a render: walls are boxes along their centerlines
+ * with door and window openings cut out, floors are the room outlines. The
+ * result is in meters with Y up, centered on the walls, and needs no model
+ * provider.
+ */
+
+export const WALL_HEIGHT_M = 2.7;
+export const WALL_THICKNESS_M = 0.15;
+export const DOOR_WIDTH_M = 0.9;
+export const DOOR_HEIGHT_M = 2.1;
+export const WINDOW_WIDTH_M = 1.2;
+export const WINDOW_SILL_M = 0.9;
+export const WINDOW_HEAD_M = 2.1;
+export const DEFAULT_PLAN_SIZE_M = 12; // Longer side of a plan with no scale
+
+const OPENING_SNAP_M = 0.5; // Doors and windows further than this from every wall are dropped
+const GLASS_THICKNESS_M = 0.02;
+const MIN_WALL_LENGTH_M = 0.05;
+
+type Vec2 = [number, number];
+type Vec3 = [number, number, number];
+
+/**
+ * Custom error classes
+ */
+export class ExtrusionError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'ExtrusionError';
+  }
+}
+
+/**
+ * Size of a PNG or JPEG image in pixels, or null for other formats
+ */
+export function readImageSize(image: Uint8Array): [number, number] | null {
+  const mimeType = image[0] === 0x89 && image[1] === 0x50 ? 'image/png'
+    : image[0] === 0xff && image[1] === 0xd8 ? 'image/jpeg'
+      : null;
+  if (!mimeType) {
+    return null;
+  }
+  try {
+    const size = ImageUtils.getSize(image, mimeType);
+    return size ? [size[0], size[1]] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Real-world size of the plan image when no scale is known: DEFAULT_PLAN_SIZE_M along its longer side
+ */
+export function getDefaultPlanExtent(imageSize?: [number, number] | null): { width_m: number; depth_m: number } {
+  const [width, height] = imageSize && imageSize[0] > 0 && imageSize[1] > 0 ? imageSize : [1, 1];
+  const metersPerPixel = DEFAULT_PLAN_SIZE_M / Math.max(width, height);
+  return { width_m: width * metersPerPixel, depth_m: height * metersPerPixel };
+}
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const dot = (a: Vec3, b: Vec3): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/**
+ * Flat-shaded triangles for one mesh
+ */
+class MeshBuilder {
+  positions: number[] = [];
+  normals: number[] = [];
+  indices: number[] = [];
+
+  get isEmpty(): boolean {
+    return this.indices.length === 0;
+  }
+
+  // A convex polygon facing `normal`; its winding is fixed up to match
+  addFace(points: Vec3[], normal: Vec3): void {
+    const facing = dot(cross(sub(points[1], points[0]), sub(points[2], points[0])), normal);
+    const ordered = facing < 0 ? [...points].reverse() : points;
+    const base = this.positions.length / 3;
+    for (const point of ordered) {
+      this.positions.push(...point);
+      this.normals.push(...normal);
+    }
+    for (let i = 1; i < ordered.length - 1; i++) {
+      this.indices.push(base, base + i, base + i + 1);
+    }
+  }
+
+  // A box along the wall from `origin` in direction `u`, `s0..s1` along it, `h0..h1` high, `thickness` across
+  addWallBox(origin: Vec2, u: Vec2, s0: number, s1: number, h0: number, h1: number, thickness: number): void {
+    const n: Vec2 = [-u[1], u[0]];
+    const corner = (s: number, side: number, h: number): Vec3 => [
+      origin[0] + u[0] * s + n[0] * side * thickness / 2,
+      h,
+      origin[1] + u[1] * s + n[1] * side * thickness / 2,
+    ];
+    const face = (corners: Array<[number, number, number]>, normal: Vec3) =>
+      this.addFace(corners.map(([s, side, h]) => corner(s, side, h)), normal);
+
+    face([[s0, 1, h0], [s1, 1, h0], [s1, 1, h1], [s0, 1, h1]], [n[0], 0, n[1]]);
+    face([[s0, -1, h0], [s1, -1, h0], [s1, -1, h1], [s0, -1, h1]], [-n[0], 0, -n[1]]);
+    face([[s1, -1, h0], [s1, 1, h0], [s1, 1, h1], [s1, -1, h1]], [u[0], 0, u[1]]);
+    face([[s0, -1, h0], [s0, 1, h0], [s0, 1, h1], [s0, -1, h1]], [-u[0], 0, -u[1]]);
+    face([[s0, -1, h1], [s1, -1, h1], [s1, 1, h1], [s0, 1, h1]], [0, 1, 0]);
+    face([[s0, -1, h0], [s1, -1, h0], [s1, 1, h0], [s0, 1, h0]], [0, -1, 0]);
+  }
+
+  // A floor outline at height 0, facing up
+  addFloor(polygon: Vec2[]): void {
+    for (const [a, b, c] of triangulate(polygon)) {
+      this.addFace([[a[0], 0, a[1]], [b[0], 0, b[1]], [c[0], 0, c[1]]], [0, 1, 0]);
+    }
+  }
+}
+
+const signedArea = (polygon: Vec2[]): number =>
+  polygon.reduce((sum, a, i) => {
+    const b = polygon[(i + 1) % polygon.length];
+    return sum + a[0] * b[1] - b[0] * a[1];
+  }, 0) / 2;
+
+const isInTriangle = (p: Vec2, a: Vec2, b: Vec2, c: Vec2): boolean => {
+  const side = (p1: Vec2, p2: Vec2) => (p2[0] - p1[0]) * (p[1] - p1[1]) - (p2[1] - p1[1]) * (p[0] - p1[0]);
+  const d1 = side(a, b);
+  const d2 = side(b, c);
+  const d3 = side(c, a);
+  return !((d1 < 0 || d2 < 0 || d3 < 0) && (d1 > 0 || d2 > 0 || d3 > 0));
+};
+
+/**
+ * Split a simple polygon into triangles by ear clipping (room outlines are often L-shaped)
+ * Falls back to a fan when the outline self-intersects.
+ */
+export function triangulate(polygon: Vec2[]): Array<[Vec2, Vec2, Vec2]> {
+  const points = signedArea(polygon) < 0 ? [...polygon].reverse() : [...polygon];
+  const triangles: Array<[Vec2, Vec2, Vec2]> = [];
+
+  let guard = points.length * points.length;
+  while (points.length > 3 && guard-- > 0) {
+    let clipped = false;
+    for (let i = 0; i < points.length; i++) {
+      const a = points[(i + points.length - 1) % points.length];
+      const b = points[i];
+      const c = points[(i + 1) % points.length];
+      const convex = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]) > 0;
+      if (!convex || points.some((p) => p !== a && p !== b && p !== c && isInTriangle(p, a, b, c))) {
+        continue;
+      }
+      triangles.push([a, b, c]);
+      points.splice(i, 1);
+      clipped = true;
+      break;
+    }
+    if (!clipped) {
+      break;
+    }
+  }
+
+  for (let i = 1; i < points.length - 1; i++) {
+    triangles.push([points[0], points[i], points[i + 1]]);
+  }
+  return triangles;
+}
+
+interface Opening {
+  kind: 'door' | 'window';
+  start: number; // Meters along the wall
+  end: number;
+}
+
+/**
+ * Build the GLB of a floorplan layout
+ * @param extent - Real-world size of the plan image the layout's points are fractions of
+ */
+export async function buildFloorplanGlb(
+  layout: FloorplanLayout,
+  extent: { width_m: number; depth_m: number }
+): Promise<Buffer> {
+  const toMeters = (point: FloorplanPoint): Vec2 => [point.x * extent.width_m, point.y * extent.depth_m];
+
+  const walls = getLayoutWalls(layout)
+    .map((wall) => ({ start: toMeters(wall.start), end: toMeters(wall.end) }))
+    .filter(({ start, end }) => Math.hypot(end[0] - start[0], end[1] - start[1]) >= MIN_WALL_LENGTH_M);
+  if (walls.length === 0) {
+    throw new ExtrusionError('The layout has no walls to build', 'EMPTY_LAYOUT');
+  }
+
+  // Center the model on its walls
+  const xs = walls.flatMap(({ start, end }) => [start[0], end[0]]);
+  const zs = walls.flatMap(({ start, end }) => [start[1], end[1]]);
+  const center: Vec2 = [(Math.min(...xs) + Math.max(...xs)) / 2, (Math.min(...zs) + Math.max(...zs)) / 2];
+  const centered = (point: Vec2): Vec2 => [point[0] - center[0], point[1] - center[1]];
+
+  const wallGeometry = walls.map(({ start, end }) => {
+    const origin = centered(start);
+    const length = Math.hypot(end[0] - start[0], end[1] - start[1]);
+    const u: Vec2 = [(end[0] - start[0]) / length, (end[1] - start[1]) / length];
+    return { origin, u, length, openings: [] as Opening[] };
+  });
+
+  // Put each door and window on its nearest wall
+  const placeOpening = (point: FloorplanPoint, kind: Opening['kind']) => {
+    const p = centered(toMeters(point));
+    let best: { wall: typeof wallGeometry[number]; along: number; distance: number } | null = null;
+    for (const wall of wallGeometry) {
+      const along = Math.min(Math.max((p[0] - wall.origin[0]) * wall.u[0] + (p[1] - wall.origin[1]) * wall.u[1], 0), wall.length);
+      const distance = Math.hypot(p[0] - (wall.origin[0] + wall.u[0] * along), p[1] - (wall.origin[1] + wall.u[1] * along));
+      if (!best || distance < best.distance) {
+        best = { wall, along, distance };
+      }
+    }
+    if (!best || best.distance > OPENING_SNAP_M) {
+      return;
+    }
+    const halfWidth = Math.min((kind === 'door' ? DOOR_WIDTH_M : WINDOW_WIDTH_M) / 2, best.wall.length / 2 - WALL_THICKNESS_M);
+    if (halfWidth <= 0.1) {
+      return;
+    }
+    const middle = Math.min(Math.max(best.along, halfWidth), best.wall.length - halfWidth);
+    best.wall.openings.push({ kind, start: middle - halfWidth, end: middle + halfWidth });
+  };
+  layout.doors.forEach((door) => placeOpening(door, 'door'));
+  layout.windows.forEach((window) => placeOpening(window, 'window'));
+
+  const wallMesh = new MeshBuilder();
+  const glassMesh = new MeshBuilder();
+  for (const { origin, u, length, openings } of wallGeometry) {
+    // Walls run half a thickness past their ends so corners close
+    let cursor = -WALL_THICKNESS_M / 2;
+    for (const opening of [...openings].sort((a, b) => a.start - b.start)) {
+      if (opening.start < cursor) {
+        continue; // Overlaps the previous opening
+      }
+      if (opening.start > cursor) {
+        wallMesh.addWallBox(origin, u, cursor, opening.start, 0, WALL_HEIGHT_M, WALL_THICKNESS_M);
+      }
+      if (opening.kind === 'door') {
+        wallMesh.addWallBox(origin, u, opening.start, opening.end, DOOR_HEIGHT_M, WALL_HEIGHT_M, WALL_THICKNESS_M);
+      } else {
+        wallMesh.addWallBox(origin, u, opening.start, opening.end, 0, WINDOW_SILL_M, WALL_THICKNESS_M);
+        wallMesh.addWallBox(origin, u, opening.start, opening.end, WINDOW_HEAD_M, WALL_HEIGHT_M, WALL_THICKNESS_M);
+        glassMesh.addWallBox(origin, u, opening.start, opening.end, WINDOW_SILL_M, WINDOW_HEAD_M, GLASS_THICKNESS_M);
+      }
+      cursor = opening.end;
+    }
+    wallMesh.addWallBox(origin, u, cursor, length + WALL_THICKNESS_M / 2, 0, WALL_HEIGHT_M, WALL_THICKNESS_M);
+  }
+
+  const document = new Document();
+  const buffer = document.createBuffer();
+  const scene = document.createScene('Floorplan');
+  document.getRoot().setDefaultScene(scene);
+
+  const addMesh = (name: string, builder: MeshBuilder, material: Material) => {
+    const primitive = document.createPrimitive()
+      .setAttribute('POSITION', document.createAccessor().setType('VEC3').setArray(new Float32Array(builder.positions)).setBuffer(buffer))
+      .setAttribute('NORMAL', document.createAccessor().setType('VEC3').setArray(new Float32Array(builder.normals)).setBuffer(buffer))
+      .setIndices(document.createAccessor().setType('SCALAR').setArray(new Uint32Array(builder.indices)).setBuffer(buffer))
+      .setMaterial(material);
+    scene.addChild(document.createNode(name).setMesh(document.createMesh(name).addPrimitive(primitive)));
+  };
+
+  const wallMaterial = document.createMaterial('Wall')
+    .setBaseColorFactor([0.93, 0.92, 0.9, 1])
+    .setMetallicFactor(0)
+    .setRoughnessFactor(0.9);
+  const floorMaterial = document.createMaterial('Floor')
+    .setBaseColorFactor([0.76, 0.64, 0.5, 1])
+    .setMetallicFactor(0)
+    .setRoughnessFactor(0.7)
+    .setDoubleSided(true);
+  const glassMaterial = document.createMaterial('Glass')
+    .setBaseColorFactor([0.7, 0.85, 0.95, 0.35])
+    .setAlphaMode('BLEND')
+    .setMetallicFactor(0)
+    .setRoughnessFactor(0.05);
+
+  addMesh('Walls', wallMesh, wallMaterial);
+  if (!glassMesh.isEmpty) {
+    addMesh('Windows', glassMesh, glassMaterial);
+  }
+
+  // One floor per room, named after it; the walls' footprint when no room has an outline
+  const rooms = layout.rooms.filter((room) => room.polygon.length >= 3);
+  if (rooms.length > 0) {
+    for (const room of rooms) {
+      const floor = new MeshBuilder();
+      floor.addFloor(room.polygon.map((point) => centered(toMeters(point))));
+      if (!floor.isEmpty) {
+        addMesh(`Floor - ${room.name}`, floor, floorMaterial);
+      }
+    }
+  } else {
+    const [minX, maxX] = [Math.min(...xs) - center[0], Math.max(...xs) - center[0]];
+    const [minZ, maxZ] = [Math.min(...zs) - center[1], Math.max(...zs) - center[1]];
+    const floor = new MeshBuilder();
+    floor.addFloor([[minX, minZ], [maxX, minZ], [maxX, maxZ], [minX, maxZ]]);
+    addMesh('Floor', floor, floorMaterial);
+  }
+
+  return writeGlb(document);
+}
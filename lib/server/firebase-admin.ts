@@ -60,7 +60,9 @@ if (!admin.apps.length) {
       console.warn('Initializing Firebase Admin without credentials (this may fail if used).');
     }
     try {
+      // The Firebase emulators only need a project ID
       admin.initializeApp({
+        projectId: process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
         storageBucket: process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET,
       });
     } catch (e) {
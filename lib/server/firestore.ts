@@ -1,4 +1,5 @@
 import admin from './firebase-admin';
+import { postLedgerJournal } from './ledger';
 import type {
   ProjectDocument,
   GenerationDocument,
@@ -354,7 +355,7 @@ export async function getGenerationsByUserId(
   try {
     validateUserId(userId);
 
-    if (status && !['pending', 'generating', 'completed', 'failed'].includes(status)) {
+    if (status && !['pending', 'generating', 'completed', 'failed', 'cancelled'].includes(status)) {
       throw new ValidationError(`Invalid status: ${status}`);
     }
 
@@ -505,6 +506,26 @@ export async function createGeneration(
   }
 }
 
+function validateGenerationUpdates(generationId: string, updates: Partial<GenerationDocument>): void {
+  if (!generationId || typeof generationId !== 'string' || generationId.trim().length === 0) {
+    throw new ValidationError('Invalid generation ID: must be a non-empty string');
+  }
+
+  if (!updates || Object.keys(updates).length === 0) {
+    throw new ValidationError('Updates object cannot be empty');
+  }
+
+  // Validate specific fields
+  if (updates.status && !['pending', 'generating', 'completed', 'failed', 'cancelled'].includes(updates.status)) {
+    throw new ValidationError(`Invalid status: ${updates.status}`);
+  }
+  if (updates.progress_percentage !== undefined) {
+    if (!Number.isFinite(updates.progress_percentage) || updates.progress_percentage < 0 || updates.progress_percentage > 100) {
+      throw new ValidationError('Invalid progress_percentage: must be a number between 0 and 100');
+    }
+  }
+}
+
 /**
  * Update a generation
  */
@@ -513,23 +534,7 @@ export async function updateGeneration(
   updates: Partial<GenerationDocument>
 ): Promise<void> {
   try {
-    if (!generationId || typeof generationId !== 'string' || generationId.trim().length === 0) {
-      throw new ValidationError('Invalid generation ID: must be a non-empty string');
-    }
-
-    if (!updates || Object.keys(updates).length === 0) {
-      throw new ValidationError('Updates object cannot be empty');
-    }
-
-    // Validate specific fields
-    if (updates.status && !['pending', 'generating', 'completed', 'failed'].includes(updates.status)) {
-      throw new ValidationError(`Invalid status: ${updates.status}`);
-    }
-    if (updates.progress_percentage !== undefined) {
-      if (!Number.isFinite(updates.progress_percentage) || updates.progress_percentage < 0 || updates.progress_percentage > 100) {
-        throw new ValidationError('Invalid progress_percentage: must be a number between 0 and 100');
-      }
-    }
+    validateGenerationUpdates(generationId, updates);
 
     const db = getFirestore();
     const generationRef = db.collection('generations').doc(generationId);
@@ -554,6 +559,45 @@ export async function updateGeneration(
   }
 }
 
+/**
+ * Update a generation unless it has been cancelled (atomic)
+ * The status is read and the update written in one transaction, so a cancel
+ * committed in between makes the transaction retry and the update is dropped.
+ * Returns false if the generation was cancelled and nothing was written.
+ */
+export async function updateGenerationUnlessCancelled(
+  generationId: string,
+  updates: Partial<GenerationDocument>
+): Promise<boolean> {
+  try {
+    validateGenerationUpdates(generationId, updates);
+
+    const db = getFirestore();
+    const generationRef = db.collection('generations').doc(generationId);
+    const updateData: any = cleanUndefined({
+      ...updates,
+      updated_at: admin.firestore.Timestamp.now(),
+    });
+
+    return await db.runTransaction(async (transaction) => {
+      const generationDoc = await transaction.get(generationRef);
+      if (!generationDoc.exists) {
+        throw new FirestoreError(`Generation not found: ${generationId}`, 'GENERATION_NOT_FOUND');
+      }
+      if (generationDoc.data()?.status === 'cancelled') {
+        return false;
+      }
+      transaction.update(generationRef, updateData);
+      return true;
+    });
+  } catch (error: any) {
+    if (error instanceof ValidationError || error instanceof FirestoreError) {
+      throw error;
+    }
+    throw new FirestoreError(`Failed to update generation: ${error.message}`, 'UPDATE_GENERATION_ERROR', error);
+  }
+}
+
 /**
  * Get user document
  */
@@ -604,24 +648,37 @@ export async function createUserWithStarterCredits(
     const db = getFirestore();
     const userRef = db.collection('users').doc(userId);
 
-    // Check if user already exists
-    const existingUser = await userRef.get();
-    if (existingUser.exists) {
-      const data = existingUser.data();
-      if (data) {
-        return data as any as UserDocument;
+    // Create the user and post the starter grant to the ledger atomically
+    return await db.runTransaction(async (transaction) => {
+      // Check if user already exists
+      const existingUser = await transaction.get(userRef);
+      if (existingUser.exists) {
+        const data = existingUser.data();
+        if (data) {
+          return data as any as UserDocument;
+        }
       }
-    }
 
-    const now = admin.firestore.Timestamp.now();
-    const userData: any = {
-      email: email.trim(),
-      credits: Math.floor(credits),
-      created_at: now,
-    };
-
-    await userRef.set(userData);
-    return userData as UserDocument;
+      const now = admin.firestore.Timestamp.now();
+      const userData: any = {
+        email: email.trim(),
+        credits: Math.floor(credits),
+        ledger_opened_at: now,
+        created_at: now,
+      };
+
+      transaction.set(userRef, userData);
+      if (userData.credits > 0) {
+        postLedgerJournal(transaction, {
+          userId,
+          amount: userData.credits,
+          type: 'grant',
+          journalId: `starter_${userId}`,
+          memo: 'Starter credits',
+        });
+      }
+      return userData as UserDocument;
+    });
   } catch (error: any) {
     if (error instanceof ValidationError || error instanceof FirestoreError) {
       throw error;
@@ -682,7 +739,7 @@ export async function createTransaction(
   try {
     validateUserId(transactionData.user_id);
 
-    if (!transactionData.type || !['purchase', 'usage'].includes(transactionData.type)) {
+    if (!transactionData.type || !['purchase', 'usage', 'refund', 'grant', 'promo', 'clawback'].includes(transactionData.type)) {
       throw new ValidationError(`Invalid transaction type: ${transactionData.type}`);
     }
 
@@ -690,7 +747,7 @@ export async function createTransaction(
       throw new ValidationError('Invalid amount: must be a number');
     }
 
-    if (!transactionData.status || !['pending', 'completed', 'failed'].includes(transactionData.status)) {
+    if (!transactionData.status || !['pending', 'completed', 'failed', 'released'].includes(transactionData.status)) {
       throw new ValidationError(`Invalid status: ${transactionData.status}`);
     }
 
@@ -789,7 +846,7 @@ export async function createPaymentOrder(
       throw new ValidationError('Invalid currency: must be a non-empty string');
     }
 
-    if (!orderData.status || !['created', 'completed', 'failed'].includes(orderData.status)) {
+    if (!orderData.status || !['created', 'completed', 'failed', 'refunded', 'disputed'].includes(orderData.status)) {
       throw new ValidationError(`Invalid status: ${orderData.status}`);
     }
 
@@ -841,7 +898,7 @@ export async function updatePaymentOrder(
       throw new ValidationError('Updates object cannot be empty');
     }
 
-    if (updates.status && !['created', 'completed', 'failed'].includes(updates.status)) {
+    if (updates.status && !['created', 'completed', 'failed', 'refunded', 'disputed'].includes(updates.status)) {
       throw new ValidationError(`Invalid status: ${updates.status}`);
     }
 
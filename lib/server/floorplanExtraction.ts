@@ -0,0 +1,268 @@
+import admin from './firebase-admin';
+import { createReplicateClient } from './vendors';
+import { retryWithBackoff } from './retry';
+import { withTimeout } from './timeout';
+import { getFloorplanExtent } from '@/lib/floorplanScale';
+import { FLOORPLAN_ROOM_TYPES } from '@/lib/floorplanLayout';
+import type {
+  FloorplanAreaSource,
+  FloorplanExtraction,
+  FloorplanOpening,
+  FloorplanPoint,
+  FloorplanRoom,
+  FloorplanScale,
+} from '@/types/firestore';
+
+/**
+ * Floorplan layout extraction
+ *
+ * A vision model reads the plan image into rooms, doors and windows. Outlines
+ * come back as fractions of the image, so with a floorplan_scale the room
+ * areas are measured; otherwise the areas written on the plan are used.
+ */
+
+export const FLOORPLAN_EXTRACTION_MODEL = 'openai/gpt-4o-mini';
+
+const EXTRACTION_TIMEOUT = 120000; // 2 minutes
+const SQFT_TO_M2 = 0.09290304;
+
+const EXTRACTION_PROMPT = `You are reading an architectural floor plan image. Describe its layout as JSON only, with no other text:
+{
+  "rooms": [
+    {
+      "id": "r1",
+      "name": "room label as written on the plan, or a short description if unlabelled",
+      "type": one of ${FLOORPLAN_ROOM_TYPES.map((type) => `"${type}"`).join(', ')},
+      "polygon": [[x, y], ...],
+      "area": area written on the plan as a number, or null,
+      "area_unit": "m2" or "sqft", or null
+    }
+  ],
+  "doors": [{ "position": [x, y], "rooms": ["r1", "r2"] }],
+  "windows": [{ "position": [x, y], "rooms": ["r1"] }]
+}
+Coordinates are fractions of the image width (x) and height (y) from the top-left corner, between 0 and 1, with 3 decimals.
+Each polygon traces the room's inner walls in order. List every enclosed room, including hallways and closets.
+Each door lists the one or two rooms it connects; each window lists the room it belongs to.`;
+
+/**
+ * Custom error classes
+ */
+export class FloorplanExtractionError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'FloorplanExtractionError';
+  }
+}
+
+type RawPoint = [unknown, unknown] | { x?: unknown; y?: unknown };
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+function toPoint(raw: RawPoint | undefined): FloorplanPoint | null {
+  const [x, y] = Array.isArray(raw) ? raw : [raw?.x, raw?.y];
+  if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) {
+    return null;
+  }
+  return { x: round(Math.min(Math.max(x, 0), 1), 4), y: round(Math.min(Math.max(y, 0), 1), 4) };
+}
+
+/**
+ * Area of a polygon in the same units as its points squared (shoelace formula)
+ */
+export function getPolygonArea(polygon: FloorplanPoint[]): number {
+  let twiceArea = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    twiceArea += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Parse the model's reply, tolerating code fences or text around the JSON
+ */
+export function parseExtractionResponse(text: string): any {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new FloorplanExtractionError('Vision model reply contained no JSON', 'INVALID_RESPONSE');
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    throw new FloorplanExtractionError('Vision model reply was not valid JSON', 'INVALID_RESPONSE', error);
+  }
+}
+
+/**
+ * Turn the model's layout into a FloorplanExtraction without the source fields
+ * Room IDs are reassigned in order; doors and windows referring to unknown rooms drop those references.
+ */
+export function normalizeExtraction(
+  raw: any,
+  scale?: FloorplanScale
+): Omit<FloorplanExtraction, 'source_url' | 'model' | 'extracted_at'> {
+  const rawRooms: any[] = Array.isArray(raw?.rooms) ? raw.rooms : [];
+  const extent = scale ? getFloorplanExtent(scale) : null;
+  const idMap = new Map<string, string>();
+
+  const rooms: FloorplanRoom[] = rawRooms
+    .filter((room) => room && typeof room === 'object')
+    .map((room, index) => {
+      const id = `room_${index + 1}`;
+      if (room.id !== undefined) {
+        idMap.set(String(room.id), id);
+      }
+
+      const polygon = (Array.isArray(room.polygon) ? room.polygon : [])
+        .map(toPoint)
+        .filter((point: FloorplanPoint | null): point is FloorplanPoint => !!point);
+      const type = FLOORPLAN_ROOM_TYPES.includes(room.type) ? room.type : 'other';
+      const name = typeof room.name === 'string' && room.name.trim() ? room.name.trim().slice(0, 80) : `Room ${index + 1}`;
+
+      let labelledArea: number | undefined;
+      if (typeof room.area === 'number' && room.area > 0) {
+        labelledArea = round(room.area_unit === 'sqft' ? room.area * SQFT_TO_M2 : room.area, 2);
+      }
+
+      let area: number | undefined = labelledArea;
+      if (extent && polygon.length >= 3) {
+        area = round(getPolygonArea(polygon) * extent.width_m * extent.depth_m, 2);
+      }
+
+      return {
+        id,
+        name,
+        type,
+        polygon,
+        ...(area !== undefined ? { area_m2: area } : {}),
+        ...(labelledArea !== undefined ? { labelled_area_m2: labelledArea } : {}),
+        doors: 0,
+        windows: 0,
+      };
+    });
+
+  const roomsById = new Map(rooms.map((room) => [room.id, room]));
+  const toOpenings = (list: unknown, counter: 'doors' | 'windows'): FloorplanOpening[] =>
+    (Array.isArray(list) ? list : []).flatMap((opening: any) => {
+      const position = toPoint(opening?.position);
+      if (!position) {
+        return [];
+      }
+      const roomIds = [...new Set<string>(
+        (Array.isArray(opening.rooms) ? opening.rooms : [])
+          .map((roomId: unknown) => idMap.get(String(roomId)))
+          .filter((roomId: string | undefined): roomId is string => !!roomId)
+      )];
+      for (const roomId of roomIds) {
+        roomsById.get(roomId)![counter] += 1;
+      }
+      return [{ position, room_ids: roomIds }];
+    });
+
+  const doors = toOpenings(raw?.doors, 'doors');
+  const windows = toOpenings(raw?.windows, 'windows');
+
+  const measured = rooms.filter((room) => room.area_m2 !== undefined);
+  let areaSource: FloorplanAreaSource = 'none';
+  if (measured.length > 0) {
+    areaSource = extent ? 'scale' : 'labels';
+  }
+
+  return {
+    rooms,
+    doors,
+    windows,
+    ...(measured.length > 0
+      ? { total_area_m2: round(measured.reduce((sum, room) => sum + room.area_m2!, 0), 2) }
+      : {}),
+    area_source: areaSource,
+  };
+}
+
+/**
+ * Read the rooms, doors and windows of the floorplan at imageUrl
+ * @param scale - The plan's floorplan_scale, to measure room areas from their outlines
+ */
+export async function extractFloorplanLayout(
+  imageUrl: string,
+  scale?: FloorplanScale
+): Promise<FloorplanExtraction> {
+  const token = process.env.REPLICATE_API_TOKEN;
+  if (!token) {
+    throw new Error('REPLICATE_API_TOKEN environment variable is required');
+  }
+
+  const raw = await retryWithBackoff(
+    async () => {
+      const replicate = createReplicateClient(token);
+      const output = await withTimeout(
+        replicate.run(FLOORPLAN_EXTRACTION_MODEL, {
+          input: {
+            prompt: EXTRACTION_PROMPT,
+            image_input: [imageUrl],
+            temperature: 0,
+            max_completion_tokens: 4096,
+          },
+        }),
+        EXTRACTION_TIMEOUT,
+        'Floorplan extraction timed out'
+      );
+
+      // Language models stream their reply as an array of tokens
+      const text = Array.isArray(output) ? output.join('') : typeof output === 'string' ? output : '';
+      return parseExtractionResponse(text);
+    },
+    {
+      maxRetries: 2,
+      initialDelay: 2000,
+      maxDelay: 15000,
+    }
+  );
+
+  const extraction = normalizeExtraction(raw, scale);
+  if (extraction.rooms.length === 0) {
+    throw new FloorplanExtractionError('No rooms were found on the floorplan', 'NO_ROOMS');
+  }
+
+  return {
+    ...extraction,
+    source_url: imageUrl,
+    model: FLOORPLAN_EXTRACTION_MODEL,
+    extracted_at: admin.firestore.Timestamp.now() as any,
+  };
+}
+
+// Room names come from the plan, so text that a spreadsheet would run as a formula is quoted with '
+const csvCell = (value: string | number | undefined): string => {
+  let text = value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per room with a closing total, for spreadsheets and estimating tools
+ */
+export function toFloorplanCsv(extraction: FloorplanExtraction): string {
+  const rows: Array<Array<string | number | undefined>> = [
+    ['room_id', 'name', 'type', 'area_m2', 'labelled_area_m2', 'doors', 'windows'],
+    ...extraction.rooms.map((room) => [
+      room.id,
+      room.name,
+      room.type,
+      room.area_m2,
+      room.labelled_area_m2,
+      room.doors,
+      room.windows,
+    ]),
+    ['total', '', '', extraction.total_area_m2, '', extraction.doors.length, extraction.windows.length],
+  ];
+  return rows.map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,87 @@
+import { NodeIO, Primitive, type Document } from '@gltf-transform/core';
+import { ALL_EXTENSIONS } from '@gltf-transform/extensions';
+import draco3d from 'draco3dgltf';
+import { MeshoptDecoder, MeshoptEncoder } from 'meshoptimizer';
+
+/**
+ * glTF document I/O shared by model conversion, post-processing and inspection
+ */
+
+/**
+ * Custom error classes
+ */
+export class GltfError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'GltfError';
+  }
+}
+
+let ioPromise: Promise<NodeIO> | null = null;
+
+/**
+ * Get a NodeIO that understands every extension gltf-transform supports,
+ * including Draco and Meshopt compressed geometry
+ */
+export function getGltfIO(): Promise<NodeIO> {
+  if (!ioPromise) {
+    ioPromise = (async () => {
+      await Promise.all([MeshoptDecoder.ready, MeshoptEncoder.ready]);
+      return new NodeIO()
+        .registerExtensions(ALL_EXTENSIONS)
+        .registerDependencies({
+          'draco3d.decoder': await draco3d.createDecoderModule(),
+          'draco3d.encoder': await draco3d.createEncoderModule(),
+          'meshopt.decoder': MeshoptDecoder,
+          'meshopt.encoder': MeshoptEncoder,
+        });
+    })().catch((error) => {
+      ioPromise = null;
+      throw new GltfError(`Failed to load glTF codecs: ${error.message}`, 'CODEC_ERROR', error);
+    });
+  }
+  return ioPromise;
+}
+
+/**
+ * Parse a GLB file
+ */
+export async function readGlb(buffer: Buffer | Uint8Array): Promise<Document> {
+  const io = await getGltfIO();
+  try {
+    return await io.readBinary(new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength));
+  } catch (error: any) {
+    throw new GltfError(`Failed to read GLB: ${error.message}`, 'INVALID_GLB', error);
+  }
+}
+
+/**
+ * Serialize a document as GLB
+ */
+export async function writeGlb(document: Document): Promise<Buffer> {
+  const io = await getGltfIO();
+  try {
+    return Buffer.from(await io.writeBinary(document));
+  } catch (error: any) {
+    throw new GltfError(`Failed to write GLB: ${error.message}`, 'WRITE_GLB_ERROR', error);
+  }
+}
+
+/**
+ * Count the triangles drawn by a document's meshes
+ */
+export function countTriangles(document: Document): number {
+  let triangles = 0;
+  for (const mesh of document.getRoot().listMeshes()) {
+    for (const primitive of mesh.listPrimitives()) {
+      const count = primitive.getIndices()?.getCount() ?? primitive.getAttribute('POSITION')?.getCount() ?? 0;
+      const mode = primitive.getMode();
+      if (mode === Primitive.Mode.TRIANGLES) {
+        triangles += Math.floor(count / 3);
+      } else if (mode === Primitive.Mode.TRIANGLE_STRIP || mode === Primitive.Mode.TRIANGLE_FAN) {
+        triangles += Math.max(count - 2, 0);
+      }
+    }
+  }
+  return triangles;
+}
@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+import { getBounds, ImageUtils, type Document } from '@gltf-transform/core';
+import admin from './firebase-admin';
+import { getFirestore, getGeneration } from './firestore';
+import { countTriangles, readGlb } from './gltf';
+import { AssetError, readGenerationAsset } from './assets';
+import type { GenerationWithId, ModelStats, ModelTextureStats } from '@/types/firestore';
+
+/**
+ * Model inspection
+ *
+ * Reads a generation's GLB once and records its mesh statistics on the
+ * generation, so nobody has to open the file in Blender to get a poly count.
+ */
+
+type Vec3 = [number, number, number];
+
+const finite = (values: number[]): Vec3 => values.map((value) => (Number.isFinite(value) ? value : 0)) as Vec3;
+
+function countVertices(document: Document): number {
+  let vertices = 0;
+  for (const mesh of document.getRoot().listMeshes()) {
+    for (const primitive of mesh.listPrimitives()) {
+      vertices += primitive.getAttribute('POSITION')?.getCount() ?? 0;
+    }
+  }
+  return vertices;
+}
+
+function getBoundingBox(document: Document): ModelStats['bounding_box'] {
+  const scene = document.getRoot().getDefaultScene() || document.getRoot().listScenes()[0];
+  if (!scene) {
+    return { min: [0, 0, 0], max: [0, 0, 0], size: [0, 0, 0] };
+  }
+  const bounds = getBounds(scene);
+  const min = finite(bounds.min);
+  const max = finite(bounds.max);
+  return { min, max, size: [max[0] - min[0], max[1] - min[1], max[2] - min[2]] };
+}
+
+function getTextureStats(document: Document): ModelTextureStats[] {
+  return document.getRoot().listTextures().map((texture) => {
+    const image = texture.getImage();
+    const mimeType = texture.getMimeType();
+    const size = image ? ImageUtils.getSize(image, mimeType) : null;
+    return {
+      ...(texture.getName() ? { name: texture.getName() } : {}),
+      mime_type: mimeType,
+      ...(size ? { width: size[0], height: size[1] } : {}),
+      size_bytes: image?.byteLength ?? 0,
+    };
+  });
+}
+
+/**
+ * Compute the statistics of a GLB
+ */
+export async function inspectGlb(glb: Buffer): Promise<Omit<ModelStats, 'inspected_at' | 'source_sha256'>> {
+  const document = await readGlb(glb);
+  const root = document.getRoot();
+  const textures = getTextureStats(document);
+
+  let maxTexture: [number, number] | undefined;
+  for (const texture of textures) {
+    if (texture.width && texture.height && (!maxTexture || texture.width * texture.height > maxTexture[0] * maxTexture[1])) {
+      maxTexture = [texture.width, texture.height];
+    }
+  }
+
+  return {
+    triangles: countTriangles(document),
+    vertices: countVertices(document),
+    meshes: root.listMeshes().length,
+    materials: root.listMaterials().length,
+    textures,
+    ...(maxTexture ? { max_texture_resolution: maxTexture } : {}),
+    file_size_bytes: glb.length,
+    bounding_box: getBoundingBox(document),
+    extensions: root.listExtensionsUsed().map((extension) => extension.extensionName).sort(),
+  };
+}
+
+/**
+ * Inspect a generation's GLB and store the result in `output_data.model_stats`
+ *
+ * Stats already computed from the current Storage copy are returned as they are.
+ * A GLB that can't be parsed is recorded in `output_data.model_stats_error`.
+ */
+export async function inspectGenerationModel(generationOrId: string | GenerationWithId): Promise<ModelStats> {
+  const generation = typeof generationOrId === 'string'
+    ? await getGeneration(generationOrId)
+    : generationOrId;
+  if (!generation) {
+    throw new AssetError(`Generation not found: ${generationOrId}`, 'GENERATION_NOT_FOUND');
+  }
+
+  const existing = generation.output_data?.model_stats;
+  const storedHash = generation.output_data?.assets?.glb?.sha256;
+  if (existing && (!storedHash || existing.source_sha256 === storedHash)) {
+    return existing;
+  }
+
+  const generationRef = getFirestore().collection('generations').doc(generation.id);
+  const glb = await readGenerationAsset(generation, 'glb');
+
+  let stats: ModelStats;
+  try {
+    stats = {
+      ...(await inspectGlb(glb)),
+      source_sha256: crypto.createHash('sha256').update(glb).digest('hex'),
+      inspected_at: admin.firestore.Timestamp.now() as any,
+    };
+  } catch (error: any) {
+    await generationRef.update({ 'output_data.model_stats_error': error.message || 'Unknown error' });
+    throw error;
+  }
+
+  await generationRef.update({
+    'output_data.model_stats': stats,
+    'output_data.model_stats_error': admin.firestore.FieldValue.delete(),
+  });
+  console.log(`[Inspection] Generation ${generation.id}: ${stats.triangles} triangles, ${stats.file_size_bytes} bytes`);
+  return stats;
+}
+
+/**
+ * Inspect without letting a failure affect the caller
+ */
+export async function inspectGenerationModelSafely(generationOrId: string | GenerationWithId): Promise<ModelStats | null> {
+  try {
+    return await inspectGenerationModel(generationOrId);
+  } catch (error: any) {
+    const id = typeof generationOrId === 'string' ? generationOrId : generationOrId.id;
+    console.error(`[Inspection] Failed to inspect model for generation ${id}:`, error.message);
+    return null;
+  }
+}
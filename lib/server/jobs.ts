@@ -0,0 +1,338 @@
+import admin from './firebase-admin';
+import { getFirestore } from './firestore';
+import type { JobWithId, JobPayload, JobType, WorkflowType } from '@/types/firestore';
+
+/**
+ * Persistent job queue backed by the Firestore `jobs` collection
+ *
+ * Jobs are claimed with a time-limited lease. The worker holding the lease
+ * extends it with heartbeats while it runs; if the process dies the lease
+ * expires and the job is either re-queued (so the workflow can resume) or
+ * failed once it has used up its attempts.
+ */
+
+const JOBS_COLLECTION = 'jobs';
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_LEASE_MS = 120000; // 2 minutes, extended by heartbeats
+const RETRY_BACKOFF_MS = 15000; // Base delay before a re-queued job can be claimed
+const CLAIM_BATCH_SIZE = 5;
+
+/**
+ * Custom error classes
+ */
+export class JobQueueError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'JobQueueError';
+  }
+}
+
+function jobsCollection() {
+  return getFirestore().collection(JOBS_COLLECTION);
+}
+
+function toJob(doc: FirebaseFirestore.DocumentSnapshot): JobWithId | null {
+  const data = doc.data();
+  if (!doc.exists || !data) {
+    return null;
+  }
+  return { id: doc.id, ...data } as JobWithId;
+}
+
+function validateJobId(jobId: string): void {
+  if (!jobId || typeof jobId !== 'string' || jobId.trim().length === 0) {
+    throw new JobQueueError('Invalid job ID: must be a non-empty string', 'INVALID_JOB_ID');
+  }
+}
+
+/**
+ * Enqueue a job for a worker to pick up
+ */
+export async function enqueueJob(job: {
+  type: JobType;
+  userId: string;
+  workflowType: WorkflowType;
+  generationId: string;
+  projectId?: string;
+  payload: JobPayload;
+  maxAttempts?: number;
+}): Promise<JobWithId> {
+  try {
+    if (!job.userId || !job.generationId) {
+      throw new JobQueueError('Job requires a user ID and generation ID', 'INVALID_JOB');
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const data: any = {
+      type: job.type,
+      status: 'queued',
+      user_id: job.userId,
+      workflow_type: job.workflowType,
+      generation_id: job.generationId,
+      payload: JSON.parse(JSON.stringify(job.payload ?? {})), // Strip undefined values
+      attempts: 0,
+      max_attempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      run_after: now,
+      created_at: now,
+      updated_at: now,
+    };
+
+    if (job.projectId) {
+      data.project_id = job.projectId;
+    }
+
+    const docRef = await jobsCollection().add(data);
+    console.log(`[Jobs] Enqueued ${job.type} job ${docRef.id} for generation ${job.generationId}`);
+
+    return { id: docRef.id, ...data } as JobWithId;
+  } catch (error: any) {
+    if (error instanceof JobQueueError) {
+      throw error;
+    }
+    throw new JobQueueError(`Failed to enqueue job: ${error.message}`, 'ENQUEUE_ERROR', error);
+  }
+}
+
+/**
+ * Get a job by ID
+ */
+export async function getJob(jobId: string): Promise<JobWithId | null> {
+  try {
+    validateJobId(jobId);
+    const doc = await jobsCollection().doc(jobId).get();
+    return toJob(doc);
+  } catch (error: any) {
+    if (error instanceof JobQueueError) {
+      throw error;
+    }
+    throw new JobQueueError(`Failed to get job: ${error.message}`, 'GET_JOB_ERROR', error);
+  }
+}
+
+/**
+ * Claim the next runnable job by taking out a lease on it
+ * Returns null when the queue is empty
+ */
+export async function claimNextJob(
+  workerId: string,
+  leaseMs: number = DEFAULT_LEASE_MS
+): Promise<JobWithId | null> {
+  try {
+    const db = getFirestore();
+    const now = admin.firestore.Timestamp.now();
+
+    const snapshot = await jobsCollection()
+      .where('status', '==', 'queued')
+      .where('run_after', '<=', now)
+      .orderBy('run_after', 'asc')
+      .limit(CLAIM_BATCH_SIZE)
+      .get();
+
+    for (const candidate of snapshot.docs) {
+      // Another worker may claim the same candidate, so re-check inside a transaction
+      const claimed = await db.runTransaction(async (transaction) => {
+        const doc = await transaction.get(candidate.ref);
+        const job = toJob(doc);
+        if (!job || job.status !== 'queued') {
+          return null;
+        }
+
+        const claimedAt = admin.firestore.Timestamp.now();
+        const updates = {
+          status: 'running',
+          attempts: (job.attempts ?? 0) + 1,
+          lease_owner: workerId,
+          lease_expires_at: admin.firestore.Timestamp.fromMillis(claimedAt.toMillis() + leaseMs),
+          heartbeat_at: claimedAt,
+          updated_at: claimedAt,
+        };
+        transaction.update(candidate.ref, updates);
+        return { ...job, ...updates } as JobWithId;
+      });
+
+      if (claimed) {
+        console.log(`[Jobs] Worker ${workerId} claimed job ${claimed.id} (attempt ${claimed.attempts}/${claimed.max_attempts})`);
+        return claimed;
+      }
+    }
+
+    return null;
+  } catch (error: any) {
+    throw new JobQueueError(`Failed to claim job: ${error.message}`, 'CLAIM_ERROR', error);
+  }
+}
+
+/**
+ * Extend the lease on a running job
+ * Returns false if the worker no longer owns the lease
+ */
+export async function heartbeatJob(
+  jobId: string,
+  workerId: string,
+  leaseMs: number = DEFAULT_LEASE_MS
+): Promise<boolean> {
+  try {
+    validateJobId(jobId);
+    const db = getFirestore();
+    const jobRef = jobsCollection().doc(jobId);
+
+    return await db.runTransaction(async (transaction) => {
+      const job = toJob(await transaction.get(jobRef));
+      if (!job || job.status !== 'running' || job.lease_owner !== workerId) {
+        return false;
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      transaction.update(jobRef, {
+        lease_expires_at: admin.firestore.Timestamp.fromMillis(now.toMillis() + leaseMs),
+        heartbeat_at: now,
+        updated_at: now,
+      });
+      return true;
+    });
+  } catch (error: any) {
+    if (error instanceof JobQueueError) {
+      throw error;
+    }
+    throw new JobQueueError(`Failed to heartbeat job: ${error.message}`, 'HEARTBEAT_ERROR', error);
+  }
+}
+
+/**
+ * Mark a job as completed and release its lease
+ */
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  await finishJob(jobId, workerId, { status: 'completed' });
+}
+
+/**
+ * Mark a job as failed and release its lease
+ * When `retry` is set and attempts remain, the job is re-queued with backoff instead
+ */
+export async function failJob(
+  jobId: string,
+  workerId: string,
+  errorMessage: string,
+  options?: { retry?: boolean }
+): Promise<'queued' | 'failed'> {
+  const status = await finishJob(jobId, workerId, { status: 'failed', errorMessage, retry: options?.retry });
+  return status === 'queued' ? 'queued' : 'failed';
+}
+
+async function finishJob(
+  jobId: string,
+  workerId: string,
+  outcome: { status: 'completed' | 'failed'; errorMessage?: string; retry?: boolean }
+): Promise<'queued' | 'completed' | 'failed'> {
+  try {
+    validateJobId(jobId);
+    const db = getFirestore();
+    const jobRef = jobsCollection().doc(jobId);
+
+    return await db.runTransaction(async (transaction) => {
+      const job = toJob(await transaction.get(jobRef));
+      if (!job) {
+        throw new JobQueueError(`Job not found: ${jobId}`, 'JOB_NOT_FOUND');
+      }
+      if (job.lease_owner !== workerId) {
+        console.warn(`[Jobs] Worker ${workerId} finished job ${jobId} without holding its lease (owner: ${job.lease_owner})`);
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const updates: any = {
+        lease_owner: admin.firestore.FieldValue.delete(),
+        lease_expires_at: admin.firestore.FieldValue.delete(),
+        updated_at: now,
+      };
+
+      if (outcome.errorMessage !== undefined) {
+        updates.last_error = outcome.errorMessage;
+      }
+
+      let status: 'queued' | 'completed' | 'failed' = outcome.status;
+      if (outcome.status === 'failed' && outcome.retry && job.attempts < job.max_attempts) {
+        status = 'queued';
+        updates.run_after = admin.firestore.Timestamp.fromMillis(
+          now.toMillis() + RETRY_BACKOFF_MS * Math.pow(2, Math.max(0, job.attempts - 1))
+        );
+      } else {
+        updates.completed_at = now;
+      }
+
+      updates.status = status;
+      transaction.update(jobRef, updates);
+      return status;
+    });
+  } catch (error: any) {
+    if (error instanceof JobQueueError) {
+      throw error;
+    }
+    throw new JobQueueError(`Failed to finish job: ${error.message}`, 'FINISH_JOB_ERROR', error);
+  }
+}
+
+/**
+ * Find running jobs whose lease has expired (their worker died or timed out)
+ * Jobs with attempts left are re-queued so the workflow can resume; the rest are failed.
+ */
+export async function recoverExpiredLeases(): Promise<{
+  requeued: JobWithId[];
+  exhausted: JobWithId[];
+}> {
+  try {
+    const db = getFirestore();
+    const now = admin.firestore.Timestamp.now();
+
+    const snapshot = await jobsCollection()
+      .where('status', '==', 'running')
+      .where('lease_expires_at', '<', now)
+      .limit(50)
+      .get();
+
+    const requeued: JobWithId[] = [];
+    const exhausted: JobWithId[] = [];
+
+    for (const candidate of snapshot.docs) {
+      const recovered = await db.runTransaction(async (transaction) => {
+        const job = toJob(await transaction.get(candidate.ref));
+        if (!job || job.status !== 'running' || !job.lease_expires_at) {
+          return null;
+        }
+
+        const recoveredAt = admin.firestore.Timestamp.now();
+        if (job.lease_expires_at.toMillis() >= recoveredAt.toMillis()) {
+          return null; // Lease was renewed in the meantime
+        }
+
+        const canRetry = job.attempts < job.max_attempts;
+        const updates: any = {
+          status: canRetry ? 'queued' : 'failed',
+          last_error: `Lease held by ${job.lease_owner || 'unknown worker'} expired`,
+          lease_owner: admin.firestore.FieldValue.delete(),
+          lease_expires_at: admin.firestore.FieldValue.delete(),
+          updated_at: recoveredAt,
+        };
+        if (canRetry) {
+          updates.run_after = recoveredAt;
+        } else {
+          updates.completed_at = recoveredAt;
+        }
+
+        transaction.update(candidate.ref, updates);
+        return { job: { ...job, status: updates.status } as JobWithId, canRetry };
+      });
+
+      if (recovered) {
+        (recovered.canRetry ? requeued : exhausted).push(recovered.job);
+      }
+    }
+
+    if (requeued.length > 0 || exhausted.length > 0) {
+      console.log(`[Jobs] Recovered expired leases: ${requeued.length} re-queued, ${exhausted.length} exhausted`);
+    }
+
+    return { requeued, exhausted };
+  } catch (error: any) {
+    throw new JobQueueError(`Failed to recover expired leases: ${error.message}`, 'RECOVER_ERROR', error);
+  }
+}
@@ -0,0 +1,276 @@
+import admin from './firebase-admin';
+import type { LedgerEntryType } from '@/types/firestore';
+
+/**
+ * Double-entry credit ledger
+ *
+ * The ledger is the source of truth for credit balances. Entries are only ever
+ * created (never updated or deleted), inside the same Firestore transaction that
+ * updates the cached users.credits counter. Reconciliation recomputes each
+ * balance from the ledger and reports (and optionally repairs) drift.
+ *
+ * Accounts created before the ledger only have entries for their later activity
+ * until reconciliation posts an opening balance for them. Until then their ledger
+ * is partial and never overrides users.credits.
+ */
+
+const LEDGER_COLLECTION = 'ledger_entries';
+
+/**
+ * Custom error classes
+ */
+export class LedgerError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'LedgerError';
+  }
+}
+
+export interface LedgerJournalInput {
+  userId: string;
+  amount: number;                 // Signed change to the user's balance
+  type: LedgerEntryType;
+  journalId?: string;             // Deterministic ID makes the posting idempotent
+  transactionId?: string;
+  generationId?: string;
+  orderId?: string;
+  memo?: string;
+}
+
+export interface UserReconciliation {
+  user_id: string;
+  counter_balance: number;        // users.credits
+  ledger_balance: number;         // Sum of the user's ledger entries
+  drift: number;                  // counter_balance - ledger_balance
+  counter_reserved: number;       // users.reserved_credits
+  held: number;                   // Sum of pending credit holds
+  reserved_drift: number;         // counter_reserved - held
+  has_ledger: boolean;            // False while a pre-ledger account has no opening balance
+  repaired: boolean;
+}
+
+export function getUserAccount(userId: string): string {
+  return `user:${userId}`;
+}
+
+function getSystemAccount(type: LedgerEntryType): string {
+  return `system:${type}`;
+}
+
+/**
+ * Post a balance change as a two-entry journal within a Firestore transaction
+ * Uses create(), so re-posting a journal ID fails the transaction instead of
+ * overwriting an entry. Returns the journal ID.
+ */
+export function postLedgerJournal(
+  transaction: FirebaseFirestore.Transaction,
+  input: LedgerJournalInput
+): string {
+  if (!Number.isFinite(input.amount) || input.amount === 0) {
+    throw new LedgerError(`Invalid ledger amount: ${input.amount}`, 'INVALID_AMOUNT');
+  }
+
+  const collection = admin.firestore().collection(LEDGER_COLLECTION);
+  const journalId = input.journalId || collection.doc().id;
+  const now = admin.firestore.Timestamp.now();
+  const base = {
+    journal_id: journalId,
+    user_id: input.userId,
+    type: input.type,
+    ...(input.transactionId ? { transaction_id: input.transactionId } : {}),
+    ...(input.generationId ? { generation_id: input.generationId } : {}),
+    ...(input.orderId ? { order_id: input.orderId } : {}),
+    ...(input.memo ? { memo: input.memo } : {}),
+    created_at: now,
+  };
+
+  const userEntry = {
+    ...base,
+    account: getUserAccount(input.userId),
+    amount: input.amount,
+  };
+  const systemEntry = {
+    ...base,
+    account: getSystemAccount(input.type),
+    amount: -input.amount,
+  };
+
+  transaction.create(collection.doc(`${journalId}_user`), userEntry);
+  transaction.create(collection.doc(`${journalId}_system`), systemEntry);
+  return journalId;
+}
+
+// Journals that start an account's ledger: the starter grant of accounts created
+// with the ledger, or the opening balance posted for older ones
+function getOpeningEntryRefs(userId: string) {
+  const collection = admin.firestore().collection(LEDGER_COLLECTION);
+  return [collection.doc(`starter_${userId}_user`), collection.doc(`opening_${userId}_user`)];
+}
+
+function getUserEntriesQuery(userId: string) {
+  return admin.firestore().collection(LEDGER_COLLECTION).where('account', '==', getUserAccount(userId));
+}
+
+function getPendingHoldsQuery(userId: string) {
+  return admin
+    .firestore()
+    .collection('transactions')
+    .where('user_id', '==', userId)
+    .where('status', '==', 'pending');
+}
+
+/**
+ * Read a user's ledger balance and held credits
+ * Pass a transaction to read them consistently with a repair.
+ */
+async function readLedgerState(
+  userId: string,
+  transaction?: FirebaseFirestore.Transaction
+): Promise<{ balance: number; held: number }> {
+  const aggregate = getUserEntriesQuery(userId).aggregate({
+    balance: admin.firestore.AggregateField.sum('amount'),
+  });
+  const holdsQuery = getPendingHoldsQuery(userId);
+
+  const [aggregateSnapshot, holdsSnapshot] = transaction
+    ? await Promise.all([transaction.get(aggregate), transaction.get(holdsQuery)])
+    : await Promise.all([aggregate.get(), holdsQuery.get()]);
+
+  const { balance } = aggregateSnapshot.data();
+  const held = holdsSnapshot.docs
+    .map((doc) => doc.data())
+    .filter((data) => data.type === 'usage')
+    .reduce((sum, data) => sum + -data.amount, 0);
+
+  return { balance: balance || 0, held };
+}
+
+/**
+ * Get a user's credit balance as recorded by the ledger
+ */
+export async function getLedgerBalance(userId: string): Promise<number> {
+  const { balance } = await readLedgerState(userId);
+  return balance;
+}
+
+/**
+ * Compare a user's cached balance and reservations with the ledger
+ *
+ * With `repair`, mismatches are fixed in a transaction:
+ * - accounts created before the ledger get an opening 'adjustment' journal for
+ *   their balance before their first entry (users.credits minus the ledger sum)
+ * - otherwise users.credits is reset to the ledger balance
+ * - users.reserved_credits is reset to the sum of pending holds
+ */
+export async function reconcileUserCredits(
+  userId: string,
+  options: { repair?: boolean } = {}
+): Promise<UserReconciliation> {
+  try {
+    const db = admin.firestore();
+    const userRef = db.collection('users').doc(userId);
+
+    const check = async (transaction?: FirebaseFirestore.Transaction) => {
+      const openingRefs = getOpeningEntryRefs(userId);
+      const [userDoc, ledger, ...openingDocs] = await Promise.all([
+        transaction ? transaction.get(userRef) : userRef.get(),
+        readLedgerState(userId, transaction),
+        ...openingRefs.map((ref) => (transaction ? transaction.get(ref) : ref.get())),
+      ]);
+      const data = userDoc.data();
+      const counterBalance = typeof data?.credits === 'number' ? data.credits : 0;
+      const counterReserved = typeof data?.reserved_credits === 'number' ? data.reserved_credits : 0;
+
+      const result: UserReconciliation = {
+        user_id: userId,
+        counter_balance: counterBalance,
+        ledger_balance: ledger.balance,
+        drift: counterBalance - ledger.balance,
+        counter_reserved: counterReserved,
+        held: ledger.held,
+        reserved_drift: counterReserved - ledger.held,
+        has_ledger: !!data?.ledger_opened_at || openingDocs.some((doc) => doc.exists),
+        repaired: false,
+      };
+      return { userDoc, result };
+    };
+
+    if (!options.repair) {
+      return (await check()).result;
+    }
+
+    return await db.runTransaction(async (transaction) => {
+      const { userDoc, result } = await check(transaction);
+      if (!userDoc.exists || (result.has_ledger && result.drift === 0 && result.reserved_drift === 0)) {
+        return result;
+      }
+
+      const now = admin.firestore.Timestamp.now();
+      const updates: Record<string, any> = {};
+      if (!result.has_ledger) {
+        // The ledger only covers activity since the account's first entry
+        if (result.drift !== 0) {
+          postLedgerJournal(transaction, {
+            userId,
+            amount: result.drift,
+            type: 'adjustment',
+            journalId: `opening_${userId}`,
+            memo: 'Opening balance',
+          });
+        }
+        updates.ledger_opened_at = now;
+      } else if (result.drift !== 0) {
+        updates.credits = result.ledger_balance;
+      }
+      if (result.reserved_drift !== 0) {
+        updates.reserved_credits = result.held;
+      }
+      if (Object.keys(updates).length > 0) {
+        transaction.update(userRef, { ...updates, updated_at: now });
+      }
+
+      console.log(`[Ledger] Repaired user ${userId}: drift ${result.drift}, reserved drift ${result.reserved_drift}`);
+      return { ...result, repaired: true };
+    });
+  } catch (error: any) {
+    if (error instanceof LedgerError) {
+      throw error;
+    }
+    throw new LedgerError(`Failed to reconcile credits for user ${userId}: ${error.message}`, 'RECONCILE_ERROR', error);
+  }
+}
+
+/**
+ * Reconcile a page of users (ordered by ID)
+ * Returns only the mismatched users, plus a cursor for the next page.
+ */
+export async function reconcileAllUserCredits(
+  options: { repair?: boolean; limit?: number; startAfter?: string } = {}
+): Promise<{ checked: number; mismatched: UserReconciliation[]; nextCursor?: string }> {
+  const limit = Math.min(Math.max(options.limit || 100, 1), 500);
+
+  let query = admin
+    .firestore()
+    .collection('users')
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(limit);
+  if (options.startAfter) {
+    query = query.startAfter(options.startAfter);
+  }
+
+  const snapshot = await query.get();
+  const mismatched: UserReconciliation[] = [];
+
+  for (const doc of snapshot.docs) {
+    const result = await reconcileUserCredits(doc.id, { repair: options.repair });
+    if (result.drift !== 0 || result.reserved_drift !== 0) {
+      mismatched.push(result);
+    }
+  }
+
+  return {
+    checked: snapshot.size,
+    mismatched,
+    nextCursor: snapshot.size === limit ? snapshot.docs[snapshot.size - 1].id : undefined,
+  };
+}
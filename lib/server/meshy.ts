@@ -1,8 +1,9 @@
-import axios from 'axios';
+import { after } from 'next/server';
 import { updateGeneration } from './firestore';
+import { settleGenerationCredits } from './billing';
 import admin from './firebase-admin';
-
-const MESHY_API_BASE = 'https://api.meshy.ai/openapi/v1';
+import { MeshyProvider } from './providers/meshy';
+import { mirrorGenerationAssetsSafely } from './assets';
 
 export async function syncGenerationWithMeshy(generation: any): Promise<any> {
     const taskId = generation.output_data?.meshy_task_id;
@@ -20,22 +21,16 @@ export async function syncGenerationWithMeshy(generation: any): Promise<any> {
         return generation;
     }
 
-    const meshyKey = process.env.MESHY_API_KEY;
-    if (!meshyKey) {
+    if (!process.env.MESHY_API_KEY) {
         console.error('[MeshySync] MESHY_API_KEY is not set');
         return generation;
     }
 
     try {
         console.log(`[MeshySync] Syncing generation ${generation.id} with Meshy task ${taskId}...`);
-        const response = await axios.get(`${MESHY_API_BASE}/image-to-3d/${taskId}`, {
-            headers: {
-                Authorization: `Bearer ${meshyKey}`,
-            },
-            timeout: 10000,
-        });
-
-        const { status, progress, model_urls, task_error } = response.data;
+        const provider = new MeshyProvider();
+        const task = await provider.poll(taskId);
+        const { status, progress } = task;
         console.log(`[MeshySync] Meshy status: ${status}, progress: ${progress}%`);
 
         const updates: any = {
@@ -45,19 +40,23 @@ export async function syncGenerationWithMeshy(generation: any): Promise<any> {
         let finalStatus = generation.status;
         let finalProgress = progress || generation.progress_percentage;
 
-        if (status === 'SUCCEEDED') {
+        if (status === 'succeeded') {
             finalStatus = 'completed';
             finalProgress = 100;
             updates.status = 'completed';
             updates.progress_percentage = 100;
+            const outputs = provider.parseOutputs(task);
             updates.output_data = {
                 ...(generation.output_data || {}),
-                model_url: model_urls?.glb,
+                model_url: outputs.model_urls.glb,
+                model_urls: outputs.model_urls,
+                thumbnail_url: outputs.thumbnail_url,
+                texture_urls: outputs.texture_urls,
             };
-        } else if (status === 'FAILED' || status === 'CANCELED') {
+        } else if (status === 'failed' || status === 'cancelled') {
             finalStatus = 'failed';
             updates.status = 'failed';
-            updates.error_message = task_error?.message || task_error || `Meshy task ${status.toLowerCase()}`;
+            updates.error_message = task.error || `Meshy task ${status}`;
         } else {
             // Still generating
             finalStatus = 'generating';
@@ -72,6 +71,10 @@ export async function syncGenerationWithMeshy(generation: any): Promise<any> {
         // Update Firestore
         await updateGeneration(generation.id, updates);
         console.log(`[MeshySync] Updated generation ${generation.id} in Firestore`);
+        await settleGenerationCredits(generation.id, updates.status);
+        if (updates.status === 'completed') {
+            after(() => mirrorGenerationAssetsSafely(generation.id));
+        }
 
         // Return updated generation object
         return {
@@ -87,30 +90,14 @@ export async function syncGenerationWithMeshy(generation: any): Promise<any> {
 }
 
 export async function generateImageTo3D(imageUrl: string): Promise<string> {
-    const meshyKey = process.env.MESHY_API_KEY;
-    if (!meshyKey) {
-        throw new Error('MESHY_API_KEY is not set');
-    }
-
     try {
         console.log(`[Meshy] Starting Image-to-3D for URL: ${imageUrl}`);
-        const response = await axios.post(
-            `${MESHY_API_BASE}/image-to-3d`,
-            {
-                image_url: imageUrl,
-                enable_pbr: true,
-            },
-            {
-                headers: {
-                    Authorization: `Bearer ${meshyKey}`,
-                    'Content-Type': 'application/json',
-                },
-            }
-        );
-
-        const { result } = response.data;
-        console.log(`[Meshy] Task started: ${result}`);
-        return result; // This is the task ID
+        const taskId = await new MeshyProvider().submit({
+            imageUrl,
+            options: { enable_pbr: true },
+        });
+        console.log(`[Meshy] Task started: ${taskId}`);
+        return taskId;
     } catch (error: any) {
         console.error('[Meshy] Error starting generation:', error.response?.data || error.message);
         throw new Error(`Failed to start Meshy generation: ${error.response?.data?.message || error.message}`);
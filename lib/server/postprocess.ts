@@ -0,0 +1,143 @@
+import { getBounds, type Document } from '@gltf-transform/core';
+import { center, dedup, draco, meshopt, prune, simplify, weld } from '@gltf-transform/functions';
+import { MeshoptEncoder, MeshoptSimplifier } from 'meshoptimizer';
+import { countTriangles, readGlb, writeGlb } from './gltf';
+import type { PostProcessingOptions } from '@/types/firestore';
+
+/**
+ * Mesh post-processing
+ *
+ * Provider models come at arbitrary scale and origin, and TRELLIS meshes are
+ * heavy. Steps run in a fixed order: decimate, scale to meters, recenter,
+ * compress.
+ */
+
+const SIMPLIFY_MAX_ERROR = 0.01; // Stop decimating before the shape drifts more than 1% of its size
+
+/**
+ * Custom error classes
+ */
+export class PostProcessingError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'PostProcessingError';
+  }
+}
+
+export interface PostProcessingStats {
+  triangles_before: number;
+  triangles_after: number;
+  size_bytes_before: number;
+  size_bytes_after: number;
+  dimensions_m: [number, number, number];
+}
+
+/**
+ * Whether any processing step is requested
+ */
+export function hasPostProcessing(options?: PostProcessingOptions): options is PostProcessingOptions {
+  return !!options && (
+    !!options.target_triangles ||
+    !!options.recenter ||
+    !!options.target_size_m ||
+    !!options.target_footprint_m ||
+    (!!options.compression && options.compression !== 'none')
+  );
+}
+
+function getDimensions(document: Document): [number, number, number] {
+  const scene = document.getRoot().getDefaultScene() || document.getRoot().listScenes()[0];
+  if (!scene) {
+    return [0, 0, 0];
+  }
+  const { min, max } = getBounds(scene);
+  const size = [max[0] - min[0], max[1] - min[1], max[2] - min[2]].map((value) => (Number.isFinite(value) ? value : 0));
+  return size as [number, number, number];
+}
+
+/**
+ * Uniformly scale every scene so its longest side is `targetSize` (glTF units are meters)
+ * With `horizontalOnly`, only the sides along the floor count (x and z; glTF is y-up).
+ */
+function scaleToSize(document: Document, targetSize: number, horizontalOnly: boolean = false): void {
+  const [x, y, z] = getDimensions(document);
+  const longest = horizontalOnly ? Math.max(x, z) : Math.max(x, y, z);
+  if (!(longest > 0)) {
+    throw new PostProcessingError('Model has no extent to scale', 'EMPTY_MODEL');
+  }
+  const factor = targetSize / longest;
+
+  // A uniform scale commutes with rotation, so scaling each root's translation and scale is enough
+  for (const scene of document.getRoot().listScenes()) {
+    for (const node of scene.listChildren()) {
+      const [tx, ty, tz] = node.getTranslation();
+      const [sx, sy, sz] = node.getScale();
+      node.setTranslation([tx * factor, ty * factor, tz * factor]);
+      node.setScale([sx * factor, sy * factor, sz * factor]);
+    }
+  }
+}
+
+/**
+ * Apply post-processing options to a GLB
+ */
+export async function postProcessGlb(
+  glb: Buffer,
+  options: PostProcessingOptions
+): Promise<{ buffer: Buffer; stats: PostProcessingStats }> {
+  const document = await readGlb(glb);
+  const trianglesBefore = countTriangles(document);
+  if (trianglesBefore === 0) {
+    throw new PostProcessingError('Model has no triangle meshes', 'EMPTY_MODEL');
+  }
+
+  try {
+    if (options.target_triangles && options.target_triangles < trianglesBefore) {
+      await MeshoptSimplifier.ready;
+      await document.transform(
+        weld(),
+        simplify({
+          simplifier: MeshoptSimplifier,
+          ratio: options.target_triangles / trianglesBefore,
+          error: SIMPLIFY_MAX_ERROR,
+        })
+      );
+    }
+
+    if (options.target_size_m) {
+      scaleToSize(document, options.target_size_m);
+    } else if (options.target_footprint_m) {
+      scaleToSize(document, options.target_footprint_m, true);
+    }
+
+    if (options.recenter) {
+      await document.transform(center({ pivot: 'below' }));
+    }
+
+    await document.transform(prune(), dedup());
+
+    if (options.compression === 'draco') {
+      await document.transform(draco({ method: 'edgebreaker' }));
+    } else if (options.compression === 'meshopt') {
+      await MeshoptEncoder.ready;
+      await document.transform(meshopt({ encoder: MeshoptEncoder, level: 'medium' }));
+    }
+  } catch (error: any) {
+    if (error instanceof PostProcessingError) {
+      throw error;
+    }
+    throw new PostProcessingError(`Post-processing failed: ${error.message}`, 'POST_PROCESSING_ERROR', error);
+  }
+
+  const buffer = await writeGlb(document);
+  return {
+    buffer,
+    stats: {
+      triangles_before: trianglesBefore,
+      triangles_after: countTriangles(document),
+      size_bytes_before: glb.length,
+      size_bytes_after: buffer.length,
+      dimensions_m: getDimensions(document),
+    },
+  };
+}
@@ -0,0 +1,212 @@
+import admin from './firebase-admin';
+import { getFirestore } from './firestore';
+import { withCache, getCacheKey, invalidateCache } from './cache';
+import type { CreditPackDocument, CreditPackOffer, CreditPackWithId } from '@/types/firestore';
+
+/**
+ * Credit pack pricing catalog
+ *
+ * Packs live in the `credit_packs` Firestore collection so they can be added,
+ * repriced or scheduled without a deploy. The built-in pack is used only while
+ * the collection is empty.
+ */
+
+const CREDIT_PACKS_COLLECTION = 'credit_packs';
+const CATALOG_CACHE_TTL_MS = 60000; // 1 minute
+
+export const DEFAULT_CURRENCY = 'INR';
+
+const DEFAULT_CREDIT_PACKS: CreditPackWithId[] = [
+  {
+    id: 'standard',
+    name: 'Credit Pack',
+    credits: 1250,
+    bonus_credits: 0,
+    prices: { INR: 400000 }, // ₹4000
+    active: true,
+    sort_order: 0,
+  },
+];
+
+/**
+ * Custom error classes
+ */
+export class PricingError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+/**
+ * Load the full catalog (active and inactive packs), cached briefly
+ */
+async function loadCatalog(): Promise<CreditPackWithId[]> {
+  return withCache(
+    getCacheKey('credit_packs'),
+    async () => {
+      const snapshot = await getFirestore().collection(CREDIT_PACKS_COLLECTION).get();
+      if (snapshot.empty) {
+        return DEFAULT_CREDIT_PACKS;
+      }
+      return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as CreditPackWithId);
+    },
+    CATALOG_CACHE_TTL_MS
+  );
+}
+
+/**
+ * Whether a pack can be bought at the given time
+ */
+export function isCreditPackActive(pack: CreditPackDocument, now: Date = new Date()): boolean {
+  if (!pack.active) {
+    return false;
+  }
+  if (pack.active_from && pack.active_from.toDate() > now) {
+    return false;
+  }
+  if (pack.active_until && pack.active_until.toDate() <= now) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Price a pack in one currency
+ * Returns null if the pack isn't sold in that currency.
+ */
+export function toCreditPackOffer(pack: CreditPackWithId, currency: string = DEFAULT_CURRENCY): CreditPackOffer | null {
+  const amount = pack.prices?.[currency];
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return null;
+  }
+
+  const bonusCredits = pack.bonus_credits || 0;
+  return {
+    id: pack.id,
+    name: pack.name,
+    description: pack.description,
+    credits: pack.credits,
+    bonus_credits: bonusCredits,
+    total_credits: pack.credits + bonusCredits,
+    amount,
+    currency,
+    active_until: pack.active_until?.toDate().toISOString(),
+  };
+}
+
+/**
+ * Get the packs currently for sale in a currency, in display order
+ */
+export async function getActiveCreditPackOffers(currency: string = DEFAULT_CURRENCY): Promise<CreditPackOffer[]> {
+  try {
+    const now = new Date();
+    const catalog = await loadCatalog();
+    return catalog
+      .filter((pack) => isCreditPackActive(pack, now))
+      .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0) || a.credits - b.credits)
+      .map((pack) => toCreditPackOffer(pack, currency))
+      .filter((offer): offer is CreditPackOffer => offer !== null);
+  } catch (error: any) {
+    throw new PricingError(`Failed to load credit packs: ${error.message}`, 'CATALOG_ERROR', error);
+  }
+}
+
+/**
+ * Resolve a pack ID and currency to a purchasable offer
+ * Throws PricingError if the pack doesn't exist, isn't active or isn't sold in that currency.
+ */
+export async function getCreditPackOffer(packId: string, currency: string = DEFAULT_CURRENCY): Promise<CreditPackOffer> {
+  if (!packId || typeof packId !== 'string') {
+    throw new PricingError('Invalid pack ID', 'INVALID_PACK');
+  }
+
+  let catalog: CreditPackWithId[];
+  try {
+    catalog = await loadCatalog();
+  } catch (error: any) {
+    throw new PricingError(`Failed to load credit packs: ${error.message}`, 'CATALOG_ERROR', error);
+  }
+
+  const pack = catalog.find((candidate) => candidate.id === packId);
+  if (!pack) {
+    throw new PricingError(`Unknown credit pack: ${packId}`, 'INVALID_PACK');
+  }
+  if (!isCreditPackActive(pack)) {
+    throw new PricingError(`Credit pack is not available: ${packId}`, 'PACK_INACTIVE');
+  }
+
+  const offer = toCreditPackOffer(pack, currency);
+  if (!offer) {
+    throw new PricingError(`Credit pack ${packId} is not sold in ${currency}`, 'UNSUPPORTED_CURRENCY');
+  }
+  return offer;
+}
+
+/**
+ * Validate and create or replace a credit pack (Admin function)
+ */
+export async function upsertCreditPack(
+  packId: string,
+  pack: Omit<CreditPackDocument, 'created_at' | 'updated_at' | 'active_from' | 'active_until'> & {
+    active_from?: string | null;
+    active_until?: string | null;
+  }
+): Promise<void> {
+  if (!packId || !/^[a-z0-9_-]{1,64}$/i.test(packId)) {
+    throw new PricingError('Invalid pack ID: use 1-64 letters, digits, "-" or "_"', 'INVALID_PACK');
+  }
+  if (!pack.name || typeof pack.name !== 'string') {
+    throw new PricingError('Invalid pack name', 'INVALID_PACK');
+  }
+  if (!Number.isInteger(pack.credits) || pack.credits <= 0) {
+    throw new PricingError('Invalid credits: must be a positive integer', 'INVALID_PACK');
+  }
+  if (pack.bonus_credits !== undefined && (!Number.isInteger(pack.bonus_credits) || pack.bonus_credits < 0)) {
+    throw new PricingError('Invalid bonus_credits: must be a non-negative integer', 'INVALID_PACK');
+  }
+  const currencies = Object.entries(pack.prices || {});
+  if (currencies.length === 0) {
+    throw new PricingError('A pack needs at least one price', 'INVALID_PACK');
+  }
+  for (const [currency, amount] of currencies) {
+    if (!/^[A-Z]{3}$/.test(currency) || !Number.isInteger(amount) || amount <= 0) {
+      throw new PricingError(`Invalid price for ${currency}: must be a positive integer in the smallest unit`, 'INVALID_PACK');
+    }
+  }
+
+  const toTimestamp = (value: string | null | undefined, field: string) => {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new PricingError(`Invalid ${field}: must be an ISO date`, 'INVALID_PACK');
+    }
+    return admin.firestore.Timestamp.fromDate(date);
+  };
+
+  const now = admin.firestore.Timestamp.now();
+  const ref = getFirestore().collection(CREDIT_PACKS_COLLECTION).doc(packId);
+  const existing = await ref.get();
+
+  const data: Record<string, any> = {
+    name: pack.name,
+    description: pack.description,
+    credits: pack.credits,
+    bonus_credits: pack.bonus_credits || 0,
+    prices: pack.prices,
+    active: pack.active !== false,
+    active_from: toTimestamp(pack.active_from, 'active_from'),
+    active_until: toTimestamp(pack.active_until, 'active_until'),
+    sort_order: pack.sort_order ?? 0,
+    created_at: existing.data()?.created_at || now,
+    updated_at: now,
+  };
+  Object.keys(data).forEach((key) => data[key] === undefined && delete data[key]);
+
+  // Replace the whole document so removed prices and windows don't linger
+  await ref.set(data);
+
+  invalidateCache(getCacheKey('credit_packs'));
+}
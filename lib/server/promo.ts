@@ -0,0 +1,313 @@
+import admin from './firebase-admin';
+import { getFirestore } from './firestore';
+import { grantCreditsInTransaction, invalidateCreditsCache, BillingError } from './billing';
+import type { CreditPackOffer, PromoCodeDocument, PromoCodeType } from '@/types/firestore';
+
+/**
+ * Promo codes
+ *
+ * Order codes ('percentage', 'fixed', 'bonus_credits') are applied when a
+ * payment order is created and count as redeemed once the order is paid.
+ * 'free_credits' codes are redemption-only and grant credits directly.
+ */
+
+const PROMO_CODES_COLLECTION = 'promo_codes';
+const PROMO_REDEMPTIONS_COLLECTION = 'promo_redemptions';
+const MIN_ORDER_AMOUNT = 100; // Razorpay minimum, in the smallest currency unit
+
+const PROMO_CODE_TYPES: PromoCodeType[] = ['percentage', 'fixed', 'bonus_credits', 'free_credits'];
+
+/**
+ * Custom error classes
+ */
+export class PromoError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'PromoError';
+  }
+}
+
+/**
+ * Result of applying an order code to a credit pack offer
+ */
+export interface PromoQuote {
+  code: string;
+  type: PromoCodeType;
+  original_amount: number;
+  amount: number;                 // Price after the discount
+  discount_amount: number;
+  bonus_credits: number;          // Promo bonus on top of the pack's credits
+  credits: number;                // Total credits the order grants
+}
+
+/**
+ * Normalize user input to a promo code document ID
+ */
+export function normalizePromoCode(code: unknown): string {
+  if (typeof code !== 'string') {
+    throw new PromoError('Invalid promo code', 'INVALID_CODE');
+  }
+  const normalized = code.trim().toUpperCase();
+  if (!/^[A-Z0-9_-]{3,32}$/.test(normalized)) {
+    throw new PromoError('Invalid promo code', 'INVALID_CODE');
+  }
+  return normalized;
+}
+
+function countUserRedemptions(code: string, userId: string) {
+  return getFirestore()
+    .collection(PROMO_REDEMPTIONS_COLLECTION)
+    .where('code', '==', code)
+    .where('user_id', '==', userId)
+    .count();
+}
+
+/**
+ * Check a code's window and limits
+ * Throws PromoError if the code can't be redeemed by this user right now.
+ */
+function assertRedeemable(code: string, promo: PromoCodeDocument | undefined, userRedemptions: number): PromoCodeDocument {
+  if (!promo) {
+    throw new PromoError(`Unknown promo code: ${code}`, 'INVALID_CODE');
+  }
+
+  const now = new Date();
+  if (!promo.active || (promo.starts_at && promo.starts_at.toDate() > now)) {
+    throw new PromoError(`Promo code is not active: ${code}`, 'CODE_INACTIVE');
+  }
+  if (promo.expires_at && promo.expires_at.toDate() <= now) {
+    throw new PromoError(`Promo code has expired: ${code}`, 'CODE_EXPIRED');
+  }
+  if (promo.max_redemptions !== undefined && (promo.redemption_count || 0) >= promo.max_redemptions) {
+    throw new PromoError(`Promo code has reached its usage limit: ${code}`, 'CODE_EXHAUSTED');
+  }
+  if (promo.max_redemptions_per_user !== undefined && userRedemptions >= promo.max_redemptions_per_user) {
+    throw new PromoError(`You have already used promo code ${code}`, 'CODE_ALREADY_USED');
+  }
+  return promo;
+}
+
+/**
+ * Re-check an order's code within the transaction that fulfils the paid order
+ * Limits are only counted on payment, so a code that was valid when the order was
+ * priced may have run out since. Returns the PromoError code if it can no longer
+ * be redeemed, otherwise null.
+ */
+export async function checkOrderPromoCode(
+  transaction: FirebaseFirestore.Transaction,
+  code: string,
+  userId: string
+): Promise<string | null> {
+  const [promoDoc, userRedemptions] = await Promise.all([
+    transaction.get(getFirestore().collection(PROMO_CODES_COLLECTION).doc(code)),
+    transaction.get(countUserRedemptions(code, userId)),
+  ]);
+  try {
+    assertRedeemable(code, promoDoc.data() as PromoCodeDocument | undefined, userRedemptions.data().count);
+    return null;
+  } catch (error: any) {
+    if (error instanceof PromoError) {
+      return error.code || 'INVALID_CODE';
+    }
+    throw error;
+  }
+}
+
+/**
+ * Price a credit pack offer with an order code
+ * Nothing is recorded here; the redemption is counted when the order is paid.
+ */
+export async function applyPromoCode(
+  code: string,
+  userId: string,
+  offer: CreditPackOffer
+): Promise<PromoQuote> {
+  try {
+    const normalized = normalizePromoCode(code);
+    const [promoDoc, userRedemptions] = await Promise.all([
+      getFirestore().collection(PROMO_CODES_COLLECTION).doc(normalized).get(),
+      countUserRedemptions(normalized, userId).get(),
+    ]);
+    const promo = assertRedeemable(
+      normalized,
+      promoDoc.data() as PromoCodeDocument | undefined,
+      userRedemptions.data().count
+    );
+
+    if (promo.type === 'free_credits') {
+      throw new PromoError(`Promo code ${normalized} must be redeemed, not applied to a purchase`, 'REDEEM_ONLY');
+    }
+    if (promo.pack_ids?.length && !promo.pack_ids.includes(offer.id)) {
+      throw new PromoError(`Promo code ${normalized} does not apply to this credit pack`, 'PACK_NOT_ELIGIBLE');
+    }
+
+    let discountAmount = 0;
+    let bonusCredits = 0;
+    if (promo.type === 'percentage') {
+      discountAmount = Math.floor((offer.amount * promo.value) / 100);
+    } else if (promo.type === 'fixed') {
+      if (promo.currency !== offer.currency) {
+        throw new PromoError(`Promo code ${normalized} is not valid for ${offer.currency} payments`, 'CURRENCY_NOT_ELIGIBLE');
+      }
+      discountAmount = Math.min(promo.value, offer.amount);
+    } else {
+      bonusCredits = promo.value;
+    }
+
+    const amount = offer.amount - discountAmount;
+    if (amount < MIN_ORDER_AMOUNT) {
+      throw new PromoError(`Promo code ${normalized} discounts this pack below the minimum order amount`, 'DISCOUNT_TOO_LARGE');
+    }
+
+    return {
+      code: normalized,
+      type: promo.type,
+      original_amount: offer.amount,
+      amount,
+      discount_amount: discountAmount,
+      bonus_credits: bonusCredits,
+      credits: offer.total_credits + bonusCredits,
+    };
+  } catch (error: any) {
+    if (error instanceof PromoError) {
+      throw error;
+    }
+    throw new PromoError(`Failed to apply promo code: ${error.message}`, 'APPLY_PROMO_ERROR', error);
+  }
+}
+
+/**
+ * Redeem a 'free_credits' code for the user
+ *
+ * The redemption and the credit grant are written in one transaction. The
+ * redemption ID is per user and per use, so concurrent redemptions of the same
+ * code conflict, and the grant's ledger journal is keyed on it, so a redemption
+ * can never be credited twice or counted without its credits.
+ */
+export async function redeemPromoCode(
+  userId: string,
+  code: string
+): Promise<{ code: string; credits: number; balance: number }> {
+  try {
+    const normalized = normalizePromoCode(code);
+    const db = getFirestore();
+    const promoRef = db.collection(PROMO_CODES_COLLECTION).doc(normalized);
+
+    const { credits, balance } = await db.runTransaction(async (transaction) => {
+      const [promoDoc, userRedemptions] = await Promise.all([
+        transaction.get(promoRef),
+        transaction.get(countUserRedemptions(normalized, userId)),
+      ]);
+      const used = userRedemptions.data().count;
+      const promo = assertRedeemable(normalized, promoDoc.data() as PromoCodeDocument | undefined, used);
+
+      if (promo.type !== 'free_credits') {
+        throw new PromoError(`Promo code ${normalized} can only be applied to a purchase`, 'PURCHASE_ONLY');
+      }
+
+      const redemptionRef = db.collection(PROMO_REDEMPTIONS_COLLECTION).doc(`${normalized}_${userId}_${used + 1}`);
+      const newBalance = await grantCreditsInTransaction(transaction, userId, promo.value, {
+        journalId: `promo_${redemptionRef.id}`,
+        type: 'promo',
+        promoCode: normalized,
+      });
+
+      const now = admin.firestore.Timestamp.now();
+      transaction.create(redemptionRef, {
+        code: normalized,
+        user_id: userId,
+        type: promo.type,
+        credits: promo.value,
+        created_at: now,
+      });
+      transaction.update(promoRef, {
+        redemption_count: admin.firestore.FieldValue.increment(1),
+        updated_at: now,
+      });
+
+      return { credits: promo.value, balance: newBalance };
+    });
+
+    invalidateCreditsCache(userId);
+    console.log(`[Promo] User ${userId} redeemed ${normalized} for ${credits} credits`);
+    return { code: normalized, credits, balance };
+  } catch (error: any) {
+    if (error instanceof PromoError || error instanceof BillingError) {
+      throw error;
+    }
+    throw new PromoError(`Failed to redeem promo code: ${error.message}`, 'REDEEM_PROMO_ERROR', error);
+  }
+}
+
+/**
+ * Validate and create or replace a promo code (Admin function)
+ * The redemption count is preserved across updates.
+ */
+export async function upsertPromoCode(
+  code: string,
+  promo: Omit<PromoCodeDocument, 'redemption_count' | 'created_at' | 'updated_at' | 'starts_at' | 'expires_at'> & {
+    starts_at?: string | null;
+    expires_at?: string | null;
+  }
+): Promise<string> {
+  const normalized = normalizePromoCode(code);
+
+  if (!PROMO_CODE_TYPES.includes(promo.type)) {
+    throw new PromoError(`Invalid type: must be one of ${PROMO_CODE_TYPES.join(', ')}`, 'INVALID_PROMO');
+  }
+  if (!Number.isInteger(promo.value) || promo.value <= 0) {
+    throw new PromoError('Invalid value: must be a positive integer', 'INVALID_PROMO');
+  }
+  if (promo.type === 'percentage' && promo.value > 100) {
+    throw new PromoError('Invalid value: a percentage must be at most 100', 'INVALID_PROMO');
+  }
+  if (promo.type === 'fixed' && (!promo.currency || !/^[A-Z]{3}$/.test(promo.currency))) {
+    throw new PromoError('Invalid currency: fixed discounts need a currency code', 'INVALID_PROMO');
+  }
+  for (const [field, limit] of [
+    ['max_redemptions', promo.max_redemptions],
+    ['max_redemptions_per_user', promo.max_redemptions_per_user],
+  ] as const) {
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+      throw new PromoError(`Invalid ${field}: must be a positive integer`, 'INVALID_PROMO');
+    }
+  }
+  if (promo.pack_ids !== undefined && (!Array.isArray(promo.pack_ids) || promo.pack_ids.some((id) => typeof id !== 'string'))) {
+    throw new PromoError('Invalid pack_ids: must be an array of pack IDs', 'INVALID_PROMO');
+  }
+
+  const toTimestamp = (value: string | null | undefined, field: string) => {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new PromoError(`Invalid ${field}: must be an ISO date`, 'INVALID_PROMO');
+    }
+    return admin.firestore.Timestamp.fromDate(date);
+  };
+
+  const now = admin.firestore.Timestamp.now();
+  const ref = getFirestore().collection(PROMO_CODES_COLLECTION).doc(normalized);
+  const existing = (await ref.get()).data();
+
+  const data: Record<string, any> = {
+    type: promo.type,
+    value: promo.value,
+    currency: promo.type === 'fixed' ? promo.currency : undefined,
+    description: promo.description,
+    pack_ids: promo.pack_ids?.length ? promo.pack_ids : undefined,
+    max_redemptions: promo.max_redemptions,
+    max_redemptions_per_user: promo.max_redemptions_per_user,
+    redemption_count: existing?.redemption_count || 0,
+    active: promo.active !== false,
+    starts_at: toTimestamp(promo.starts_at, 'starts_at'),
+    expires_at: toTimestamp(promo.expires_at, 'expires_at'),
+    created_at: existing?.created_at || now,
+    updated_at: now,
+  };
+  Object.keys(data).forEach((key) => data[key] === undefined && delete data[key]);
+
+  await ref.set(data);
+  return normalized;
+}
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import {
+  ProviderError,
+  type ModelProvider,
+  type ModelProviderInput,
+  type ModelProviderOutput,
+  type ProviderTask,
+} from './types';
+
+const DEFAULT_DURATION_MS = 6000;
+const FAKE_MODEL_PATH = '/fake-provider/model.glb';
+
+// Tasks cancelled in this process (fake tasks have no server-side state)
+const cancelledTasks = new Set<string>();
+
+/**
+ * Deterministic local provider for development and tests
+ *
+ * No network calls: the task ID encodes the submit time, so any process can poll it.
+ * Tasks run for FAKE_PROVIDER_DURATION_MS and then return the bundled sample GLB.
+ * Images whose URL contains "fake-fail" (or `options.fake_outcome: 'fail'`) fail instead.
+ */
+export class FakeProvider implements ModelProvider {
+  readonly name = 'fake' as const;
+
+  private getDurationMs(): number {
+    const duration = parseInt(process.env.FAKE_PROVIDER_DURATION_MS || '', 10);
+    return Number.isFinite(duration) && duration >= 0 ? duration : DEFAULT_DURATION_MS;
+  }
+
+  async submit(input: ModelProviderInput): Promise<string> {
+    if (!input.imageUrl) {
+      throw new ProviderError('Image URL is required', 'INVALID_INPUT');
+    }
+
+    const shouldFail = input.options?.fake_outcome === 'fail' || input.imageUrl.includes('fake-fail');
+    const hash = crypto.createHash('sha256').update(input.imageUrl).digest('hex').slice(0, 12);
+    return `fake_${shouldFail ? 'f' : 's'}_${Date.now().toString(36)}_${hash}`;
+  }
+
+  async poll(taskId: string): Promise<ProviderTask> {
+    const [prefix, outcome, submittedAt] = taskId.split('_');
+    const submittedMs = parseInt(submittedAt, 36);
+    if (prefix !== 'fake' || !Number.isFinite(submittedMs)) {
+      throw new ProviderError(`Fake task ${taskId} not found`, 'TASK_NOT_FOUND');
+    }
+
+    if (cancelledTasks.has(taskId)) {
+      return { taskId, status: 'cancelled', progress: 0 };
+    }
+
+    const duration = this.getDurationMs();
+    const elapsed = Date.now() - submittedMs;
+    if (elapsed < duration) {
+      const progress = Math.floor((elapsed / Math.max(duration, 1)) * 100);
+      return { taskId, status: progress === 0 ? 'pending' : 'running', progress };
+    }
+
+    if (outcome === 'f') {
+      return { taskId, status: 'failed', progress: 100, error: 'Fake provider failure' };
+    }
+    return { taskId, status: 'succeeded', progress: 100 };
+  }
+
+  async cancel(taskId: string): Promise<void> {
+    cancelledTasks.add(taskId);
+  }
+
+  parseOutputs(task: ProviderTask): ModelProviderOutput {
+    if (task.status !== 'succeeded') {
+      throw new ProviderError(`Fake task ${task.taskId} has no outputs`, 'INVALID_OUTPUT');
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+    return {
+      model_urls: { glb: `${baseUrl}${FAKE_MODEL_PATH}` },
+    };
+  }
+}
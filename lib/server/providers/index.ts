@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import type { WorkflowType } from '@/types/firestore';
+import { TimeoutError } from '../timeout';
+import { MeshyProvider } from './meshy';
+import { TrellisProvider } from './trellis';
+import { FakeProvider } from './fake';
+import { ProviderError, type ModelProvider, type ModelProviderName, type ProviderTask } from './types';
+
+export * from './types';
+export { MeshyMultiImageProvider, MeshyRetextureProvider, MeshyTextTo3DProvider } from './meshy';
+
+const PROVIDER_NAMES: ModelProviderName[] = ['meshy', 'trellis', 'fake'];
+
+/**
+ * Provider config per workflow: env var and default
+ * The value is a provider name, or weighted names for an A/B split, e.g. "meshy:90,trellis:10"
+ */
+const WORKFLOW_PROVIDER_CONFIG: Record<WorkflowType, { envVar: string; defaultProvider: ModelProviderName }> = {
+  'text-to-3d': { envVar: 'TEXT_TO_3D_PROVIDER', defaultProvider: 'meshy' },
+  'floorplan-3d': { envVar: 'FLOORPLAN_3D_PROVIDER', defaultProvider: 'trellis' },
+};
+
+const DEFAULT_TASK_TIMEOUT_MS = 600000; // 10 minutes
+const TASK_INIT_GRACE_MS = 30000; // Tasks can 404 briefly right after submission
+
+export function isModelProviderName(name: unknown): name is ModelProviderName {
+  return typeof name === 'string' && (PROVIDER_NAMES as string[]).includes(name);
+}
+
+/**
+ * Create a provider by name
+ */
+export function createModelProvider(name: ModelProviderName): ModelProvider {
+  switch (name) {
+    case 'meshy':
+      return new MeshyProvider();
+    case 'trellis':
+      return new TrellisProvider();
+    case 'fake':
+      return new FakeProvider();
+    default:
+      throw new ProviderError(`Unknown model provider: ${name}`, 'UNKNOWN_PROVIDER');
+  }
+}
+
+/**
+ * Parse a provider config value into weighted entries
+ */
+function parseProviderConfig(value: string): Array<{ name: ModelProviderName; weight: number }> {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, weight] = entry.split(':').map((part) => part.trim());
+      if (!isModelProviderName(name)) {
+        throw new ProviderError(`Unknown model provider in config: ${name}`, 'UNKNOWN_PROVIDER');
+      }
+      const parsedWeight = weight === undefined ? 1 : Number(weight);
+      if (!Number.isFinite(parsedWeight) || parsedWeight < 0) {
+        throw new ProviderError(`Invalid weight for provider ${name}: ${weight}`, 'INVALID_PROVIDER_CONFIG');
+      }
+      return { name, weight: parsedWeight };
+    });
+}
+
+/**
+ * Get the configured provider for a workflow
+ * With an A/B split, the choice is derived from the generation ID so retries
+ * and resumed runs of the same generation always get the same provider.
+ */
+export function getModelProvider(workflowType: WorkflowType, generationId: string): ModelProvider {
+  const config = WORKFLOW_PROVIDER_CONFIG[workflowType];
+  if (!config) {
+    throw new ProviderError(`No provider configured for workflow type: ${workflowType}`, 'UNKNOWN_WORKFLOW');
+  }
+
+  const entries = parseProviderConfig(process.env[config.envVar] || config.defaultProvider);
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  if (entries.length === 0 || totalWeight <= 0) {
+    return createModelProvider(config.defaultProvider);
+  }
+
+  const bucket = crypto.createHash('sha256').update(generationId).digest().readUInt32BE(0) / 0x100000000;
+  let threshold = 0;
+  for (const entry of entries) {
+    threshold += entry.weight / totalWeight;
+    if (bucket < threshold) {
+      return createModelProvider(entry.name);
+    }
+  }
+  return createModelProvider(entries[entries.length - 1].name);
+}
+
+/**
+ * Poll interval by elapsed time: 5s for the first 30s, 10s until 6 minutes, then 20s
+ */
+function getPollingInterval(elapsedMs: number): number {
+  if (elapsedMs < 30000) return 5000;
+  if (elapsedMs < 360000) return 10000;
+  return 20000;
+}
+
+/**
+ * Poll a provider task until it finishes
+ * Transient errors (network, 5xx, not-found right after submission) are retried;
+ * returns the succeeded task or throws if it failed, was cancelled or timed out.
+ */
+export async function waitForProviderTask(
+  provider: ModelProvider,
+  taskId: string,
+  options: {
+    timeoutMs?: number;
+    onProgress?: (task: ProviderTask) => Promise<void> | void;
+  } = {}
+): Promise<ProviderTask> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS;
+  const startTime = Date.now();
+  let attempt = 0;
+
+  while (true) {
+    const elapsedTime = Date.now() - startTime;
+    if (elapsedTime >= timeoutMs) {
+      throw new TimeoutError(
+        `Generation timeout: Maximum time (${Math.round(timeoutMs / 60000)} minutes) exceeded. Task ID: ${taskId}. You may retry or contact support.`
+      );
+    }
+
+    // Wait before polling (except first attempt)
+    if (attempt > 0) {
+      await new Promise((resolve) => setTimeout(resolve, getPollingInterval(elapsedTime)));
+    }
+    attempt++;
+
+    let task: ProviderTask;
+    try {
+      task = await provider.poll(taskId);
+    } catch (error: any) {
+      if (error instanceof ProviderError) {
+        if (error.code === 'TASK_NOT_FOUND' && Date.now() - startTime < TASK_INIT_GRACE_MS) {
+          continue; // Task is still initializing
+        }
+        throw error;
+      }
+
+      // Network errors and vendor server errors are transient
+      if (!error.response || error.code === 'ECONNABORTED' || error.response.status >= 500) {
+        console.warn(`[Providers] Transient error polling ${provider.name} task ${taskId}, will retry:`, error.message);
+        continue;
+      }
+      throw error;
+    }
+
+    if (attempt % 6 === 0) {
+      console.log(`[Providers] [${Math.floor(elapsedTime / 1000)}s] ${provider.name} task ${taskId}: ${task.status} (${task.progress}%)`);
+    }
+
+    if (options.onProgress) {
+      await options.onProgress(task);
+    }
+
+    if (task.status === 'succeeded') {
+      return task;
+    }
+    if (task.status === 'failed' || task.status === 'cancelled') {
+      const verb = task.status === 'failed' ? 'failed' : 'canceled';
+      throw new ProviderError(`${provider.name} task ${verb}: ${task.error || 'Unknown error'}`, `TASK_${task.status.toUpperCase()}`);
+    }
+  }
+}
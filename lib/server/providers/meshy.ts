@@ -0,0 +1,245 @@
+import axios from 'axios';
+import { retryWithBackoff } from '../retry';
+import { withTimeout } from '../timeout';
+import { getMeshyApiBase } from '../vendors';
+import {
+  ProviderError,
+  type ModelProvider,
+  type ModelProviderInput,
+  type ModelProviderOutput,
+  type ProviderTask,
+  type ProviderTaskStatus,
+} from './types';
+
+const MESHY_SUBMIT_TIMEOUT = 180000; // 3 minutes
+const MESHY_POLL_TIMEOUT = 30000;
+
+// Cost-optimized settings: Reduces Meshy API cost from 30 credits to 5 credits
+const DEFAULT_OPTIONS = {
+  ai_model: 'meshy-4', // Use Meshy-4 instead of latest (Meshy-6)
+  enable_pbr: false, // Disable PBR maps to reduce cost
+  should_remesh: true, // Keep remeshing for cleaner geometry
+  should_texture: false, // Disable textures: 5 credits (vs 30 with textures)
+  target_polycount: 10000, // Lower poly count for faster generation (vs default 30k)
+  topology: 'triangle', // Triangle mesh (default, faster than quad)
+};
+
+// Text-to-3d previews take the shape settings of the defaults; texturing is a separate refine task
+const TEXT_TO_3D_PREVIEW_OPTIONS = {
+  ai_model: DEFAULT_OPTIONS.ai_model,
+  should_remesh: DEFAULT_OPTIONS.should_remesh,
+  target_polycount: DEFAULT_OPTIONS.target_polycount,
+  topology: DEFAULT_OPTIONS.topology,
+};
+
+// According to Meshy API docs, status values are: PENDING, IN_PROGRESS, SUCCEEDED, FAILED, CANCELED
+const STATUS_MAP: Record<string, ProviderTaskStatus> = {
+  PENDING: 'pending',
+  IN_PROGRESS: 'running',
+  SUCCEEDED: 'succeeded',
+  FAILED: 'failed',
+  CANCELED: 'cancelled',
+};
+
+/**
+ * Meshy image-to-3D provider
+ */
+export class MeshyProvider implements ModelProvider {
+  readonly name = 'meshy' as const;
+
+  // Meshy task API the provider submits to and polls
+  protected readonly resource: string = 'image-to-3d';
+  protected readonly apiVersion: 'v1' | 'v2' = 'v1';
+
+  protected buildSubmitBody(input: ModelProviderInput): Record<string, any> {
+    return {
+      ...DEFAULT_OPTIONS,
+      ...input.options,
+      image_url: input.imageUrl,
+    };
+  }
+
+  private getApiKey(): string {
+    const key = process.env.MESHY_API_KEY;
+    if (!key) {
+      throw new ProviderError('MESHY_API_KEY environment variable is required', 'MISSING_API_KEY');
+    }
+    return key;
+  }
+
+  async submit(input: ModelProviderInput): Promise<string> {
+    const meshyKey = this.getApiKey();
+
+    return retryWithBackoff(
+      async () => {
+        console.log('[Meshy] Submitting image to Meshy API...');
+        const submitResponse = await withTimeout(
+          axios.post(
+            `${getMeshyApiBase(this.apiVersion)}/${this.resource}`,
+            this.buildSubmitBody(input),
+            {
+              headers: {
+                Authorization: `Bearer ${meshyKey}`,
+                'Content-Type': 'application/json',
+              },
+              timeout: MESHY_SUBMIT_TIMEOUT,
+              validateStatus: (status) => status >= 200 && status < 500,
+            }
+          ),
+          MESHY_SUBMIT_TIMEOUT + 5000,
+          'Meshy task submission timed out'
+        );
+
+        console.log('[Meshy] Meshy API response status:', submitResponse.status);
+
+        if (submitResponse.status === 401 || submitResponse.status === 403) {
+          throw new ProviderError('Meshy API authentication failed. Please check your API key.', 'AUTH_ERROR');
+        }
+
+        // Handle various Meshy API response formats for task ID
+        // { "result": "task-id" }, { "result": { "id": "task-id" } } or { "id": "task-id" }
+        let taskId: string | undefined;
+        if (typeof submitResponse.data?.result === 'string') {
+          taskId = submitResponse.data.result;
+        } else if (typeof submitResponse.data?.result?.id === 'string') {
+          taskId = submitResponse.data.result.id;
+        } else if (typeof submitResponse.data?.id === 'string') {
+          taskId = submitResponse.data.id;
+        }
+
+        if (!taskId || taskId.trim().length === 0) {
+          console.error('[Meshy] Failed to extract task ID. Full response:', JSON.stringify(submitResponse.data, null, 2));
+          throw new ProviderError(
+            `Failed to get task ID from Meshy API. Response: ${JSON.stringify(submitResponse.data)}`,
+            'SUBMIT_ERROR'
+          );
+        }
+
+        console.log('[Meshy] Successfully got Meshy task ID:', taskId);
+        return taskId;
+      },
+      {
+        maxRetries: 3,
+        initialDelay: 2000,
+        maxDelay: 10000,
+      }
+    );
+  }
+
+  async poll(taskId: string): Promise<ProviderTask> {
+    const response = await axios.get(`${getMeshyApiBase(this.apiVersion)}/${this.resource}/${taskId}`, {
+      headers: {
+        Authorization: `Bearer ${this.getApiKey()}`,
+      },
+      timeout: MESHY_POLL_TIMEOUT,
+      validateStatus: (status) => status >= 200 && status < 500,
+    });
+
+    if (response.status === 404) {
+      throw new ProviderError(`Meshy task ${taskId} not found`, 'TASK_NOT_FOUND');
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new ProviderError('Meshy API authentication failed. Please check your API key.', 'AUTH_ERROR');
+    }
+    if (response.status >= 400) {
+      throw new ProviderError(`Meshy API returned ${response.status} for task ${taskId}`, 'POLL_ERROR');
+    }
+
+    const data = response.data || {};
+    const taskError = data.task_error;
+
+    return {
+      taskId,
+      status: STATUS_MAP[data.status] || 'pending',
+      progress: data.progress || 0,
+      error: taskError ? (taskError.message || String(taskError)) : undefined,
+      raw: data,
+    };
+  }
+
+  async cancel(taskId: string): Promise<void> {
+    const response = await axios.delete(`${getMeshyApiBase(this.apiVersion)}/${this.resource}/${taskId}`, {
+      headers: {
+        Authorization: `Bearer ${this.getApiKey()}`,
+      },
+      timeout: MESHY_POLL_TIMEOUT,
+      validateStatus: (status) => status >= 200 && status < 500,
+    });
+
+    // Already gone is as good as cancelled
+    if (response.status >= 400 && response.status !== 404) {
+      throw new ProviderError(`Failed to cancel Meshy task ${taskId}: ${response.status}`, 'CANCEL_ERROR');
+    }
+  }
+
+  parseOutputs(task: ProviderTask): ModelProviderOutput {
+    const modelUrls = task.raw?.model_urls;
+
+    // Validate that we have at least the GLB URL
+    if (!modelUrls?.glb || typeof modelUrls.glb !== 'string') {
+      console.error('[Meshy] Model URLs in response:', JSON.stringify(modelUrls, null, 2));
+      throw new ProviderError('GLB URL not found in Meshy response. Check model_urls.glb in the response.', 'INVALID_OUTPUT');
+    }
+
+    return {
+      model_urls: {
+        glb: modelUrls.glb,
+        fbx: modelUrls.fbx,
+        obj: modelUrls.obj,
+        usdz: modelUrls.usdz,
+        pre_remeshed_glb: modelUrls.pre_remeshed_glb,
+      },
+      thumbnail_url: task.raw?.thumbnail_url,
+      texture_urls: task.raw?.texture_urls,
+    };
+  }
+}
+
+/**
+ * Meshy retexture: textures an existing model instead of generating a new one
+ * `options` must name the model (`input_task_id` or `model_url`). `imageUrl` is the
+ * style image; leave it empty and pass `text_style_prompt` to texture from text.
+ */
+export class MeshyRetextureProvider extends MeshyProvider {
+  protected readonly resource = 'retexture';
+
+  protected buildSubmitBody(input: ModelProviderInput): Record<string, any> {
+    return {
+      enable_original_uv: true,
+      ...input.options,
+      ...(input.imageUrl ? { image_style_url: input.imageUrl } : {}),
+    };
+  }
+}
+
+/**
+ * Meshy multi-image-to-3D: builds one model from up to four views of the same object
+ */
+export class MeshyMultiImageProvider extends MeshyProvider {
+  protected readonly resource = 'multi-image-to-3d';
+
+  protected buildSubmitBody(input: ModelProviderInput): Record<string, any> {
+    return {
+      ...DEFAULT_OPTIONS,
+      ...input.options,
+      image_urls: input.imageUrls?.length ? input.imageUrls : [input.imageUrl],
+    };
+  }
+}
+
+/**
+ * Meshy text-to-3D: builds a model from a prompt, without an image
+ * `options.mode` is 'preview' (an untextured model from `options.prompt`) or 'refine'
+ * (textures the model of `options.preview_task_id`). `imageUrl` is unused.
+ */
+export class MeshyTextTo3DProvider extends MeshyProvider {
+  protected readonly resource = 'text-to-3d';
+  protected readonly apiVersion = 'v2';
+
+  protected buildSubmitBody(input: ModelProviderInput): Record<string, any> {
+    const { mode = 'preview', ...options } = input.options || {};
+    return mode === 'refine'
+      ? { mode, ...options }
+      : { mode, ...TEXT_TO_3D_PREVIEW_OPTIONS, ...options };
+  }
+}
@@ -0,0 +1,111 @@
+import type Replicate from 'replicate';
+import { retryWithBackoff } from '../retry';
+import { createReplicateClient } from '../vendors';
+import {
+  ProviderError,
+  type ModelProvider,
+  type ModelProviderInput,
+  type ModelProviderOutput,
+  type ProviderTask,
+  type ProviderTaskStatus,
+} from './types';
+
+const TRELLIS_VERSION = '4876f2a8da1c544772dffa32e8889da4a1bab3a1f5c1937bfcfccb99ae347251';
+
+const DEFAULT_OPTIONS = {
+  seed: 0,
+  randomize_seed: true,
+  generate_color: true,
+  generate_normal: true,
+  generate_model: true,
+  ss_guidance_strength: 7.5,
+  ss_sampling_steps: 12,
+  slat_guidance_strength: 3.0,
+  slat_sampling_steps: 12,
+  mesh_simplify: 0.95,
+  texture_size: 2048,
+};
+
+const STATUS_MAP: Record<string, ProviderTaskStatus> = {
+  starting: 'pending',
+  processing: 'running',
+  succeeded: 'succeeded',
+  failed: 'failed',
+  canceled: 'cancelled',
+};
+
+/**
+ * TRELLIS image-to-3D provider (firtoz/trellis on Replicate)
+ */
+export class TrellisProvider implements ModelProvider {
+  readonly name = 'trellis' as const;
+
+  private getReplicateClient(): Replicate {
+    const token = process.env.REPLICATE_API_TOKEN;
+    if (!token) {
+      throw new ProviderError('REPLICATE_API_TOKEN environment variable is required', 'MISSING_API_KEY');
+    }
+    return createReplicateClient(token);
+  }
+
+  async submit(input: ModelProviderInput): Promise<string> {
+    const replicate = this.getReplicateClient();
+
+    const prediction = await retryWithBackoff(
+      () =>
+        replicate.predictions.create({
+          version: TRELLIS_VERSION,
+          input: {
+            ...DEFAULT_OPTIONS,
+            ...input.options,
+            images: [input.imageUrl],
+          },
+        }),
+      {
+        maxRetries: 2, // TRELLIS is expensive, fewer retries
+        initialDelay: 5000,
+        maxDelay: 30000,
+      }
+    );
+
+    console.log('[Trellis] Created prediction:', prediction.id);
+    return prediction.id;
+  }
+
+  async poll(taskId: string): Promise<ProviderTask> {
+    const prediction = await this.getReplicateClient().predictions.get(taskId);
+    const status = STATUS_MAP[prediction.status] || 'pending';
+
+    // Replicate doesn't report progress for TRELLIS; approximate it from the state
+    const progress = status === 'succeeded' ? 100 : status === 'running' ? 50 : 0;
+
+    return {
+      taskId,
+      status,
+      progress,
+      error: prediction.error ? String(prediction.error) : undefined,
+      raw: prediction,
+    };
+  }
+
+  async cancel(taskId: string): Promise<void> {
+    await this.getReplicateClient().predictions.cancel(taskId);
+  }
+
+  parseOutputs(task: ProviderTask): ModelProviderOutput {
+    const output = task.raw?.output;
+    if (!output || typeof output !== 'object') {
+      throw new ProviderError(`Unexpected output format from Trellis: ${typeof output}`, 'INVALID_OUTPUT');
+    }
+
+    const modelUrl = output.model_file;
+    if (!modelUrl || typeof modelUrl !== 'string') {
+      throw new ProviderError('Failed to generate 3D model: No model file in Trellis output.', 'INVALID_OUTPUT');
+    }
+
+    return {
+      model_urls: { glb: modelUrl },
+      preview_video_url: typeof output.combined_video === 'string' ? output.combined_video : undefined,
+    };
+  }
+}
@@ -0,0 +1,52 @@
+import type { GenerationOutputData } from '@/types/firestore';
+
+/**
+ * 3D model provider abstraction
+ *
+ * A provider turns a single image into a 3D model through an asynchronous
+ * vendor task: submit() starts the task, poll() reports its state, cancel()
+ * stops it, and parseOutputs() maps a finished task onto GenerationOutputData.
+ */
+
+export type ModelProviderName = 'meshy' | 'trellis' | 'fake';
+
+export type ProviderTaskStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ModelProviderInput {
+  imageUrl: string;                     // HTTP(S) URL or data URI
+  imageUrls?: string[];                 // All reference views in order, imageUrl first; read by multi-image providers only
+  options?: Record<string, any>;        // Vendor-specific options, merged over provider defaults
+}
+
+export interface ProviderTask {
+  taskId: string;
+  status: ProviderTaskStatus;
+  progress: number;                     // 0-100
+  error?: string;
+  raw?: any;                            // Vendor response, used by parseOutputs()
+}
+
+export interface ModelProviderOutput {
+  model_urls: NonNullable<GenerationOutputData['model_urls']>;
+  thumbnail_url?: string;
+  texture_urls?: Array<any>;
+  preview_video_url?: string;
+}
+
+export interface ModelProvider {
+  readonly name: ModelProviderName;
+  submit(input: ModelProviderInput): Promise<string>;
+  poll(taskId: string): Promise<ProviderTask>;
+  cancel(taskId: string): Promise<void>;
+  parseOutputs(task: ProviderTask): ModelProviderOutput;
+}
+
+/**
+ * Custom error classes
+ */
+export class ProviderError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
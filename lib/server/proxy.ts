@@ -0,0 +1,336 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import { Readable, Transform } from 'stream';
+
+/**
+ * Asset proxy
+ *
+ * Fetches generated assets (Meshy, Replicate, our Storage bucket) on behalf of the
+ * browser, which can't load them directly because of CORS. Only allowlisted hosts
+ * are fetched, every hop is resolved and checked against private address ranges,
+ * and the connection is pinned to the checked address so DNS can't be rebound
+ * between the check and the request.
+ */
+
+/**
+ * Custom error classes
+ */
+export class ProxyError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+/**
+ * Configuration constants
+ */
+const DEFAULT_ALLOWED_HOSTS = [
+  'assets.meshy.ai',
+  '*.meshy.ai',
+  'replicate.delivery',
+  '*.replicate.delivery',
+];
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024; // 256 MB
+const UPSTREAM_TIMEOUT_MS = 30000; // 30 seconds without data
+const MAX_REDIRECTS = 3;
+const RANGE_PATTERN = /^bytes=(\d+-\d*|-\d+)$/;
+const PASSTHROUGH_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges', 'etag', 'last-modified'];
+// Types a browser would execute or render on our origin
+const ACTIVE_CONTENT_PATTERN = /html|xml|javascript|ecmascript|svg/i;
+
+/**
+ * Private, loopback, link-local and otherwise non-public ranges
+ */
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export interface ProxyRequestOptions {
+  method: 'GET' | 'HEAD';
+  range?: string | null;
+  signal?: AbortSignal;
+}
+
+export interface ProxyResponse {
+  status: number;
+  headers: Headers;
+  body: ReadableStream<Uint8Array> | null;
+}
+
+function getMaxBytes(): number {
+  const configured = Number(process.env.PROXY_MAX_BYTES);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_BYTES;
+}
+
+/**
+ * Private addresses are only reachable in development, for the local fake
+ * vendor server and Storage emulator (PROXY_ALLOW_PRIVATE_NETWORKS=true)
+ */
+function allowPrivateNetworks(): boolean {
+  return process.env.PROXY_ALLOW_PRIVATE_NETWORKS === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Host patterns the proxy may fetch from
+ * Defaults plus PROXY_ALLOWED_HOSTS (comma-separated; "*.example.com" matches subdomains,
+ * "host:port" allows a non-default port).
+ */
+export function getAllowedHosts(): string[] {
+  const extra = (process.env.PROXY_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  return [...DEFAULT_ALLOWED_HOSTS, ...extra];
+}
+
+function matchesHostPattern(url: URL, pattern: string): boolean {
+  const hasPort = /:\d+$/.test(pattern);
+  if (!hasPort && url.port) {
+    return false;
+  }
+  const host = hasPort ? url.host : url.hostname;
+  if (pattern.startsWith('*.')) {
+    return host.endsWith(pattern.slice(1));
+  }
+  return host === pattern;
+}
+
+/**
+ * Whether a URL is in our own Storage bucket (only that bucket, not all of Google Storage)
+ */
+function isOwnBucketUrl(url: URL): boolean {
+  const bucket = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+  if (!bucket || url.port) {
+    return false;
+  }
+  if (url.hostname === 'storage.googleapis.com') {
+    return url.pathname.startsWith(`/${bucket}/`);
+  }
+  if (url.hostname === 'firebasestorage.googleapis.com') {
+    return url.pathname.startsWith(`/v0/b/${bucket}/o/`);
+  }
+  return false;
+}
+
+/**
+ * Parse a URL and check it against the allowlist
+ */
+export function assertAllowedUrl(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ProxyError('Invalid URL', 'INVALID_URL');
+  }
+
+  const devPrivate = allowPrivateNetworks();
+  if (url.protocol !== 'https:' && !(devPrivate && url.protocol === 'http:')) {
+    throw new ProxyError(`Protocol not allowed: ${url.protocol}`, 'PROTOCOL_NOT_ALLOWED');
+  }
+  if (url.username || url.password) {
+    throw new ProxyError('URLs with credentials are not allowed', 'INVALID_URL');
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const allowed = isOwnBucketUrl(url) || getAllowedHosts().some((pattern) => matchesHostPattern(url, pattern));
+  if (!allowed) {
+    throw new ProxyError(`Host not allowed: ${hostname}`, 'HOST_NOT_ALLOWED');
+  }
+  return url;
+}
+
+function isBlockedAddress(address: string, family: number): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as IPv4
+  const mapped = family === 6 ? address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i) : null;
+  if (mapped) {
+    return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Resolve a host and make sure every address it resolves to is public
+ * Returns the address to connect to.
+ */
+async function resolvePublicAddress(hostname: string): Promise<dns.LookupAddress> {
+  const literal = hostname.replace(/^\[|\]$/g, '');
+  let addresses: dns.LookupAddress[];
+  if (net.isIP(literal)) {
+    addresses = [{ address: literal, family: net.isIP(literal) }];
+  } else {
+    try {
+      addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+    } catch (error: any) {
+      throw new ProxyError(`Failed to resolve ${hostname}`, 'DNS_ERROR', error);
+    }
+  }
+
+  if (addresses.length === 0) {
+    throw new ProxyError(`Failed to resolve ${hostname}`, 'DNS_ERROR');
+  }
+  if (!allowPrivateNetworks() && addresses.some(({ address, family }) => isBlockedAddress(address, family))) {
+    throw new ProxyError(`Host resolves to a private address: ${hostname}`, 'PRIVATE_ADDRESS');
+  }
+  return addresses[0];
+}
+
+/**
+ * Make one request, connecting only to the pre-checked address
+ */
+function requestPinned(
+  url: URL,
+  address: dns.LookupAddress,
+  options: ProxyRequestOptions
+): Promise<http.IncomingMessage> {
+  const lookup: net.LookupFunction = (_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) {
+      callback(null, [address]);
+    } else {
+      callback(null, address.address, address.family);
+    }
+  };
+
+  const headers: Record<string, string> = {
+    'User-Agent': 'Mozilla/5.0 (compatible; vi3w-asset-proxy)',
+    'Accept': '*/*',
+  };
+  if (options.range) {
+    headers['Range'] = options.range;
+  }
+
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const upstream = client.request(url, { method: options.method, headers, lookup, timeout: UPSTREAM_TIMEOUT_MS }, resolve);
+    upstream.on('timeout', () => {
+      upstream.destroy(new ProxyError('Upstream request timed out', 'UPSTREAM_TIMEOUT'));
+    });
+    upstream.on('error', reject);
+    options.signal?.addEventListener('abort', () => upstream.destroy(), { once: true });
+    upstream.end();
+  });
+}
+
+/**
+ * Stop the stream once it passes the size cap (for responses without Content-Length)
+ */
+function createSizeLimit(maxBytes: number): Transform {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      if (received > maxBytes) {
+        callback(new ProxyError(`Response exceeds ${maxBytes} bytes`, 'TOO_LARGE'));
+        return;
+      }
+      callback(null, chunk);
+    },
+  });
+}
+
+/**
+ * Fetch an allowlisted asset and stream it back
+ *
+ * Redirects are followed (up to MAX_REDIRECTS), re-checking each hop. A valid
+ * single-range `Range` header is forwarded so viewers can resume or seek; any other
+ * value is ignored and the full body is returned.
+ */
+export async function proxyAsset(rawUrl: string, options: ProxyRequestOptions): Promise<ProxyResponse> {
+  const maxBytes = getMaxBytes();
+  const range = options.range && RANGE_PATTERN.test(options.range.trim()) ? options.range.trim() : null;
+
+  let url = assertAllowedUrl(rawUrl);
+  let upstream: http.IncomingMessage;
+  for (let redirects = 0; ; redirects++) {
+    const address = await resolvePublicAddress(url.hostname);
+    try {
+      upstream = await requestPinned(url, address, { ...options, range });
+    } catch (error: any) {
+      if (error instanceof ProxyError) {
+        throw error;
+      }
+      throw new ProxyError(`Upstream request failed: ${error.message}`, 'UPSTREAM_ERROR', error);
+    }
+
+    const status = upstream.statusCode || 502;
+    const location = upstream.headers.location;
+    if (status < 300 || status >= 400 || !location) {
+      break;
+    }
+    upstream.resume();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new ProxyError('Too many redirects', 'TOO_MANY_REDIRECTS');
+    }
+    url = assertAllowedUrl(new URL(location, url).toString());
+  }
+
+  const status = upstream.statusCode || 502;
+  if (status === 416) {
+    upstream.resume();
+    throw new ProxyError('Requested range not satisfiable', 'RANGE_NOT_SATISFIABLE');
+  }
+  if (status >= 400) {
+    upstream.resume();
+    throw new ProxyError(`Upstream responded with ${status}`, 'UPSTREAM_ERROR');
+  }
+
+  const contentLength = Number(upstream.headers['content-length']);
+  if (Number.isFinite(contentLength) && contentLength > maxBytes) {
+    upstream.destroy();
+    throw new ProxyError(`Response exceeds ${maxBytes} bytes`, 'TOO_LARGE');
+  }
+
+  const headers = new Headers();
+  for (const name of PASSTHROUGH_HEADERS) {
+    const value = upstream.headers[name];
+    if (typeof value === 'string') {
+      headers.set(name, value);
+    }
+  }
+  if (!headers.get('content-type') || ACTIVE_CONTENT_PATTERN.test(headers.get('content-type') || '')) {
+    headers.set('content-type', 'application/octet-stream');
+  }
+
+  if (options.method === 'HEAD') {
+    upstream.resume();
+    return { status, headers, body: null };
+  }
+
+  const limited = upstream.pipe(createSizeLimit(maxBytes));
+  upstream.on('error', (error) => limited.destroy(error));
+  return {
+    status,
+    headers,
+    body: Readable.toWeb(limited) as ReadableStream<Uint8Array>,
+  };
+}
@@ -0,0 +1,212 @@
+import admin from './firebase-admin';
+import { getFirestore } from './firestore';
+import { withCache, getCacheKey, invalidateCache } from './cache';
+import type { RenderStyleDocument, RenderStyleOption, RenderStyleWithId } from '@/types/firestore';
+
+/**
+ * Isometric render style catalog
+ *
+ * The floorplan workflow renders the uploaded plan as an isometric view before
+ * reconstructing it. Styles live in the `render_styles` Firestore collection so
+ * designers can add or reword them without a deploy. A document with the ID of
+ * a built-in style replaces it, so built-ins can be edited or switched off too.
+ *
+ * A style's prompt only describes the look; the framing and the geometric
+ * accuracy rules around it are fixed here.
+ */
+
+const RENDER_STYLES_COLLECTION = 'render_styles';
+const CATALOG_CACHE_TTL_MS = 60000; // 1 minute
+const MAX_PROMPT_LENGTH = 4000;
+
+export const DEFAULT_RENDER_STYLE = 'photoreal';
+
+const PHOTOREAL_MATERIALS = `Materials: Use high-quality, PBR materials.
+Floors: Light-colored with realistic textures (e.g., light wood, matte white tiles).`;
+
+const PHOTOREAL_FURNITURE = `Furniture & Kitchen: All furniture, including kitchen cabinetry and islands, must be a little dark in color (e.g., charcoal gray, dark walnut wood, muted earth tones) to create a gentle contrast. Models should be simple, modern, and have clean geometry.`;
+
+const DEFAULT_RENDER_STYLES: RenderStyleWithId[] = [
+  {
+    id: 'photoreal',
+    name: 'Photoreal',
+    description: 'Furnished, bright daylight',
+    prompt: `Style: a photorealistic Blender (Cycles) 3D render.
+Style & Lighting: Achieve a bright, airy, and clean atmosphere using a global illumination setup (like an HDRI) for soft, diffuse, and physically accurate lighting. Shadows must be subtle and soft-edged.
+${PHOTOREAL_MATERIALS}
+${PHOTOREAL_FURNITURE}`,
+    active: true,
+    sort_order: 0,
+  },
+  {
+    id: 'photoreal_unfurnished',
+    name: 'Unfurnished',
+    description: 'Empty rooms, bright daylight',
+    prompt: `Style: a photorealistic Blender (Cycles) 3D render.
+Style & Lighting: Achieve a bright, airy, and clean atmosphere using a global illumination setup (like an HDRI) for soft, diffuse, and physically accurate lighting. Shadows must be subtle and soft-edged.
+${PHOTOREAL_MATERIALS}
+Furniture: None. Every room is empty, showing only walls, floors, doors and windows. Fixed fittings such as kitchen counters and bathroom fixtures may stay.`,
+    active: true,
+    sort_order: 1,
+  },
+  {
+    id: 'photoreal_night',
+    name: 'Night',
+    description: 'Furnished, warm interior lighting at night',
+    prompt: `Style: a photorealistic Blender (Cycles) 3D render at night.
+Style & Lighting: A dark blue night sky outside. Rooms are lit from within by warm ceiling and lamp lights, with soft pools of light on the floors and gentle shadows.
+${PHOTOREAL_MATERIALS}
+${PHOTOREAL_FURNITURE}`,
+    active: true,
+    sort_order: 2,
+  },
+  {
+    id: 'clay',
+    name: 'Clay model',
+    description: 'Untextured white architectural model',
+    prompt: `Style: a white clay architectural model render.
+Style & Lighting: Every surface is the same matte white material with no textures or colors. Soft ambient occlusion and a single soft light bring out the forms, on a light gray background.
+Furniture: Simple, blocky furniture shapes in the same white material.`,
+    active: true,
+    sort_order: 3,
+  },
+  {
+    id: 'blueprint',
+    name: 'Blueprint',
+    description: 'Technical line drawing on blue',
+    prompt: `Style: an architectural blueprint rendered in 3D.
+Style & Lighting: Flat, even lighting on a deep blue background. Walls are translucent pale blue volumes with crisp white edges and outlines, like a technical drawing.
+Furniture: None. Doors and windows are drawn as thin white outlines in the walls.`,
+    active: true,
+    sort_order: 4,
+  },
+];
+
+/**
+ * Custom error classes
+ */
+export class RenderStyleError extends Error {
+  constructor(message: string, public code?: string, public originalError?: any) {
+    super(message);
+    this.name = 'RenderStyleError';
+  }
+}
+
+/**
+ * Load the full catalog (active and inactive styles), cached briefly
+ */
+async function loadCatalog(): Promise<RenderStyleWithId[]> {
+  return withCache(
+    getCacheKey('render_styles'),
+    async () => {
+      const snapshot = await getFirestore().collection(RENDER_STYLES_COLLECTION).get();
+      const styles = new Map(DEFAULT_RENDER_STYLES.map((style) => [style.id, style]));
+      snapshot.docs.forEach((doc) => styles.set(doc.id, { id: doc.id, ...doc.data() } as RenderStyleWithId));
+      return [...styles.values()];
+    },
+    CATALOG_CACHE_TTL_MS
+  );
+}
+
+/**
+ * The full isometric conversion prompt for a style's prompt
+ */
+export function buildIsometricPrompt(stylePrompt: string): string {
+  return `Create a high-end, 3D isometric visualization of this 2D floor plan.
+View: Low-angle isometric.
+${stylePrompt.trim()}
+Instructions:
+PRIMARY DIRECTIVE: GEOMETRIC ACCURACY IS NON-NEGOTIABLE. The final 3D model must be an exact replica of the 2D floor plan's layout, wall placement, and proportions. Do not alter the scale, shape, or dimensions of any room or structural element. Any deviation from the source layout is a failure.
+CLEAN VISUALIZATION ONLY: The final 3D image must be a clean architectural rendering. Absolutely no text, labels, dimensions, or measurement lines from the original 2D plan are to be included.
+Ensure the entire structure is visible with a margin around it.`;
+}
+
+/**
+ * Get the styles offered in the floorplan form, in display order
+ */
+export async function getRenderStyleOptions(): Promise<RenderStyleOption[]> {
+  try {
+    const catalog = await loadCatalog();
+    return catalog
+      .filter((style) => style.active)
+      .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0) || a.name.localeCompare(b.name))
+      .map(({ id, name, description }) => ({ id, name, description }));
+  } catch (error: any) {
+    throw new RenderStyleError(`Failed to load render styles: ${error.message}`, 'CATALOG_ERROR', error);
+  }
+}
+
+/**
+ * Resolve a style ID to an active style, the default style when none is given
+ * Throws RenderStyleError if the style doesn't exist or isn't active. The default
+ * falls back to its built-in version if it was switched off in the catalog.
+ */
+export async function getRenderStyle(styleId?: string): Promise<RenderStyleWithId> {
+  if (styleId !== undefined && (!styleId || typeof styleId !== 'string')) {
+    throw new RenderStyleError('Invalid render style', 'INVALID_STYLE');
+  }
+
+  let catalog: RenderStyleWithId[];
+  try {
+    catalog = await loadCatalog();
+  } catch (error: any) {
+    throw new RenderStyleError(`Failed to load render styles: ${error.message}`, 'CATALOG_ERROR', error);
+  }
+
+  const id = styleId ?? DEFAULT_RENDER_STYLE;
+  const style = catalog.find((candidate) => candidate.id === id);
+  if (style?.active) {
+    return style;
+  }
+  if (styleId === undefined) {
+    return DEFAULT_RENDER_STYLES.find((candidate) => candidate.id === DEFAULT_RENDER_STYLE)!;
+  }
+  throw new RenderStyleError(
+    style ? `Render style is not available: ${id}` : `Unknown render style: ${id}`,
+    'INVALID_STYLE'
+  );
+}
+
+/**
+ * Validate and create or replace a render style (Admin function)
+ */
+export async function upsertRenderStyle(
+  styleId: string,
+  style: Omit<RenderStyleDocument, 'created_at' | 'updated_at'>
+): Promise<void> {
+  if (!styleId || !/^[a-z0-9_-]{1,64}$/i.test(styleId)) {
+    throw new RenderStyleError('Invalid style ID: use 1-64 letters, digits, "-" or "_"', 'INVALID_STYLE');
+  }
+  if (!style.name || typeof style.name !== 'string') {
+    throw new RenderStyleError('Invalid style name', 'INVALID_STYLE');
+  }
+  if (style.description !== undefined && typeof style.description !== 'string') {
+    throw new RenderStyleError('Invalid description: must be a string', 'INVALID_STYLE');
+  }
+  if (typeof style.prompt !== 'string' || !style.prompt.trim() || style.prompt.length > MAX_PROMPT_LENGTH) {
+    throw new RenderStyleError(`Invalid prompt: must be 1-${MAX_PROMPT_LENGTH} characters`, 'INVALID_STYLE');
+  }
+  if (style.sort_order !== undefined && !Number.isInteger(style.sort_order)) {
+    throw new RenderStyleError('Invalid sort_order: must be an integer', 'INVALID_STYLE');
+  }
+
+  const now = admin.firestore.Timestamp.now();
+  const ref = getFirestore().collection(RENDER_STYLES_COLLECTION).doc(styleId);
+  const existing = await ref.get();
+
+  const data: Record<string, any> = {
+    name: style.name,
+    description: style.description,
+    prompt: style.prompt.trim(),
+    active: style.active !== false,
+    sort_order: style.sort_order ?? 0,
+    created_at: existing.data()?.created_at || now,
+    updated_at: now,
+  };
+  Object.keys(data).forEach((key) => data[key] === undefined && delete data[key]);
+
+  // Replace the whole document so a removed description doesn't linger
+  await ref.set(data);
+
+  invalidateCache(getCacheKey('render_styles'));
+}
@@ -1,8 +1,6 @@
-import Replicate from 'replicate';
+import { createReplicateClient } from './vendors';
 
-const replicate = new Replicate({
-    auth: process.env.REPLICATE_API_TOKEN,
-});
+const replicate = createReplicateClient(process.env.REPLICATE_API_TOKEN);
 
 export async function generateTextToImage(prompt: string): Promise<string> {
     if (!process.env.REPLICATE_API_TOKEN) {
@@ -15,6 +15,9 @@ export class StorageError extends Error {
  * Configuration constants
  */
 const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
+const DEFAULT_SIGNED_URL_TTL_MS = 15 * 60 * 1000; // 15 minutes
+const VENDOR_SIGNED_URL_TTL_MS = 2 * 60 * 60 * 1000; // 2 hours, enough for a provider task to fetch its input
+const MAX_SIGNED_URL_TTL_MS = 7 * 24 * 60 * 60 * 1000; // V4 signing limit
 const ALLOWED_CONTENT_TYPES = [
   'image/jpeg',
   'image/png',
@@ -164,12 +167,11 @@ export async function uploadToStorage(
     }
     
     const bucket = getBucket();
-    const file = bucket.file(validatedPath);
     
     const options: any = {
       destination: validatedPath,
       metadata: {
-        cacheControl: 'public, max-age=31536000', // 1 year
+        cacheControl: 'private, max-age=31536000', // 1 year
       },
     };
     
@@ -177,23 +179,9 @@ export async function uploadToStorage(
       options.metadata.contentType = contentType;
     }
     
-    // Upload file
+    // Upload file (private: readers get a signed URL)
     await bucket.upload(filePath, options);
     
-    // Make file publicly accessible
-    try {
-      await file.makePublic();
-    } catch (publicError: any) {
-      // If making public fails, try to delete the uploaded file
-      try {
-        await file.delete();
-      } catch (deleteError) {
-        // Log but don't throw - file exists but not public
-        console.error('Failed to delete file after public access error:', deleteError);
-      }
-      throw new StorageError(`Failed to make file public: ${publicError.message}`, 'MAKE_PUBLIC_ERROR', publicError);
-    }
-    
     return getPublicUrl(validatedPath);
   } catch (error: any) {
     if (error instanceof StorageError) {
@@ -223,13 +211,12 @@ export async function uploadBuffer(
     const bucket = getBucket();
     const file = bucket.file(validatedPath);
     
-    // Upload buffer
+    // Upload buffer (private: readers get a signed URL)
     await file.save(buffer, {
       metadata: {
         contentType,
-        cacheControl: 'public, max-age=31536000',
+        cacheControl: 'private, max-age=31536000',
       },
-      public: true,
     });
     
     return getPublicUrl(validatedPath);
@@ -242,7 +229,9 @@ export async function uploadBuffer(
 }
 
 /**
- * Get public URL for a file in Firebase Storage
+ * Get the canonical URL for a file in Firebase Storage
+ * Objects are private, so this URL only identifies the file (see getStoragePathFromUrl);
+ * use getSignedUrl to hand out access.
  */
 export function getPublicUrl(storagePath: string): string {
   try {
@@ -250,6 +239,12 @@ export function getPublicUrl(storagePath: string): string {
     const bucket = getBucket();
     const file = bucket.file(validatedPath);
     
+    // The Storage emulator serves objects through the Firebase download API
+    const emulatorHost = process.env.FIREBASE_STORAGE_EMULATOR_HOST;
+    if (emulatorHost) {
+      return `http://${emulatorHost}/v0/b/${bucket.name}/o/${encodeURIComponent(validatedPath)}?alt=media`;
+    }
+    
     // Use the public URL format
     return `https://storage.googleapis.com/${bucket.name}/${encodeURIComponent(validatedPath)}`;
   } catch (error: any) {
@@ -260,6 +255,123 @@ export function getPublicUrl(storagePath: string): string {
   }
 }
 
+/**
+ * Map a URL in our bucket (as returned by getPublicUrl, or a signed URL) back to its storage path
+ * Returns null for URLs outside the bucket.
+ */
+export function getStoragePathFromUrl(url: string): string | null {
+  const bucketName = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+  if (!bucketName || typeof url !== 'string') {
+    return null;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  let encodedPath: string | undefined;
+  if (parsed.pathname.startsWith(`/v0/b/${bucketName}/o/`)) {
+    // Firebase download API (also used by the emulator)
+    encodedPath = parsed.pathname.slice(`/v0/b/${bucketName}/o/`.length);
+  } else if (parsed.hostname === 'storage.googleapis.com' && parsed.pathname.startsWith(`/${bucketName}/`)) {
+    encodedPath = parsed.pathname.slice(bucketName.length + 2);
+  }
+  if (!encodedPath) {
+    return null;
+  }
+
+  try {
+    return validateStoragePath(decodeURIComponent(encodedPath));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a storage path is in the user's own folder (users/{userId}/...)
+ */
+export function isUserStoragePath(storagePath: string, userId: string): boolean {
+  return !!userId && storagePath.startsWith(`users/${userId}/`);
+}
+
+/**
+ * Create a short-lived signed URL for reading a private file
+ * With downloadFilename, the URL makes browsers save the file under that name.
+ */
+export async function getSignedUrl(
+  storagePath: string,
+  options: { expiresInMs?: number; downloadFilename?: string } = {}
+): Promise<{ url: string; expiresAt: Date }> {
+  try {
+    const validatedPath = validateStoragePath(storagePath);
+    const expiresInMs = options.expiresInMs ?? DEFAULT_SIGNED_URL_TTL_MS;
+    if (!Number.isFinite(expiresInMs) || expiresInMs <= 0 || expiresInMs > MAX_SIGNED_URL_TTL_MS) {
+      throw new StorageError('Invalid signed URL lifetime', 'INVALID_EXPIRY');
+    }
+    const expiresAt = new Date(Date.now() + expiresInMs);
+
+    // The Storage emulator doesn't check signatures or access
+    if (process.env.FIREBASE_STORAGE_EMULATOR_HOST) {
+      return { url: getPublicUrl(validatedPath), expiresAt };
+    }
+
+    const file = getBucket().file(validatedPath);
+    const [url] = await file.getSignedUrl({
+      version: 'v4',
+      action: 'read',
+      expires: expiresAt,
+      ...(options.downloadFilename
+        ? { responseDisposition: `attachment; filename="${options.downloadFilename.replace(/[^a-zA-Z0-9._-]/g, '_')}"` }
+        : {}),
+    });
+    return { url, expiresAt };
+  } catch (error: any) {
+    if (error instanceof StorageError) {
+      throw error;
+    }
+    throw new StorageError(`Failed to sign URL: ${error.message}`, 'SIGN_URL_ERROR', error);
+  }
+}
+
+/**
+ * Make a URL fetchable by a third party (Meshy, Replicate)
+ * URLs in our bucket are signed; anything else is returned unchanged.
+ */
+export async function resolveStorageUrl(url: string, expiresInMs: number = VENDOR_SIGNED_URL_TTL_MS): Promise<string> {
+  const storagePath = getStoragePathFromUrl(url);
+  if (!storagePath) {
+    return url;
+  }
+  return (await getSignedUrl(storagePath, { expiresInMs })).url;
+}
+
+/**
+ * Download a file from Firebase Storage into memory
+ */
+export async function downloadFromStorage(storagePath: string): Promise<Buffer> {
+  try {
+    const validatedPath = validateStoragePath(storagePath);
+    const file = getBucket().file(validatedPath);
+
+    const [metadata] = await file.getMetadata();
+    validateFileSize(Number(metadata.size));
+
+    const [contents] = await file.download();
+    return contents;
+  } catch (error: any) {
+    if (error instanceof StorageError) {
+      throw error;
+    }
+    if (error.code === 404) {
+      throw new StorageError(`File not found: ${storagePath}`, 'FILE_NOT_FOUND', error);
+    }
+    throw new StorageError(`Failed to download file: ${error.message}`, 'DOWNLOAD_ERROR', error);
+  }
+}
+
 /**
  * Delete a file from Firebase Storage
  */
@@ -350,16 +462,9 @@ export async function copyFile(sourcePath: string, destinationPath: string): Pro
       throw new StorageError(`Source file not found: ${validatedSource}`, 'SOURCE_NOT_FOUND');
     }
     
-    // Copy file
+    // Copy file (private, like every other object)
     await sourceFile.copy(destFile);
     
-    // Make destination public if source was public
-    try {
-      await destFile.makePublic();
-    } catch {
-      // If making public fails, that's okay - file is still copied
-    }
-    
     return getPublicUrl(validatedDest);
   } catch (error: any) {
     if (error instanceof StorageError) {
@@ -368,3 +473,43 @@ export async function copyFile(sourcePath: string, destinationPath: string): Pro
     throw new StorageError(`Failed to copy file: ${error.message}`, 'COPY_ERROR', error);
   }
 }
+
+/**
+ * Remove public access from one page of users' files (Admin function)
+ * Earlier versions called makePublic() on every upload, and those ACLs outlive the
+ * switch to signed URLs. Pass the returned nextPageToken to continue.
+ */
+export async function makeUserFilesPrivate(
+  options: { pageToken?: string; limit?: number } = {}
+): Promise<{ checked: number; failed: Array<{ path: string; error: string }>; nextPageToken?: string }> {
+  try {
+    const limit = Math.min(Math.max(options.limit || 200, 1), 1000);
+    const [files, nextQuery] = await getBucket().getFiles({
+      prefix: 'users/',
+      maxResults: limit,
+      autoPaginate: false,
+      ...(options.pageToken ? { pageToken: options.pageToken } : {}),
+    });
+
+    const failed: Array<{ path: string; error: string }> = [];
+    for (const file of files) {
+      try {
+        await file.makePrivate();
+      } catch (error: any) {
+        console.error(`[Storage] Failed to make ${file.name} private:`, error.message);
+        failed.push({ path: file.name, error: error.message || 'Unknown error' });
+      }
+    }
+
+    return {
+      checked: files.length,
+      failed,
+      nextPageToken: (nextQuery as { pageToken?: string } | null)?.pageToken,
+    };
+  } catch (error: any) {
+    if (error instanceof StorageError) {
+      throw error;
+    }
+    throw new StorageError(`Failed to make files private: ${error.message}`, 'MAKE_PRIVATE_ERROR', error);
+  }
+}
@@ -1,3 +1,42 @@
+import type {
+  FloorplanLayout,
+  FloorplanMode,
+  FloorplanPoint,
+  FloorplanRoomType,
+  FloorplanScale,
+  FloorplanScaleReference,
+  GenerationOptions,
+  MeshCompression,
+  PostProcessingOptions,
+} from '@/types/firestore';
+import {
+  isQualityTier,
+  resolveGenerationOptions,
+  MAX_TARGET_POLYCOUNT,
+  MESH_TOPOLOGIES,
+  MESHY_AI_MODELS,
+  MIN_TARGET_POLYCOUNT,
+  QUALITY_TIERS,
+  TEXT_TO_3D_PIPELINES,
+} from '@/lib/generationOptions';
+import {
+  getReferencePixels,
+  FLOORPLAN_SCALE_REFERENCES,
+  MAX_REFERENCE_LENGTH_M,
+  MIN_REFERENCE_LENGTH_M,
+  MIN_REFERENCE_PIXELS,
+} from '@/lib/floorplanScale';
+import {
+  getLayoutWalls,
+  isFloorplanMode,
+  FLOORPLAN_MODES,
+  FLOORPLAN_ROOM_TYPES,
+  MAX_LAYOUT_OPENINGS,
+  MAX_LAYOUT_ROOMS,
+  MAX_LAYOUT_WALLS,
+  MAX_ROOM_POINTS,
+} from '@/lib/floorplanLayout';
+
 /**
  * Input validation utilities
  */
@@ -51,19 +90,45 @@ export function validateImagePath(imagePath: string | undefined, fieldName: stri
   }
 }
 
+export const MAX_REFERENCE_IMAGES = 4;
+
+/**
+ * Validate an ordered list of reference images (front, side, back...)
+ */
+export function validateImagePaths(imagePaths: string[] | undefined, fieldName: string = 'imagePaths'): void {
+  if (imagePaths !== undefined) {
+    if (!Array.isArray(imagePaths)) {
+      throw new ValidationError(`${fieldName} must be an array`, fieldName);
+    }
+    if (imagePaths.length === 0) {
+      throw new ValidationError(`${fieldName} cannot be empty`, fieldName);
+    }
+    if (imagePaths.length > MAX_REFERENCE_IMAGES) {
+      throw new ValidationError(`${fieldName} can have at most ${MAX_REFERENCE_IMAGES} images`, fieldName);
+    }
+    imagePaths.forEach((imagePath, index) => validateImagePath(imagePath, `${fieldName}[${index}]`));
+  }
+}
+
 /**
  * Validate workflow input
+ * When imagePaths is given, imagePath (if any) must be its first entry.
  */
 export function validateWorkflowInput(input: {
   prompt?: string;
   imagePath?: string;
+  imagePaths?: string[];
 }): void {
-  if (!input.prompt && !input.imagePath) {
+  if (!input.prompt && !input.imagePath && !input.imagePaths?.length) {
     throw new ValidationError('Either prompt or imagePath must be provided');
   }
 
   validatePrompt(input.prompt);
   validateImagePath(input.imagePath);
+  validateImagePaths(input.imagePaths);
+  if (input.imagePaths && input.imagePath && input.imagePaths[0] !== input.imagePath) {
+    throw new ValidationError('imagePath must be the first of imagePaths', 'imagePath');
+  }
 }
 
 /**
@@ -78,3 +143,340 @@ export function validateUserId(userId: string): void {
   }
 }
 
+
+const POST_PROCESSING_KEYS = ['target_triangles', 'recenter', 'target_size_m', 'target_footprint_m', 'compression'];
+const MESH_COMPRESSIONS: MeshCompression[] = ['none', 'draco', 'meshopt'];
+
+/**
+ * Validate mesh post-processing options
+ * Returns undefined when nothing is requested.
+ */
+export function validatePostProcessingOptions(
+  input: unknown,
+  fieldName: string = 'post_processing'
+): PostProcessingOptions | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError(`${fieldName} must be an object`, fieldName);
+  }
+
+  const values = input as Record<string, unknown>;
+  const unknownKey = Object.keys(values).find((key) => !POST_PROCESSING_KEYS.includes(key));
+  if (unknownKey) {
+    throw new ValidationError(`Unknown ${fieldName} option: ${unknownKey}`, `${fieldName}.${unknownKey}`);
+  }
+
+  const options: PostProcessingOptions = {};
+  const { target_triangles, recenter, target_size_m, target_footprint_m, compression } = values;
+
+  if (target_triangles !== undefined && target_triangles !== null) {
+    if (typeof target_triangles !== 'number' || !Number.isInteger(target_triangles) || target_triangles < 1000 || target_triangles > 2000000) {
+      throw new ValidationError(`${fieldName}.target_triangles must be an integer between 1000 and 2000000`, `${fieldName}.target_triangles`);
+    }
+    options.target_triangles = target_triangles;
+  }
+  if (recenter !== undefined && recenter !== null) {
+    if (typeof recenter !== 'boolean') {
+      throw new ValidationError(`${fieldName}.recenter must be a boolean`, `${fieldName}.recenter`);
+    }
+    if (recenter) {
+      options.recenter = true;
+    }
+  }
+  if (target_size_m !== undefined && target_size_m !== null) {
+    if (typeof target_size_m !== 'number' || !Number.isFinite(target_size_m) || target_size_m <= 0 || target_size_m > 1000) {
+      throw new ValidationError(`${fieldName}.target_size_m must be a number of meters between 0 and 1000`, `${fieldName}.target_size_m`);
+    }
+    options.target_size_m = target_size_m;
+  }
+  if (target_footprint_m !== undefined && target_footprint_m !== null) {
+    if (typeof target_footprint_m !== 'number' || !Number.isFinite(target_footprint_m) || target_footprint_m <= 0 || target_footprint_m > 1000) {
+      throw new ValidationError(`${fieldName}.target_footprint_m must be a number of meters between 0 and 1000`, `${fieldName}.target_footprint_m`);
+    }
+    if (options.target_size_m) {
+      throw new ValidationError(`${fieldName} can't have both target_size_m and target_footprint_m`, `${fieldName}.target_footprint_m`);
+    }
+    options.target_footprint_m = target_footprint_m;
+  }
+  if (compression !== undefined && compression !== null) {
+    if (!MESH_COMPRESSIONS.includes(compression as MeshCompression)) {
+      throw new ValidationError(`${fieldName}.compression must be one of: ${MESH_COMPRESSIONS.join(', ')}`, `${fieldName}.compression`);
+    }
+    if (compression !== 'none') {
+      options.compression = compression as MeshCompression;
+    }
+  }
+
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+const FLOORPLAN_SCALE_KEYS = ['reference', 'start', 'end', 'length_m', 'image_width', 'image_height'];
+
+function isPoint(value: unknown): value is [number, number] {
+  return Array.isArray(value) && value.length === 2 && value.every((coordinate) => typeof coordinate === 'number' && Number.isFinite(coordinate));
+}
+
+/**
+ * Validate a floorplan scale reference
+ * Returns undefined when none is given.
+ */
+export function validateFloorplanScale(
+  input: unknown,
+  fieldName: string = 'floorplan_scale'
+): FloorplanScale | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError(`${fieldName} must be an object`, fieldName);
+  }
+
+  const values = input as Record<string, unknown>;
+  const unknownKey = Object.keys(values).find((key) => !FLOORPLAN_SCALE_KEYS.includes(key));
+  if (unknownKey) {
+    throw new ValidationError(`Unknown ${fieldName} field: ${unknownKey}`, `${fieldName}.${unknownKey}`);
+  }
+
+  const { reference = 'wall', start, end, length_m, image_width, image_height } = values;
+  if (!FLOORPLAN_SCALE_REFERENCES.includes(reference as FloorplanScaleReference)) {
+    throw new ValidationError(`${fieldName}.reference must be one of: ${FLOORPLAN_SCALE_REFERENCES.join(', ')}`, `${fieldName}.reference`);
+  }
+  for (const [name, size] of [['image_width', image_width], ['image_height', image_height]] as const) {
+    if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0 || size > 20000) {
+      throw new ValidationError(`${fieldName}.${name} must be an integer number of pixels between 1 and 20000`, `${fieldName}.${name}`);
+    }
+  }
+  for (const [name, point] of [['start', start], ['end', end]] as const) {
+    if (
+      !isPoint(point) ||
+      point[0] < 0 || point[0] > (image_width as number) ||
+      point[1] < 0 || point[1] > (image_height as number)
+    ) {
+      throw new ValidationError(`${fieldName}.${name} must be an [x, y] pixel position inside the image`, `${fieldName}.${name}`);
+    }
+  }
+  if (
+    typeof length_m !== 'number' ||
+    !Number.isFinite(length_m) ||
+    length_m < MIN_REFERENCE_LENGTH_M ||
+    length_m > MAX_REFERENCE_LENGTH_M
+  ) {
+    throw new ValidationError(
+      `${fieldName}.length_m must be a number of meters between ${MIN_REFERENCE_LENGTH_M} and ${MAX_REFERENCE_LENGTH_M}`,
+      `${fieldName}.length_m`
+    );
+  }
+
+  const scale: FloorplanScale = {
+    reference: reference as FloorplanScaleReference,
+    start: start as [number, number],
+    end: end as [number, number],
+    length_m,
+    image_width: image_width as number,
+    image_height: image_height as number,
+  };
+  if (getReferencePixels(scale) < MIN_REFERENCE_PIXELS) {
+    throw new ValidationError(`${fieldName} reference must be at least ${MIN_REFERENCE_PIXELS} pixels long`, fieldName);
+  }
+  return scale;
+}
+
+/**
+ * Validate how a floorplan model is built
+ * Returns undefined when none is given.
+ */
+export function validateFloorplanMode(
+  input: unknown,
+  fieldName: string = 'floorplan_mode'
+): FloorplanMode | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+  if (!isFloorplanMode(input)) {
+    throw new ValidationError(`${fieldName} must be one of: ${FLOORPLAN_MODES.join(', ')}`, fieldName);
+  }
+  return input;
+}
+
+const FLOORPLAN_LAYOUT_KEYS = ['walls', 'rooms', 'doors', 'windows', 'image_width', 'image_height'];
+
+function toLayoutPoint(value: unknown, fieldName: string): FloorplanPoint {
+  const { x, y } = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  if (
+    typeof x !== 'number' || typeof y !== 'number' ||
+    !(x >= 0 && x <= 1) || !(y >= 0 && y <= 1)
+  ) {
+    throw new ValidationError(`${fieldName} must be an { x, y } point with fractions of the image between 0 and 1`, fieldName);
+  }
+  return { x, y };
+}
+
+function toLayoutList(value: unknown, max: number, fieldName: string): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.length > max) {
+    throw new ValidationError(`${fieldName} must be an array of at most ${max} items`, fieldName);
+  }
+  return value;
+}
+
+/**
+ * Validate a vector floorplan layout
+ * Returns undefined when none is given.
+ */
+export function validateFloorplanLayout(
+  input: unknown,
+  fieldName: string = 'floorplan_layout'
+): FloorplanLayout | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError(`${fieldName} must be an object`, fieldName);
+  }
+
+  const values = input as Record<string, unknown>;
+  const unknownKey = Object.keys(values).find((key) => !FLOORPLAN_LAYOUT_KEYS.includes(key));
+  if (unknownKey) {
+    throw new ValidationError(`Unknown ${fieldName} field: ${unknownKey}`, `${fieldName}.${unknownKey}`);
+  }
+
+  const walls = toLayoutList(values.walls, MAX_LAYOUT_WALLS, `${fieldName}.walls`).map((wall, index) => {
+    const { start, end } = (wall && typeof wall === 'object' ? wall : {}) as Record<string, unknown>;
+    return {
+      start: toLayoutPoint(start, `${fieldName}.walls[${index}].start`),
+      end: toLayoutPoint(end, `${fieldName}.walls[${index}].end`),
+    };
+  });
+
+  const rooms = toLayoutList(values.rooms, MAX_LAYOUT_ROOMS, `${fieldName}.rooms`).map((room, index) => {
+    const field = `${fieldName}.rooms[${index}]`;
+    const { name, type = 'other', polygon } = (room && typeof room === 'object' ? room : {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim() || name.length > 80) {
+      throw new ValidationError(`${field}.name must be a non-empty string of at most 80 characters`, `${field}.name`);
+    }
+    if (!FLOORPLAN_ROOM_TYPES.includes(type as FloorplanRoomType)) {
+      throw new ValidationError(`${field}.type must be one of: ${FLOORPLAN_ROOM_TYPES.join(', ')}`, `${field}.type`);
+    }
+    const points = toLayoutList(polygon, MAX_ROOM_POINTS, `${field}.polygon`)
+      .map((point, pointIndex) => toLayoutPoint(point, `${field}.polygon[${pointIndex}]`));
+    if (points.length > 0 && points.length < 3) {
+      throw new ValidationError(`${field}.polygon needs at least 3 points`, `${field}.polygon`);
+    }
+    return { name: name.trim(), type: type as FloorplanRoomType, polygon: points };
+  });
+
+  const doors = toLayoutList(values.doors, MAX_LAYOUT_OPENINGS, `${fieldName}.doors`)
+    .map((point, index) => toLayoutPoint(point, `${fieldName}.doors[${index}]`));
+  const windows = toLayoutList(values.windows, MAX_LAYOUT_OPENINGS, `${fieldName}.windows`)
+    .map((point, index) => toLayoutPoint(point, `${fieldName}.windows[${index}]`));
+
+  const { image_width, image_height } = values;
+  const hasImageSize = image_width !== undefined || image_height !== undefined;
+  if (hasImageSize) {
+    for (const [name, size] of [['image_width', image_width], ['image_height', image_height]] as const) {
+      if (typeof size !== 'number' || !Number.isInteger(size) || size <= 0 || size > 20000) {
+        throw new ValidationError(`${fieldName}.${name} must be an integer number of pixels between 1 and 20000`, `${fieldName}.${name}`);
+      }
+    }
+  }
+
+  const layout: FloorplanLayout = {
+    walls,
+    rooms,
+    doors,
+    windows,
+    ...(hasImageSize ? { image_width: image_width as number, image_height: image_height as number } : {}),
+  };
+  if (getLayoutWalls(layout).length === 0) {
+    throw new ValidationError(`${fieldName} needs at least one wall or room outline`, fieldName);
+  }
+  return layout;
+}
+
+const GENERATION_OPTION_KEYS = ['quality', 'ai_model', 'should_texture', 'enable_pbr', 'target_polycount', 'topology', 'pipeline'];
+
+/**
+ * Validate model provider options and resolve them against their quality tier
+ * Returns undefined when none are given, leaving the workflow's defaults.
+ */
+export function validateGenerationOptions(
+  input: unknown,
+  fieldName: string = 'generation_options'
+): GenerationOptions | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new ValidationError(`${fieldName} must be an object`, fieldName);
+  }
+
+  const values = input as Record<string, unknown>;
+  const unknownKey = Object.keys(values).find((key) => !GENERATION_OPTION_KEYS.includes(key));
+  if (unknownKey) {
+    throw new ValidationError(`Unknown ${fieldName} option: ${unknownKey}`, `${fieldName}.${unknownKey}`);
+  }
+
+  const overrides: Partial<GenerationOptions> = {};
+  const { quality, ai_model, should_texture, enable_pbr, target_polycount, topology, pipeline } = values;
+
+  if (quality !== undefined && quality !== null) {
+    if (!isQualityTier(quality)) {
+      throw new ValidationError(`${fieldName}.quality must be one of: ${QUALITY_TIERS.join(', ')}`, `${fieldName}.quality`);
+    }
+    overrides.quality = quality;
+  }
+  if (ai_model !== undefined && ai_model !== null) {
+    if (!MESHY_AI_MODELS.includes(ai_model as GenerationOptions['ai_model'])) {
+      throw new ValidationError(`${fieldName}.ai_model must be one of: ${MESHY_AI_MODELS.join(', ')}`, `${fieldName}.ai_model`);
+    }
+    overrides.ai_model = ai_model as GenerationOptions['ai_model'];
+  }
+  if (should_texture !== undefined && should_texture !== null) {
+    if (typeof should_texture !== 'boolean') {
+      throw new ValidationError(`${fieldName}.should_texture must be a boolean`, `${fieldName}.should_texture`);
+    }
+    overrides.should_texture = should_texture;
+  }
+  if (enable_pbr !== undefined && enable_pbr !== null) {
+    if (typeof enable_pbr !== 'boolean') {
+      throw new ValidationError(`${fieldName}.enable_pbr must be a boolean`, `${fieldName}.enable_pbr`);
+    }
+    overrides.enable_pbr = enable_pbr;
+  }
+  if (target_polycount !== undefined && target_polycount !== null) {
+    if (
+      typeof target_polycount !== 'number' ||
+      !Number.isInteger(target_polycount) ||
+      target_polycount < MIN_TARGET_POLYCOUNT ||
+      target_polycount > MAX_TARGET_POLYCOUNT
+    ) {
+      throw new ValidationError(
+        `${fieldName}.target_polycount must be an integer between ${MIN_TARGET_POLYCOUNT} and ${MAX_TARGET_POLYCOUNT}`,
+        `${fieldName}.target_polycount`
+      );
+    }
+    overrides.target_polycount = target_polycount;
+  }
+  if (topology !== undefined && topology !== null) {
+    if (!MESH_TOPOLOGIES.includes(topology as GenerationOptions['topology'])) {
+      throw new ValidationError(`${fieldName}.topology must be one of: ${MESH_TOPOLOGIES.join(', ')}`, `${fieldName}.topology`);
+    }
+    overrides.topology = topology as GenerationOptions['topology'];
+  }
+  if (pipeline !== undefined && pipeline !== null) {
+    if (!TEXT_TO_3D_PIPELINES.includes(pipeline as GenerationOptions['pipeline'])) {
+      throw new ValidationError(`${fieldName}.pipeline must be one of: ${TEXT_TO_3D_PIPELINES.join(', ')}`, `${fieldName}.pipeline`);
+    }
+    overrides.pipeline = pipeline as GenerationOptions['pipeline'];
+  }
+
+  const options = resolveGenerationOptions(overrides);
+  if (options.enable_pbr && !options.should_texture) {
+    throw new ValidationError(`${fieldName}.enable_pbr requires should_texture`, `${fieldName}.enable_pbr`);
+  }
+  return options;
+}
@@ -0,0 +1,48 @@
+import Replicate from 'replicate';
+import Razorpay from 'razorpay';
+
+/**
+ * Vendor API endpoints
+ *
+ * Each external API's base URL can be overridden from the environment, so the app
+ * can run end to end against the local stand-in server (`npm run fake-vendors`)
+ * instead of the real Meshy, Replicate and Razorpay APIs. Unset means production.
+ */
+
+const DEFAULT_MESHY_API_BASE = 'https://api.meshy.ai/openapi/v1';
+
+function readBaseUrl(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value.replace(/\/+$/, '') : undefined;
+}
+
+/**
+ * Meshy OpenAPI base URL (MESHY_API_BASE_URL)
+ * Some task APIs (text-to-3d) live under v2; the configured v1 base is mapped onto it.
+ */
+export function getMeshyApiBase(version: 'v1' | 'v2' = 'v1'): string {
+  const base = readBaseUrl('MESHY_API_BASE_URL') || DEFAULT_MESHY_API_BASE;
+  return version === 'v1' ? base : base.replace(/\/v1$/, `/${version}`);
+}
+
+/**
+ * Create a Replicate client (REPLICATE_API_BASE_URL overrides https://api.replicate.com/v1)
+ */
+export function createReplicateClient(token: string | undefined): Replicate {
+  const baseUrl = readBaseUrl('REPLICATE_API_BASE_URL');
+  return new Replicate({ auth: token, ...(baseUrl ? { baseUrl } : {}) });
+}
+
+/**
+ * Create a Razorpay client (RAZORPAY_API_BASE_URL overrides https://api.razorpay.com)
+ */
+export function createRazorpayClient(keyId: string, keySecret: string): Razorpay {
+  const razorpay = new Razorpay({ key_id: keyId, key_secret: keySecret });
+
+  // The SDK has no host option, so point its HTTP client at the override
+  const baseUrl = readBaseUrl('RAZORPAY_API_BASE_URL');
+  if (baseUrl) {
+    (razorpay as unknown as { api: { rq: { defaults: { baseURL?: string } } } }).api.rq.defaults.baseURL = baseUrl;
+  }
+  return razorpay;
+}
@@ -1,14 +1,90 @@
-import type { WorkflowType, GenerationInputData } from '@/types/firestore';
+import type {
+  FloorplanLayout,
+  FloorplanMode,
+  FloorplanScale,
+  WorkflowType,
+  GenerationInputData,
+  GenerationOptions,
+  GenerationStep,
+  PostProcessingOptions,
+  PostProcessingResult,
+  RenderStyleWithId,
+} from '@/types/firestore';
 import {
   getFirestore,
   createGeneration,
+  getGeneration,
   updateGeneration,
+  updateGenerationUnlessCancelled,
   getProject,
   createProject,
   updateProject,
 } from '@/lib/server/firestore';
+import { enqueueJob } from '@/lib/server/jobs';
+import { getUserCredits, holdCredits, releaseCredits, InsufficientCreditsError } from '@/lib/server/billing';
+import {
+  uploadBuffer,
+  uploadToStorage,
+  getGenerationStoragePath,
+  getStoragePathFromUrl,
+  isUserStoragePath,
+} from '@/lib/server/storage';
+import { readAssetUrl } from '@/lib/server/assets';
+import { assertAllowedUrl, proxyAsset, ProxyError } from '@/lib/server/proxy';
+import { getGenerationCost, MAX_DIRECT_PROMPT_LENGTH } from '@/lib/generationOptions';
+import { getFloorplanModeCost } from '@/lib/floorplanLayout';
+import { hasPostProcessing, postProcessGlb } from '@/lib/server/postprocess';
+import { getRenderStyle, RenderStyleError } from '@/lib/server/renderStyles';
+import {
+  validateWorkflowInput,
+  validateFloorplanLayout,
+  validateFloorplanMode,
+  validateFloorplanScale,
+  validateGenerationOptions,
+  validatePostProcessingOptions,
+  ValidationError,
+} from '@/lib/server/validation';
 import admin from '@/lib/server/firebase-admin';
 
+/**
+ * Input accepted by BaseWorkflow.run() and BaseWorkflow.enqueue()
+ */
+export interface WorkflowRunInput {
+  prompt?: string;
+  imagePath?: string;
+  imagePaths?: string[]; // Ordered reference views; imagePath defaults to the first
+  projectId?: string;
+  generationId?: string;
+  // Option objects are taken as sent by the client; enqueue() validates them
+  postProcessing?: unknown;
+  generationOptions?: unknown;
+  floorplanScale?: unknown;
+  floorplanMode?: unknown;
+  floorplanLayout?: unknown;
+  renderStyle?: string; // Render style ID of the floorplan's isometric view
+}
+
+/**
+ * Thrown when a run stops because its generation was cancelled
+ */
+export class GenerationCancelledError extends Error {
+  constructor(public generationId: string) {
+    super(`Generation ${generationId} was cancelled`);
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+/**
+ * Thrown when a run stops because its worker lost the job's lease
+ * Another worker may already be running the generation, so the run writes nothing more.
+ */
+export class LeaseLostError extends Error {
+  constructor(public generationId: string) {
+    super(`Lost the job lease of generation ${generationId}`);
+    this.name = 'LeaseLostError';
+  }
+}
+
 /**
  * Base Workflow Class
  * 
@@ -17,11 +93,63 @@ import admin from '@/lib/server/firebase-admin';
  * - Project management
  * - Generation numbering
  * - Status updates
+ * - Enqueueing runs on the persistent job queue
  */
 export abstract class BaseWorkflow {
   abstract readonly name: string;
+  abstract readonly workflowType: WorkflowType;
   abstract readonly cost: number; // Cost in credits per generation
 
+  /**
+   * Whether the workflow accepts generation_options (model provider settings)
+   */
+  protected readonly supportsGenerationOptions: boolean = false;
+
+  /**
+   * Whether the workflow accepts several reference views (imagePaths)
+   */
+  protected readonly supportsMultipleImages: boolean = false;
+
+  /**
+   * Whether the workflow accepts a floorplan scale reference to size its model in meters
+   */
+  protected readonly supportsFloorplanScale: boolean = false;
+
+  /**
+   * Whether the workflow accepts a floorplan mode and a vector floorplan layout to extrude
+   */
+  protected readonly supportsFloorplanLayout: boolean = false;
+
+  /**
+   * Whether the workflow renders an isometric view in a style from the render style catalog
+   */
+  protected readonly supportsRenderStyles: boolean = false;
+
+  /**
+   * Whether the server reads the input images itself, so remote ones are copied into
+   * Storage at enqueue (through the asset proxy's host allowlist) and never fetched as given
+   */
+  protected readonly storesInputImages: boolean = false;
+
+  /**
+   * Abort signals of the runs started by runJob(), by generation ID
+   */
+  private readonly leaseSignals = new Map<string, AbortSignal>();
+
+  /**
+   * Cost in credits of a generation: priced by its options when the workflow takes them, flat otherwise
+   */
+  protected getCost(options?: GenerationOptions): number {
+    return options && this.supportsGenerationOptions ? getGenerationCost(options) : this.cost;
+  }
+
+  /**
+   * Title used when enqueue() has to create a new project
+   */
+  protected getProjectTitle(input: WorkflowRunInput): string | undefined {
+    return input.prompt?.slice(0, 50);
+  }
+
   /**
    * Create a generation event in Firestore
    */
@@ -79,7 +207,7 @@ export abstract class BaseWorkflow {
    */
   async updateGenerationStatus(
     generationId: string,
-    status: 'pending' | 'generating' | 'completed' | 'failed',
+    status: 'pending' | 'generating' | 'completed' | 'failed' | 'cancelled',
     options?: {
       progressPercentage?: number;
       outputData?: any;
@@ -91,12 +219,17 @@ export abstract class BaseWorkflow {
       return;
     }
 
-    const validStatuses = ['pending', 'generating', 'completed', 'failed'];
+    const validStatuses = ['pending', 'generating', 'completed', 'failed', 'cancelled'];
     if (!validStatuses.includes(status)) {
       console.error(`Invalid status: ${status}`);
       return;
     }
 
+    if (this.hasLostLease(generationId)) {
+      console.log(`Skipping '${status}' update for generation ${generationId}: its job lease was lost`);
+      return;
+    }
+
     try {
       const progress = options?.progressPercentage ?? 0;
       if (progress < 0 || progress > 100) {
@@ -124,7 +257,14 @@ export abstract class BaseWorkflow {
         updateData.error_message = options.errorMessage;
       }
 
-      await updateGeneration(generationId, updateData);
+      // A cancelled generation stays cancelled; late progress/completion updates are dropped.
+      // The check and the write are one transaction so a concurrent cancel can't be overwritten.
+      if (status === 'cancelled') {
+        await updateGeneration(generationId, updateData);
+      } else if (!(await updateGenerationUnlessCancelled(generationId, updateData))) {
+        console.log(`Skipping '${status}' update for cancelled generation ${generationId}`);
+        return;
+      }
 
       console.log(
         `Updated generation ${generationId} to status '${status}' (progress: ${Math.max(0, Math.min(100, progress))}%)`
@@ -176,6 +316,8 @@ export abstract class BaseWorkflow {
   /**
    * Assign generation number to a generation within a project
    * Uses atomic increment to ensure thread-safety
+   * Idempotent: a generation that already has a number in this project keeps it,
+   * so resumed runs don't bump the project's generation count again.
    */
   async assignGenerationNumber(projectId: string, generationId: string): Promise<number> {
     try {
@@ -191,6 +333,16 @@ export abstract class BaseWorkflow {
           throw new Error(`Project ${projectId} does not exist`);
         }
 
+        const generationDoc = await transaction.get(generationRef);
+        const existingNumber = generationDoc.data()?.generation_number;
+        if (
+          Number.isInteger(existingNumber) &&
+          existingNumber > 0 &&
+          generationDoc.data()?.project_id === projectId
+        ) {
+          return existingNumber as number;
+        }
+
         const projectData = projectDoc.data();
         const currentCount = projectData?.generation_count ?? 0;
         const newGenerationNumber = currentCount + 1;
@@ -261,18 +413,567 @@ export abstract class BaseWorkflow {
     }
   }
 
+  /**
+   * Check whether a generation has been cancelled
+   */
+  protected async isCancelled(generationId: string): Promise<boolean> {
+    const generation = await getGeneration(generationId);
+    return generation?.status === 'cancelled';
+  }
+
+  /**
+   * Check whether the worker running this generation has lost the job's lease
+   */
+  protected hasLostLease(generationId: string): boolean {
+    return this.leaseSignals.get(generationId)?.aborted === true;
+  }
+
+  /**
+   * Stop the run if its job lease was lost or its generation has been cancelled
+   */
+  protected async throwIfCancelled(generationId: string): Promise<void> {
+    if (this.hasLostLease(generationId)) {
+      throw new LeaseLostError(generationId);
+    }
+    if (await this.isCancelled(generationId)) {
+      throw new GenerationCancelledError(generationId);
+    }
+  }
+
+  /**
+   * Reserve a generation's cost (idempotent)
+   * If the hold fails for any reason, the generation is marked failed (nothing else would
+   * ever settle it) and the error rethrown. A hold that may have committed despite the
+   * error is released.
+   * DEV_MODE: Skip credit holds for local testing
+   */
+  protected async reserveCredits(
+    userId: string,
+    projectId: string,
+    generationId: string,
+    cost: number = this.cost
+  ): Promise<void> {
+    if (process.env.DEV_MODE === 'true') {
+      return;
+    }
+
+    try {
+      await holdCredits(userId, cost, { generationId, projectId });
+    } catch (error: any) {
+      if (error instanceof InsufficientCreditsError) {
+        await this.updateGenerationStatus(generationId, 'failed', {
+          errorMessage: 'Insufficient credits. No credits were charged.',
+        });
+        throw error;
+      }
+
+      try {
+        await releaseCredits(generationId, 'failed');
+      } catch (releaseError) {
+        console.error(`[${this.name}] Failed to release credits for generation ${generationId}:`, releaseError);
+      }
+      await this.updateGenerationStatus(generationId, 'failed', {
+        errorMessage: 'Failed to reserve credits for the generation. No credits were charged.',
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a checkpointed step from a generation
+   */
+  protected async getStep(generationId: string, name: string): Promise<GenerationStep | undefined> {
+    const doc = await getFirestore().collection('generations').doc(generationId).get();
+    const steps: GenerationStep[] = doc.data()?.steps || [];
+    return steps.find((step) => step.name === name);
+  }
+
+  /**
+   * Insert or update a step in the generation's `steps` array
+   * Artifacts are merged so partial progress (e.g. a provider task ID) isn't lost.
+   */
+  private async saveStep(
+    generationId: string,
+    name: string,
+    update: Partial<GenerationStep>
+  ): Promise<void> {
+    const db = getFirestore();
+    const generationRef = db.collection('generations').doc(generationId);
+
+    await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(generationRef);
+      if (!doc.exists) {
+        throw new Error(`Generation ${generationId} does not exist`);
+      }
+
+      const steps: GenerationStep[] = [...(doc.data()?.steps || [])];
+      const index = steps.findIndex((step) => step.name === name);
+      const previous = index >= 0 ? steps[index] : undefined;
+
+      const step: any = { ...previous, ...update, name };
+      if (previous?.artifacts || update.artifacts) {
+        // Firestore rejects undefined values, so strip them from artifacts
+        step.artifacts = JSON.parse(JSON.stringify({ ...previous?.artifacts, ...update.artifacts }));
+      }
+      for (const key of Object.keys(step)) {
+        if (step[key] === undefined) {
+          delete step[key];
+        }
+      }
+
+      if (index >= 0) {
+        steps[index] = step;
+      } else {
+        steps.push(step);
+      }
+
+      transaction.update(generationRef, {
+        steps,
+        updated_at: admin.firestore.Timestamp.now(),
+      });
+    });
+  }
+
+  /**
+   * Record partial artifacts for a running step (e.g. a submitted provider task ID)
+   */
+  protected async recordStepArtifacts(
+    generationId: string,
+    name: string,
+    artifacts: Record<string, any>
+  ): Promise<void> {
+    try {
+      await this.saveStep(generationId, name, { artifacts });
+    } catch (error: any) {
+      console.error(`[${this.name}] Failed to record artifacts for step "${name}":`, error.message);
+    }
+  }
+
+  /**
+   * Run a workflow step with checkpointing
+   *
+   * A step already completed on this generation is skipped and its stored artifacts
+   * returned, so a resumed run continues after the last successful step. Artifacts
+   * recorded by an interrupted attempt are passed to `fn` so it can pick up where it left off.
+   */
+  protected async runStep<T extends Record<string, any>>(
+    generationId: string,
+    name: string,
+    fn: (partialArtifacts?: Record<string, any>) => Promise<T>
+  ): Promise<T> {
+    await this.throwIfCancelled(generationId);
+
+    const existing = await this.getStep(generationId, name);
+    if (existing?.status === 'completed') {
+      console.log(`[${this.name}] Resuming generation ${generationId}: skipping completed step "${name}"`);
+      return (existing.artifacts || {}) as T;
+    }
+
+    const startedAt = admin.firestore.Timestamp.now();
+    await this.saveStep(generationId, name, {
+      status: 'running',
+      attempts: (existing?.attempts || 0) + 1,
+      started_at: startedAt as any,
+      completed_at: undefined,
+      duration_ms: undefined,
+      error_message: undefined,
+    });
+
+    try {
+      const artifacts = await fn(existing?.artifacts);
+      if (this.hasLostLease(generationId)) {
+        throw new LeaseLostError(generationId);
+      }
+      const completedAt = admin.firestore.Timestamp.now();
+      await this.saveStep(generationId, name, {
+        status: 'completed',
+        completed_at: completedAt as any,
+        duration_ms: completedAt.toMillis() - startedAt.toMillis(),
+        artifacts,
+      });
+      return artifacts;
+    } catch (error: any) {
+      if (error instanceof LeaseLostError || this.hasLostLease(generationId)) {
+        throw new LeaseLostError(generationId);
+      }
+      const failedAt = admin.firestore.Timestamp.now();
+      try {
+        await this.saveStep(generationId, name, {
+          status: 'failed',
+          duration_ms: failedAt.toMillis() - startedAt.toMillis(),
+          error_message: error.message || 'Unknown error',
+        });
+      } catch (saveError: any) {
+        console.error(`[${this.name}] Failed to record failure of step "${name}":`, saveError.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Store a step artifact in the generation's Storage folder
+   * Provider output URLs expire, so anything a resumed run needs is copied here.
+   */
+  protected async storeArtifact(
+    generationId: string,
+    source: { filePath: string } | { buffer: Buffer },
+    filename: string,
+    contentType: string
+  ): Promise<string> {
+    const doc = await getFirestore().collection('generations').doc(generationId).get();
+    const generation = doc.data();
+    if (!generation?.project_id || !generation.generation_number) {
+      throw new Error(`Generation ${generationId} has no project or generation number`);
+    }
+
+    const storagePath = getGenerationStoragePath(
+      generation.user_id,
+      generation.project_id,
+      generation.generation_number,
+      filename
+    );
+
+    return 'filePath' in source
+      ? uploadToStorage(source.filePath, storagePath, contentType)
+      : uploadBuffer(source.buffer, storagePath, contentType);
+  }
+
+  /**
+   * Post-process the provider's GLB with the options chosen for the generation
+   * `overrides` are options worked out during the run (e.g. a floorplan's scale).
+   *
+   * Checkpointed as the 'post_process' step. Returns null when no processing was
+   * requested. Processing is best-effort: if it fails, the original model is kept
+   * and the error is recorded in the result.
+   */
+  protected async runPostProcessingStep(
+    generationId: string,
+    modelUrl: string,
+    overrides?: PostProcessingOptions
+  ): Promise<{ model_url: string; post_processing: PostProcessingResult } | null> {
+    const generation = await getGeneration(generationId);
+    const options = overrides
+      ? { ...generation?.input_data?.post_processing, ...overrides }
+      : generation?.input_data?.post_processing;
+    if (!hasPostProcessing(options)) {
+      return null;
+    }
+
+    return this.runStep(generationId, 'post_process', async () => {
+      try {
+        const { buffer, stats } = await postProcessGlb(await readAssetUrl(modelUrl), options);
+        const processedUrl = await this.storeArtifact(
+          generationId,
+          { buffer },
+          'model_processed.glb',
+          'model/gltf-binary'
+        );
+        console.log(
+          `[${this.name}] Post-processed generation ${generationId}: ` +
+          `${stats.triangles_before} -> ${stats.triangles_after} triangles, ` +
+          `${stats.size_bytes_before} -> ${stats.size_bytes_after} bytes`
+        );
+        return {
+          model_url: processedUrl,
+          post_processing: { options, original_model_url: modelUrl, ...stats },
+        };
+      } catch (error: any) {
+        await this.throwIfCancelled(generationId);
+        console.error(`[${this.name}] Post-processing failed for generation ${generationId}, keeping original model:`, error.message);
+        return {
+          model_url: modelUrl,
+          post_processing: { options, original_model_url: modelUrl, error: error.message || 'Unknown error' },
+        };
+      }
+    });
+  }
+
+  /**
+   * Upload an inline (data URI) or remote input image to Storage
+   * Job payloads live in Firestore documents, which can't hold multi-megabyte data URIs.
+   * Remote images are copied too when the workflow stores its input images.
+   * Additional reference views are stored next to the first as input_2, input_3...
+   */
+  protected async persistInputImage(
+    userId: string,
+    projectId: string,
+    generationNumber: number,
+    imagePath: string,
+    index: number = 0
+  ): Promise<string> {
+    const match = imagePath.match(/^data:(image\/[a-zA-Z0-9.+-]+);base64,(.+)$/);
+    let contentType: string;
+    let buffer: Buffer;
+    if (match) {
+      contentType = match[1];
+      buffer = Buffer.from(match[2], 'base64');
+    } else if (this.storesInputImages && /^https?:\/\//.test(imagePath) && !getStoragePathFromUrl(imagePath)) {
+      ({ contentType, buffer } = await this.fetchRemoteImage(imagePath));
+    } else {
+      return imagePath;
+    }
+
+    const extension = contentType.split('/')[1].replace('jpeg', 'jpg').replace(/[^a-z0-9]/g, '');
+    const storagePath = getGenerationStoragePath(
+      userId,
+      projectId,
+      generationNumber,
+      index === 0 ? `input.${extension}` : `input_${index + 1}.${extension}`
+    );
+    return uploadBuffer(buffer, storagePath, contentType);
+  }
+
+  /**
+   * Download a remote input image through the asset proxy
+   * The proxy only fetches allowlisted hosts and never private addresses, so the
+   * request can't be used to read internal services.
+   */
+  private async fetchRemoteImage(imageUrl: string): Promise<{ contentType: string; buffer: Buffer }> {
+    try {
+      const response = await proxyAsset(imageUrl, { method: 'GET' });
+      const contentType = (response.headers.get('content-type') || '').split(';')[0].trim();
+      if (!/^image\/[a-zA-Z0-9.+-]+$/.test(contentType)) {
+        response.body?.cancel();
+        throw new ValidationError('The image URL does not point to an image', 'imagePath');
+      }
+      return { contentType, buffer: Buffer.from(await new Response(response.body).arrayBuffer()) };
+    } catch (error: any) {
+      if (error instanceof ProxyError) {
+        throw new ValidationError(`Could not fetch the image: ${error.message}`, 'imagePath');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Enqueue a run of this workflow on the persistent job queue
+   *
+   * Creates the project (if needed) and the generation up front so callers can
+   * return the generation ID immediately; a worker then calls run() with it.
+   */
+  async enqueue(
+    userId: string,
+    input: WorkflowRunInput
+  ): Promise<{ generationId: string; projectId: string; jobId: string }> {
+    let postProcessing: PostProcessingOptions | undefined;
+    let generationOptions: GenerationOptions | undefined;
+    let floorplanScale: FloorplanScale | undefined;
+    let floorplanMode: FloorplanMode | undefined;
+    let floorplanLayout: FloorplanLayout | undefined;
+    let renderStyle: RenderStyleWithId | undefined;
+    try {
+      validateWorkflowInput({ prompt: input.prompt, imagePath: input.imagePath, imagePaths: input.imagePaths });
+      // Images already in our bucket are signed for providers and downloads, so they must be the user's own
+      for (const imageUrl of [input.imagePath, ...(input.imagePaths || [])]) {
+        const storagePath = imageUrl ? getStoragePathFromUrl(imageUrl) : null;
+        if (storagePath && !isUserStoragePath(storagePath, userId)) {
+          throw new ValidationError('Images in storage must be your own uploads', 'imagePath');
+        }
+        if (this.storesInputImages && imageUrl && !storagePath && !imageUrl.startsWith('data:')) {
+          try {
+            assertAllowedUrl(imageUrl);
+          } catch (error: any) {
+            if (error instanceof ProxyError) {
+              throw new ValidationError(
+                `Images for the ${this.workflowType} workflow must be uploaded or come from an allowed host`,
+                'imagePath'
+              );
+            }
+            throw error;
+          }
+        }
+      }
+      if (input.imagePaths && input.imagePaths.length > 1 && !this.supportsMultipleImages) {
+        throw new ValidationError(`Multiple images are not supported by the ${this.workflowType} workflow`, 'imagePaths');
+      }
+      postProcessing = validatePostProcessingOptions(input.postProcessing);
+      if (input.generationOptions && !this.supportsGenerationOptions) {
+        throw new ValidationError(`generation_options are not supported by the ${this.workflowType} workflow`, 'generation_options');
+      }
+      generationOptions = validateGenerationOptions(input.generationOptions);
+      if (input.floorplanScale && !this.supportsFloorplanScale) {
+        throw new ValidationError(`floorplan_scale is not supported by the ${this.workflowType} workflow`, 'floorplan_scale');
+      }
+      floorplanScale = validateFloorplanScale(input.floorplanScale);
+      if ((input.floorplanMode || input.floorplanLayout) && !this.supportsFloorplanLayout) {
+        throw new ValidationError(`floorplan_mode and floorplan_layout are not supported by the ${this.workflowType} workflow`, 'floorplan_mode');
+      }
+      floorplanMode = validateFloorplanMode(input.floorplanMode);
+      floorplanLayout = validateFloorplanLayout(input.floorplanLayout);
+      if (floorplanScale) {
+        if (!input.imagePath) {
+          throw new ValidationError('floorplan_scale needs an uploaded floorplan image', 'floorplan_scale');
+        }
+        if (postProcessing?.target_size_m || postProcessing?.target_footprint_m) {
+          throw new ValidationError('post_processing scaling can\'t be combined with floorplan_scale', 'post_processing');
+        }
+        // Extruded models are built in meters; reconstructed ones are scaled during the run,
+        // once the building's outline on the plan is known
+      }
+      if (input.renderStyle !== undefined && !this.supportsRenderStyles) {
+        throw new ValidationError(`render_style is not supported by the ${this.workflowType} workflow`, 'render_style');
+      }
+      if (input.renderStyle !== undefined && floorplanMode === 'extrude') {
+        throw new ValidationError('render_style only applies to the reconstruct floorplan_mode', 'render_style');
+      }
+      if (generationOptions?.pipeline === 'direct') {
+        if (input.imagePath || input.imagePaths?.length) {
+          throw new ValidationError('The direct pipeline takes a prompt only, not images', 'generation_options.pipeline');
+        }
+        if (input.prompt && input.prompt.length > MAX_DIRECT_PROMPT_LENGTH) {
+          throw new ValidationError(`Prompt is too long for the direct pipeline (max ${MAX_DIRECT_PROMPT_LENGTH} characters)`, 'prompt');
+        }
+      }
+    } catch (error: any) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      throw new ValidationError(`Invalid input: ${error.message}`);
+    }
+
+    // Extruded floorplans have no isometric view; the rest record the style they're rendered in
+    if (this.supportsRenderStyles && floorplanMode !== 'extrude') {
+      try {
+        renderStyle = await getRenderStyle(input.renderStyle);
+      } catch (error: any) {
+        if (error instanceof RenderStyleError && error.code === 'INVALID_STYLE') {
+          throw new ValidationError(error.message, 'render_style');
+        }
+        throw error;
+      }
+    }
+
+    const cost = floorplanMode ? getFloorplanModeCost(floorplanMode) : this.getCost(generationOptions);
+    const queued = await this.enqueueGeneration(userId, input, {
+      prompt: input.prompt,
+      has_image: !!(input.imagePath || input.imagePaths?.length),
+      ...(postProcessing ? { post_processing: postProcessing } : {}),
+      ...(generationOptions ? { generation_options: generationOptions, cost } : {}),
+      ...(floorplanScale ? { floorplan_scale: floorplanScale } : {}),
+      ...(floorplanMode ? { floorplan_mode: floorplanMode, cost } : {}),
+      ...(floorplanLayout ? { floorplan_layout: floorplanLayout } : {}),
+      ...(renderStyle ? { render_style: renderStyle.id, render_style_prompt: renderStyle.prompt } : {}),
+    }, cost);
+
+    // The project keeps the latest traced plan, so the editor can reopen it
+    if (floorplanLayout) {
+      await updateProject(queued.projectId, { floorplan_layout: floorplanLayout });
+    }
+    return queued;
+  }
+
+  /**
+   * Create a pending generation with validated input data, hold its cost and queue its job
+   */
+  protected async enqueueGeneration(
+    userId: string,
+    input: WorkflowRunInput,
+    inputData: GenerationInputData,
+    cost: number,
+    link: { parentGenerationId?: string } = {}
+  ): Promise<{ generationId: string; projectId: string; jobId: string }> {
+    // Fail fast on insufficient credits instead of creating a generation that can't be paid for
+    // DEV_MODE: Skip credit checks for local testing
+    if (process.env.DEV_MODE !== 'true') {
+      const available = await getUserCredits(userId);
+      if (available < cost) {
+        throw new InsufficientCreditsError(available, cost);
+      }
+    }
+
+    const projectId = await this.getOrCreateProject(
+      userId,
+      this.workflowType,
+      input.projectId,
+      this.getProjectTitle(input)
+    );
+
+    const generationId = await this.createGenerationEvent(userId, this.workflowType, inputData, projectId);
+    if (link.parentGenerationId) {
+      await updateGeneration(generationId, { parent_generation_id: link.parentGenerationId });
+    }
+
+    const generationNumber = await this.assignGenerationNumber(projectId, generationId);
+
+    // Reserve the cost now so concurrent generations can't overspend the balance
+    await this.reserveCredits(userId, projectId, generationId, cost);
+
+    // Without a job nothing would ever settle the hold, so a failure here fails the generation
+    let job: { id: string };
+    try {
+      let imagePath = input.imagePaths?.[0] ?? input.imagePath;
+      let imagePaths = input.imagePaths;
+      if (imagePaths) {
+        imagePaths = await Promise.all(
+          imagePaths.map((path, index) => this.persistInputImage(userId, projectId, generationNumber, path, index))
+        );
+        imagePath = imagePaths[0];
+        await updateGeneration(generationId, {
+          'input_data.image_path': imagePath,
+          'input_data.image_paths': imagePaths,
+        } as any);
+      } else if (imagePath) {
+        const persisted = await this.persistInputImage(userId, projectId, generationNumber, imagePath);
+        if (persisted !== imagePath) {
+          imagePath = persisted;
+          await updateGeneration(generationId, { 'input_data.image_path': imagePath } as any);
+        }
+      }
+
+      job = await enqueueJob({
+        type: 'generation',
+        userId,
+        workflowType: this.workflowType,
+        generationId,
+        projectId,
+        payload: {
+          prompt: input.prompt,
+          imagePath,
+          ...(imagePaths ? { imagePaths } : {}),
+        },
+      });
+    } catch (error) {
+      if (process.env.DEV_MODE !== 'true') {
+        try {
+          await releaseCredits(generationId, 'failed');
+        } catch (creditError) {
+          console.error(`[${this.name}] Failed to release credits for generation ${generationId}:`, creditError);
+        }
+      }
+      await this.updateGenerationStatus(generationId, 'failed', {
+        errorMessage: 'Failed to queue the generation. No credits were charged.',
+      });
+      throw error;
+    }
+
+    return { generationId, projectId, jobId: job.id };
+  }
+
+  /**
+   * Run a queued generation for a job worker
+   * `signal` is aborted when the worker loses the job's lease; the run then stops at
+   * its next checkpoint with a LeaseLostError instead of writing its results.
+   */
+  async runJob(
+    userId: string,
+    input: WorkflowRunInput & { generationId: string },
+    signal: AbortSignal
+  ): Promise<{ generationId: string; result: any }> {
+    this.leaseSignals.set(input.generationId, signal);
+    try {
+      return await this.run(userId, input);
+    } finally {
+      this.leaseSignals.delete(input.generationId);
+    }
+  }
+
   /**
    * Abstract method: Run the workflow
    * Must be implemented by subclasses
    */
   abstract run(
     userId: string,
-    input: {
-      prompt?: string;
-      imagePath?: string;
-      projectId?: string;
-      generationId?: string;
-    }
+    input: WorkflowRunInput
   ): Promise<{
     generationId: string;
     result: any;
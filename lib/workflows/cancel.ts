@@ -0,0 +1,128 @@
+import admin from '@/lib/server/firebase-admin';
+import { getFirestore } from '@/lib/server/firestore';
+import { releaseCredits, refundGenerationCredits } from '@/lib/server/billing';
+import {
+  createModelProvider,
+  isModelProviderName,
+  MeshyMultiImageProvider,
+  MeshyRetextureProvider,
+  MeshyTextTo3DProvider,
+  type ModelProvider,
+  type ModelProviderName,
+} from '@/lib/server/providers';
+import type { GenerationOutputData, GenerationWithId } from '@/types/firestore';
+
+/**
+ * Custom error classes
+ */
+export class CancelGenerationError extends Error {
+  constructor(message: string, public code?: string, public status: number = 400) {
+    super(message);
+    this.name = 'CancelGenerationError';
+  }
+}
+
+/**
+ * Find the upstream provider task for a generation
+ * Older generations only have the vendor-specific task ID fields.
+ */
+function getProviderTask(
+  outputData?: GenerationOutputData
+): { provider: ModelProviderName; taskId: string } | null {
+  if (!outputData) {
+    return null;
+  }
+  if (isModelProviderName(outputData.provider) && outputData.provider_task_id) {
+    return { provider: outputData.provider, taskId: outputData.provider_task_id };
+  }
+  if (outputData.meshy_task_id) {
+    return { provider: 'meshy', taskId: outputData.meshy_task_id };
+  }
+  if (outputData.replicate_prediction_id) {
+    return { provider: 'trellis', taskId: outputData.replicate_prediction_id };
+  }
+  return null;
+}
+
+/**
+ * Provider client for a generation's task
+ * Refine, multi-view and direct generations run on their own Meshy APIs rather than image-to-3d.
+ */
+function getTaskProvider(generation: GenerationWithId, name: ModelProviderName): ModelProvider {
+  if (name === 'meshy' && generation.input_data?.refine) {
+    return new MeshyRetextureProvider();
+  }
+  if (name === 'meshy' && (generation.input_data?.image_paths?.length ?? 0) > 1) {
+    return new MeshyMultiImageProvider();
+  }
+  if (name === 'meshy' && generation.input_data?.generation_options?.pipeline === 'direct') {
+    return new MeshyTextTo3DProvider();
+  }
+  return createModelProvider(name);
+}
+
+/**
+ * Cancel an in-flight generation
+ *
+ * 1. Marks the generation 'cancelled' (only from 'pending' or 'generating'), which
+ *    stops the worker at its next checkpoint and blocks any later credit charge
+ * 2. Cancels the upstream Meshy task / Replicate prediction (best effort)
+ * 3. Releases the generation's credit hold, and refunds anything already captured
+ *    via a 'refund' transaction
+ */
+export async function cancelGeneration(
+  generationId: string,
+  userId: string
+): Promise<{ generation: GenerationWithId; released: number; refunded: number; upstreamCancelled: boolean }> {
+  const db = getFirestore();
+  const generationRef = db.collection('generations').doc(generationId);
+
+  const generation = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(generationRef);
+    const data = doc.data();
+    if (!doc.exists || !data) {
+      throw new CancelGenerationError('Generation not found', 'NOT_FOUND', 404);
+    }
+    if (data.user_id !== userId) {
+      throw new CancelGenerationError('Unauthorized: Generation does not belong to user', 'FORBIDDEN', 403);
+    }
+    if (data.status !== 'pending' && data.status !== 'generating') {
+      throw new CancelGenerationError(
+        `Generation cannot be cancelled (status: ${data.status})`,
+        'NOT_CANCELLABLE',
+        409
+      );
+    }
+
+    const now = admin.firestore.Timestamp.now();
+    const updates = {
+      status: 'cancelled',
+      error_message: 'Cancelled by user',
+      cancelled_at: now,
+      updated_at: now,
+    };
+    transaction.update(generationRef, updates);
+    return { id: doc.id, ...data, ...updates } as GenerationWithId;
+  });
+
+  console.log(`[Cancel] Generation ${generationId} cancelled by user ${userId}`);
+
+  let upstreamCancelled = false;
+  const providerTask = getProviderTask(generation.output_data);
+  if (providerTask) {
+    try {
+      const provider = getTaskProvider(generation, providerTask.provider);
+      await provider.cancel(providerTask.taskId);
+      upstreamCancelled = true;
+      console.log(`[Cancel] Cancelled ${providerTask.provider} task ${providerTask.taskId}`);
+    } catch (error: any) {
+      // The worker stops polling at its next checkpoint either way
+      console.error(`[Cancel] Failed to cancel ${providerTask.provider} task ${providerTask.taskId}:`, error.message);
+    }
+  }
+
+  const released = await releaseCredits(generationId, 'cancelled');
+  const refunded = await refundGenerationCredits(generationId, 'cancelled');
+
+  return { generation, released, refunded, upstreamCancelled };
+}
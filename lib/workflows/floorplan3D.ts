@@ -1,17 +1,43 @@
-import Replicate from 'replicate';
+import type Replicate from 'replicate';
 import axios, { AxiosError } from 'axios';
-import { BaseWorkflow } from './base';
-import { checkCredits, deductCredits } from '@/lib/server/billing';
-import { uploadBuffer, getGenerationStoragePath } from '@/lib/server/storage';
+import { BaseWorkflow, GenerationCancelledError, LeaseLostError, type WorkflowRunInput } from './base';
+import { captureCredits, releaseCredits } from '@/lib/server/billing';
+import { mirrorGenerationAssetsSafely, readAssetUrl } from '@/lib/server/assets';
+import { inspectGenerationModelSafely } from '@/lib/server/inspection';
+import {
+  uploadBuffer,
+  getGenerationStoragePath,
+  getStoragePathFromUrl,
+  isUserStoragePath,
+  resolveStorageUrl,
+} from '@/lib/server/storage';
 import { retryWithBackoff } from '@/lib/server/retry';
+import { createReplicateClient } from '@/lib/server/vendors';
 import { withTimeout, TimeoutError } from '@/lib/server/timeout';
 import { validateWorkflowInput, ValidationError } from '@/lib/server/validation';
-import type { WorkflowType } from '@/types/firestore';
+import { getGeneration, updateGeneration } from '@/lib/server/firestore';
+import { extractFloorplanLayout } from '@/lib/server/floorplanExtraction';
+import { buildFloorplanGlb, getDefaultPlanExtent, readImageSize } from '@/lib/server/extrusion';
+import { getFloorplanExtent, getFloorplanFootprint } from '@/lib/floorplanScale';
+import { getLayoutOutlinePoints, layoutFromExtraction, RECONSTRUCT_COST } from '@/lib/floorplanLayout';
+import { buildIsometricPrompt, getRenderStyle } from '@/lib/server/renderStyles';
+import {
+  createModelProvider,
+  getModelProvider,
+  isModelProviderName,
+  waitForProviderTask,
+} from '@/lib/server/providers';
+import type {
+  FloorplanExtraction,
+  FloorplanLayout,
+  FloorplanScale,
+  PostProcessingOptions,
+  WorkflowType,
+} from '@/types/firestore';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
-const TRELLIS_VERSION = '4876f2a8da1c544772dffa32e8889da4a1bab3a1f5c1937bfcfccb99ae347251';
 const REPLICATE_TIMEOUT = 300000; // 5 minutes
 const FILE_DOWNLOAD_TIMEOUT = 300000; // 5 minutes for large files
 const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
@@ -21,19 +47,30 @@ const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
  * 
  * Workflow steps:
  * 1. Generate floorplan from prompt (if needed) - Replicate (FREE)
- * 2. Convert floorplan to isometric view - Replicate (FREE)
- * 3. Convert isometric to 3D model - TRELLIS via Replicate (125 credits)
+ * 2. Convert floorplan to isometric view in the chosen render style - Replicate (FREE)
+ * 3. Convert isometric to 3D model - model provider, TRELLIS via Replicate by default (125 credits)
+ * 4. Read the plan's rooms, doors and windows - vision model via Replicate (FREE, best effort)
+ * With a floorplan_scale, post-processing sizes the model to the plan's real-world footprint.
+ *
+ * The extrude floorplan_mode replaces steps 2-3 with geometry built from the layout (25 credits):
+ * the user-drawn floorplan_layout, or the one read in step 4, which is then required.
+ * With a drawn layout and an uploaded plan it calls no external service.
  */
 export class FloorplanTo3DWorkflow extends BaseWorkflow {
   readonly name = 'Floorplan to 3D';
-  readonly cost = 125; // Cost per 3D generation (125 credits). Image generation steps are FREE.
+  readonly workflowType = 'floorplan-3d' as const;
+  readonly cost = RECONSTRUCT_COST; // Cost per 3D generation (125 credits). Image generation steps are FREE.
+  protected readonly supportsFloorplanScale = true;
+  protected readonly supportsFloorplanLayout = true;
+  protected readonly supportsRenderStyles = true;
+  protected readonly storesInputImages = true;
 
   private getReplicateClient(): Replicate {
     const token = process.env.REPLICATE_API_TOKEN;
     if (!token) {
       throw new Error('REPLICATE_API_TOKEN environment variable is required');
     }
-    return new Replicate({ auth: token });
+    return createReplicateClient(token);
   }
 
   /**
@@ -129,29 +166,24 @@ export class FloorplanTo3DWorkflow extends BaseWorkflow {
   /**
    * Convert 2D floorplan to isometric view using Replicate
    * With retry logic, timeout handling, and file validation
+   * @param stylePrompt - The render style's prompt, describing the look of the view
    */
-  private async convertToIsometric(imagePath: string): Promise<string> {
-    // Validate file exists
-    if (!fs.existsSync(imagePath)) {
-      throw new ValidationError(`Image file not found: ${imagePath}`, 'imagePath');
-    }
+  private async convertToIsometric(imagePath: string, stylePrompt: string): Promise<string> {
+    // Local files are validated here; URLs are fetched by Replicate
+    if (!/^https?:\/\//.test(imagePath)) {
+      // Validate file exists
+      if (!fs.existsSync(imagePath)) {
+        throw new ValidationError(`Image file not found: ${imagePath}`, 'imagePath');
+      }
 
-    // Validate file size
-    const stats = fs.statSync(imagePath);
-    if (stats.size > MAX_FILE_SIZE) {
-      throw new Error(`Image file too large: ${(stats.size / 1024 / 1024).toFixed(2)}MB (max ${MAX_FILE_SIZE / 1024 / 1024}MB)`);
+      // Validate file size
+      const stats = fs.statSync(imagePath);
+      if (stats.size > MAX_FILE_SIZE) {
+        throw new Error(`Image file too large: ${(stats.size / 1024 / 1024).toFixed(2)}MB (max ${MAX_FILE_SIZE / 1024 / 1024}MB)`);
+      }
     }
 
-    const editPrompt = `Create a high-end, 3D isometric visualization of this 2D floor plan, styled as a photorealistic Blender (Cycles) 3D render.
-View: Low-angle isometric.
-Style & Lighting: Achieve a bright, airy, and clean atmosphere using a global illumination setup (like an HDRI) for soft, diffuse, and physically accurate lighting. Shadows must be subtle and soft-edged.
-Materials & Furniture: Use high-quality, PBR materials.
-Floors: Light-colored with realistic textures (e.g., light wood, matte white tiles).
-Furniture & Kitchen: All furniture, including kitchen cabinetry and islands, must be a little dark in color (e.g., charcoal gray, dark walnut wood, muted earth tones) to create a gentle contrast. Models should be simple, modern, and have clean geometry.
-Instructions:
-PRIMARY DIRECTIVE: GEOMETRIC ACCURACY IS NON-NEGOTIABLE. The final 3D model must be an exact replica of the 2D floor plan's layout, wall placement, and proportions. Do not alter the scale, shape, or dimensions of any room or structural element. Any deviation from the source layout is a failure.
-CLEAN VISUALIZATION ONLY: The final 3D image must be a clean architectural rendering. Absolutely no text, labels, dimensions, or measurement lines from the original 2D plan are to be included.
-Ensure the entire structure is visible with a margin around it.`;
+    const editPrompt = buildIsometricPrompt(stylePrompt);
 
     return retryWithBackoff(
       async () => {
@@ -161,7 +193,7 @@ Ensure the entire structure is visible with a margin around it.`;
           replicate.run('google/nano-banana', {
             input: {
               prompt: editPrompt,
-              image_input: imagePath, // File path as string
+              image_input: imagePath, // File path or URL as string
               output_format: 'png',
             },
           }),
@@ -185,73 +217,52 @@ Ensure the entire structure is visible with a margin around it.`;
   }
 
   /**
-   * Convert isometric image to 3D GLB model using TRELLIS
-   * With retry logic, timeout handling, and file validation
+   * Convert isometric image to 3D GLB model using the configured model provider (TRELLIS by default)
+   * Downloads the outputs to temp files
    */
-  private async generate3DModel(isometricPath: string): Promise<{ glbPath: string; videoPath?: string }> {
-    // Validate file exists
-    if (!fs.existsSync(isometricPath)) {
-      throw new ValidationError(`Isometric image file not found: ${isometricPath}`, 'isometricPath');
+  private async generate3DModel(
+    isometricUrl: string,
+    generationId: string,
+    resume?: { provider?: string; task_id?: string }
+  ): Promise<{ glbPath: string; videoPath?: string; provider: string; taskId: string }> {
+    // A resumed run keeps the provider and task of the interrupted attempt
+    const provider = isModelProviderName(resume?.provider)
+      ? createModelProvider(resume.provider)
+      : getModelProvider(this.workflowType, generationId);
+
+    let taskId = resume?.task_id;
+    if (taskId) {
+      console.log(`[Floorplan3D] Resuming ${provider.name} task ${taskId}`);
+    } else {
+      taskId = await provider.submit({ imageUrl: isometricUrl });
+      await this.recordStepArtifacts(generationId, 'generate_3d', { provider: provider.name, task_id: taskId });
+      await updateGeneration(generationId, {
+        'output_data.provider': provider.name,
+        'output_data.provider_task_id': taskId,
+        ...(provider.name === 'trellis' ? { 'output_data.replicate_prediction_id': taskId } : {}),
+      } as any).catch((error: any) => {
+        console.error('[Floorplan3D] Failed to store task ID in Firestore:', error);
+      });
     }
 
-    return retryWithBackoff(
-      async () => {
-        const replicate = this.getReplicateClient();
-
-        const output = await withTimeout(
-          replicate.run(`firtoz/trellis:${TRELLIS_VERSION}`, {
-            input: {
-              images: [isometricPath], // File path as string
-              seed: 0,
-              randomize_seed: true,
-              generate_color: true,
-              generate_normal: true,
-              generate_model: true,
-              ss_guidance_strength: 7.5,
-              ss_sampling_steps: 12,
-              slat_guidance_strength: 3.0,
-              slat_sampling_steps: 12,
-              mesh_simplify: 0.95,
-              texture_size: 2048,
-            },
-          }).then((output) => {
-            // Validate output structure immediately
-            if (!output || typeof output !== 'object') {
-              throw new Error(`Unexpected output format from Trellis: ${typeof output}`);
-            }
-            return output;
-          }).catch((error) => {
-            console.error('[Floorplan3D] Replicate Trellis Error:', error);
-            throw error;
-          }),
-          REPLICATE_TIMEOUT * 2, // TRELLIS takes longer, allow 10 minutes
-          '3D model generation timed out'
-        );
-
-        if (!output || typeof output !== 'object') {
-          throw new Error(`Unexpected output format from Trellis: ${typeof output}`);
-        }
-
-        const modelUrl = (output as any).model_file;
-        const videoUrl = (output as any).combined_video;
-
-        if (!modelUrl || typeof modelUrl !== 'string') {
-          throw new Error('Failed to generate 3D model: No model file in Trellis output.');
-        }
+    const task = await waitForProviderTask(provider, taskId, {
+      timeoutMs: REPLICATE_TIMEOUT * 2, // TRELLIS takes longer, allow 10 minutes
+      onProgress: async ({ progress }) => {
+        await this.throwIfCancelled(generationId);
+        // Map provider progress to our 75-95% range; downloading and storing follows
+        await this.updateGenerationStatus(generationId, 'generating', {
+          progressPercentage: 75 + Math.floor((progress / 100) * 20),
+        });
+      },
+    });
+    const outputs = provider.parseOutputs(task);
 
-        const glbPath = await this.downloadToTemp(modelUrl, '.glb');
-        const videoPath = videoUrl && typeof videoUrl === 'string'
-          ? await this.downloadToTemp(videoUrl, '.mp4')
-          : undefined;
+    const glbPath = await this.downloadToTemp(outputs.model_urls.glb!, '.glb');
+    const videoPath = outputs.preview_video_url
+      ? await this.downloadToTemp(outputs.preview_video_url, '.mp4')
+      : undefined;
 
-        return { glbPath, videoPath };
-      },
-      {
-        maxRetries: 2, // TRELLIS is expensive, fewer retries
-        initialDelay: 5000,
-        maxDelay: 30000,
-      }
-    );
+    return { glbPath, videoPath, provider: provider.name, taskId };
   }
 
   /**
@@ -270,6 +281,56 @@ Ensure the entire structure is visible with a margin around it.`;
     }
   }
 
+  /**
+   * Read the layout of the plan, recording a failure instead of failing the generation
+   */
+  private async runExtractionStep(
+    generationId: string,
+    floorplanUrl: string,
+    scale?: FloorplanScale
+  ): Promise<{ extraction?: FloorplanExtraction; error?: string }> {
+    return this.runStep(generationId, 'extract_layout', async () => {
+      try {
+        const extraction = await extractFloorplanLayout(await resolveStorageUrl(floorplanUrl), scale);
+        // The signed URL expires; keep the stored one
+        return { extraction: { ...extraction, source_url: floorplanUrl } };
+      } catch (error: any) {
+        await this.throwIfCancelled(generationId);
+        console.error(`[${this.name}] Layout extraction failed for generation ${generationId}:`, error.message);
+        return { error: error.message || 'Unknown error' };
+      }
+    });
+  }
+
+  /**
+   * Build the model from the layout's walls, floors and openings
+   * Points are sized by the floorplan_scale, or DEFAULT_PLAN_SIZE_M along the plan image's longer side.
+   */
+  private async extrudeLayout(
+    generationId: string,
+    layout: FloorplanLayout,
+    floorplanUrl: string,
+    scale?: FloorplanScale
+  ): Promise<string> {
+    let extent = scale ? getFloorplanExtent(scale) : null;
+    if (!extent) {
+      const imageSize: [number, number] | null = layout.image_width && layout.image_height
+        ? [layout.image_width, layout.image_height]
+        : readImageSize(await readAssetUrl(floorplanUrl));
+      extent = getDefaultPlanExtent(imageSize);
+    }
+
+    const glb = await buildFloorplanGlb(layout, extent);
+    return this.storeArtifact(generationId, { buffer: glb }, 'model.glb', 'model/gltf-binary');
+  }
+
+  /**
+   * Title for projects created by this workflow
+   */
+  protected getProjectTitle({ prompt }: WorkflowRunInput): string {
+    return prompt ? `Floorplan: ${prompt.slice(0, 30)}...` : 'Floorplan to 3D';
+  }
+
   /**
    * Run the Floorplan-to-3D workflow
    */
@@ -300,20 +361,12 @@ Ensure the entire structure is visible with a margin around it.`;
     // DEV_MODE: Skip credit checks for local testing
     const devMode = process.env.DEV_MODE === 'true';
 
-    // Check credits (unless in dev mode)
-    if (!devMode) {
-      const hasCredits = await checkCredits(userId, this.cost);
-      if (!hasCredits) {
-        throw new Error('Insufficient credits.');
-      }
-    }
-
     // Ensure project exists
     const projectId = await this.getOrCreateProject(
       userId,
       'floorplan-3d',
       inputProjectId,
-      prompt ? `Floorplan: ${prompt.slice(0, 30)}...` : 'Floorplan to 3D'
+      this.getProjectTitle({ prompt })
     );
 
     // Create generation event if not provided
@@ -337,60 +390,170 @@ Ensure the entire structure is visible with a margin around it.`;
       console.error('[FloorplanTo3D] Failed to assign generation number:', error);
     }
 
+    // Enqueued generations carry their mode, layout and scale
+    const inputData = (await getGeneration(generationId))?.input_data;
+    const mode = inputData?.floorplan_mode ?? 'reconstruct';
+    const scale = inputData?.floorplan_scale;
+
+    // Hold the cost for this generation (a no-op if enqueue() already placed the hold)
+    await this.reserveCredits(userId, projectId, generationId, inputData?.cost ?? this.cost);
+
     // Update status to "generating"
     await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 0 });
 
-    let currentImagePath = imagePath;
     const tempFiles: string[] = []; // Track temp files for cleanup
 
     try {
+      // Each step is checkpointed with its output copied to Storage, so a resumed
+      // run skips finished steps and reuses their images instead of regenerating them.
+
       // Step 1: Generate floorplan if needed
-      if (!currentImagePath && prompt) {
+      let floorplanUrl = imagePath;
+      if (!floorplanUrl && prompt) {
         await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 20 });
-        console.log(`[${userId}] Generating floorplan from prompt: ${prompt}`);
-        currentImagePath = await this.generateFloorplan(prompt);
-        tempFiles.push(currentImagePath);
+        const floorplanStep = await this.runStep(generationId, 'generate_floorplan', async () => {
+          console.log(`[${userId}] Generating floorplan from prompt: ${prompt}`);
+          const floorplanPath = await this.generateFloorplan(prompt);
+          tempFiles.push(floorplanPath);
+          return {
+            floorplan_url: await this.storeArtifact(generationId, { filePath: floorplanPath }, 'floorplan.png', 'image/png'),
+          };
+        });
+        floorplanUrl = floorplanStep.floorplan_url;
         await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 40 });
-      } else if (!currentImagePath) {
+      } else if (!floorplanUrl) {
         throw new Error('Either image_path or prompt must be provided');
+      } else {
+        // enqueue() stores the plan; the server must never fetch a URL as the user gave it
+        const storagePath = getStoragePathFromUrl(floorplanUrl);
+        if (!storagePath || !isUserStoragePath(storagePath, userId)) {
+          throw new ValidationError('The floorplan image must be stored in your own folder', 'imagePath');
+        }
       }
+      const floorplanSource = floorplanUrl;
+
+      let modelStep: { model_url: string; preview_video_url?: string };
+      let isometricUrl: string | undefined;
+      let layout: { extraction?: FloorplanExtraction; error?: string } = {};
+      if (mode === 'extrude') {
+        // Step 2: Read the layout off the plan, unless the user drew it
+        let floorplanLayout = inputData?.floorplan_layout;
+        if (!floorplanLayout) {
+          await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 50 });
+          layout = await this.runExtractionStep(generationId, floorplanSource, scale);
+          if (!layout.extraction) {
+            throw new Error(`Failed to read the floorplan layout: ${layout.error}`);
+          }
+          floorplanLayout = layoutFromExtraction(layout.extraction);
+        }
+        const extrusionLayout = floorplanLayout;
+
+        // Step 3: Build walls, floors and openings from the layout
+        await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 75 });
+        modelStep = await this.runStep(generationId, 'extrude', async () => {
+          console.log(`[${userId}] Extruding floorplan layout...`);
+          return { model_url: await this.extrudeLayout(generationId, extrusionLayout, floorplanSource, scale) };
+        });
+      } else {
+        // Step 2: Convert to isometric
+        await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 50 });
+        const isometricStep = await this.runStep(generationId, 'isometric', async () => {
+          // Enqueued generations carry the style's prompt as it was when they were queued
+          const stylePrompt = inputData?.render_style_prompt ?? (await getRenderStyle(inputData?.render_style)).prompt;
+          console.log(`[${userId}] Converting to isometric view (${inputData?.render_style ?? 'default'} style)...`);
+          // Stored images are private, so Replicate gets a signed URL
+          const isometricPath = await this.convertToIsometric(await resolveStorageUrl(floorplanSource), stylePrompt);
+          tempFiles.push(isometricPath);
+          return {
+            isometric_url: await this.storeArtifact(generationId, { filePath: isometricPath }, 'isometric.png', 'image/png'),
+          };
+        });
+        await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 70 });
+
+        // Step 3: Generate 3D model
+        // NOTE: Only 3D model generation charges credits (125 credits).
+        // Image generation steps (floorplan generation, isometric conversion) are FREE.
+        await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 75 });
+        modelStep = await this.runStep(generationId, 'generate_3d', async (partial) => {
+          console.log(`[${userId}] Generating 3D model...`);
+          const { glbPath, videoPath, provider, taskId } = await this.generate3DModel(
+            await resolveStorageUrl(isometricStep.isometric_url),
+            generationId,
+            partial
+          );
+          tempFiles.push(glbPath);
+          if (videoPath) {
+            tempFiles.push(videoPath);
+          }
+          return {
+            provider,
+            task_id: taskId,
+            model_url: await this.storeArtifact(generationId, { filePath: glbPath }, 'model.glb', 'model/gltf-binary'),
+            preview_video_url: videoPath
+              ? await this.storeArtifact(generationId, { filePath: videoPath }, 'preview.mp4', 'video/mp4')
+              : undefined,
+          };
+        });
 
-      // Step 2: Convert to isometric
-      await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 50 });
-      console.log(`[${userId}] Converting to isometric view...`);
-      const isometricPath = await this.convertToIsometric(currentImagePath);
-      tempFiles.push(isometricPath);
-      await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 70 });
-
-      // Step 3: Generate 3D model
-      // NOTE: Only 3D model generation charges credits (125 credits).
-      // Image generation steps (floorplan generation, isometric conversion) are FREE.
-      await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 75 });
-      console.log(`[${userId}] Generating 3D model...`);
-      const { glbPath, videoPath } = await this.generate3DModel(isometricPath);
-      tempFiles.push(glbPath);
-      if (videoPath) {
-        tempFiles.push(videoPath);
+        // Step 4: Read rooms, doors and windows off the plan; the model is delivered either way
+        await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 95 });
+        layout = await this.runExtractionStep(generationId, floorplanSource, scale);
+        isometricUrl = isometricStep.isometric_url;
       }
 
-      // Step 4: Deduct credits AFTER successful 3D generation
-      // Credits are only deducted after the 3D model is successfully generated.
+      // A floorplan scale sizes a reconstructed model by the building's outline, drawn or read
+      // off the plan; the whole image would include its margins, legend and title block
+      let scaleOptions: PostProcessingOptions | undefined;
+      let scaleError: string | undefined;
+      if (scale && mode !== 'extrude') {
+        const outline = inputData?.floorplan_layout ??
+          (layout.extraction ? layoutFromExtraction(layout.extraction) : undefined);
+        const footprint = outline ? getFloorplanFootprint(scale, getLayoutOutlinePoints(outline)) : null;
+        if (footprint) {
+          scaleOptions = { target_footprint_m: footprint };
+        } else {
+          scaleError = 'The building outline could not be read off the plan, so the model was not scaled';
+        }
+      }
+
+      // Step 5: Post-process the GLB (decimate, scale, recenter, compress) if requested
+      const processed = await this.runPostProcessingStep(generationId, modelStep.model_url, scaleOptions);
+      const glbUrl = processed?.model_url || modelStep.model_url;
+
+      // Without the job lease another worker may be finishing this generation
+      if (this.hasLostLease(generationId)) {
+        throw new LeaseLostError(generationId);
+      }
+
+      // Step 6: Capture the credit hold AFTER successful 3D generation
+      // Credits are only charged after the 3D model is successfully generated.
       if (!devMode) {
-        await deductCredits(userId, this.cost, {
-          projectId,
-          generationId,
-          type: 'usage',
-        });
+        await captureCredits(generationId);
       }
 
-      const result = {
-        floorplan_path: currentImagePath,
-        isometric_path: isometricPath,
-        model_path: glbPath,
-        video_path: videoPath,
+      const result: any = {
+        model_url: glbUrl,
+        model_urls: { glb: glbUrl },
+        image_url: isometricUrl || floorplanSource,
+        floorplan_path: floorplanSource,
+        ...(isometricUrl ? { isometric_path: isometricUrl } : { provider: 'extrude' }),
       };
+      if (modelStep.preview_video_url) {
+        result.preview_video_path = modelStep.preview_video_url;
+      }
+      if (processed) {
+        result.post_processing = processed.post_processing;
+      }
+      if (layout.extraction) {
+        result.floorplan_extraction = layout.extraction;
+      } else if (layout.error) {
+        result.floorplan_extraction_error = layout.error;
+      }
+      if (scaleError) {
+        result.floorplan_scale_error = scaleError;
+      }
 
-      // Step 5: Update generation status to "completed"
+      // Step 7: Update generation status to "completed"
       await this.updateGenerationStatus(generationId, 'completed', {
         progressPercentage: 100,
         outputData: result,
@@ -399,17 +562,33 @@ Ensure the entire structure is visible with a margin around it.`;
       // Cleanup temp files
       this.cleanupTempFiles(tempFiles);
 
+      // Step 8: Record the stored outputs' checksums and copy anything still on a vendor URL
+      await mirrorGenerationAssetsSafely(generationId);
+
+      // Step 9: Record mesh statistics of the stored GLB
+      await inspectGenerationModelSafely(generationId);
+
       return {
         generationId,
         result,
       };
     } catch (error: any) {
-      // CRITICAL: Credits are NOT deducted here because the exception occurred
-      // before the credit deduction point (which is only after successful 3D generation).
+      // CRITICAL: Credits are NOT charged here because the exception occurred
+      // before the capture point (which is only after successful 3D generation).
 
       // Cleanup temp files on error
       this.cleanupTempFiles(tempFiles);
 
+      // Another worker may have taken the generation over, so leave it as it is
+      if (error instanceof LeaseLostError || this.hasLostLease(generationId)) {
+        throw new LeaseLostError(generationId);
+      }
+
+      // A cancelled generation keeps its 'cancelled' status
+      if (error instanceof GenerationCancelledError || (await this.isCancelled(generationId).catch(() => false))) {
+        throw new GenerationCancelledError(generationId);
+      }
+
       // Determine error message
       let errorMessage = error.message || 'Unknown error occurred';
       if (error instanceof TimeoutError) {
@@ -433,6 +612,15 @@ Ensure the entire structure is visible with a margin around it.`;
         errorMessage,
       });
 
+      // Release the credit hold: failed generations are never charged
+      if (!devMode) {
+        try {
+          await releaseCredits(generationId, 'failed');
+        } catch (creditError) {
+          console.error(`[FloorplanTo3D] Failed to release credits for generation ${generationId}:`, creditError);
+        }
+      }
+
       // Re-throw with better error message
       const enhancedError = new Error(errorMessage);
       (enhancedError as any).originalError = error;
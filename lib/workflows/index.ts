@@ -0,0 +1,18 @@
+import type { WorkflowType } from '@/types/firestore';
+import { BaseWorkflow } from './base';
+import { TextTo3DWorkflow } from './textTo3D';
+import { FloorplanTo3DWorkflow } from './floorplan3D';
+
+/**
+ * Create the workflow that handles a given workflow type
+ */
+export function createWorkflow(workflowType: WorkflowType): BaseWorkflow {
+  switch (workflowType) {
+    case 'text-to-3d':
+      return new TextTo3DWorkflow();
+    case 'floorplan-3d':
+      return new FloorplanTo3DWorkflow();
+    default:
+      throw new Error(`Unsupported workflow type: ${workflowType}`);
+  }
+}
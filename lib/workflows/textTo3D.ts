@@ -1,17 +1,45 @@
-import Replicate from 'replicate';
+import type Replicate from 'replicate';
 import axios, { AxiosError } from 'axios';
-import { BaseWorkflow } from './base';
-import { checkCredits, deductCredits } from '@/lib/server/billing';
-import { uploadBuffer, getGenerationStoragePath } from '@/lib/server/storage';
+import { BaseWorkflow, GenerationCancelledError, LeaseLostError, type WorkflowRunInput } from './base';
+import { captureCredits, releaseCredits } from '@/lib/server/billing';
+import { mirrorGenerationAssetsSafely, resolveGenerationAsset } from '@/lib/server/assets';
+import { inspectGenerationModelSafely } from '@/lib/server/inspection';
+import { uploadBuffer, getGenerationStoragePath, getSignedUrl, resolveStorageUrl } from '@/lib/server/storage';
 import { retryWithBackoff } from '@/lib/server/retry';
+import { createReplicateClient } from '@/lib/server/vendors';
 import { withTimeout, TimeoutError } from '@/lib/server/timeout';
-import { validateWorkflowInput, ValidationError } from '@/lib/server/validation';
-import type { WorkflowType } from '@/types/firestore';
+import { validateWorkflowInput, validateGenerationOptions, validatePrompt, ValidationError } from '@/lib/server/validation';
+import { getGeneration, updateGeneration } from '@/lib/server/firestore';
+import { getRefineCost, MAX_DIRECT_PROMPT_LENGTH } from '@/lib/generationOptions';
+import {
+  createModelProvider,
+  getModelProvider,
+  isModelProviderName,
+  MeshyMultiImageProvider,
+  MeshyRetextureProvider,
+  MeshyTextTo3DProvider,
+  waitForProviderTask,
+} from '@/lib/server/providers';
+import type { GenerationOptions, GenerationWithId, RefineOptions, WorkflowType } from '@/types/firestore';
+
+const MAX_TEXTURE_PROMPT_LENGTH = 600; // Meshy's text_style_prompt limit
+
+/**
+ * Model files and task details returned by the 3D step
+ */
+interface ModelStepResult {
+  glb: string;
+  fbx?: string;
+  obj?: string;
+  usdz?: string;
+  pre_remeshed_glb?: string;
+  thumbnail_url?: string;
+  texture_urls?: any[];
+  provider: string;
+  task_id: string;
+}
 
-const MESHY_API_BASE = 'https://api.meshy.ai/openapi/v1';
 const REPLICATE_TIMEOUT = 480000; // 8 minutes (increased from 5 for reliability)
-const MESHY_SUBMIT_TIMEOUT = 180000; // 3 minutes (increased from 2 for reliability)
-const MESHY_POLL_TIMEOUT = 1500000; // 25 minutes total (Meshy can take 10-20 minutes for complex models)
 const IMAGE_DOWNLOAD_TIMEOUT = 60000; // 1 minute
 
 /**
@@ -19,26 +47,23 @@ const IMAGE_DOWNLOAD_TIMEOUT = 60000; // 1 minute
  * 
  * Workflow steps:
  * 1. Generate image from text prompt (if needed) - Replicate (FREE)
- * 2. Convert image to 3D model - Meshy AI (125 credits)
+ * 2. Convert image to 3D model - model provider, Meshy AI by default (125 credits, more for higher quality tiers)
+ *    Up to four reference views (front, side, back...) go to Meshy's multi-image API
+ * With generation_options.pipeline 'direct', Meshy text-to-3d builds the model from the prompt instead
  */
 export class TextTo3DWorkflow extends BaseWorkflow {
   readonly name = 'Text to 3D';
-  readonly cost = 125; // Cost per 3D generation (125 credits). Image generation is FREE.
+  readonly workflowType = 'text-to-3d' as const;
+  readonly cost = 125; // Cost per 3D generation without generation_options (the draft tier). Image generation is FREE.
+  protected readonly supportsGenerationOptions = true;
+  protected readonly supportsMultipleImages = true;
 
   private getReplicateClient(): Replicate {
     const token = process.env.REPLICATE_API_TOKEN;
     if (!token) {
       throw new Error('REPLICATE_API_TOKEN environment variable is required');
     }
-    return new Replicate({ auth: token });
-  }
-
-  private getMeshyApiKey(): string {
-    const key = process.env.MESHY_API_KEY;
-    if (!key) {
-      throw new Error('MESHY_API_KEY environment variable is required');
-    }
-    return key;
+    return createReplicateClient(token);
   }
 
   /**
@@ -134,21 +159,37 @@ export class TextTo3DWorkflow extends BaseWorkflow {
   }
 
   /**
-   * Convert image to 3D model using Meshy AI
-   * With retry logic, timeout handling, and robust polling
-   * Returns all model URLs and metadata from Meshy API
+   * Copy a generated image from Replicate into Storage
+   * Replicate output URLs expire, so the copy is what a resumed run uses.
+   * Falls back to the Replicate URL if the copy fails.
    */
-  private async convertImageTo3D(imageSource: string, generationId: string): Promise<{
-    glb: string;
-    fbx?: string;
-    obj?: string;
-    usdz?: string;
-    pre_remeshed_glb?: string;
-    thumbnail_url?: string;
-    texture_urls?: any[];
-  }> {
-    const meshyKey = this.getMeshyApiKey();
+  private async storeGeneratedImage(generationId: string, imageUrl: string): Promise<string> {
+    try {
+      const response = await withTimeout(
+        axios.get(imageUrl, {
+          responseType: 'arraybuffer',
+          timeout: IMAGE_DOWNLOAD_TIMEOUT,
+          maxRedirects: 10,
+        }),
+        IMAGE_DOWNLOAD_TIMEOUT + 5000,
+        'Image download timed out'
+      );
+      return await this.storeArtifact(
+        generationId,
+        { buffer: Buffer.from(response.data) },
+        'image.png',
+        'image/png'
+      );
+    } catch (error: any) {
+      console.error('[TextTo3D] Failed to store generated image, using Replicate URL:', error.message);
+      return imageUrl;
+    }
+  }
 
+  /**
+   * Check that an image source is a usable data URI or HTTP(S) URL
+   */
+  private validateImageSource(imageSource: string): void {
     const isDataUri = imageSource.startsWith('data:image/');
 
     if (isDataUri) {
@@ -179,242 +220,343 @@ export class TextTo3DWorkflow extends BaseWorkflow {
         throw new ValidationError('Invalid image URL format', 'imageSource');
       }
     }
+  }
 
-    // Submit task to Meshy with retry
-    const taskId = await retryWithBackoff(
-      async () => {
-        console.log('[TextTo3D] Submitting image to Meshy API...');
-        const submitResponse = await withTimeout(
-          axios.post(
-            `${MESHY_API_BASE}/image-to-3d`,
-            {
-              image_url: imageSource,
-              // Cost-optimized settings: Reduces Meshy API cost from 30 credits to 5 credits
-              ai_model: 'meshy-4', // Use Meshy-4 instead of latest (Meshy-6)
-              enable_pbr: false, // Disable PBR maps to reduce cost
-              should_remesh: true, // Keep remeshing for cleaner geometry
-              should_texture: false, // Disable textures: 5 credits (vs 30 with textures)
-              target_polycount: 10000, // Lower poly count for faster generation (vs default 30k)
-              topology: 'triangle', // Triangle mesh (default, faster than quad)
-            },
-            {
-              headers: {
-                Authorization: `Bearer ${meshyKey}`,
-                'Content-Type': 'application/json',
-              },
-              timeout: MESHY_SUBMIT_TIMEOUT,
-              validateStatus: (status) => status >= 200 && status < 500,
-            }
-          ),
-          MESHY_SUBMIT_TIMEOUT + 5000,
-          'Meshy task submission timed out'
-        );
-
-        console.log('[TextTo3D] Meshy API response status:', submitResponse.status);
-        console.log('[TextTo3D] Meshy API response data:', JSON.stringify(submitResponse.data, null, 2));
-
-        // Handle various Meshy API response formats for task ID
-        let taskId: string | undefined;
-
-        if (typeof submitResponse.data?.result === 'string') {
-          // Format 1: { "result": "task-id" }
-          taskId = submitResponse.data.result;
-          console.log('[TextTo3D] Extracted task ID from data.result (string):', taskId);
-        } else if (submitResponse.data?.result?.id && typeof submitResponse.data.result.id === 'string') {
-          // Format 2: { "result": { "id": "task-id" } }
-          taskId = submitResponse.data.result.id;
-          console.log('[TextTo3D] Extracted task ID from data.result.id:', taskId);
-        } else if (submitResponse.data?.id && typeof submitResponse.data.id === 'string') {
-          // Format 3: { "id": "task-id" }
-          taskId = submitResponse.data.id;
-          console.log('[TextTo3D] Extracted task ID from data.id:', taskId);
-        }
-
-        if (!taskId || taskId.trim().length === 0) {
-          console.error('[TextTo3D] Failed to extract task ID. Full response:', JSON.stringify(submitResponse.data, null, 2));
-          throw new Error(`Failed to get task ID from Meshy API. Response: ${JSON.stringify(submitResponse.data)}`);
-        }
+  /**
+   * Convert image to 3D model using the configured model provider (Meshy by default)
+   * Several sources are views of the same object, front first; Meshy takes them all
+   * through its multi-image API, other providers fall back to the first view.
+   * Returns all model URLs and metadata from the provider
+   */
+  private async convertImageTo3D(
+    imageSources: string[],
+    generationId: string,
+    resume?: { provider?: string; task_id?: string; meshy_task_id?: string },
+    options?: GenerationOptions
+  ): Promise<ModelStepResult> {
+    imageSources.forEach((imageSource) => this.validateImageSource(imageSource));
+
+    // A resumed run keeps the provider and task of the interrupted attempt
+    const resumeProvider = resume?.provider || (resume?.meshy_task_id ? 'meshy' : undefined);
+    let provider = isModelProviderName(resumeProvider)
+      ? createModelProvider(resumeProvider)
+      : getModelProvider(this.workflowType, generationId);
+
+    const multiImage = imageSources.length > 1 && provider.name === 'meshy';
+    if (multiImage) {
+      provider = new MeshyMultiImageProvider();
+    } else if (imageSources.length > 1) {
+      console.log(`[TextTo3D] ${provider.name} takes a single image, using the first of ${imageSources.length} views`);
+    }
 
-        console.log('[TextTo3D] Successfully got Meshy task ID:', taskId);
-
-        // CRITICAL: Store the Meshy task ID in Firestore immediately
-        // This allows the polling to be resumed if the serverless function times out
-        if (generationId) {
-          try {
-            const { updateGeneration: updateGen } = await import('@/lib/server/firestore');
-            await updateGen(generationId, {
-              'output_data.meshy_task_id': taskId,
-              'status': 'generating'
-            } as any);
-            console.log(`[TextTo3D] Stored Meshy task ID ${taskId} in generation ${generationId}`);
-          } catch (dbError) {
-            console.error('[TextTo3D] Failed to store Meshy task ID in Firestore:', dbError);
-            // Continue anyway, as the background process still has the taskId in memory
+    let taskId = resume?.task_id || resume?.meshy_task_id;
+    if (taskId) {
+      console.log(`[TextTo3D] Resuming ${provider.name} task ${taskId}`);
+    } else {
+      // Generation options are Meshy settings; other providers use their own defaults
+      taskId = await provider.submit({
+        imageUrl: imageSources[0],
+        ...(multiImage ? { imageUrls: imageSources } : {}),
+        ...(options && provider.name === 'meshy'
+          ? {
+            options: {
+              ai_model: options.ai_model,
+              should_texture: options.should_texture,
+              enable_pbr: options.enable_pbr,
+              target_polycount: options.target_polycount,
+              topology: options.topology,
+            },
           }
-        }
+          : {}),
+      });
 
-        return taskId;
-      },
-      {
-        maxRetries: 3,
-        initialDelay: 2000,
-        maxDelay: 10000,
+      // CRITICAL: Store the task ID in Firestore immediately
+      // This allows the polling to be resumed if the serverless function times out
+      const submittedTaskId = taskId;
+      await this.recordStepArtifacts(generationId, 'image_to_3d', {
+        provider: provider.name,
+        task_id: submittedTaskId,
+      });
+      try {
+        const { updateGeneration: updateGen } = await import('@/lib/server/firestore');
+        await updateGen(generationId, {
+          'output_data.provider': provider.name,
+          'output_data.provider_task_id': submittedTaskId,
+          // meshy_task_id is looked up as an image-to-3d task by sync and webhooks
+          ...(provider.name === 'meshy' && !multiImage ? { 'output_data.meshy_task_id': submittedTaskId } : {}),
+          'status': 'generating'
+        } as any);
+        console.log(`[TextTo3D] Stored ${provider.name} task ID ${submittedTaskId} in generation ${generationId}`);
+      } catch (dbError) {
+        console.error('[TextTo3D] Failed to store task ID in Firestore:', dbError);
+        // Continue anyway, as the background process still has the taskId in memory
       }
-    );
+    }
 
-    // Poll for status with adaptive timeout and intervals
-    // Strategy: 5s for first 30s, 10s for 30s-6min, 20s for 6-10min, then timeout
     const startTime = Date.now();
-    const TIMEOUT_10_MINUTES = 600000; // 10 minutes hard timeout
-    let lastStatus: string | undefined;
-    let attempt = 0;
-
-    // Helper function to determine polling interval based on elapsed time
-    const getPollingInterval = (elapsedMs: number): number => {
-      if (elapsedMs < 30000) return 5000;        // 0-30s: Poll every 5 seconds
-      if (elapsedMs < 360000) return 10000;      // 30s-6min: Poll every 10 seconds
-      if (elapsedMs < 600000) return 20000;      // 6-10min: Poll every 20 seconds
-      return -1; // Stop polling after 10 minutes
+    const task = await waitForProviderTask(provider, taskId, {
+      onProgress: async ({ progress }) => {
+        await this.throwIfCancelled(generationId);
+        // Map provider progress to our 75-100% range (since we're already at 75% when the 3D step starts)
+        await this.updateGenerationStatus(generationId, 'generating', {
+          progressPercentage: 75 + Math.floor((progress / 100) * 25),
+        });
+      },
+    });
+
+    const outputs = provider.parseOutputs(task);
+    console.log(`[TextTo3D] Generation succeeded after ${Math.floor((Date.now() - startTime) / 1000)}s!`);
+    console.log('[TextTo3D] GLB URL:', outputs.model_urls.glb);
+
+    return {
+      glb: outputs.model_urls.glb!,
+      fbx: outputs.model_urls.fbx,
+      obj: outputs.model_urls.obj,
+      usdz: outputs.model_urls.usdz,
+      pre_remeshed_glb: outputs.model_urls.pre_remeshed_glb,
+      thumbnail_url: outputs.thumbnail_url,
+      texture_urls: outputs.texture_urls,
+      provider: provider.name,
+      task_id: taskId,
     };
+  }
 
-    while (true) {
-      const elapsedTime = Date.now() - startTime;
-
-      // Check 10-minute hard timeout
-      if (elapsedTime >= TIMEOUT_10_MINUTES) {
-        // Mark as timeout with retry option
-        const timeoutMessage = `Generation timed out after 10 minutes. Task ${taskId} may still be processing. You can try regenerating or contact support with this task ID.`;
-        console.error(`[TextTo3D] ${timeoutMessage}`);
-
-        throw new TimeoutError(
-          `Generation timeout: Maximum time (10 minutes) exceeded. Task ID: ${taskId}. You may retry or contact support.`
-        );
+  /**
+   * Texture the parent generation's model with Meshy retexture
+   * The parent's source image sets the style unless the refine has a texture prompt.
+   */
+  private async retextureModel(
+    generationId: string,
+    refine: RefineOptions,
+    resume?: { task_id?: string }
+  ): Promise<ModelStepResult> {
+    const provider = new MeshyRetextureProvider();
+
+    let taskId = resume?.task_id;
+    if (taskId) {
+      console.log(`[TextTo3D] Resuming retexture task ${taskId}`);
+    } else {
+      const parent = await getGeneration(refine.parent_generation_id);
+      if (!parent) {
+        throw new ValidationError(`Parent generation ${refine.parent_generation_id} not found`, 'parent_generation_id');
       }
 
-      // Wait before polling (except first attempt)
-      if (attempt > 0) {
-        const interval = getPollingInterval(elapsedTime);
-        if (interval === -1) {
-          // Should have been caught by timeout check above, but safety check
-          throw new TimeoutError('Polling stopped after 10 minutes');
-        }
-        await new Promise((resolve) => setTimeout(resolve, interval));
+      // Retexture the model as the provider made it; post-processed copies may be compressed
+      const asset = resolveGenerationAsset(parent, 'original_glb') || resolveGenerationAsset(parent, 'glb');
+      if (!asset) {
+        throw new ValidationError('Parent generation has no model to refine', 'parent_generation_id');
       }
+      const modelUrl = asset.source === 'storage' ? (await getSignedUrl(asset.storagePath)).url : asset.url;
 
-      attempt++;
+      const styleImage = refine.texture_prompt ? undefined : parent.input_data?.image_path || parent.output_data?.image_url;
+      const texturePrompt = refine.texture_prompt || parent.input_data?.prompt;
+      if (!styleImage && !texturePrompt) {
+        throw new ValidationError('Parent generation has no image or prompt to texture from', 'texture_prompt');
+      }
 
-      try {
-        const statusResponse = await retryWithBackoff(
-          async () => {
-            return await axios.get(`${MESHY_API_BASE}/image-to-3d/${taskId}`, {
-              headers: {
-                Authorization: `Bearer ${meshyKey}`,
-              },
-              timeout: 30000,
-              validateStatus: (status) => status >= 200 && status < 500,
-            });
-          },
-          {
-            maxRetries: 2,
-            initialDelay: 1000,
-            maxDelay: 5000,
-          }
-        );
+      taskId = await provider.submit({
+        imageUrl: styleImage ? await resolveStorageUrl(styleImage) : '',
+        options: {
+          model_url: modelUrl,
+          enable_pbr: refine.enable_pbr,
+          ...(styleImage ? {} : { text_style_prompt: texturePrompt!.slice(0, MAX_TEXTURE_PROMPT_LENGTH) }),
+        },
+      });
 
-        const status = statusResponse.data?.status;
-        const progress = statusResponse.data?.progress || 0;
-        lastStatus = status;
+      // Not recorded as meshy_task_id: that field means an image-to-3d task to Meshy sync and webhooks
+      await this.recordStepArtifacts(generationId, 'retexture', { provider: provider.name, task_id: taskId });
+      await updateGeneration(generationId, {
+        'output_data.provider': provider.name,
+        'output_data.provider_task_id': taskId,
+        status: 'generating',
+      } as any);
+    }
 
-        // Log status updates periodically based on current interval
-        const currentInterval = getPollingInterval(elapsedTime);
-        const logFrequency = currentInterval === 5000 ? 6 : (currentInterval === 10000 ? 6 : 3); // Log every 30s, 60s, or 60s
-        if (attempt % logFrequency === 0) {
-          console.log(`[TextTo3D] [${Math.floor(elapsedTime / 1000)}s] Status: ${status}, Progress: ${progress}%`);
-        }
+    const task = await waitForProviderTask(provider, taskId, {
+      onProgress: async ({ progress }) => {
+        await this.throwIfCancelled(generationId);
+        await this.updateGenerationStatus(generationId, 'generating', {
+          progressPercentage: 25 + Math.floor((progress / 100) * 75),
+        });
+      },
+    });
+
+    const outputs = provider.parseOutputs(task);
+    return {
+      glb: outputs.model_urls.glb!,
+      fbx: outputs.model_urls.fbx,
+      obj: outputs.model_urls.obj,
+      usdz: outputs.model_urls.usdz,
+      thumbnail_url: outputs.thumbnail_url,
+      texture_urls: outputs.texture_urls,
+      provider: provider.name,
+      task_id: taskId,
+    };
+  }
 
-        // Update generation progress based on Meshy progress (0-100)
-        // Map Meshy progress to our 75-100% range (since we're already at 75% when Meshy starts)
-        const mappedProgress = 75 + Math.floor((progress / 100) * 25);
-        if (generationId) {
-          await this.updateGenerationStatus(generationId, 'generating', {
-            progressPercentage: mappedProgress,
-          });
-        }
+  /**
+   * Run one Meshy text-to-3d task (preview or refine), reporting its progress within [from, to]
+   */
+  private async runTextTo3DTask(
+    generationId: string,
+    step: string,
+    options: Record<string, any>,
+    progressRange: [number, number],
+    resume?: { task_id?: string }
+  ): Promise<ModelStepResult> {
+    const provider = new MeshyTextTo3DProvider();
+    const [from, to] = progressRange;
+
+    let taskId = resume?.task_id;
+    if (taskId) {
+      console.log(`[TextTo3D] Resuming text-to-3d ${options.mode} task ${taskId}`);
+    } else {
+      taskId = await provider.submit({ imageUrl: '', options });
+
+      // Not recorded as meshy_task_id: that field means an image-to-3d task to Meshy sync and webhooks
+      await this.recordStepArtifacts(generationId, step, { provider: provider.name, task_id: taskId });
+      await updateGeneration(generationId, {
+        'output_data.provider': provider.name,
+        'output_data.provider_task_id': taskId,
+        status: 'generating',
+      } as any);
+    }
 
-        // According to Meshy API docs, status values are: PENDING, IN_PROGRESS, SUCCEEDED, FAILED, CANCELED
-        if (status === 'SUCCEEDED') {
-          const modelUrls = statusResponse.data?.model_urls;
-          const thumbnailUrl = statusResponse.data?.thumbnail_url;
-          const textureUrls = statusResponse.data?.texture_urls;
+    const task = await waitForProviderTask(provider, taskId, {
+      onProgress: async ({ progress }) => {
+        await this.throwIfCancelled(generationId);
+        await this.updateGenerationStatus(generationId, 'generating', {
+          progressPercentage: from + Math.floor((progress / 100) * (to - from)),
+        });
+      },
+    });
+
+    const outputs = provider.parseOutputs(task);
+    return {
+      glb: outputs.model_urls.glb!,
+      fbx: outputs.model_urls.fbx,
+      obj: outputs.model_urls.obj,
+      usdz: outputs.model_urls.usdz,
+      pre_remeshed_glb: outputs.model_urls.pre_remeshed_glb,
+      thumbnail_url: outputs.thumbnail_url,
+      texture_urls: outputs.texture_urls,
+      provider: provider.name,
+      task_id: taskId,
+    };
+  }
 
-          // Validate that we have at least the GLB URL
-          if (!modelUrls?.glb || typeof modelUrls.glb !== 'string') {
-            console.error('[TextTo3D] Model URLs in response:', JSON.stringify(modelUrls, null, 2));
-            throw new Error('GLB URL not found in Meshy response. Check model_urls.glb in the response.');
-          }
+  /**
+   * Direct pipeline: build the model from the prompt with Meshy text-to-3d, no image
+   * The preview task makes the shape; a refine task textures it when the options ask for textures.
+   * Both are checkpointed, so a resumed run keeps polling the task it submitted.
+   */
+  private async generateModelFromText(
+    generationId: string,
+    prompt: string,
+    options: GenerationOptions
+  ): Promise<ModelStepResult> {
+    const previewEnd = options.should_texture ? 60 : 100;
+    const preview = await this.runStep(generationId, 'text_to_3d_preview', (partial) =>
+      this.runTextTo3DTask(
+        generationId,
+        'text_to_3d_preview',
+        {
+          mode: 'preview',
+          prompt: prompt.slice(0, MAX_DIRECT_PROMPT_LENGTH),
+          ai_model: options.ai_model,
+          target_polycount: options.target_polycount,
+          topology: options.topology,
+        },
+        [10, previewEnd],
+        partial
+      )
+    );
+    if (!options.should_texture) {
+      return preview;
+    }
 
-          console.log(`[TextTo3D] Generation succeeded after ${Math.floor(elapsedTime / 1000)}s!`);
-          console.log('[TextTo3D] GLB URL:', modelUrls.glb);
-          console.log('[TextTo3D] Available formats:', Object.keys(modelUrls).join(', '));
-
-          // Return comprehensive model data
-          return {
-            glb: modelUrls.glb,
-            fbx: modelUrls.fbx,
-            obj: modelUrls.obj,
-            usdz: modelUrls.usdz,
-            pre_remeshed_glb: modelUrls.pre_remeshed_glb,
-            thumbnail_url: thumbnailUrl,
-            texture_urls: textureUrls,
-          };
-        } else if (status === 'FAILED' || status === 'CANCELED') {
-          // Handle task_error object structure from Meshy API
-          const taskError = statusResponse.data?.task_error;
-          const errorMsg = taskError?.message || taskError || 'Unknown error';
-          console.error('[TextTo3D] Task failed or canceled:', errorMsg);
-          throw new Error(`Meshy Task ${status.toLowerCase()}: ${errorMsg}`);
-        }
+    return this.runStep(generationId, 'text_to_3d_refine', (partial) =>
+      this.runTextTo3DTask(
+        generationId,
+        'text_to_3d_refine',
+        {
+          mode: 'refine',
+          preview_task_id: preview.task_id,
+          ai_model: options.ai_model,
+          enable_pbr: options.enable_pbr,
+        },
+        [previewEnd, 100],
+        partial
+      )
+    );
+  }
 
-        // Status is PENDING or IN_PROGRESS, continue polling silently
-      } catch (error: any) {
-        // Handle 404 responses: Normal during first 30s (task initializing), error after
-        if (error.response?.status === 404) {
-          const elapsedTime = Date.now() - startTime;
-
-          if (elapsedTime < 30000) {
-            // Within first 30 seconds: Task is still initializing (NORMAL, NOT AN ERROR)
-            if (attempt % 3 === 0) {
-              console.log(`[TextTo3D] [${Math.floor(elapsedTime / 1000)}s] Task initializing (404 is expected)...`);
-            }
-            continue; // Keep polling
-          } else {
-            // After 30 seconds: Task should be registered by now, 404 is a real error
-            throw new Error(`Meshy task ${taskId} not found after ${Math.floor(elapsedTime / 1000)}s. Task may have been rejected or deleted.`);
-          }
-        }
+  /**
+   * Queue a refine of a completed generation
+   *
+   * Creates a child generation in the parent's project that retextures the
+   * parent's model with textures (and PBR maps by default), for the refine cost.
+   */
+  async enqueueRefine(
+    userId: string,
+    parent: GenerationWithId,
+    options: { texturePrompt?: string; enablePbr?: boolean } = {}
+  ): Promise<{ generationId: string; projectId: string; jobId: string; cost: number }> {
+    if (parent.workflow_type !== this.workflowType) {
+      throw new ValidationError(`Only ${this.workflowType} generations can be refined`, 'generation_id');
+    }
+    if (parent.status !== 'completed') {
+      throw new ValidationError('Only completed generations can be refined', 'generation_id');
+    }
+    if (!parent.project_id) {
+      throw new ValidationError('Generation has no project', 'generation_id');
+    }
+    const parentOptions = parent.input_data?.generation_options;
+    if (parent.input_data?.refine || (parentOptions?.should_texture && parentOptions.enable_pbr)) {
+      throw new ValidationError('Generation is already textured', 'generation_id');
+    }
 
-        // Authentication errors are always fatal
-        if (error.response?.status === 401 || error.response?.status === 403) {
-          throw new Error('Meshy API authentication failed. Please check your API key.');
-        }
+    const texturePrompt = options.texturePrompt?.trim() || undefined;
+    validatePrompt(texturePrompt, 'texture_prompt');
+    if (texturePrompt && texturePrompt.length > MAX_TEXTURE_PROMPT_LENGTH) {
+      throw new ValidationError(`texture_prompt is too long (max ${MAX_TEXTURE_PROMPT_LENGTH} characters)`, 'texture_prompt');
+    }
+    if (options.enablePbr !== undefined && typeof options.enablePbr !== 'boolean') {
+      throw new ValidationError('enable_pbr must be a boolean', 'enable_pbr');
+    }
 
-        // Other network errors during polling - log and continue unless critical
-        if (error.response?.status >= 500) {
-          console.warn(`[TextTo3D] Meshy API server error (${error.response.status}), will retry...`);
-          continue;
-        }
+    const enablePbr = options.enablePbr ?? true;
+    const cost = getRefineCost(enablePbr);
+    const { prompt, image_path: imagePath, post_processing: postProcessing } = parent.input_data || {};
 
-        // Re-throw errors that aren't transient
-        if (!error.response || error.code === 'ECONNABORTED') {
-          console.warn(`[TextTo3D] Network error during polling, will retry:`, error.message);
-          continue;
-        }
+    return {
+      ...(await this.enqueueGeneration(
+        userId,
+        { prompt, imagePath, projectId: parent.project_id },
+        {
+          prompt,
+          has_image: !!imagePath,
+          ...(imagePath ? { image_path: imagePath } : {}),
+          ...(postProcessing ? { post_processing: postProcessing } : {}),
+          refine: {
+            parent_generation_id: parent.id,
+            enable_pbr: enablePbr,
+            ...(texturePrompt ? { texture_prompt: texturePrompt } : {}),
+          },
+          cost,
+        },
+        cost,
+        { parentGenerationId: parent.id }
+      )),
+      cost,
+    };
+  }
 
-        // Unknown error - throw after logging
-        console.error('[TextTo3D] Unexpected error during polling:', error);
-        throw error;
-      }
-    }
+  /**
+   * Title for projects created by this workflow
+   */
+  protected getProjectTitle({ prompt }: WorkflowRunInput): string {
+    return prompt ? `3D Model: ${prompt.slice(0, 30)}...` : 'Image to 3D Model';
   }
 
   /**
@@ -430,19 +572,16 @@ export class TextTo3DWorkflow extends BaseWorkflow {
    */
   async execute(
     userId: string,
-    input: {
-      prompt?: string;
-      imagePath?: string;
-      projectId?: string;
-      generationId?: string;
-      has_image?: boolean;
-    }
+    input: WorkflowRunInput & { has_image?: boolean }
   ): Promise<{ generationId: string; projectId: string }> {
-    const { prompt, imagePath, projectId: inputProjectId, generationId: existingGenerationId } = input;
+    const { prompt, imagePaths, projectId: inputProjectId, generationId: existingGenerationId } = input;
+    const imagePath = imagePaths?.[0] ?? input.imagePath;
 
     // Validate input
+    let generationOptions: GenerationOptions | undefined;
     try {
-      validateWorkflowInput({ prompt, imagePath });
+      validateWorkflowInput({ prompt, imagePath, imagePaths });
+      generationOptions = validateGenerationOptions(input.generationOptions);
     } catch (error: any) {
       if (error instanceof ValidationError) {
         throw error;
@@ -453,24 +592,18 @@ export class TextTo3DWorkflow extends BaseWorkflow {
     // DEV_MODE: Skip credit checks for local testing
     const devMode = process.env.DEV_MODE === 'true';
 
-    // Check credits (unless in dev mode)
-    if (!devMode) {
-      const hasCredits = await checkCredits(userId, this.cost);
-      if (!hasCredits) {
-        throw new Error('Insufficient credits.');
-      }
-    }
-
     // Ensure project exists
     const projectId = await this.getOrCreateProject(
       userId,
       'text-to-3d',
       inputProjectId,
-      prompt ? `3D Model: ${prompt.slice(0, 30)}...` : 'Image to 3D Model'
+      this.getProjectTitle({ prompt })
     );
 
     // Create generation event if not provided
     let generationId = existingGenerationId;
+    let refine: RefineOptions | undefined;
+    let cost = this.getCost(generationOptions);
     if (!generationId) {
       generationId = await this.createGenerationEvent(
         userId,
@@ -478,9 +611,16 @@ export class TextTo3DWorkflow extends BaseWorkflow {
         {
           prompt,
           has_image: !!imagePath,
+          ...(generationOptions ? { generation_options: generationOptions, cost } : {}),
         },
         projectId
       );
+    } else {
+      // An enqueued generation carries the options it was priced with
+      const existing = await getGeneration(generationId);
+      generationOptions = existing?.input_data?.generation_options ?? generationOptions;
+      refine = existing?.input_data?.refine;
+      cost = existing?.input_data?.cost ?? this.getCost(generationOptions);
     }
 
     // CRITICAL FIX: Assign generation number to link generation to project
@@ -495,48 +635,78 @@ export class TextTo3DWorkflow extends BaseWorkflow {
     // Store generationId for progress updates
     // this.currentGenerationId = generationId; // REMOVED: Avoid state pollution
 
+    // Hold the cost for this generation (a no-op if enqueue() already placed the hold)
+    await this.reserveCredits(userId, projectId, generationId, cost);
+
     // Update status to "generating"
     await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 0 });
 
     let generatedImageUrl: string | undefined;
-    let imageDataUri: string;
 
     try {
-      // Step 1: Generate image from text (if needed)
-      if (!imagePath && prompt) {
+      let meshyResult: ModelStepResult;
+      if (refine) {
+        // Refine: texture the parent's model instead of generating a new shape (Steps 1-3)
+        // Checkpointed: a resumed run keeps polling the submitted retexture task
+        const refineOptions = refine;
         await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 25 });
-        generatedImageUrl = await this.generateImage(prompt);
-        await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 50 });
-      }
+        meshyResult = await this.runStep(generationId, 'retexture', (partial) =>
+          this.retextureModel(generationId, refineOptions, partial)
+        );
+      } else if (generationOptions?.pipeline === 'direct' && prompt && !imagePath) {
+        // Direct: Meshy builds the model from the prompt, skipping the image (Steps 1-3)
+        await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 10 });
+        meshyResult = await this.generateModelFromText(generationId, prompt, generationOptions);
+      } else {
+        // Step 1: Generate image from text (if needed)
+        // Checkpointed: a resumed run reuses the stored image instead of generating a new one
+        if (!imagePath && prompt) {
+          await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 25 });
+          const imageStep = await this.runStep(generationId, 'generate_image', async () => {
+            const replicateUrl = await this.generateImage(prompt);
+            return { image_url: await this.storeGeneratedImage(generationId, replicateUrl) };
+          });
+          generatedImageUrl = imageStep.image_url;
+          await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 50 });
+        }
 
-      // Step 2: Prepare image for Meshy
-      // Step 2: Prepare image for Meshy
-      let imageSource: string;
-      if (imagePath) {
-        // If image path is provided:
-        // 1. If it's a Data URI, use it directly.
-        // 2. If it's a URL, convert to base64 (or use directly if Meshy supports it, but keeping existing logic for URLs).
-        if (imagePath.startsWith('data:')) {
-          imageSource = imagePath;
+        // Step 2: Prepare image(s) for Meshy
+        let imageSources: string[];
+        if (imagePath) {
+          // For each provided image (a single one, or the ordered reference views):
+          // 1. If it's a Data URI, use it directly.
+          // 2. If it's a URL, convert to base64 (or use directly if Meshy supports it, but keeping existing logic for URLs).
+          imageSources = await Promise.all(
+            (imagePaths || [imagePath]).map(async (path) =>
+              path.startsWith('data:') ? path : this.imageToBase64(await resolveStorageUrl(path))
+            )
+          );
+        } else if (generatedImageUrl) {
+          // Use the generated image URL directly - Meshy prefers URLs
+          // Our Storage copy is private, so Meshy gets a signed URL
+          imageSources = [await resolveStorageUrl(generatedImageUrl)];
         } else {
-          imageSource = await this.imageToBase64(imagePath);
+          throw new Error('No prompt or image provided.');
         }
-      } else if (generatedImageUrl) {
-        // Use the generated image URL directly - Meshy prefers URLs
-        imageSource = generatedImageUrl;
-      } else {
-        throw new Error('No prompt or image provided.');
+
+        // Step 3: Convert image to 3D (model provider)
+        // Checkpointed: a resumed run keeps polling the task submitted by the interrupted attempt
+        await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 75 });
+        meshyResult = await this.runStep(generationId, 'image_to_3d', (partial) =>
+          this.convertImageTo3D(imageSources, generationId, partial, generationOptions)
+        );
       }
 
-      // Step 3: Convert image to 3D (Meshy)
-      await this.updateGenerationStatus(generationId, 'generating', { progressPercentage: 75 });
-      const meshyResult = await this.convertImageTo3D(imageSource, generationId);
+      // Step 4: Post-process the GLB (decimate, scale, recenter, compress) if requested
+      // Other provider formats (FBX/OBJ/USDZ) are left as the provider made them
+      const processed = await this.runPostProcessingStep(generationId, meshyResult.glb);
+      const glbUrl = processed?.model_url || meshyResult.glb;
 
       // Build comprehensive output_data with all model formats
       const result: any = {
-        model_url: meshyResult.glb,  // Primary URL for backward compatibility
+        model_url: glbUrl,  // Primary URL for backward compatibility
         model_urls: {
-          glb: meshyResult.glb,
+          glb: glbUrl,
           fbx: meshyResult.fbx,
           obj: meshyResult.obj,
           usdz: meshyResult.usdz,
@@ -550,6 +720,9 @@ export class TextTo3DWorkflow extends BaseWorkflow {
       if (generatedImageUrl) {
         result.image_url = generatedImageUrl;
       }
+      if (processed) {
+        result.post_processing = processed.post_processing;
+      }
 
       // Log the exact data being saved for debugging
       console.log('[TextTo3D] Saving output_data to Firestore:');
@@ -558,34 +731,51 @@ export class TextTo3DWorkflow extends BaseWorkflow {
       console.log('[TextTo3D]   - thumbnail_url:', result.thumbnail_url);
       console.log('[TextTo3D]   - image_url:', result.image_url || 'N/A');
 
-      // Step 4: Update generation status to "completed"
-      // We do this BEFORE credit deduction to ensure the user sees the result.
+      // Without the job lease another worker may be finishing this generation
+      if (this.hasLostLease(generationId)) {
+        throw new LeaseLostError(generationId);
+      }
+
+      // Step 5: Update generation status to "completed"
+      // We do this BEFORE capturing credits to ensure the user sees the result.
       await this.updateGenerationStatus(generationId, 'completed', {
         progressPercentage: 100,
         outputData: result,
       });
 
-      // Step 5: Deduct credits AFTER successful 3D generation and status update
-      // Credits are only deducted after the 3D model is successfully generated and stored.
+      // Step 6: Capture the credit hold AFTER successful 3D generation and status update
+      // Credits are only charged after the 3D model is successfully generated and stored.
       if (!devMode) {
         try {
-          await deductCredits(userId, this.cost, {
-            projectId,
-            generationId,
-            type: 'usage',
-          });
-          console.log(`[TextTo3D] Successfully deducted ${this.cost} credits for generation ${generationId}`);
+          const captured = await captureCredits(generationId);
+          console.log(`[TextTo3D] Captured ${captured} credits for generation ${generationId}`);
         } catch (creditError) {
-          console.error(`[TextTo3D] Failed to deduct credits for generation ${generationId}:`, creditError);
+          console.error(`[TextTo3D] Failed to capture credits for generation ${generationId}:`, creditError);
           // We don't throw here because the generation is already completed and successful.
-          // We should probably flag this for manual review or retry.
+          // The hold stays pending and can be captured on review.
         }
       }
 
+      // Step 7: Copy the provider's expiring output URLs into Storage
+      await mirrorGenerationAssetsSafely(generationId);
+
+      // Step 8: Record mesh statistics of the stored GLB
+      await inspectGenerationModelSafely(generationId);
+
       return { generationId, projectId };
     } catch (error: any) {
-      // CRITICAL: Credits are NOT deducted here because the exception occurred
-      // before the credit deduction point (which is only after successful 3D generation).
+      // CRITICAL: Credits are NOT charged here because the exception occurred
+      // before the capture point (which is only after successful 3D generation).
+
+      // Another worker may have taken the generation over, so leave it as it is
+      if (error instanceof LeaseLostError || this.hasLostLease(generationId)) {
+        throw new LeaseLostError(generationId);
+      }
+
+      // A cancelled generation keeps its 'cancelled' status
+      if (error instanceof GenerationCancelledError || (await this.isCancelled(generationId).catch(() => false))) {
+        throw new GenerationCancelledError(generationId);
+      }
 
       // Determine error message
       let errorMessage = error.message || 'Unknown error occurred';
@@ -610,6 +800,15 @@ export class TextTo3DWorkflow extends BaseWorkflow {
         errorMessage,
       });
 
+      // Release the credit hold: failed generations are never charged
+      if (!devMode) {
+        try {
+          await releaseCredits(generationId, 'failed');
+        } catch (creditError) {
+          console.error(`[TextTo3D] Failed to release credits for generation ${generationId}:`, creditError);
+        }
+      }
+
       // Re-throw with better error message
       const enhancedError = new Error(errorMessage);
       (enhancedError as any).originalError = error;
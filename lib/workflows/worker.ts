@@ -0,0 +1,244 @@
+import os from 'os';
+import { after } from 'next/server';
+import type { JobWithId } from '@/types/firestore';
+import { getGeneration, updateGeneration } from '@/lib/server/firestore';
+import {
+  claimNextJob,
+  heartbeatJob,
+  completeJob,
+  failJob,
+  recoverExpiredLeases,
+} from '@/lib/server/jobs';
+import { releaseCredits } from '@/lib/server/billing';
+import { createWorkflow } from './index';
+import { GenerationCancelledError, LeaseLostError } from './base';
+
+/**
+ * Job worker for generation workflows
+ *
+ * Modes (JOB_WORKER_MODE):
+ * - 'in-process': a polling loop inside the Next.js server process (default outside production)
+ * - 'after': drain the queue after the enqueueing request has responded (default in production)
+ * - 'cron': only /api/jobs/run drains the queue
+ */
+
+export type JobWorkerMode = 'in-process' | 'after' | 'cron';
+
+const LEASE_MS = 120000; // 2 minutes
+const HEARTBEAT_INTERVAL_MS = 30000; // Renew the lease well before it expires
+const POLL_INTERVAL_MS = 5000;
+const IN_PROCESS_CONCURRENCY = 3;
+
+const WORKER_ID = `${os.hostname()}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function getJobWorkerMode(): JobWorkerMode {
+  const mode = process.env.JOB_WORKER_MODE;
+  if (mode === 'in-process' || mode === 'after' || mode === 'cron') {
+    return mode;
+  }
+  return process.env.NODE_ENV === 'production' ? 'after' : 'in-process';
+}
+
+/**
+ * Mark generations whose jobs ran out of attempts as failed and release their credit holds
+ * Credits are only captured on success, so nothing needs refunding here.
+ */
+async function failExhaustedGenerations(jobs: JobWithId[]): Promise<void> {
+  for (const job of jobs) {
+    try {
+      const generation = await getGeneration(job.generation_id);
+      if (generation && (generation.status === 'pending' || generation.status === 'generating')) {
+        await updateGeneration(job.generation_id, {
+          status: 'failed',
+          error_message: 'Generation was interrupted and could not be resumed. No credits were charged.',
+        });
+      }
+      await releaseCredits(job.generation_id, 'interrupted');
+    } catch (error: any) {
+      console.error(`[Worker] Failed to mark generation ${job.generation_id} as failed:`, error.message);
+    }
+  }
+}
+
+/**
+ * Run a claimed job to completion while keeping its lease alive
+ */
+export async function processJob(job: JobWithId, workerId: string = WORKER_ID): Promise<void> {
+  const generation = await getGeneration(job.generation_id);
+  if (!generation) {
+    await failJob(job.id, workerId, `Generation ${job.generation_id} not found`);
+    return;
+  }
+
+  // A previous attempt may have finished the generation but died before completing the job,
+  // or the user cancelled it while it was queued
+  if (generation.status === 'completed' || generation.status === 'failed' || generation.status === 'cancelled') {
+    console.log(`[Worker] Generation ${job.generation_id} already ${generation.status}, closing job ${job.id}`);
+    await completeJob(job.id, workerId);
+    return;
+  }
+
+  // Once the lease is lost the job may be requeued and claimed by another worker,
+  // so the run is aborted rather than left to write its results
+  const lease = new AbortController();
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, workerId, LEASE_MS)
+      .then((held) => {
+        if (!held && !lease.signal.aborted) {
+          console.warn(`[Worker] Lost lease on job ${job.id}, stopping its run`);
+          lease.abort();
+        }
+      })
+      .catch((error) => console.error(`[Worker] Heartbeat failed for job ${job.id}:`, error.message));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const workflow = createWorkflow(job.workflow_type);
+    const result = await workflow.runJob(job.user_id, {
+      ...job.payload,
+      projectId: job.project_id,
+      generationId: job.generation_id,
+    }, lease.signal);
+
+    if (job.project_id && !lease.signal.aborted) {
+      try {
+        await workflow.linkGenerationToProject(result.generationId, job.project_id);
+      } catch (error: any) {
+        console.error('[Worker] Error linking generation to project:', error);
+      }
+    }
+
+    await completeJob(job.id, workerId);
+  } catch (error: any) {
+    // The job is no longer ours to complete or fail
+    if (error instanceof LeaseLostError) {
+      console.warn(`[Worker] Job ${job.id} stopped: lease lost`);
+      return;
+    }
+
+    if (error instanceof GenerationCancelledError) {
+      console.log(`[Worker] Job ${job.id} stopped: generation ${job.generation_id} was cancelled`);
+      await completeJob(job.id, workerId);
+      return;
+    }
+
+    // The workflow has already marked the generation as failed
+    console.error(`[Worker] Job ${job.id} failed:`, error.message);
+    await failJob(job.id, workerId, error.message || 'Unknown error');
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Recover expired leases, then claim and run jobs one at a time
+ * Stops when the queue is empty, `maxJobs` have run, or the deadline has passed.
+ */
+export async function drainJobs(options: {
+  workerId?: string;
+  maxJobs?: number;
+  deadlineMs?: number;
+} = {}): Promise<{ processed: number; requeued: number; exhausted: number }> {
+  const workerId = options.workerId || WORKER_ID;
+  const startedAt = Date.now();
+
+  const { requeued, exhausted } = await recoverExpiredLeases();
+  await failExhaustedGenerations(exhausted);
+
+  let processed = 0;
+  while (options.maxJobs === undefined || processed < options.maxJobs) {
+    if (options.deadlineMs !== undefined && Date.now() - startedAt >= options.deadlineMs) {
+      break;
+    }
+
+    const job = await claimNextJob(workerId, LEASE_MS);
+    if (!job) {
+      break;
+    }
+
+    await processJob(job, workerId);
+    processed++;
+  }
+
+  return { processed, requeued: requeued.length, exhausted: exhausted.length };
+}
+
+/**
+ * In-process worker state, kept on globalThis so hot reloads don't start extra loops
+ */
+interface InProcessWorker {
+  timer: NodeJS.Timeout;
+  active: number;
+  polling: boolean;
+}
+
+const globalForWorker = globalThis as unknown as { jobWorker?: InProcessWorker };
+
+async function pollInProcess(worker: InProcessWorker): Promise<void> {
+  if (worker.polling) {
+    return;
+  }
+  worker.polling = true;
+
+  try {
+    const { exhausted } = await recoverExpiredLeases();
+    await failExhaustedGenerations(exhausted);
+
+    while (worker.active < IN_PROCESS_CONCURRENCY) {
+      const job = await claimNextJob(WORKER_ID, LEASE_MS);
+      if (!job) {
+        break;
+      }
+
+      worker.active++;
+      processJob(job)
+        .catch((error) => console.error(`[Worker] Unhandled error in job ${job.id}:`, error))
+        .finally(() => {
+          worker.active--;
+        });
+    }
+  } catch (error: any) {
+    console.error('[Worker] Poll failed:', error.message);
+  } finally {
+    worker.polling = false;
+  }
+}
+
+/**
+ * Start the in-process worker loop (no-op if already running)
+ */
+export function startInProcessWorker(): void {
+  if (globalForWorker.jobWorker) {
+    return;
+  }
+
+  const worker: InProcessWorker = { timer: undefined as unknown as NodeJS.Timeout, active: 0, polling: false };
+  worker.timer = setInterval(() => {
+    pollInProcess(worker);
+  }, POLL_INTERVAL_MS);
+  worker.timer.unref?.();
+  globalForWorker.jobWorker = worker;
+
+  console.log(`[Worker] Started in-process job worker ${WORKER_ID}`);
+}
+
+/**
+ * Make sure newly enqueued jobs get picked up
+ * Must be called from within a request handler (uses `after` in 'after' mode).
+ */
+export function dispatchJobs(): void {
+  const mode = getJobWorkerMode();
+
+  if (mode === 'in-process') {
+    startInProcessWorker();
+    pollInProcess(globalForWorker.jobWorker!);
+  } else if (mode === 'after') {
+    after(async () => {
+      try {
+        await drainJobs({ maxJobs: 1 });
+      } catch (error: any) {
+        console.error('[Worker] Failed to drain jobs after response:', error.message);
+      }
+    });
+  }
+}
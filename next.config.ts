@@ -15,6 +15,9 @@ const nextConfig: NextConfig = {
     imageSizes: [16, 32, 48, 64, 96, 128, 256, 384],
   },
   
+  // Load these from node_modules at runtime: draco3dgltf reads its wasm from its own directory
+  serverExternalPackages: ['draco3dgltf'],
+
   // Experimental features for performance
   experimental: {
     optimizePackageImports: ['lucide-react', 'framer-motion'],
@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+/**
+ * Copy provider outputs of existing generations into Firebase Storage
+ *
+ * Pages through completed generations via POST /api/admin/backfill-assets until
+ * every page has been processed. Generations already fully mirrored are skipped,
+ * so the command can be re-run safely.
+ *
+ *   ADMIN_API_KEY=... npm run backfill-assets -- [--app-url https://...] [--limit 25] [--generation <id>]
+ *
+ * With --make-private it instead pages through POST /api/admin/make-assets-private,
+ * removing the public ACLs that earlier versions put on every file under users/:
+ *
+ *   ADMIN_API_KEY=... npm run backfill-assets -- --make-private [--app-url https://...] [--limit 200]
+ *
+ * The app URL defaults to NEXT_PUBLIC_BASE_URL, then http://localhost:3000.
+ */
+
+function readArg(name) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const adminKey = process.env.ADMIN_API_KEY;
+const appUrl = (readArg('app-url') || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+const makePrivate = process.argv.includes('--make-private');
+const limit = Number(readArg('limit') || (makePrivate ? 200 : 25));
+const generationId = readArg('generation');
+
+if (!adminKey) {
+  console.error('ADMIN_API_KEY is required');
+  process.exit(1);
+}
+
+async function requestPage(startAfter) {
+  const response = await fetch(`${appUrl}/api/admin/backfill-assets`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ admin_key: adminKey, generation_id: generationId, limit, start_after: startAfter }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.success) {
+    throw new Error(`Backfill request failed (${response.status}): ${body.error || response.statusText}`);
+  }
+  return body;
+}
+
+async function requestPrivatePage(pageToken) {
+  const response = await fetch(`${appUrl}/api/admin/make-assets-private`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ admin_key: adminKey, limit, page_token: pageToken }),
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.success) {
+    throw new Error(`Make-private request failed (${response.status}): ${body.error || response.statusText}`);
+  }
+  return body;
+}
+
+async function makeFilesPrivate() {
+  let pageToken;
+  let checked = 0;
+  let failed = 0;
+
+  do {
+    const page = await requestPrivatePage(pageToken);
+    checked += page.checked;
+    failed += page.failed.length;
+    for (const failure of page.failed) {
+      console.log(`[Backfill] ${failure.path}: ${failure.error}`);
+    }
+    console.log(`[Backfill] ${checked} files made private so far`);
+    pageToken = page.next_page_token;
+  } while (pageToken);
+
+  console.log(`[Backfill] Done: ${checked} files checked, ${failed} failed`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  if (makePrivate) {
+    await makeFilesPrivate();
+    return;
+  }
+
+  let cursor;
+  let checked = 0;
+  let mirrored = 0;
+  let failed = 0;
+
+  do {
+    const page = await requestPage(cursor);
+    checked += page.checked;
+    for (const result of page.results) {
+      mirrored += result.mirrored.length;
+      failed += result.failed.length;
+      const failures = result.failed.map((failure) => `${failure.key}: ${failure.error}`).join('; ');
+      console.log(
+        `[Backfill] ${result.generationId}: ${result.mirrored.length} mirrored, ${result.skipped.length} already stored` +
+        (failures ? `, failed: ${failures}` : '')
+      );
+    }
+    cursor = generationId ? undefined : page.next_cursor;
+  } while (cursor);
+
+  console.log(`[Backfill] Done: ${checked} generations checked, ${mirrored} files mirrored, ${failed} failed`);
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error('[Backfill]', error.message);
+  process.exit(1);
+});
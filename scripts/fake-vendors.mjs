@@ -0,0 +1,770 @@
+#!/usr/bin/env node
+/**
+ * Local stand-ins for Meshy, Replicate and Razorpay
+ *
+ * Emulates the parts of each API the app uses (task lifecycles, webhooks and
+ * failure modes) so a complete purchase -> generate -> download cycle can run
+ * offline against the Firebase emulators. Start with `npm run fake-vendors` and
+ * point the app at it:
+ *
+ *   MESHY_API_BASE_URL=http://localhost:4010/openapi/v1
+ *   REPLICATE_API_BASE_URL=http://localhost:4010/v1
+ *   RAZORPAY_API_BASE_URL=http://localhost:4010
+ *   NEXT_PUBLIC_RAZORPAY_CHECKOUT_URL=http://localhost:4010/v1/checkout.js
+ *
+ * Configuration (environment):
+ *   FAKE_VENDORS_PORT               Port to listen on (default 4010)
+ *   FAKE_VENDORS_PUBLIC_URL         URL the app and browser reach this server on
+ *   FAKE_VENDORS_APP_URL            App to deliver webhooks to (default NEXT_PUBLIC_BASE_URL or http://localhost:3000)
+ *   FAKE_VENDORS_TASK_MS            How long Meshy tasks and Replicate predictions take (default 3000)
+ *   FAKE_VENDORS_MESHY_WEBHOOK      'on' to send Meshy webhooks (configured in the Meshy dashboard in production)
+ *   RAZORPAY_KEY_SECRET             Must match the app's, to sign checkout responses
+ *   RAZORPAY_WEBHOOK_SECRET         Must match the app's, to sign webhooks
+ *
+ * Test control endpoints:
+ *   GET  /__fake/state                                   Everything created so far
+ *   POST /__fake/reset                                   Forget all state and armed failures
+ *   POST /__fake/failures  { vendor, mode, count? }      Arm a failure for the next `count` API calls
+ *        vendor: 'meshy' | 'replicate' | 'razorpay'
+ *        mode:   'http_401' | 'http_429' | 'http_500' | 'task_failed' | 'slow'
+ *   POST /__fake/razorpay/pay       { order_id, outcome? }           Pay an order ('captured' | 'failed')
+ *   POST /__fake/razorpay/disputes  { payment_id, status?, amount? } Open or resolve a dispute
+ */
+
+import http from 'node:http';
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+const PORT = Number(process.env.FAKE_VENDORS_PORT || 4010);
+const PUBLIC_URL = trimSlash(process.env.FAKE_VENDORS_PUBLIC_URL || `http://localhost:${PORT}`);
+const APP_URL = trimSlash(process.env.FAKE_VENDORS_APP_URL || process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000');
+const TASK_MS = Number(process.env.FAKE_VENDORS_TASK_MS || 3000);
+const SLOW_MS = Number(process.env.FAKE_VENDORS_SLOW_MS || 65000);
+const WEBHOOK_DELAY_MS = 500;
+const MESHY_WEBHOOK = process.env.FAKE_VENDORS_MESHY_WEBHOOK === 'on';
+const RAZORPAY_KEY_SECRET = process.env.RAZORPAY_KEY_SECRET || 'fake_key_secret';
+const RAZORPAY_WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || 'fake_webhook_secret';
+
+const MODEL_GLB = fs.readFileSync(path.join(ROOT, 'public', 'fake-provider', 'model.glb'));
+// 1x1 white PNG
+const IMAGE_PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8/5+hHgAHggJ/PchI7wAAAABJRU5ErkJggg==',
+  'base64'
+);
+
+const FAILURE_MODES = ['http_401', 'http_429', 'http_500', 'task_failed', 'slow'];
+
+let state = createState();
+
+function createState() {
+  return {
+    failures: { meshy: [], replicate: [], razorpay: [] },
+    meshyTasks: new Map(),
+    predictions: new Map(),
+    orders: new Map(),
+    payments: new Map(),
+    refunds: new Map(),
+    disputes: new Map(),
+    webhooks: [],
+  };
+}
+
+function trimSlash(url) {
+  return url.replace(/\/+$/, '');
+}
+
+function newId(prefix) {
+  return `${prefix}${crypto.randomBytes(7).toString('hex')}`;
+}
+
+function nowSeconds() {
+  return Math.floor(Date.now() / 1000);
+}
+
+function fileUrl(id, extension) {
+  return `${PUBLIC_URL}/files/${id}.${extension}`;
+}
+
+/**
+ * Take the next armed failure for a vendor, if any
+ */
+function takeFailure(vendor) {
+  const queue = state.failures[vendor];
+  if (queue.length === 0) {
+    return null;
+  }
+  const failure = queue[0];
+  failure.remaining -= 1;
+  if (failure.remaining <= 0) {
+    queue.shift();
+  }
+  return failure.mode;
+}
+
+/**
+ * Progress of a timed task: status plus 0-100 progress
+ */
+function lifecycle(task) {
+  if (task.cancelled) {
+    return { phase: 'cancelled', progress: task.progressAtCancel };
+  }
+  const progress = Math.min(100, Math.floor(((Date.now() - task.createdAt) / TASK_MS) * 100));
+  if (progress >= 100) {
+    return { phase: task.fail ? 'failed' : 'succeeded', progress: 100 };
+  }
+  return { phase: progress < 10 ? 'pending' : 'running', progress };
+}
+
+async function deliverWebhook(url, body, headers = {}) {
+  const raw = JSON.stringify(body);
+  const record = { url, event: body.event || body.type || body.status, status: null, at: new Date().toISOString() };
+  state.webhooks.push(record);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: raw,
+    });
+    record.status = response.status;
+    console.log(`[FakeVendors] Webhook ${record.event} -> ${url}: ${response.status}`);
+  } catch (error) {
+    record.status = 'error';
+    console.error(`[FakeVendors] Webhook ${record.event} -> ${url} failed: ${error.message}`);
+  }
+}
+
+function later(fn, delay) {
+  setTimeout(() => {
+    Promise.resolve(fn()).catch((error) => console.error('[FakeVendors] Background task failed:', error));
+  }, delay);
+}
+
+// ============================================================================
+// HTTP helpers
+// ============================================================================
+
+function send(res, status, body, headers = {}) {
+  const payload = Buffer.isBuffer(body) || typeof body === 'string' ? body : JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': typeof body === 'string' || Buffer.isBuffer(body) ? 'application/octet-stream' : 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    ...headers,
+  });
+  res.end(payload);
+}
+
+async function readJson(req) {
+  const chunks = [];
+  for await (const chunk of req) {
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  if (!raw) {
+    return {};
+  }
+  return JSON.parse(raw);
+}
+
+function bearerToken(req) {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^(Bearer|Token)\s+(.+)$/i);
+  return match ? match[2] : null;
+}
+
+function basicAuth(req) {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Basic\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+  const [username, password] = Buffer.from(match[1], 'base64').toString('utf8').split(':');
+  return { username, password };
+}
+
+/**
+ * Apply an HTTP-level failure mode; returns true if the request was answered
+ */
+async function applyHttpFailure(res, mode, errorBody) {
+  if (mode === 'slow') {
+    await new Promise((resolve) => setTimeout(resolve, SLOW_MS));
+    return false;
+  }
+  const status = { http_401: 401, http_429: 429, http_500: 500 }[mode];
+  if (status) {
+    send(res, status, errorBody(status));
+    return true;
+  }
+  return false;
+}
+
+// ============================================================================
+// Meshy (image-to-3d, multi-image-to-3d, retexture, text-to-3d)
+// ============================================================================
+
+function meshyTaskJson(task) {
+  const { phase, progress } = lifecycle(task);
+  const status = { pending: 'PENDING', running: 'IN_PROGRESS', succeeded: 'SUCCEEDED', failed: 'FAILED', cancelled: 'CANCELED' }[phase];
+  return {
+    id: task.id,
+    status,
+    progress,
+    model_urls: phase === 'succeeded'
+      ? {
+        glb: fileUrl(task.id, 'glb'),
+        fbx: fileUrl(task.id, 'fbx'),
+        obj: fileUrl(task.id, 'obj'),
+        usdz: fileUrl(task.id, 'usdz'),
+      }
+      : {},
+    thumbnail_url: phase === 'succeeded' ? fileUrl(task.id, 'png') : undefined,
+    texture_urls: [],
+    task_error: { message: phase === 'failed' ? 'Fake Meshy task failure' : '' },
+    created_at: task.createdAt,
+    finished_at: ['succeeded', 'failed', 'cancelled'].includes(phase) ? Date.now() : 0,
+  };
+}
+
+// Input check per task API (by version and resource); returns an error message for a bad request body
+const MESHY_RESOURCES = {
+  'v1/image-to-3d': (body) => (body.image_url ? null : 'image_url is required'),
+  'v1/multi-image-to-3d': (body) => {
+    if (!Array.isArray(body.image_urls) || body.image_urls.length === 0) return 'image_urls is required';
+    if (body.image_urls.length > 4) return 'image_urls can have at most 4 images';
+    return null;
+  },
+  'v1/retexture': (body) => {
+    if (!body.input_task_id && !body.model_url) return 'input_task_id or model_url is required';
+    if (!body.text_style_prompt && !body.image_style_url) return 'text_style_prompt or image_style_url is required';
+    return null;
+  },
+  'v2/text-to-3d': (body) => {
+    if (body.mode === 'preview') return body.prompt ? null : 'prompt is required';
+    if (body.mode === 'refine') {
+      return state.meshyTasks.has(body.preview_task_id) ? null : 'preview_task_id must be an existing task';
+    }
+    return "mode must be 'preview' or 'refine'";
+  },
+};
+
+async function handleMeshy(req, res, version, parts) {
+  const failure = takeFailure('meshy');
+  if (await applyHttpFailure(res, failure, (status) => ({ message: `Fake Meshy error ${status}` }))) {
+    return;
+  }
+  if (!bearerToken(req)) {
+    return send(res, 401, { message: 'Invalid API key' });
+  }
+
+  const [resource, taskId] = parts;
+  const checkInput = MESHY_RESOURCES[`${version}/${resource}`];
+  if (!checkInput) {
+    return send(res, 404, { message: `Unknown Meshy resource: ${version}/${resource}` });
+  }
+
+  if (req.method === 'POST' && !taskId) {
+    const body = await readJson(req);
+    const inputError = checkInput(body);
+    if (inputError) {
+      return send(res, 400, { message: inputError });
+    }
+    const task = { id: newId('meshy_'), input: body, createdAt: Date.now(), fail: failure === 'task_failed' };
+    state.meshyTasks.set(task.id, task);
+
+    if (MESHY_WEBHOOK) {
+      later(() => {
+        const json = meshyTaskJson(task);
+        if (json.status === 'CANCELED') {
+          return undefined;
+        }
+        return deliverWebhook(`${APP_URL}/api/webhooks/meshy`, {
+          type: json.status === 'SUCCEEDED' ? 'model.succeeded' : 'model.failed',
+          payload: { task_id: task.id, ...json, message: json.task_error.message },
+        });
+      }, TASK_MS + WEBHOOK_DELAY_MS);
+    }
+
+    return send(res, 202, { result: task.id });
+  }
+
+  const task = state.meshyTasks.get(taskId);
+  if (!task) {
+    return send(res, 404, { message: `Task not found: ${taskId}` });
+  }
+
+  if (req.method === 'GET') {
+    return send(res, 200, meshyTaskJson(task));
+  }
+  if (req.method === 'DELETE') {
+    if (!task.cancelled) {
+      task.progressAtCancel = lifecycle(task).progress;
+      task.cancelled = true;
+    }
+    return send(res, 200, {});
+  }
+  return send(res, 405, { message: 'Method not allowed' });
+}
+
+// ============================================================================
+// Replicate (predictions)
+// ============================================================================
+
+// Two rooms and a hallway, as the vision model describes a plan
+const FAKE_FLOORPLAN_LAYOUT = {
+  rooms: [
+    { id: 'r1', name: 'Living Room', type: 'living', polygon: [[0.05, 0.05], [0.6, 0.05], [0.6, 0.6], [0.05, 0.6]], area: 24.5, area_unit: 'm2' },
+    { id: 'r2', name: 'Bedroom', type: 'bedroom', polygon: [[0.6, 0.05], [0.95, 0.05], [0.95, 0.6], [0.6, 0.6]], area: 14, area_unit: 'm2' },
+    { id: 'r3', name: 'Hallway', type: 'hallway', polygon: [[0.05, 0.6], [0.95, 0.6], [0.95, 0.8], [0.05, 0.8]], area: null, area_unit: null },
+  ],
+  doors: [
+    { position: [0.3, 0.6], rooms: ['r1', 'r3'] },
+    { position: [0.75, 0.6], rooms: ['r2', 'r3'] },
+    { position: [0.05, 0.7], rooms: ['r3'] },
+  ],
+  windows: [
+    { position: [0.3, 0.05], rooms: ['r1'] },
+    { position: [0.95, 0.3], rooms: ['r2'] },
+  ],
+};
+
+/**
+ * Output shaped like the model the app asked for
+ */
+function predictionOutput(prediction) {
+  const input = prediction.input || {};
+  if (input.generate_model !== undefined || Array.isArray(input.images)) {
+    // firtoz/trellis
+    return { model_file: fileUrl(prediction.id, 'glb') };
+  }
+  if (input.a_prompt !== undefined) {
+    // jagilley/controlnet-canny: [edge map, generated image]
+    return [fileUrl(`${prediction.id}_canny`, 'png'), fileUrl(prediction.id, 'png')];
+  }
+  if (input.max_completion_tokens !== undefined) {
+    // openai/gpt-4o-mini reading a floorplan: the reply streams as tokens
+    return JSON.stringify(FAKE_FLOORPLAN_LAYOUT, null, 2).match(/[\s\S]{1,16}/g);
+  }
+  if (input.num_outputs !== undefined) {
+    // black-forest-labs/flux-schnell
+    return [fileUrl(prediction.id, 'png')];
+  }
+  // google/nano-banana and other single-image models
+  return fileUrl(prediction.id, 'png');
+}
+
+function predictionJson(prediction) {
+  const { phase } = lifecycle(prediction);
+  const status = { pending: 'starting', running: 'processing', succeeded: 'succeeded', failed: 'failed', cancelled: 'canceled' }[phase];
+  const done = ['succeeded', 'failed', 'canceled'].includes(status);
+  return {
+    id: prediction.id,
+    model: prediction.model,
+    version: prediction.version,
+    input: prediction.input,
+    status,
+    output: status === 'succeeded' ? predictionOutput(prediction) : null,
+    error: status === 'failed' ? 'Fake Replicate prediction failure' : null,
+    logs: '',
+    created_at: new Date(prediction.createdAt).toISOString(),
+    completed_at: done ? new Date().toISOString() : null,
+    urls: {
+      get: `${PUBLIC_URL}/v1/predictions/${prediction.id}`,
+      cancel: `${PUBLIC_URL}/v1/predictions/${prediction.id}/cancel`,
+    },
+  };
+}
+
+async function createPrediction(req, res, failure, model, version) {
+  const body = await readJson(req);
+  const prediction = {
+    id: newId('pred_'),
+    model: model || 'unknown/unknown',
+    version: version || body.version || null,
+    input: body.input || {},
+    webhook: body.webhook,
+    webhookEvents: body.webhook_events_filter || ['start', 'output', 'logs', 'completed'],
+    createdAt: Date.now(),
+    fail: failure === 'task_failed',
+  };
+  state.predictions.set(prediction.id, prediction);
+
+  if (prediction.webhook && prediction.webhookEvents.includes('completed')) {
+    later(() => {
+      const json = predictionJson(prediction);
+      if (json.status === 'canceled') {
+        return undefined;
+      }
+      return deliverWebhook(prediction.webhook, json);
+    }, TASK_MS + WEBHOOK_DELAY_MS);
+  }
+
+  return send(res, 201, predictionJson(prediction));
+}
+
+async function handleReplicate(req, res, parts) {
+  const failure = takeFailure('replicate');
+  if (await applyHttpFailure(res, failure, (status) => ({ title: 'Fake Replicate error', detail: `HTTP ${status}`, status }))) {
+    return;
+  }
+  if (!bearerToken(req)) {
+    return send(res, 401, { title: 'Unauthenticated', detail: 'You did not pass an authentication token', status: 401 });
+  }
+
+  // POST /v1/predictions
+  if (parts[0] === 'predictions' && parts.length === 1 && req.method === 'POST') {
+    return createPrediction(req, res, failure);
+  }
+
+  // GET /v1/predictions/:id, POST /v1/predictions/:id/cancel
+  if (parts[0] === 'predictions' && parts[1]) {
+    const prediction = state.predictions.get(parts[1]);
+    if (!prediction) {
+      return send(res, 404, { title: 'Not found', detail: `Prediction not found: ${parts[1]}`, status: 404 });
+    }
+    if (parts[2] === 'cancel' && req.method === 'POST') {
+      if (!prediction.cancelled && lifecycle(prediction).progress < 100) {
+        prediction.progressAtCancel = lifecycle(prediction).progress;
+        prediction.cancelled = true;
+      }
+      return send(res, 200, predictionJson(prediction));
+    }
+    return send(res, 200, predictionJson(prediction));
+  }
+
+  // POST /v1/models/:owner/:name/predictions, GET /v1/models/:owner/:name
+  if (parts[0] === 'models' && parts[1] && parts[2]) {
+    const model = `${parts[1]}/${parts[2]}`;
+    if (parts[3] === 'predictions' && req.method === 'POST') {
+      return createPrediction(req, res, failure, model);
+    }
+    if (parts.length === 3 && req.method === 'GET') {
+      return send(res, 200, {
+        owner: parts[1],
+        name: parts[2],
+        latest_version: { id: crypto.createHash('sha256').update(model).digest('hex') },
+      });
+    }
+  }
+
+  return send(res, 404, { title: 'Not found', detail: `Unknown Replicate route: /${parts.join('/')}`, status: 404 });
+}
+
+// ============================================================================
+// Razorpay (orders, checkout, payments, refunds, disputes)
+// ============================================================================
+
+function razorpayError(status, description) {
+  return { error: { code: 'BAD_REQUEST_ERROR', description, status } };
+}
+
+async function sendRazorpayWebhook(event, payload) {
+  const body = {
+    entity: 'event',
+    account_id: 'acc_fake',
+    event,
+    contains: Object.keys(payload),
+    payload,
+    created_at: nowSeconds(),
+  };
+  const signature = crypto.createHmac('sha256', RAZORPAY_WEBHOOK_SECRET).update(JSON.stringify(body)).digest('hex');
+  await deliverWebhook(`${APP_URL}/api/payments/webhook`, body, { 'x-razorpay-signature': signature });
+}
+
+async function handleRazorpay(req, res, parts) {
+  const failure = takeFailure('razorpay');
+  if (await applyHttpFailure(res, failure, (status) => razorpayError(status, `Fake Razorpay error ${status}`))) {
+    return;
+  }
+  const auth = basicAuth(req);
+  if (!auth || auth.password !== RAZORPAY_KEY_SECRET) {
+    return send(res, 401, razorpayError(401, 'Authentication failed'));
+  }
+
+  // POST /v1/orders, GET /v1/orders/:id
+  if (parts[0] === 'orders') {
+    if (req.method === 'POST' && !parts[1]) {
+      const body = await readJson(req);
+      if (!Number.isInteger(body.amount) || body.amount < 100) {
+        return send(res, 400, razorpayError(400, 'The amount must be at least INR 1.00'));
+      }
+      const order = {
+        id: newId('order_'),
+        entity: 'order',
+        amount: body.amount,
+        amount_paid: 0,
+        amount_due: body.amount,
+        currency: body.currency || 'INR',
+        receipt: body.receipt,
+        status: 'created',
+        attempts: 0,
+        notes: body.notes || {},
+        created_at: nowSeconds(),
+      };
+      state.orders.set(order.id, order);
+      return send(res, 200, order);
+    }
+    const order = state.orders.get(parts[1]);
+    return order ? send(res, 200, order) : send(res, 404, razorpayError(404, 'The id provided does not exist'));
+  }
+
+  // POST /v1/payments/:id/refund
+  if (parts[0] === 'payments' && parts[1] && parts[2] === 'refund' && req.method === 'POST') {
+    const payment = state.payments.get(parts[1]);
+    if (!payment || payment.status !== 'captured') {
+      return send(res, 400, razorpayError(400, 'Only captured payments can be refunded'));
+    }
+    const body = await readJson(req);
+    return send(res, 200, await refundPayment(payment, body.amount));
+  }
+
+  return send(res, 404, razorpayError(404, `Unknown Razorpay route: /${parts.join('/')}`));
+}
+
+async function refundPayment(payment, amount) {
+  const refundable = payment.amount - payment.amount_refunded;
+  const refund = {
+    id: newId('rfnd_'),
+    entity: 'refund',
+    payment_id: payment.id,
+    amount: Math.min(Number.isInteger(amount) ? amount : refundable, refundable),
+    currency: payment.currency,
+    status: 'processed',
+    created_at: nowSeconds(),
+  };
+  state.refunds.set(refund.id, refund);
+  payment.amount_refunded += refund.amount;
+  payment.refund_status = payment.amount_refunded >= payment.amount ? 'full' : 'partial';
+  if (payment.refund_status === 'full') {
+    payment.status = 'refunded';
+  }
+
+  later(() => sendRazorpayWebhook('refund.processed', {
+    refund: { entity: refund },
+    payment: { entity: payment },
+  }), WEBHOOK_DELAY_MS);
+  return refund;
+}
+
+/**
+ * Simulate the checkout: pay (or fail) an order and send the matching webhook
+ */
+async function handleFakePay(req, res) {
+  const { order_id: orderId, outcome = 'captured' } = await readJson(req);
+  const order = state.orders.get(orderId);
+  if (!order) {
+    return send(res, 404, razorpayError(404, `Order not found: ${orderId}`));
+  }
+
+  const payment = {
+    id: newId('pay_'),
+    entity: 'payment',
+    amount: order.amount,
+    currency: order.currency,
+    status: outcome === 'failed' ? 'failed' : 'captured',
+    order_id: order.id,
+    method: 'card',
+    amount_refunded: 0,
+    refund_status: null,
+    captured: outcome !== 'failed',
+    description: order.notes?.description,
+    created_at: nowSeconds(),
+  };
+  state.payments.set(payment.id, payment);
+  order.attempts += 1;
+  if (payment.captured) {
+    order.status = 'paid';
+    order.amount_paid = order.amount;
+    order.amount_due = 0;
+  }
+
+  later(() => sendRazorpayWebhook(payment.captured ? 'payment.captured' : 'payment.failed', {
+    payment: { entity: payment },
+  }), WEBHOOK_DELAY_MS);
+
+  if (!payment.captured) {
+    return send(res, 200, { error: { code: 'BAD_REQUEST_ERROR', description: 'Payment failed', metadata: { payment_id: payment.id, order_id: order.id } } });
+  }
+
+  // What Razorpay Checkout hands to the success handler
+  const signature = crypto.createHmac('sha256', RAZORPAY_KEY_SECRET).update(`${order.id}|${payment.id}`).digest('hex');
+  return send(res, 200, {
+    razorpay_payment_id: payment.id,
+    razorpay_order_id: order.id,
+    razorpay_signature: signature,
+  });
+}
+
+async function handleFakeDispute(req, res) {
+  const { payment_id: paymentId, status = 'created', amount } = await readJson(req);
+  const payment = state.payments.get(paymentId);
+  if (!payment) {
+    return send(res, 404, razorpayError(404, `Payment not found: ${paymentId}`));
+  }
+  const events = ['created', 'under_review', 'action_required', 'won', 'lost', 'closed'];
+  if (!events.includes(status)) {
+    return send(res, 400, razorpayError(400, `status must be one of ${events.join(', ')}`));
+  }
+
+  let dispute = [...state.disputes.values()].find((candidate) => candidate.payment_id === paymentId);
+  if (!dispute) {
+    dispute = {
+      id: newId('disp_'),
+      entity: 'dispute',
+      payment_id: paymentId,
+      amount: Number.isInteger(amount) ? amount : payment.amount,
+      currency: payment.currency,
+      reason_code: 'chargeback',
+      status: 'open',
+      created_at: nowSeconds(),
+    };
+    state.disputes.set(dispute.id, dispute);
+  }
+  dispute.status = status === 'created' ? 'open' : status;
+
+  await sendRazorpayWebhook(`payment.dispute.${status}`, {
+    payment: { entity: payment },
+    dispute: { entity: dispute },
+  });
+  return send(res, 200, dispute);
+}
+
+/**
+ * Drop-in for https://checkout.razorpay.com/v1/checkout.js
+ * Pays immediately; set window.__FAKE_RAZORPAY_OUTCOME to 'failed' or 'dismissed' to simulate the others.
+ */
+function checkoutScript() {
+  return `(function () {
+  function FakeRazorpay(options) { this.options = options; }
+  FakeRazorpay.prototype.open = function () {
+    var options = this.options;
+    var outcome = window.__FAKE_RAZORPAY_OUTCOME || 'captured';
+    if (outcome === 'dismissed') {
+      if (options.modal && options.modal.ondismiss) options.modal.ondismiss();
+      return;
+    }
+    fetch(${JSON.stringify(`${PUBLIC_URL}/__fake/razorpay/pay`)}, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ order_id: options.order_id, outcome: outcome })
+    })
+      .then(function (response) { return response.json(); })
+      .then(function (result) {
+        if (result.razorpay_payment_id) {
+          options.handler(result);
+        } else if (options.modal && options.modal.ondismiss) {
+          options.modal.ondismiss();
+        }
+      });
+  };
+  FakeRazorpay.prototype.on = function () {};
+  window.Razorpay = FakeRazorpay;
+})();
+`;
+}
+
+// ============================================================================
+// Server
+// ============================================================================
+
+function serveFile(res, name) {
+  const extension = path.extname(name).slice(1);
+  if (extension === 'png') {
+    return send(res, 200, IMAGE_PNG, { 'Content-Type': 'image/png' });
+  }
+  // Every 3D format gets the same binary glTF; the app only inspects GLBs
+  return send(res, 200, MODEL_GLB, {
+    'Content-Type': extension === 'glb' ? 'model/gltf-binary' : 'application/octet-stream',
+    'Content-Length': String(MODEL_GLB.length),
+  });
+}
+
+function snapshotState() {
+  return {
+    meshy_tasks: [...state.meshyTasks.values()].map(meshyTaskJson),
+    predictions: [...state.predictions.values()].map(predictionJson),
+    orders: [...state.orders.values()],
+    payments: [...state.payments.values()],
+    refunds: [...state.refunds.values()],
+    disputes: [...state.disputes.values()],
+    webhooks: state.webhooks,
+    failures: state.failures,
+  };
+}
+
+async function route(req, res) {
+  const url = new URL(req.url, PUBLIC_URL);
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  if (req.method === 'OPTIONS') {
+    return send(res, 204, '', {
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    });
+  }
+
+  if (parts[0] === 'files' && parts[1]) {
+    return serveFile(res, parts[1]);
+  }
+  if (parts[0] === 'openapi' && (parts[1] === 'v1' || parts[1] === 'v2')) {
+    return handleMeshy(req, res, parts[1], parts.slice(2));
+  }
+  if (parts[0] === 'v1' && parts[1] === 'checkout.js') {
+    return send(res, 200, checkoutScript(), { 'Content-Type': 'application/javascript' });
+  }
+  if (parts[0] === 'v1' && (parts[1] === 'orders' || parts[1] === 'payments')) {
+    return handleRazorpay(req, res, parts.slice(1));
+  }
+  if (parts[0] === 'v1') {
+    return handleReplicate(req, res, parts.slice(1));
+  }
+
+  if (parts[0] === '__fake') {
+    const action = parts.slice(1).join('/');
+    if (action === 'health') {
+      return send(res, 200, { ok: true });
+    }
+    if (action === 'state' && req.method === 'GET') {
+      return send(res, 200, snapshotState());
+    }
+    if (action === 'reset' && req.method === 'POST') {
+      state = createState();
+      return send(res, 200, { ok: true });
+    }
+    if (action === 'failures' && req.method === 'POST') {
+      const { vendor, mode, count = 1 } = await readJson(req);
+      if (!state.failures[vendor] || !FAILURE_MODES.includes(mode)) {
+        return send(res, 400, { error: `vendor must be meshy, replicate or razorpay; mode one of ${FAILURE_MODES.join(', ')}` });
+      }
+      state.failures[vendor].push({ mode, remaining: Math.max(1, Number(count) || 1) });
+      return send(res, 200, { ok: true, failures: state.failures });
+    }
+    if (action === 'razorpay/pay' && req.method === 'POST') {
+      return handleFakePay(req, res);
+    }
+    if (action === 'razorpay/disputes' && req.method === 'POST') {
+      return handleFakeDispute(req, res);
+    }
+  }
+
+  return send(res, 404, { error: `No fake vendor route for ${req.method} ${url.pathname}` });
+}
+
+const server = http.createServer((req, res) => {
+  route(req, res).catch((error) => {
+    console.error(`[FakeVendors] ${req.method} ${req.url} failed:`, error);
+    if (!res.headersSent) {
+      send(res, error instanceof SyntaxError ? 400 : 500, { error: error.message });
+    }
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[FakeVendors] Meshy, Replicate and Razorpay stand-ins on ${PUBLIC_URL} (webhooks -> ${APP_URL})`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => server.close(() => process.exit(0)));
+}
@@ -12,8 +12,12 @@ import { Timestamp } from 'firebase/firestore';
 // ============================================================================
 
 export interface UserDocument {
-  credits: number;           // Current credit balance
+  credits: number;           // Current credit balance (includes reserved credits)
+  reserved_credits?: number; // Credits held by in-flight generations
   email: string;             // User email
+  flagged_at?: Timestamp;    // Set when a clawback left the balance negative
+  flag_reason?: string;
+  ledger_opened_at?: Timestamp; // Set once the ledger holds the account's whole balance history
   created_at: Timestamp;     // Account creation date
   updated_at?: Timestamp;    // Last update
 }
@@ -58,18 +62,219 @@ export interface ProjectDocument {
   updated_at?: Timestamp;
   generation_count: number;           // Number of generations for this project
   latest_generation_id?: string;      // ID of the most recent generation
+  floorplan_layout?: FloorplanLayout; // Vector plan traced in the floorplan editor (floorplan-3d)
 }
 
 // ============================================================================
 // Generations Collection
 // ============================================================================
 
-export type GenerationStatus = 'pending' | 'generating' | 'completed' | 'failed';
+export type GenerationStatus = 'pending' | 'generating' | 'completed' | 'failed' | 'cancelled';
 
 export interface GenerationInputData {
   prompt?: string;
   image_path?: string;
+  image_paths?: string[];                  // Ordered reference views (front, side, back...); image_path is the first
   has_image: boolean;
+  post_processing?: PostProcessingOptions; // Applied to the provider's GLB before completion
+  generation_options?: GenerationOptions;  // Model provider settings (text-to-3d)
+  cost?: number;                           // Credits held for the generation, when it isn't the workflow's flat cost
+  refine?: RefineOptions;                  // Set on refine generations: retexture the parent's model
+  floorplan_scale?: FloorplanScale;        // Known length on the uploaded plan (floorplan-3d)
+  floorplan_mode?: FloorplanMode;          // How the floorplan model is built; 'reconstruct' when unset
+  floorplan_layout?: FloorplanLayout;      // Traced plan; 'extrude' builds from it, or reads the image when unset
+  render_style?: string;                   // Render style ID of the isometric view ('reconstruct' floorplans)
+  render_style_prompt?: string;            // The style's prompt when queued, so later template edits don't change the run
+}
+
+export type FloorplanScaleReference = 'wall' | 'scale_bar';
+
+/**
+ * A segment of known real-world length drawn on the uploaded floorplan image
+ * Points are in the image's pixels; the image's size converts them into the plan's extent in meters.
+ */
+export interface FloorplanScale {
+  reference: FloorplanScaleReference;
+  start: [number, number];
+  end: [number, number];
+  length_m: number;
+  image_width: number;
+  image_height: number;
+}
+
+export type FloorplanRoomType =
+  | 'bedroom'
+  | 'bathroom'
+  | 'kitchen'
+  | 'living'
+  | 'dining'
+  | 'hallway'
+  | 'closet'
+  | 'laundry'
+  | 'office'
+  | 'garage'
+  | 'balcony'
+  | 'other';
+
+// Where room areas came from: measured with the floorplan_scale, read off the plan's labels, or unknown
+export type FloorplanAreaSource = 'scale' | 'labels' | 'none';
+
+/**
+ * A point on the plan image, as fractions of its width and height (0..1)
+ * Stored as a map because Firestore can't hold nested arrays.
+ */
+export interface FloorplanPoint {
+  x: number;
+  y: number;
+}
+
+export interface FloorplanRoom {
+  id: string;                       // 'room_1', 'room_2', ... in reading order
+  name: string;                     // Label on the plan, e.g. 'Master Bedroom'
+  type: FloorplanRoomType;
+  polygon: FloorplanPoint[];        // Outline, in order
+  area_m2?: number;                 // Unset when neither a scale nor a label gives the area
+  labelled_area_m2?: number;        // Area written on the plan, converted to m²
+  doors: number;
+  windows: number;
+}
+
+/**
+ * A door or window, with the rooms it opens onto (one for exterior openings)
+ */
+export interface FloorplanOpening {
+  position: FloorplanPoint;
+  room_ids: string[];
+}
+
+/**
+ * Structured description of a floorplan, read from the plan image by a vision model
+ */
+export interface FloorplanExtraction {
+  rooms: FloorplanRoom[];
+  doors: FloorplanOpening[];
+  windows: FloorplanOpening[];
+  total_area_m2?: number;           // Sum of the rooms with a known area
+  area_source: FloorplanAreaSource;
+  source_url: string;               // Plan image the layout was read from
+  model: string;                    // Vision model that read it
+  extracted_at: Timestamp;
+}
+
+// Render the plan isometrically and reconstruct it with TRELLIS, or build walls straight from its layout
+export type FloorplanMode = 'reconstruct' | 'extrude';
+
+/**
+ * A wall's centerline on the plan image
+ */
+export interface FloorplanWall {
+  start: FloorplanPoint;
+  end: FloorplanPoint;
+}
+
+export interface FloorplanLayoutRoom {
+  name: string;
+  type: FloorplanRoomType;
+  polygon: FloorplanPoint[];        // Floor outline; also gives the walls when the layout has none
+}
+
+/**
+ * Vector plan the extrude mode builds its model from
+ * Points are fractions of the plan image, like FloorplanExtraction's; doors and windows sit on a wall.
+ */
+export interface FloorplanLayout {
+  walls: FloorplanWall[];
+  rooms: FloorplanLayoutRoom[];
+  doors: FloorplanPoint[];          // Center of each door
+  windows: FloorplanPoint[];
+  image_width?: number;             // Plan image size in pixels, for its aspect ratio
+  image_height?: number;
+}
+
+/**
+ * A refine generation textures the model of a completed parent generation
+ */
+export interface RefineOptions {
+  parent_generation_id: string;
+  enable_pbr: boolean;
+  texture_prompt?: string;          // Describes the texture; the parent's source image is used otherwise
+}
+
+export type QualityTier = 'draft' | 'standard' | 'high';
+export type MeshyAiModel = 'meshy-4' | 'meshy-5' | 'latest';
+export type MeshTopology = 'triangle' | 'quad';
+export type TextTo3DPipeline = 'image' | 'direct'; // Prompt -> image -> model, or prompt -> model with Meshy text-to-3d
+
+/**
+ * Model provider settings: a quality tier's preset with any per-request overrides applied
+ */
+export interface GenerationOptions {
+  quality: QualityTier;
+  ai_model: MeshyAiModel;
+  should_texture: boolean;
+  enable_pbr: boolean;              // Requires should_texture
+  target_polycount: number;
+  topology: MeshTopology;
+  pipeline: TextTo3DPipeline;       // 'direct' takes a prompt only
+}
+
+export type MeshCompression = 'none' | 'draco' | 'meshopt';
+
+/**
+ * Server-side clean-up of a generated model, chosen when the generation is started
+ */
+export interface PostProcessingOptions {
+  target_triangles?: number;        // Decimate to about this many triangles
+  recenter?: boolean;               // Center on the origin with the base at y = 0
+  target_size_m?: number;           // Scale so the longest side is this many meters
+  target_footprint_m?: number;      // Scale so the longest horizontal side (x or z) is this many meters
+  compression?: MeshCompression;    // Geometry compression of the output GLB
+}
+
+/**
+ * What post-processing did to the model
+ */
+export interface PostProcessingResult {
+  options: PostProcessingOptions;
+  original_model_url: string;       // Provider GLB before processing
+  triangles_before?: number;
+  triangles_after?: number;
+  size_bytes_before?: number;
+  size_bytes_after?: number;
+  dimensions_m?: [number, number, number]; // Bounding box size after processing (x, y, z)
+  error?: string;                   // Set when processing failed and the original model was kept
+}
+
+/**
+ * A texture referenced by the model
+ */
+export interface ModelTextureStats {
+  name?: string;
+  mime_type: string;
+  width?: number;                   // Pixels; unset when the image header can't be read
+  height?: number;
+  size_bytes: number;
+}
+
+/**
+ * Mesh statistics of a generation's GLB, computed once by the server
+ */
+export interface ModelStats {
+  triangles: number;
+  vertices: number;
+  meshes: number;
+  materials: number;
+  textures: ModelTextureStats[];
+  max_texture_resolution?: [number, number]; // Largest texture (width, height)
+  file_size_bytes: number;
+  bounding_box: {
+    min: [number, number, number];
+    max: [number, number, number];
+    size: [number, number, number]; // Meters (x, y, z)
+  };
+  extensions: string[];             // glTF extensions used, e.g. 'KHR_draco_mesh_compression'
+  source_sha256?: string;           // SHA-256 of the GLB the stats were read from
+  inspected_at: Timestamp;
 }
 
 export interface GenerationOutputData {
@@ -90,6 +295,45 @@ export interface GenerationOutputData {
   preview_video_path?: string;      // Legacy field
   meshy_task_id?: string;           // Meshy task ID for tracking
   replicate_prediction_id?: string; // Replicate prediction ID
+  provider?: string;                // Model provider that generated the 3D model ('meshy' | 'trellis' | 'fake'), or 'extrude'
+  provider_task_id?: string;        // Task ID at that provider
+  assets?: Record<string, GenerationAsset>; // Storage copies of the URLs above, keyed by format ('glb', 'thumbnail', 'texture_0_base_color', ...)
+  assets_status?: 'complete' | 'partial'; // Whether every vendor URL was mirrored
+  assets_mirrored_at?: Timestamp;
+  post_processing?: PostProcessingResult;
+  model_stats?: ModelStats;
+  model_stats_error?: string;       // Set when the GLB couldn't be inspected, so it isn't retried on every read
+  floorplan_extraction?: FloorplanExtraction; // Rooms, doors and windows read from the plan (floorplan-3d)
+  floorplan_extraction_error?: string; // Set when the layout couldn't be read; the model is still delivered
+  floorplan_scale_error?: string;   // Set when a floorplan_scale couldn't be applied for lack of a building outline
+}
+
+/**
+ * A provider output copied into our Storage bucket
+ * Vendor URLs expire; the copy is what the viewer and downloads use.
+ */
+export interface GenerationAsset {
+  storage_path: string;
+  url: string;                      // URL of the Storage copy
+  source_url: string;               // Vendor URL it was copied from, the GLB it was converted from, or its own URL if a workflow stored it
+  content_type: string;
+  size_bytes: number;
+  sha256: string;                   // Hex digest of the file
+  mirrored_at: Timestamp;
+  converted_from?: string;          // SHA-256 of the source GLB, for files produced by format conversion
+}
+
+export type GenerationStepStatus = 'running' | 'completed' | 'failed';
+
+export interface GenerationStep {
+  name: string;                       // e.g. 'generate_image', 'image_to_3d'
+  status: GenerationStepStatus;       // 'running' | 'completed' | 'failed'
+  attempts: number;                   // Number of times the step has been started
+  started_at: Timestamp;
+  completed_at?: Timestamp;
+  duration_ms?: number;               // Duration of the last attempt
+  artifacts?: Record<string, any>;    // Step output (URLs, task IDs) used to resume
+  error_message?: string;
 }
 
 export interface GenerationDocument {
@@ -97,49 +341,203 @@ export interface GenerationDocument {
   project_id: string;
   workflow_type: WorkflowType;
   generation_number: number;          // Sequential: 1, 2, 3...
-  status: GenerationStatus;            // 'pending' | 'generating' | 'completed' | 'failed'
+  status: GenerationStatus;            // 'pending' | 'generating' | 'completed' | 'failed' | 'cancelled'
   progress_percentage: number;        // 0-100
   input_data: GenerationInputData;
   output_data?: GenerationOutputData;
+  parent_generation_id?: string;      // Generation this one was refined from
   error_message?: string;
+  steps?: GenerationStep[];           // Checkpointed workflow steps, in execution order
+  credit_hold_id?: string;            // Transaction ID of the credit hold for this generation
+  cancelled_at?: Timestamp;
   created_at: Timestamp;
   updated_at?: Timestamp;
 }
 
+// ============================================================================
+// Jobs Collection
+// ============================================================================
+
+export type JobType = 'generation';
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobPayload {
+  prompt?: string;
+  imagePath?: string;
+  imagePaths?: string[];
+  [key: string]: any;                 // Workflow-specific input
+}
+
+export interface JobDocument {
+  type: JobType;                      // 'generation'
+  status: JobStatus;                  // 'queued' | 'running' | 'completed' | 'failed'
+  user_id: string;
+  workflow_type: WorkflowType;
+  generation_id: string;
+  project_id?: string;
+  payload: JobPayload;                // Input passed to workflow.run()
+  attempts: number;                   // Number of times the job has been claimed
+  max_attempts: number;
+  run_after: Timestamp;               // Earliest time a worker may claim the job
+  lease_owner?: string;               // Worker ID holding the lease
+  lease_expires_at?: Timestamp;       // Lease is reclaimable after this time
+  heartbeat_at?: Timestamp;           // Last heartbeat from the lease owner
+  last_error?: string;
+  created_at: Timestamp;
+  updated_at?: Timestamp;
+  completed_at?: Timestamp;
+}
+
 // ============================================================================
 // Transactions Collection
 // ============================================================================
 
-export type TransactionType = 'purchase' | 'usage';
-export type TransactionStatus = 'pending' | 'completed' | 'failed';
+export type TransactionType = 'purchase' | 'usage' | 'refund' | 'grant' | 'promo' | 'clawback';
+export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'released';
 
 export interface TransactionDocument {
   user_id: string;
-  type: TransactionType;              // 'purchase' | 'usage'
+  type: TransactionType;              // 'purchase' | 'usage' | 'refund' | 'grant' | 'promo' | 'clawback'
   amount: number;                     // Credits
-  status: TransactionStatus;          // 'pending' | 'completed' | 'failed'
+  status: TransactionStatus;          // 'pending' | 'completed' | 'failed' | 'released'
   razorpay_order_id?: string;
   razorpay_payment_id?: string;
   project_id?: string;
   generation_id?: string;
   metadata?: Record<string, any>;     // Additional metadata
   created_at: Timestamp;
+  settled_at?: Timestamp;             // When a credit hold was captured or released
+}
+
+// ============================================================================
+// Ledger Entries Collection
+// ============================================================================
+
+export type LedgerEntryType = 'grant' | 'purchase' | 'usage' | 'refund' | 'adjustment' | 'promo' | 'clawback';
+
+/**
+ * Immutable double-entry ledger line. Every balance change is a journal of two
+ * entries that sum to zero: one on the user's account ('user:<uid>') and one on
+ * a system account ('system:<type>'). The user's balance is the sum of the
+ * entries on their account; users.credits is a cached copy of it.
+ */
+export interface LedgerEntryDocument {
+  journal_id: string;                 // Shared by the entries of one balance change
+  account: string;                    // 'user:<uid>' | 'system:<type>'
+  user_id: string;                    // User whose balance changed
+  amount: number;                     // Signed credits (positive = into the account)
+  type: LedgerEntryType;              // 'grant' | 'purchase' | 'usage' | 'refund' | 'adjustment' | 'promo' | 'clawback'
+  transaction_id?: string;            // Related transactions document
+  generation_id?: string;
+  order_id?: string;                  // Razorpay order ID
+  memo?: string;
+  created_at: Timestamp;
+}
+
+// ============================================================================
+// Credit Packs Collection
+// ============================================================================
+
+export interface CreditPackDocument {
+  name: string;                       // e.g. 'Starter Pack'
+  description?: string;
+  credits: number;                    // Base credits granted
+  bonus_credits?: number;             // Extra credits granted on top (promotions)
+  prices: Record<string, number>;     // Price per currency in the smallest unit, e.g. { INR: 400000 }
+  active: boolean;                    // Master switch
+  active_from?: Timestamp;            // Purchasable from (inclusive)
+  active_until?: Timestamp;           // Purchasable until (exclusive)
+  sort_order?: number;                // Display order on the credits page
+  created_at?: Timestamp;
+  updated_at?: Timestamp;
+}
+
+// ============================================================================
+// Render Styles Collection
+// ============================================================================
+
+/**
+ * Prompt template for the isometric render of a floorplan, keyed by style ID
+ */
+export interface RenderStyleDocument {
+  name: string;                       // e.g. 'Clay model'
+  description?: string;
+  prompt: string;                     // Image edit prompt applied to the uploaded plan
+  active: boolean;                    // Offered in the floorplan form
+  sort_order?: number;                // Display order in the floorplan form
+  created_at?: Timestamp;
+  updated_at?: Timestamp;
+}
+
+// ============================================================================
+// Promo Codes Collection
+// ============================================================================
+
+/**
+ * - 'percentage': percent off the pack price (value 1-100)
+ * - 'fixed': amount off the pack price (value in the smallest unit of `currency`)
+ * - 'bonus_credits': extra credits on top of the pack (value in credits)
+ * - 'free_credits': redemption-only, grants credits without a purchase (value in credits)
+ */
+export type PromoCodeType = 'percentage' | 'fixed' | 'bonus_credits' | 'free_credits';
+
+/**
+ * Document ID is the upper-cased code, e.g. 'LAUNCH20'
+ */
+export interface PromoCodeDocument {
+  type: PromoCodeType;
+  value: number;
+  currency?: string;                  // Required for 'fixed'
+  description?: string;
+  pack_ids?: string[];                // Restrict to these credit packs (order codes only)
+  max_redemptions?: number;           // Total redemptions across all users
+  max_redemptions_per_user?: number;
+  redemption_count: number;
+  active: boolean;                    // Master switch
+  starts_at?: Timestamp;              // Redeemable from (inclusive)
+  expires_at?: Timestamp;             // Redeemable until (exclusive)
+  created_at?: Timestamp;
+  updated_at?: Timestamp;
+}
+
+/**
+ * One use of a promo code: a paid order it was applied to, or a free credit redemption
+ */
+export interface PromoRedemptionDocument {
+  code: string;
+  user_id: string;
+  type: PromoCodeType;
+  order_id?: string;                  // Razorpay order ID for order codes
+  discount_amount?: number;           // Smallest currency unit
+  credits?: number;                   // Bonus or free credits granted
+  created_at: Timestamp;
 }
 
 // ============================================================================
 // Payment Orders Collection
 // ============================================================================
 
-export type PaymentOrderStatus = 'created' | 'completed' | 'failed';
+export type PaymentOrderStatus = 'created' | 'completed' | 'failed' | 'refunded' | 'disputed';
 
 export interface PaymentOrderDocument {
   user_id: string;
   order_id: string;                   // Razorpay order ID
-  amount: number;                      // Amount in paise
+  amount: number;                      // Amount in the currency's smallest unit (e.g. paise)
   currency: string;                    // 'INR'
-  credits: number;                     // Credits to grant
-  status: PaymentOrderStatus;         // 'created' | 'completed' | 'failed'
+  credits: number;                     // Credits to grant (pack credits + bonus)
+  pack_id?: string;                    // Credit pack the order was priced from
+  bonus_credits?: number;              // Bonus included in credits
+  promo_code?: string;                 // Promo code applied at order creation
+  original_amount?: number;            // Pack price before the promo discount
+  discount_amount?: number;            // Promo discount in the smallest unit
+  promo_bonus_credits?: number;        // Promo bonus included in credits
+  promo_rejected?: string;             // PromoError code if the promo code had run out when the order was paid (credits then exclude the promo bonus)
+  status: PaymentOrderStatus;         // 'created' | 'completed' | 'failed' | 'refunded' | 'disputed'
   payment_id?: string;
+  refunded_amount?: number;            // Total refunded, in the smallest unit
+  dispute_id?: string;                 // Razorpay dispute ID
+  dispute_status?: string;             // Razorpay dispute status, e.g. 'open' | 'won' | 'lost'
+  clawed_back_credits?: number;        // Credits taken back for refunds and disputes
   created_at: Timestamp;
   completed_at?: Timestamp;
 }
@@ -162,6 +560,13 @@ export interface GenerationWithId extends GenerationDocument {
   id: string;
 }
 
+/**
+ * Job with ID (for API responses)
+ */
+export interface JobWithId extends JobDocument {
+  id: string;
+}
+
 /**
  * Transaction with ID (for API responses)
  */
@@ -169,6 +574,44 @@ export interface TransactionWithId extends TransactionDocument {
   id: string;
 }
 
+/**
+ * Credit Pack with ID (for API responses)
+ */
+export interface CreditPackWithId extends CreditPackDocument {
+  id: string;
+}
+
+/**
+ * Render Style with ID
+ */
+export interface RenderStyleWithId extends RenderStyleDocument {
+  id: string;
+}
+
+/**
+ * Selectable render style, without its prompt (for API responses)
+ */
+export interface RenderStyleOption {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+/**
+ * Purchasable credit pack priced in one currency (for API responses)
+ */
+export interface CreditPackOffer {
+  id: string;
+  name: string;
+  description?: string;
+  credits: number;
+  bonus_credits: number;
+  total_credits: number;              // credits + bonus_credits
+  amount: number;                     // Price in the currency's smallest unit
+  currency: string;
+  active_until?: string;              // ISO date when the offer ends
+}
+
 /**
  * Payment Order with ID (for API responses)
  */